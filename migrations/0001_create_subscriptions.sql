@@ -0,0 +1,18 @@
+-- 订阅数据（STORAGE_BACKEND = "d1" 时使用）
+CREATE TABLE IF NOT EXISTS subscriptions (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  id TEXT NOT NULL UNIQUE,
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- 续期记录（只追加）
+CREATE TABLE IF NOT EXISTS renewal_history (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT,
+  id TEXT NOT NULL UNIQUE,
+  subscription_id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  renewed_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_renewal_history_subscription ON renewal_history (subscription_id, seq);
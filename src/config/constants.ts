@@ -43,11 +43,13 @@ export const CONFIG = {
         MIN_PERIOD_VALUE: 1,
         MAX_REMINDER_DAYS: 365,
         MIN_REMINDER_DAYS: 0,
+        MAX_REMINDER_STAGES: 10,
     },
 
     // 批处理配置
     BATCH: {
         SUBSCRIPTION_BATCH_SIZE: 50, // KV 批量查询每批数量
+        BULK_MAX_ITEMS: 100, // 批量操作单次最多处理的订阅数
     },
 
     // 错误日志配置
@@ -56,6 +58,95 @@ export const CONFIG = {
         DEFAULT_LIMIT: 50, // 默认查询数量
     },
 
+    // 定时提醒配置
+    REMINDER: {
+        DEFAULT_TIMES: ['08:00'], // 未配置全局提醒时段时使用
+        LEDGER_RETENTION_DAYS: 3, // 发送记录在 KV 中保留的天数
+    },
+
+    // 通知中的提醒操作链接
+    REMINDER_ACTION: {
+        LINK_TTL_DAYS: 14, // 链接有效期
+        SNOOZE_DAYS: 1, // 「推迟」的天数
+        SNOOZE_UNTIL_DAYS_BEFORE: 3, // 「推迟到到期前几天」
+    },
+
+    // 过期提醒策略默认值（天）
+    OVERDUE: {
+        DAILY_DAYS: 7,
+        WEEKLY_UNTIL_DAYS: 30,
+        DEACTIVATE_AFTER_DAYS: 0, // 0 表示不自动停用
+        WEEKLY_INTERVAL: 7,
+        MAX_DAYS: 3650,
+    },
+
+    // 发送失败重试配置
+    DELIVERY_RETRY: {
+        MAX_ATTEMPTS: 5, // 含首次发送，用尽后转入死信队列
+        BASE_DELAY_MINUTES: 5, // 第 n 次重试前等待 5 × 2^(n-1) 分钟
+        MAX_DELAY_MINUTES: 6 * 60,
+        MAX_DEAD_LETTERS: 100, // 最多保留的死信数量
+    },
+
+    // 审计日志配置
+    AUDIT: {
+        MAX_RECORDS: 1000,
+        RETENTION_DAYS: 90,
+        DEFAULT_LIMIT: 100,
+        MAX_LIMIT: 500,
+    },
+
+    // 自动备份配置
+    BACKUP: {
+        DEFAULT_TIME: '03:00',
+        DEFAULT_RETENTION: 7,
+        MAX_RETENTION: 365,
+        DEFAULT_PREFIX: 'backups/',
+        DEFAULT_REGION: 'us-east-1', // R2 也接受 us-east-1
+        FILE_PREFIX: 'subscription-backup-',
+    },
+
+    // 个人 API Token 配置
+    API_TOKEN: {
+        PREFIX: 'smt_', // 明文前缀，便于识别泄露的 Token
+        DISPLAY_LENGTH: 12, // 列表中展示的明文前几位
+        MAX_EXPIRY_DAYS: 3650,
+        TOUCH_INTERVAL_MS: 10 * 60 * 1000, // 最近使用时间的最小更新间隔，减少 KV 写入
+    },
+
+    // 密码强度策略
+    PASSWORD: {
+        MIN_LENGTH: 8,
+        MIN_CHARACTER_CLASSES: 2, // 字母、数字、符号中至少包含的种类
+        COMMON: ['password', 'password1', 'password123', '12345678', '123456789', '1234567890', '11111111', 'qwerty123', 'admin123', 'iloveyou'],
+    },
+
+    // 登录会话配置
+    SESSION: {
+        TOUCH_INTERVAL_MS: 5 * 60 * 1000, // 最近活动时间的最小更新间隔，减少 KV 写入
+    },
+
+    // OIDC 单点登录配置
+    OIDC: {
+        SCOPE: 'openid email profile',
+        STATE_COOKIE: 'oidc_state',
+        STATE_TTL: 600, // 登录流程须在 10 分钟内完成（秒）
+        CLOCK_SKEW: 60, // 校验 ID Token 时允许的时钟偏差（秒）
+        DEFAULT_ROLE: 'viewer' as const,
+    },
+
+    // 两步验证配置
+    TOTP: {
+        ISSUER: 'SubscriptionManager', // 认证器 App 中显示的发行方
+        WINDOW: 1, // 允许前后各 1 个时间步（30 秒）的时钟偏差
+        RECOVERY_CODE_COUNT: 10,
+    },
+
+    // 日历订阅配置
+    CALENDAR: {
+        LUNAR_EXPANSION_YEARS: 3, // 农历订阅向后展开的年数
+    },
+
     // 默认值
     DEFAULTS: {
         ADMIN_USERNAME: 'admin',
@@ -65,9 +156,31 @@ export const CONFIG = {
         PERIOD_VALUE: 1,
         PERIOD_UNIT: 'month' as const,
         BARK_SERVER: 'https://api.day.app',
+        BASE_CURRENCY: 'CNY',
     },
 } as const;
 
+/**
+ * 属于敏感信息的原始配置键（备份时可加密导出）
+ */
+export const SECRET_CONFIG_KEYS = [
+    'ADMIN_PASSWORD',
+    'JWT_SECRET',
+    'THIRD_PARTY_TOKEN',
+    'CALENDAR_TOKEN',
+    'TG_BOT_TOKEN',
+    'NOTIFYX_API_KEY',
+    'WENOTIFY_TOKEN',
+    'WECHATBOT_WEBHOOK',
+    'WECHAT_OA_APPSECRET',
+    'WEBHOOK_HEADERS',
+    'RESEND_API_KEY',
+    'BARK_DEVICE_KEY',
+    'BACKUP_PASSPHRASE',
+    'BACKUP_S3_SECRET_ACCESS_KEY',
+    'OIDC_CLIENT_SECRET',
+] as const;
+
 export const HTTP_STATUS = {
     OK: 200,
     CREATED: 201,
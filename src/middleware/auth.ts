@@ -0,0 +1,113 @@
+/**
+ * 认证中间件
+ * 从 Authorization: Bearer 中的 API Token 或登录 Cookie 中的 JWT 解析当前调用者
+ */
+
+import { Config, Env, Principal, UserRole, ApiTokenScope } from '../types';
+import { verifyJWT } from '../utils/auth';
+import { getBearerToken, getCookieValue } from '../utils/http';
+import { UserService, LEGACY_ADMIN_ID, toPrincipal } from '../services/user';
+import { ApiTokenService } from '../services/apiToken';
+import { SessionService } from '../services/session';
+import { CONFIG } from '../config/constants';
+
+function legacyAdmin(config: Config): Principal {
+  return { userId: LEGACY_ADMIN_ID, username: config.adminUsername || 'admin', role: 'admin' };
+}
+
+/**
+ * 按用户 ID 取得其当前身份，用户被停用或删除时返回 null
+ */
+export async function resolvePrincipal(userId: string, env: Env, config: Config): Promise<Principal | null> {
+  if (userId === LEGACY_ADMIN_ID) return legacyAdmin(config);
+  const user = await new UserService(env).getUser(userId);
+  if (!user || user.disabled) return null;
+  return toPrincipal(user);
+}
+
+/**
+ * 以 API Token 创建者的身份认证，创建者被停用或删除后 Token 随之失效
+ */
+async function authenticateApiToken(plain: string, env: Env, config: Config): Promise<Principal | null> {
+  const token = await new ApiTokenService(env).authenticate(plain);
+  if (!token) return null;
+  const principal = await resolvePrincipal(token.userId, env, config);
+  return principal ? { ...principal, scopes: token.scopes } : null;
+}
+
+/**
+ * 解析请求的调用者，未登录、Token 无效或用户已停用时返回 null
+ * 不含 sub 的 Token 由配置中的管理员账户签发，用户名变更后失效
+ * 用户 Token 中的角色须与当前角色一致，角色变更后需重新登录
+ * 携带 Bearer 令牌时只按 API Token 认证，不再读取 Cookie
+ * Cookie 中的 Token 必须对应一个未吊销的会话
+ */
+export async function authenticateRequest(request: Request, env: Env, config: Config): Promise<Principal | null> {
+  const bearer = getBearerToken(request);
+  if (bearer !== null) return authenticateApiToken(bearer, env, config);
+
+  const token = getCookieValue(request.headers.get('Cookie'), 'token');
+  const sessions = new SessionService(env);
+  const payload = token
+    ? await verifyJWT(token, config.jwtSecret!, (p) => sessions.touch(p.jti, p.sub || LEGACY_ADMIN_ID, request))
+    : null;
+  if (!payload) return null;
+  const sessionId = payload.jti;
+
+  if (!payload.sub || payload.sub === LEGACY_ADMIN_ID) {
+    const admin = legacyAdmin(config);
+    if (payload.username !== admin.username) return null;
+    // 兼容修改密码策略之前签发的 Token：仍在使用明文默认密码时同样要求修改
+    const mustChangePassword = payload.mustChangePassword || config.adminPassword === CONFIG.DEFAULTS.ADMIN_PASSWORD;
+    return mustChangePassword ? { ...admin, sessionId, mustChangePassword } : { ...admin, sessionId };
+  }
+
+  const user = await new UserService(env).getUser(payload.sub);
+  if (!user || user.disabled) return null;
+  const principal = toPrincipal(user);
+  if (payload.role !== principal.role) return null;
+  return payload.mustChangePassword
+    ? { ...principal, sessionId, mustChangePassword: true }
+    : { ...principal, sessionId };
+}
+
+const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+};
+
+/**
+ * 调用者的角色是否不低于 required
+ */
+export function hasRole(principal: Principal | null | undefined, required: UserRole): boolean {
+  return !!principal && ROLE_LEVELS[principal.role] >= ROLE_LEVELS[required];
+}
+
+/**
+ * Cookie 登录不受限制；API Token 必须包含 scope，scope 为空表示该接口不对 API Token 开放
+ */
+export function hasScope(principal: Principal, scope?: ApiTokenScope): boolean {
+  if (!principal.scopes) return true;
+  return !!scope && principal.scopes.includes(scope);
+}
+
+/**
+ * 各项 API Token 权限要求创建者具备的最低角色，与对应接口的角色要求一致
+ */
+const SCOPE_ROLES: Record<ApiTokenScope, UserRole> = {
+  'subscriptions:read': 'viewer',
+  'subscriptions:write': 'editor',
+  notify: 'editor',
+};
+
+/**
+ * 调用者能否创建带 scope 权限的 API Token
+ */
+export function canGrantScope(principal: Principal, scope: ApiTokenScope): boolean {
+  return hasRole(principal, SCOPE_ROLES[scope]);
+}
+
+export function isAdmin(principal: Principal | null | undefined): boolean {
+  return hasRole(principal, 'admin');
+}
@@ -4,3 +4,4 @@
 
 export * from './rateLimit';
 export * from './security';
+export * from './auth';
@@ -1,9 +1,10 @@
 /**
  * 速率限制中间件
- * 使用 Cloudflare KV 实现分布式速率限制
+ * 计数保存在存储层（默认 Cloudflare KV），实现分布式速率限制
  */
 
 import { CONFIG } from '../config/constants';
+import { RateLimitRepository } from '../storage';
 
 /**
  * 速率限制配置
@@ -29,25 +30,17 @@ export interface RateLimitResult {
   resetTime: number;
 }
 
-/**
- * KV 命名空间接口（兼容 Cloudflare KV）
- */
-interface KVNamespace {
-  get(key: string): Promise<string | null>;
-  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
-}
-
 /**
  * 检查是否被速率限制
  * 
- * @param kv - KV 命名空间
+ * @param store - 计数存储
  * @param identifier - 限制标识符（如 IP 地址）
  * @param action - 操作类型（如 'login', 'api'）
  * @param config - 速率限制配置
  * @returns 速率限制结果
  */
 export async function checkRateLimit(
-  kv: KVNamespace,
+  store: RateLimitRepository,
   identifier: string,
   action: string,
   config: RateLimitConfig
@@ -56,18 +49,13 @@ export async function checkRateLimit(
   
   // 计算当前时间窗口
   const bucket = Math.floor(Date.now() / windowMs);
-  const key = `rate:${action}:${identifier}:${bucket}`;
   
   // 计算重置时间
   const resetTime = (bucket + 1) * windowMs;
   
-  // 获取当前计数
-  const val = await kv.get(key);
-  const current = (val ? parseInt(val, 10) : 0) + 1;
-  
   // 更新计数，设置过期时间略长于窗口期
   const ttl = Math.ceil(windowMs / 1000) + 60;
-  await kv.put(key, String(current), { expirationTtl: ttl });
+  const current = await store.increment(action, identifier, bucket, ttl);
   
   const limited = current > maxRequests;
   const remaining = Math.max(0, maxRequests - current);
@@ -83,7 +71,7 @@ export async function checkRateLimit(
 /**
  * 简化的速率限制检查（兼容旧接口）
  * 
- * @param kv - KV 命名空间
+ * @param store - 计数存储
  * @param action - 操作类型
  * @param identifier - 限制标识符
  * @param maxRequests - 最大请求数
@@ -91,13 +79,13 @@ export async function checkRateLimit(
  * @returns 是否被限制
  */
 export async function isRateLimited(
-  kv: KVNamespace,
+  store: RateLimitRepository,
   action: string,
   identifier: string,
   maxRequests: number,
   windowMs: number = 60000
 ): Promise<boolean> {
-  const result = await checkRateLimit(kv, identifier, action, { maxRequests, windowMs });
+  const result = await checkRateLimit(store, identifier, action, { maxRequests, windowMs });
   return result.limited;
 }
 
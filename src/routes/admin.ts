@@ -6,10 +6,10 @@
 import { Env } from '../types';
 import { adminPage } from '../templates/admin';
 import { configPage } from '../templates/config';
+import { passwordPage } from '../templates/password';
 import { getConfig } from '../utils/config';
-import { verifyJWT } from '../utils/auth';
-import { getCookieValue } from '../utils/http';
 import { htmlResponse, redirectResponse } from '../middleware/security';
+import { authenticateRequest, isAdmin } from '../middleware/auth';
 
 /**
  * 处理 Admin 请求
@@ -17,16 +17,25 @@ import { htmlResponse, redirectResponse } from '../middleware/security';
 export async function handleAdminRequest(request: Request, env: Env): Promise<Response> {
     try {
         const url = new URL(request.url);
-        const token = getCookieValue(request.headers.get('Cookie'), 'token');
         const config = await getConfig(env);
-        const user = token ? await verifyJWT(token, config.jwtSecret!) : null;
+        const principal = await authenticateRequest(request, env, config);
 
-        if (!user) {
+        if (!principal) {
             return redirectResponse('/');
         }
 
+        if (url.pathname === '/admin/password') {
+            return htmlResponse(passwordPage);
+        }
+
+        // 使用默认或弱密码登录时必须先修改密码
+        if (principal.mustChangePassword) {
+            return redirectResponse('/admin/password');
+        }
+
+        // 系统配置仅限管理员
         if (url.pathname === '/admin/config') {
-            return htmlResponse(configPage);
+            return isAdmin(principal) ? htmlResponse(configPage) : redirectResponse('/admin');
         }
 
         return htmlResponse(adminPage);
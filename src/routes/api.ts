@@ -3,25 +3,44 @@
  * 处理所有 /api/* 路由
  */
 
-import { Config, Env } from '../types';
+import { Config, Env, Principal, Subscription, UserRole, ApiTokenScope, AuditLogFilter } from '../types';
 import { SubscriptionService } from '../services/subscription';
+import { StatsService } from '../services/stats';
+import { BackupService } from '../services/backup';
+import { UserService, LEGACY_ADMIN_ID, toPrincipal } from '../services/user';
+import { ApiTokenService } from '../services/apiToken';
+import { TwoFactorService } from '../services/twoFactor';
+import { SessionService } from '../services/session';
+import { AuditService, AuditActor, AuditTarget, AuditRecordInput } from '../services/audit';
+import { OidcLoginState, OidcService, readLoginState, signLoginState } from '../services/oidc';
+import { createSnapshot } from '../services/snapshot';
+import { DeliveryQueueService } from '../services/deliveryQueue';
+import { generateCalendar } from '../services/calendar';
+import { REMINDER_ACTION_LABELS, applyReminderAction, readReminderAction } from '../services/reminderAction';
+import { reminderActionPage } from '../templates/reminderAction';
 import {
-    sendNotificationToAllChannels,
-    sendTelegramNotification,
-    sendNotifyXNotification,
-    sendWeNotifyEdgeNotification,
-    sendWebhookNotification,
-    sendWechatBotNotification,
-    sendWeChatOfficialAccountNotification,
-    sendEmailNotification,
-    sendBarkNotification,
-    formatNotificationContent,
-} from '../services/notification';
-import { getConfig, getRawConfig } from '../utils/config';
-import { generateJWT, verifyJWT, generateRandomSecret } from '../utils/auth';
-import { verifyAdminPassword } from '../utils/config';
-import { getCookieValue } from '../utils/http';
+    createSubscriptionRepository,
+    createSnapshotStore,
+    getRepositories,
+    getStorageBackend,
+    migrateSubscriptions,
+} from '../storage';
+import { sendNotificationToAllChannels, formatNotificationContent } from '../services/notification';
+import { NOTIFICATION_CHANNELS, getNotificationChannel } from '../services/channels';
+import {
+    getConfig,
+    getRawConfig,
+    saveRawConfig,
+    getConfigEncryptionStatus,
+    rotateConfigEncryption,
+} from '../utils/config';
+import { generateJWT, generateRandomSecret, generateUrlSafeToken, verifyJWT } from '../utils/auth';
+import { verifyAdminPassword, hashAdminPassword, isHashedAdminPassword, saveAdminPassword } from '../utils/config';
+import { checkPasswordStrength } from '../utils/password';
+import { getBaseCurrency } from '../utils/currency';
 import { isRateLimited, getClientIP } from '../middleware/rateLimit';
+import { authenticateRequest, canGrantScope, hasRole, hasScope, isAdmin, resolvePrincipal } from '../middleware/auth';
+import { getBearerToken, getCookieValue } from '../utils/http';
 import { z } from 'zod';
 import {
     LoginSchema,
@@ -30,8 +49,20 @@ import {
     TestNotificationSchema,
     SubscriptionSchema,
     SubscriptionUpdateSchema,
+    RenewSubscriptionSchema,
+    ToggleStatusSchema,
+    BulkOperationSchema,
+    StorageMigrationSchema,
+    BackupArchiveSchema,
+    UserCreateSchema,
+    UserRoleUpdateSchema,
+    ApiTokenCreateSchema,
+    TwoFactorCodeSchema,
+    PasswordChangeSchema,
+    BulkOperationInput,
 } from '../utils/validation';
-import { jsonResponse, errorResponse, redirectResponse } from '../middleware/security';
+import { jsonResponse, errorResponse, redirectResponse, textResponse, htmlResponse } from '../middleware/security';
+import { CONFIG } from '../config/constants';
 
 /**
  * API 路由上下文
@@ -46,6 +77,44 @@ interface ApiContext {
     ip: string;
 }
 
+/**
+ * 已登录请求的上下文
+ */
+interface AuthedApiContext extends ApiContext {
+    principal: Principal;
+}
+
+/**
+ * 调用者角色低于 required，或 API Token 不含 scope 时返回 403 响应，否则返回 null
+ */
+function requireRole(ctx: AuthedApiContext, required: UserRole, scope?: ApiTokenScope): Response | null {
+    return hasRole(ctx.principal, required) && hasScope(ctx.principal, scope)
+        ? null
+        : errorResponse('Forbidden', 403);
+}
+
+/**
+ * 审计日志中的操作者，未登录时使用调用方提供的名称
+ */
+function auditActor(ctx: ApiContext, principal: Principal | null, name = '匿名'): AuditActor {
+    return principal
+        ? { id: principal.userId, name: principal.username, ip: ctx.ip }
+        : { id: null, name, ip: ctx.ip };
+}
+
+/**
+ * 以当前登录用户的身份记录一条审计日志
+ */
+async function audit(
+    ctx: AuthedApiContext,
+    action: string,
+    target: AuditTarget,
+    before?: object | null,
+    after?: object | null
+): Promise<void> {
+    await new AuditService(ctx.env).record(auditActor(ctx, ctx.principal), action, target, before, after);
+}
+
 /**
  * 处理 API 请求
  */
@@ -71,37 +140,165 @@ export async function handleApiRequest(request: Request, env: Env): Promise<Resp
         return handleLogout(ctx);
     }
 
+    if (path === '/oidc/config' && method === 'GET') {
+        return jsonResponse({ enabled: new OidcService(env, config.oidc).isEnabled() });
+    }
+
+    if (path === '/oidc/login' && method === 'GET') {
+        return handleOidcLogin(ctx);
+    }
+
+    if (path === '/oidc/callback' && method === 'GET') {
+        return handleOidcCallback(ctx);
+    }
+
     if (path.startsWith('/notify/') && method === 'POST') {
         return handleThirdPartyNotify(ctx);
     }
 
+    if (path === '/calendar.ics' && method === 'GET') {
+        return handleCalendarFeed(ctx);
+    }
+
+    if (path === '/reminder-action' && (method === 'GET' || method === 'POST')) {
+        return handleReminderAction(ctx);
+    }
+
     // 需要认证的路由
-    const token = getCookieValue(request.headers.get('Cookie'), 'token');
-    const user = token ? await verifyJWT(token, config.jwtSecret!) : null;
+    const principal = await authenticateRequest(request, env, config);
 
-    if (!user) {
+    if (!principal) {
         return errorResponse('Unauthorized', 401);
     }
 
-    // 认证后的路由
+    const authed: AuthedApiContext = { ...ctx, principal };
+
+    // 使用默认或弱密码登录时，修改密码前不能使用其他接口
+    if (path === '/password' && method === 'POST') {
+        return requireRole(authed, 'viewer') || handlePasswordChange(authed);
+    }
+
+    if (principal.mustChangePassword && path !== '/me') {
+        return errorResponse('请先修改密码', 403);
+    }
+
+    if (path === '/oidc/link' && method === 'GET') {
+        return requireRole(authed, 'viewer') || handleOidcLink(authed);
+    }
+
+    // 只读路由：所有角色（非管理员只能访问自己的订阅）
+    if (path === '/me' && method === 'GET') {
+        return jsonResponse(principal);
+    }
+
+    if (path === '/stats' && method === 'GET') {
+        return requireRole(authed, 'viewer', 'subscriptions:read') || handleStats(authed);
+    }
+
+    if (path === '/exchange-rates' && method === 'GET') {
+        return handleExchangeRates(ctx);
+    }
+
+    // 订阅：viewer 只读，增删改需要 editor
+    if (path === '/subscriptions' || path.startsWith('/subscriptions/')) {
+        const denied = method === 'GET'
+            ? requireRole(authed, 'viewer', 'subscriptions:read')
+            : requireRole(authed, 'editor', 'subscriptions:write');
+        if (denied) return denied;
+
+        if (path === '/subscriptions') {
+            return handleSubscriptionsApi(authed);
+        }
+        if (path === '/subscriptions/bulk' && method === 'POST') {
+            return handleBulkOperation(authed);
+        }
+        return handleSubscriptionByIdApi(authed);
+    }
+
+    if (path === '/test-notification' && method === 'POST') {
+        return requireRole(authed, 'editor', 'notify') || handleTestNotification(authed);
+    }
+
+    // 两步验证与登录会话：当前登录用户，不对 API Token 开放
+    if (path === '/2fa' || path.startsWith('/2fa/')) {
+        return requireRole(authed, 'viewer') || handleTwoFactorApi(authed);
+    }
+
+    if ((path === '/sessions' || path.startsWith('/sessions/')) && (method === 'GET' || method === 'DELETE')) {
+        return requireRole(authed, 'viewer') || handleSessionsApi(authed);
+    }
+
+    // 个人 API Token：所有角色管理自己的 Token，管理员可以查看和吊销全部 Token
+    if (path === '/tokens' && (method === 'GET' || method === 'POST')) {
+        return requireRole(authed, 'viewer') || handleApiTokensApi(authed);
+    }
+
+    if (path.startsWith('/tokens/') && method === 'DELETE') {
+        return requireRole(authed, 'viewer') || handleApiTokenRevoke(authed);
+    }
+
+    // 以下路由仅限管理员登录后访问，不对 API Token 开放
+    const denied = requireRole(authed, 'admin');
+    if (denied) return denied;
+
     if (path === '/config') {
-        return handleConfigApi(ctx, method);
+        return handleConfigApi(authed, method);
+    }
+
+    if (path === '/config/jwt-secret' && method === 'POST') {
+        return handleJwtSecretRotation(authed);
+    }
+
+    if (path === '/config/encryption' && method === 'GET') {
+        return jsonResponse(await getConfigEncryptionStatus(env));
+    }
+
+    if (path === '/config/encryption/rotate' && method === 'POST') {
+        return handleConfigEncryptionRotation(authed);
+    }
+
+    if (path === '/users' && (method === 'GET' || method === 'POST')) {
+        return handleUsersApi(authed, method);
+    }
+
+    if (path.startsWith('/users/') && method === 'POST') {
+        return handleUserByIdApi(authed);
+    }
+
+    if (path === '/calendar/token' && (method === 'GET' || method === 'POST')) {
+        return handleCalendarToken(authed, method);
+    }
+
+    if (path === '/backup' && method === 'GET') {
+        return handleBackup(ctx);
+    }
+
+    if (path === '/backup/snapshot' && method === 'POST') {
+        return handleBackupSnapshot(authed);
+    }
+
+    if (path === '/restore' && method === 'POST') {
+        return handleRestore(authed);
+    }
+
+    if (path === '/storage/migrate' && method === 'POST') {
+        return handleStorageMigration(authed);
     }
 
     if (path === '/failure-logs' && method === 'GET') {
         return handleFailureLogs(ctx);
     }
 
-    if (path === '/test-notification' && method === 'POST') {
-        return handleTestNotification(ctx);
+    if (path === '/deliveries' && method === 'GET') {
+        return handleDeliveryQueue(ctx);
     }
 
-    if (path === '/subscriptions') {
-        return handleSubscriptionsApi(ctx);
+    if (path.startsWith('/deliveries/') && (method === 'POST' || method === 'DELETE')) {
+        return handleDeliveryById(authed);
     }
 
-    if (path.startsWith('/subscriptions/')) {
-        return handleSubscriptionByIdApi(ctx);
+    if (path === '/audit' && method === 'GET') {
+        return handleAuditLogs(ctx);
     }
 
     return errorResponse('Not Found', 404);
@@ -123,7 +320,9 @@ async function handleDevResetLogin(ctx: ApiContext): Promise<Response> {
         if (!raw.JWT_SECRET) {
             raw.JWT_SECRET = generateRandomSecret();
         }
-        await ctx.env.SUBSCRIPTIONS_KV.put('config', JSON.stringify(raw));
+        await saveRawConfig(ctx.env, raw);
+        await getRepositories(ctx.env).twoFactor.delete(LEGACY_ADMIN_ID);
+        await new AuditService(ctx.env).record(auditActor(ctx, null, 'dev'), 'auth.dev_reset', { type: 'user', id: LEGACY_ADMIN_ID, name: 'admin' });
         return jsonResponse({ success: true });
     } catch (e: unknown) {
         const message = e instanceof Error ? e.message : '未知错误';
@@ -137,7 +336,7 @@ async function handleDevResetLogin(ctx: ApiContext): Promise<Response> {
 async function handleLogin(ctx: ApiContext): Promise<Response> {
     try {
         const limited = await isRateLimited(
-            ctx.env.SUBSCRIPTIONS_KV,
+            getRepositories(ctx.env).rateLimits,
             'login',
             ctx.ip,
             10
@@ -154,21 +353,52 @@ async function handleLogin(ctx: ApiContext): Promise<Response> {
         const inputUser = body.username;
         const inputPass = body.password;
 
-        const ok =
+        const isConfigAdmin =
             inputUser === expectedUser &&
             (await verifyAdminPassword(inputPass, expectedPass));
+        const account = isConfigAdmin ? null : await new UserService(ctx.env).authenticate(inputUser, inputPass);
+
+        // 启用两步验证的账户还需要验证码，未提供时提示前端显示输入框
+        const userId = account ? account.id : LEGACY_ADMIN_ID;
+        const twoFactor = new TwoFactorService(ctx.env);
+        if ((isConfigAdmin || account) && (await twoFactor.isEnabled(userId))) {
+            if (!body.totpCode) {
+                return jsonResponse({ success: false, requiresTotp: true, message: '请输入两步验证码' });
+            }
+            if (!(await twoFactor.verify(userId, body.totpCode))) {
+                return jsonResponse({ success: false, requiresTotp: true, message: '验证码错误' });
+            }
+        }
+
+        if (isConfigAdmin || account) {
+            // 明文保存的旧密码在首次登录成功后升级为 bcrypt 哈希
+            if (isConfigAdmin && !isHashedAdminPassword(expectedPass)) {
+                await saveAdminPassword(ctx.env, inputPass);
+            }
 
-        if (ok) {
-            const token = await generateJWT(body.username, ctx.config.jwtSecret!);
-            const secureFlag = ctx.url.protocol === 'https:' ? '; Secure' : '';
+            const mustChangePassword = checkPasswordStrength(inputPass, inputUser) !== null;
+            const username = account ? account.username : expectedUser;
+            const session = await new SessionService(ctx.env).createSession(userId, username, ctx.request);
+            const token = account
+                ? await generateJWT(username, ctx.config.jwtSecret!, undefined, {
+                    sub: account.id,
+                    role: toPrincipal(account).role,
+                    mustChangePassword,
+                    jti: session.id,
+                })
+                : await generateJWT(username, ctx.config.jwtSecret!, undefined, { role: 'admin', mustChangePassword, jti: session.id });
+            await new AuditService(ctx.env).record(
+                { id: userId, name: username, ip: ctx.ip },
+                'auth.login',
+                { type: 'session', id: session.id, name: session.device }
+            );
             return jsonResponse(
-                { success: true },
+                { success: true, mustChangePassword },
                 200,
-                {
-                    'Set-Cookie': `token=${token}; HttpOnly; Path=/; SameSite=Lax; Max-Age=86400${secureFlag}`,
-                }
+                { 'Set-Cookie': sessionCookie(ctx, token) }
             );
         } else {
+            await new AuditService(ctx.env).record(auditActor(ctx, null, inputUser), 'auth.login_failed', { type: 'user', name: inputUser });
             return jsonResponse({ success: false, message: '用户名或密码错误' });
         }
     } catch (e: unknown) {
@@ -179,23 +409,247 @@ async function handleLogin(ctx: ApiContext): Promise<Response> {
     }
 }
 
+function sessionCookie(ctx: ApiContext, token: string): string {
+    const secureFlag = ctx.url.protocol === 'https:' ? '; Secure' : '';
+    return `token=${token}; HttpOnly; Path=/; SameSite=Lax; Max-Age=86400${secureFlag}`;
+}
+
+function clearSessionCookie(ctx: ApiContext): string {
+    const secureFlag = ctx.url.protocol === 'https:' ? '; Secure' : '';
+    return `token=; HttpOnly; Path=/; SameSite=Lax; Max-Age=0${secureFlag}`;
+}
+
+// 绑定单点登录的入口页面，绑定结果通过查询参数显示
+const OIDC_LINK_PAGE = '/admin/password';
+
+function oidcRedirectUri(ctx: ApiContext): string {
+    return `${ctx.url.origin}/api/oidc/callback`;
+}
+
+function oidcStateCookie(ctx: ApiContext, value: string, maxAge: number): string {
+    const secureFlag = ctx.url.protocol === 'https:' ? '; Secure' : '';
+    return `${CONFIG.OIDC.STATE_COOKIE}=${value}; HttpOnly; Path=/api/oidc; SameSite=Lax; Max-Age=${maxAge}${secureFlag}`;
+}
+
 /**
- * 登出处理
+ * 单点登录失败时回到登录页显示错误
  */
-function handleLogout(ctx: ApiContext): Response {
-    const secureFlag = ctx.url.protocol === 'https:' ? '; Secure' : '';
-    return redirectResponse('/', 302, {
-        'Set-Cookie': `token=; HttpOnly; Path=/; SameSite=Lax; Max-Age=0${secureFlag}`,
+function oidcErrorRedirect(ctx: ApiContext, message: string, page = '/'): Response {
+    return redirectResponse(`${page}?sso_error=${encodeURIComponent(message)}`, 302, {
+        'Set-Cookie': oidcStateCookie(ctx, '', 0),
     });
 }
 
+/**
+ * 单点登录：保存签名后的 state/nonce/code_verifier 并跳转到身份提供方
+ */
+async function handleOidcLogin(ctx: ApiContext): Promise<Response> {
+    try {
+        const { url, state } = await new OidcService(ctx.env, ctx.config.oidc).beginLogin(oidcRedirectUri(ctx));
+        const value = await signLoginState(state, ctx.config.jwtSecret!);
+        return redirectResponse(url, 302, { 'Set-Cookie': oidcStateCookie(ctx, value, CONFIG.OIDC.STATE_TTL) });
+    } catch (e: unknown) {
+        return oidcErrorRedirect(ctx, e instanceof Error ? e.message : '单点登录失败');
+    }
+}
+
+/**
+ * 已登录用户绑定单点登录身份：与登录相同的流程，回调时把身份绑定到当前用户
+ */
+async function handleOidcLink(ctx: AuthedApiContext): Promise<Response> {
+    if (ctx.principal.userId === LEGACY_ADMIN_ID) {
+        return oidcErrorRedirect(ctx, '配置中的管理员账户不支持绑定单点登录', OIDC_LINK_PAGE);
+    }
+    try {
+        const { url, state } = await new OidcService(ctx.env, ctx.config.oidc).beginLogin(oidcRedirectUri(ctx), new Date(), ctx.principal.userId);
+        const value = await signLoginState(state, ctx.config.jwtSecret!);
+        return redirectResponse(url, 302, { 'Set-Cookie': oidcStateCookie(ctx, value, CONFIG.OIDC.STATE_TTL) });
+    } catch (e: unknown) {
+        return oidcErrorRedirect(ctx, e instanceof Error ? e.message : '单点登录失败', OIDC_LINK_PAGE);
+    }
+}
+
+/**
+ * 单点登录回调：校验 ID Token 后创建会话，签发与密码登录相同的 Token Cookie
+ * 两步验证由身份提供方负责，这里不再要求验证码；绑定流程只绑定身份，不创建新会话
+ */
+async function handleOidcCallback(ctx: ApiContext): Promise<Response> {
+    let state: OidcLoginState | null = null;
+    try {
+        const limited = await isRateLimited(getRepositories(ctx.env).rateLimits, 'login', ctx.ip, 10);
+        if (limited) {
+            return oidcErrorRedirect(ctx, '请求过于频繁');
+        }
+
+        const cookie = getCookieValue(ctx.request.headers.get('Cookie'), CONFIG.OIDC.STATE_COOKIE);
+        state = await readLoginState(cookie, ctx.config.jwtSecret!);
+        const account = await new OidcService(ctx.env, ctx.config.oidc).completeLogin(
+            ctx.url.searchParams,
+            state,
+            oidcRedirectUri(ctx)
+        );
+
+        if (state?.linkUserId) {
+            await new AuditService(ctx.env).record(
+                { id: account.id, name: account.username, ip: ctx.ip },
+                'user.oidc_link',
+                { type: 'user', id: account.id, name: account.username }
+            );
+            return redirectResponse(`${OIDC_LINK_PAGE}?sso_linked=1`, 302, { 'Set-Cookie': oidcStateCookie(ctx, '', 0) });
+        }
+
+        const session = await new SessionService(ctx.env).createSession(account.id, account.username, ctx.request);
+        const token = await generateJWT(account.username, ctx.config.jwtSecret!, undefined, {
+            sub: account.id,
+            role: toPrincipal(account).role,
+            jti: session.id,
+        });
+        await new AuditService(ctx.env).record(
+            { id: account.id, name: account.username, ip: ctx.ip },
+            'auth.oidc_login',
+            { type: 'session', id: session.id, name: session.device }
+        );
+        const response = redirectResponse('/admin', 302, { 'Set-Cookie': sessionCookie(ctx, token) });
+        response.headers.append('Set-Cookie', oidcStateCookie(ctx, '', 0));
+        return response;
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '单点登录失败';
+        console.error('[单点登录] 登录失败:', message);
+        return oidcErrorRedirect(ctx, message, state?.linkUserId ? OIDC_LINK_PAGE : '/');
+    }
+}
+
+/**
+ * 修改当前用户的密码，成功后吊销该用户的全部会话，并签发不再要求修改密码的新 Token
+ */
+async function handlePasswordChange(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const json: unknown = await ctx.request.json();
+        const body = await PasswordChangeSchema.parseAsync(json);
+        const { userId, username, role } = ctx.principal;
+
+        const issue = checkPasswordStrength(body.newPassword, username);
+        if (issue) {
+            return errorResponse(issue, 400);
+        }
+        if (body.newPassword === body.currentPassword) {
+            return errorResponse('新密码不能与当前密码相同', 400);
+        }
+
+        if (userId === LEGACY_ADMIN_ID) {
+            if (!(await verifyAdminPassword(body.currentPassword, ctx.config.adminPassword || 'password'))) {
+                return errorResponse('当前密码错误', 400);
+            }
+            await saveAdminPassword(ctx.env, body.newPassword);
+        } else {
+            const result = await new UserService(ctx.env).changePassword(userId, body.currentPassword, body.newPassword);
+            if (!result.success) {
+                return errorResponse(result.message || '修改密码失败', 400);
+            }
+        }
+
+        const sessions = new SessionService(ctx.env);
+        await sessions.revokeUserSessions(userId);
+        await audit(ctx, 'user.password_change', { type: 'user', id: userId, name: username });
+        const session = await sessions.createSession(userId, username, ctx.request);
+        const token = await generateJWT(username, ctx.config.jwtSecret!, undefined, {
+            sub: userId === LEGACY_ADMIN_ID ? undefined : userId,
+            role,
+            jti: session.id,
+        });
+        return jsonResponse({ success: true }, 200, { 'Set-Cookie': sessionCookie(ctx, token) });
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        return errorResponse('Invalid request', 400);
+    }
+}
+
+/**
+ * 登出处理：吊销当前会话并清除 Cookie
+ */
+async function handleLogout(ctx: ApiContext): Promise<Response> {
+    const token = getCookieValue(ctx.request.headers.get('Cookie'), 'token');
+    const payload = token ? await verifyJWT(token, ctx.config.jwtSecret!) : null;
+    if (payload?.jti) {
+        await new SessionService(ctx.env).revoke(payload.jti);
+        const actor = { id: payload.sub || LEGACY_ADMIN_ID, name: payload.username, ip: ctx.ip };
+        await new AuditService(ctx.env).record(actor, 'auth.logout', { type: 'session', id: payload.jti });
+    }
+    return redirectResponse('/', 302, { 'Set-Cookie': clearSessionCookie(ctx) });
+}
+
+/**
+ * 登录会话：GET /sessions 列出当前用户的会话，DELETE /sessions 退出全部设备，DELETE /sessions/:id 吊销单个会话
+ */
+async function handleSessionsApi(ctx: AuthedApiContext): Promise<Response> {
+    const sessions = new SessionService(ctx.env);
+    const { userId, sessionId } = ctx.principal;
+    const id = ctx.path.split('/')[2];
+
+    if (ctx.method === 'GET') {
+        return id ? errorResponse('Method not allowed', 405) : jsonResponse(await sessions.listSessions(userId, sessionId));
+    }
+
+    if (!id) {
+        const revoked = await sessions.revokeUserSessions(userId);
+        await audit(ctx, 'session.revoke_all', { type: 'user', id: userId, name: ctx.principal.username }, { sessions: revoked }, { sessions: 0 });
+        return jsonResponse({ success: true, revoked }, 200, { 'Set-Cookie': clearSessionCookie(ctx) });
+    }
+
+    const revoked = await sessions.revoke(id, userId);
+    if (!revoked) {
+        return jsonResponse({ success: false, message: '会话不存在' }, 404);
+    }
+    await audit(ctx, 'session.revoke', { type: 'session', id });
+    return id === sessionId
+        ? jsonResponse({ success: true }, 200, { 'Set-Cookie': clearSessionCookie(ctx) })
+        : jsonResponse({ success: true });
+}
+
+/**
+ * 重新生成 JWT 密钥，所有已签发的 Token 与会话全部失效（包括当前会话）
+ */
+async function handleJwtSecretRotation(ctx: AuthedApiContext): Promise<Response> {
+    const raw = await getRawConfig(ctx.env);
+    const before = { JWT_SECRET: raw.JWT_SECRET };
+    raw.JWT_SECRET = generateRandomSecret();
+    await saveRawConfig(ctx.env, raw);
+    await new SessionService(ctx.env).revokeAll();
+    await audit(ctx, 'config.jwt_secret_rotate', { type: 'config' }, before, { JWT_SECRET: raw.JWT_SECRET });
+    return jsonResponse({ success: true }, 200, { 'Set-Cookie': clearSessionCookie(ctx) });
+}
+
+/**
+ * 用当前主密钥重新加密全部敏感配置
+ * 轮换主密钥时先把旧密钥设为 CONFIG_ENCRYPTION_KEY_PREVIOUS、新密钥设为 CONFIG_ENCRYPTION_KEY，再调用此接口
+ */
+async function handleConfigEncryptionRotation(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const previous = await getConfigEncryptionStatus(ctx.env);
+        const status = await rotateConfigEncryption(ctx.env);
+        await audit(
+            ctx,
+            'config.encryption_rotate',
+            { type: 'config' },
+            { keyId: previous.storedKeyId, plaintextKeys: previous.plaintextKeys },
+            { keyId: status.storedKeyId, plaintextKeys: status.plaintextKeys }
+        );
+        return jsonResponse({ success: true, ...status });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return errorResponse(message, 400);
+    }
+}
+
 /**
  * 第三方通知 API
  */
 async function handleThirdPartyNotify(ctx: ApiContext): Promise<Response> {
     try {
         const limited = await isRateLimited(
-            ctx.env.SUBSCRIPTIONS_KV,
+            getRepositories(ctx.env).rateLimits,
             'notify',
             ctx.ip,
             20
@@ -204,18 +658,32 @@ async function handleThirdPartyNotify(ctx: ApiContext): Promise<Response> {
             return errorResponse('请求过于频繁', 429);
         }
 
-        const tokenHeader = ctx.request.headers.get('X-Notify-Token') || '';
-        const tokenQuery = ctx.url.searchParams.get('token') || '';
-        const providedToken = tokenHeader || tokenQuery;
+        // 也接受带 notify 权限的个人 API Token
+        let principal: Principal | null = null;
+        if (getBearerToken(ctx.request) !== null) {
+            principal = await authenticateRequest(ctx.request, ctx.env, ctx.config);
+            if (!principal || !hasScope(principal, 'notify') || !canGrantScope(principal, 'notify')) {
+                return errorResponse('Unauthorized', 403);
+            }
+        } else {
+            const tokenHeader = ctx.request.headers.get('X-Notify-Token') || '';
+            const tokenQuery = ctx.url.searchParams.get('token') || '';
+            const providedToken = tokenHeader || tokenQuery;
 
-        if (!providedToken || providedToken !== (ctx.config.thirdPartyToken || '')) {
-            return errorResponse('Unauthorized', 403);
+            if (!providedToken || providedToken !== (ctx.config.thirdPartyToken || '')) {
+                return errorResponse('Unauthorized', 403);
+            }
         }
 
         const json = await ctx.request.json();
         const body = await ThirdPartyNotifySchema.parseAsync(json);
 
         await sendNotificationToAllChannels(body.title, body.content, ctx.config, ctx.env, '[第三方API]');
+        await new AuditService(ctx.env).record(
+            auditActor(ctx, principal, '第三方通知'),
+            'notification.third_party',
+            { type: 'notification', name: body.title }
+        );
 
         return jsonResponse({
             message: '发送成功',
@@ -236,16 +704,121 @@ async function handleThirdPartyNotify(ctx: ApiContext): Promise<Response> {
     }
 }
 
+/**
+ * 日历订阅源（iCalendar）
+ * 日历客户端无法携带登录 Cookie，使用查询参数中的专用 Token 认证
+ * 订阅源包含所有用户的订阅，仅限管理员使用：以生成 Token 的管理员身份读取，该账户被停用、删除或降级后订阅源失效
+ */
+async function handleCalendarFeed(ctx: ApiContext): Promise<Response> {
+    try {
+        const limited = await isRateLimited(
+            getRepositories(ctx.env).rateLimits,
+            'calendar',
+            ctx.ip,
+            30
+        );
+        if (limited) {
+            return errorResponse('请求过于频繁', 429);
+        }
+
+        const providedToken = ctx.url.searchParams.get('token') || '';
+        if (!ctx.config.calendarToken || providedToken !== ctx.config.calendarToken) {
+            return errorResponse('Unauthorized', 403);
+        }
+
+        // 旧版本生成的 Token 未记录生成者，视为配置中的管理员账户生成
+        const owner = await resolvePrincipal(ctx.config.calendarTokenOwner || LEGACY_ADMIN_ID, ctx.env, ctx.config);
+        if (!owner || !hasRole(owner, 'admin')) {
+            return errorResponse('Unauthorized', 403);
+        }
+
+        const subscriptions = await new SubscriptionService(ctx.env, owner).getAllSubscriptions();
+        const ics = generateCalendar(subscriptions, { timezone: ctx.config.timezone });
+        return textResponse(ics, 200, 'text/calendar; charset=utf-8', {
+            'Content-Disposition': 'inline; filename="subscriptions.ics"',
+            'Cache-Control': 'private, max-age=300',
+        });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 通知中的提醒操作链接，以链接中的签名认证：GET 显示确认页，POST 执行操作
+ */
+async function handleReminderAction(ctx: ApiContext): Promise<Response> {
+    const page = (title: string, message: string, status = 200, extra: { token?: string; success?: boolean } = {}): Response =>
+        htmlResponse(reminderActionPage({ title, message, ...extra }), status);
+
+    try {
+        const limited = await isRateLimited(
+            getRepositories(ctx.env).rateLimits,
+            'reminder_action',
+            ctx.ip,
+            30
+        );
+        if (limited) {
+            return page('请求过于频繁', '请稍后再试', 429);
+        }
+
+        const token = ctx.method === 'POST'
+            ? String((await ctx.request.formData()).get('token') || '')
+            : ctx.url.searchParams.get('token') || '';
+        const payload = await readReminderAction(token, ctx.config.jwtSecret || '');
+        if (!payload) {
+            return page('链接无效', '链接已过期或无效，请登录管理后台操作', 403);
+        }
+
+        const title = REMINDER_ACTION_LABELS[payload.action];
+        if (ctx.method === 'GET') {
+            const subscription = await new SubscriptionService(ctx.env).getSubscription(payload.subscriptionId);
+            if (!subscription) {
+                return page(title, '订阅不存在', 404);
+            }
+            return page(title, `确认对「${subscription.name}」执行此操作？`, 200, { token });
+        }
+
+        const message = await applyReminderAction(ctx.env, ctx.config, payload, auditActor(ctx, null, '提醒链接'));
+        return page(title, message, 200, { success: true });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return page('操作失败', message, 400);
+    }
+}
+
+/**
+ * 日历订阅地址：GET 返回当前地址（不存在时生成），POST 重置 Token 使旧地址失效
+ */
+async function handleCalendarToken(ctx: AuthedApiContext, method: string): Promise<Response> {
+    try {
+        let token = ctx.config.calendarToken || '';
+        if (!token || method === 'POST') {
+            const previous = token;
+            token = generateUrlSafeToken();
+            const raw = await getRawConfig(ctx.env);
+            await saveRawConfig(ctx.env, { ...raw, CALENDAR_TOKEN: token, CALENDAR_TOKEN_OWNER: ctx.principal.userId });
+            await audit(ctx, 'config.calendar_token_reset', { type: 'config' }, { CALENDAR_TOKEN: previous || undefined }, { CALENDAR_TOKEN: token });
+        }
+        const url = `${ctx.url.origin}/api/calendar.ics?token=${token}`;
+        return jsonResponse({ success: true, url });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return errorResponse(message, 500);
+    }
+}
+
 /**
  * 配置 API
  */
-async function handleConfigApi(ctx: ApiContext, method: string): Promise<Response> {
+async function handleConfigApi(ctx: AuthedApiContext, method: string): Promise<Response> {
     if (method === 'GET') {
         const rawConfig = await getRawConfig(ctx.env);
         const safeConfig = { ...rawConfig };
         delete safeConfig.JWT_SECRET;
         delete safeConfig.ADMIN_PASSWORD;
         delete safeConfig.THIRD_PARTY_TOKEN;
+        delete safeConfig.CALENDAR_TOKEN;
         return jsonResponse(safeConfig);
     }
 
@@ -258,41 +831,49 @@ async function handleConfigApi(ctx: ApiContext, method: string): Promise<Respons
             const updatedConfig: Record<string, unknown> = {
                 ...currentRawConfig,
                 ADMIN_USERNAME: body.ADMIN_USERNAME || currentRawConfig.ADMIN_USERNAME,
-                TG_BOT_TOKEN: body.TG_BOT_TOKEN || '',
-                TG_CHAT_ID: body.TG_CHAT_ID || '',
-                NOTIFYX_API_KEY: body.NOTIFYX_API_KEY || '',
-                WENOTIFY_URL: body.WENOTIFY_URL || '',
-                WENOTIFY_TOKEN: body.WENOTIFY_TOKEN || '',
-                WENOTIFY_USERID: body.WENOTIFY_USERID || '',
-                WENOTIFY_TEMPLATE_ID: body.WENOTIFY_TEMPLATE_ID || '',
-                WENOTIFY_PATH: body.WENOTIFY_PATH || currentRawConfig.WENOTIFY_PATH || '/wxsend',
-                WEBHOOK_URL: body.WEBHOOK_URL || '',
-                WEBHOOK_METHOD: body.WEBHOOK_METHOD || 'POST',
-                WEBHOOK_HEADERS: body.WEBHOOK_HEADERS || '',
-                WEBHOOK_TEMPLATE: body.WEBHOOK_TEMPLATE || '',
                 SHOW_LUNAR: body.SHOW_LUNAR === true,
-                WECHATBOT_WEBHOOK: body.WECHATBOT_WEBHOOK || '',
-                WECHATBOT_MSG_TYPE: body.WECHATBOT_MSG_TYPE || 'text',
-                WECHATBOT_AT_MOBILES: body.WECHATBOT_AT_MOBILES || '',
-                WECHATBOT_AT_ALL: body.WECHATBOT_AT_ALL || 'false',
-                WECHAT_OA_APPID: body.WECHAT_OA_APPID || '',
-                WECHAT_OA_APPSECRET: body.WECHAT_OA_APPSECRET || '',
-                WECHAT_OA_TEMPLATE_ID: body.WECHAT_OA_TEMPLATE_ID || '',
-                WECHAT_OA_USERIDS: body.WECHAT_OA_USERIDS || '',
-                RESEND_API_KEY: body.RESEND_API_KEY || '',
-                EMAIL_FROM: body.EMAIL_FROM || '',
-                EMAIL_FROM_NAME: body.EMAIL_FROM_NAME || '',
-                EMAIL_TO: body.EMAIL_TO || '',
-                BARK_DEVICE_KEY: body.BARK_DEVICE_KEY || '',
-                BARK_SERVER: body.BARK_SERVER || 'https://api.day.app',
-                BARK_IS_ARCHIVE: body.BARK_IS_ARCHIVE || 'false',
                 ENABLED_NOTIFIERS: body.ENABLED_NOTIFIERS || ['notifyx'],
                 TIMEZONE: body.TIMEZONE || currentRawConfig.TIMEZONE || 'UTC',
                 REMINDER_TIMES: body.REMINDER_TIMES || currentRawConfig.REMINDER_TIMES || '',
+                OVERDUE_DAILY_DAYS: body.OVERDUE_DAILY_DAYS ?? CONFIG.OVERDUE.DAILY_DAYS,
+                OVERDUE_WEEKLY_UNTIL_DAYS: body.OVERDUE_WEEKLY_UNTIL_DAYS ?? CONFIG.OVERDUE.WEEKLY_UNTIL_DAYS,
+                OVERDUE_DEACTIVATE_DAYS: body.OVERDUE_DEACTIVATE_DAYS ?? CONFIG.OVERDUE.DEACTIVATE_AFTER_DAYS,
+                PUBLIC_BASE_URL: body.PUBLIC_BASE_URL || '',
+                BASE_CURRENCY: body.BASE_CURRENCY || currentRawConfig.BASE_CURRENCY || 'CNY',
+                EXCHANGE_RATES: body.EXCHANGE_RATES || currentRawConfig.EXCHANGE_RATES || {},
+                BACKUP_ENABLED: body.BACKUP_ENABLED === true,
+                BACKUP_TARGET: body.BACKUP_TARGET || 'r2',
+                BACKUP_TIME: body.BACKUP_TIME || CONFIG.BACKUP.DEFAULT_TIME,
+                BACKUP_RETENTION: body.BACKUP_RETENTION || CONFIG.BACKUP.DEFAULT_RETENTION,
+                BACKUP_PREFIX: body.BACKUP_PREFIX ?? CONFIG.BACKUP.DEFAULT_PREFIX,
+                BACKUP_S3_ENDPOINT: body.BACKUP_S3_ENDPOINT || '',
+                BACKUP_S3_REGION: body.BACKUP_S3_REGION || CONFIG.BACKUP.DEFAULT_REGION,
+                BACKUP_S3_BUCKET: body.BACKUP_S3_BUCKET || '',
+                BACKUP_S3_ACCESS_KEY_ID: body.BACKUP_S3_ACCESS_KEY_ID || '',
+                BACKUP_S3_SECRET_ACCESS_KEY: body.BACKUP_S3_SECRET_ACCESS_KEY || '',
+                BACKUP_PASSPHRASE: body.BACKUP_PASSPHRASE || '',
+                OIDC_ENABLED: body.OIDC_ENABLED === true,
+                OIDC_ISSUER: body.OIDC_ISSUER || '',
+                OIDC_CLIENT_ID: body.OIDC_CLIENT_ID || '',
+                OIDC_CLIENT_SECRET: body.OIDC_CLIENT_SECRET || '',
+                OIDC_ALLOWED_DOMAINS: body.OIDC_ALLOWED_DOMAINS || '',
+                OIDC_DEFAULT_ROLE: body.OIDC_DEFAULT_ROLE || CONFIG.OIDC.DEFAULT_ROLE,
             };
 
+            // 各通知渠道的字段，未填写时使用渠道声明的默认值
+            for (const channel of NOTIFICATION_CHANNELS) {
+                const defaults = channel.configSchema.parse({}) as Record<string, unknown>;
+                for (const key of Object.keys(channel.configSchema.shape)) {
+                    updatedConfig[key] = (body as Record<string, unknown>)[key] || defaults[key];
+                }
+            }
+
+            if (updatedConfig.OIDC_ENABLED && (!updatedConfig.OIDC_ISSUER || !updatedConfig.OIDC_CLIENT_ID)) {
+                return errorResponse('启用单点登录需要填写 Issuer 和 Client ID', 400);
+            }
+
             if (body.ADMIN_PASSWORD) {
-                updatedConfig.ADMIN_PASSWORD = body.ADMIN_PASSWORD;
+                updatedConfig.ADMIN_PASSWORD = await hashAdminPassword(body.ADMIN_PASSWORD);
             }
 
             // 确保第三方Token存在
@@ -304,15 +885,8 @@ async function handleConfigApi(ctx: ApiContext, method: string): Promise<Respons
                 updatedConfig.JWT_SECRET = generateRandomSecret();
             }
 
-            await ctx.env.SUBSCRIPTIONS_KV.put('config', JSON.stringify(updatedConfig));
-
-            // 清除配置缓存
-            try {
-                const { clearConfigCache } = await import('../utils/config');
-                clearConfigCache();
-            } catch (e) {
-                console.error('Failed to clear config cache', e);
-            }
+            await saveRawConfig(ctx.env, updatedConfig);
+            await audit(ctx, 'config.update', { type: 'config' }, currentRawConfig, updatedConfig);
 
             return jsonResponse({ success: true });
         } catch (error: unknown) {
@@ -327,143 +901,228 @@ async function handleConfigApi(ctx: ApiContext, method: string): Promise<Respons
     return errorResponse('Method not allowed', 405);
 }
 
+/**
+ * 支出统计 API
+ */
+async function handleStats(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const daysParam = parseInt(ctx.url.searchParams.get('days') || '');
+        const stats = await new StatsService(ctx.env, ctx.principal).getStats({
+            expiringWithinDays: isNaN(daysParam) ? undefined : Math.max(0, daysParam),
+        });
+        return jsonResponse(stats);
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 完整备份 API
+ * 请求头 X-Backup-Passphrase 存在时加密导出敏感配置
+ */
+async function handleBackup(ctx: ApiContext): Promise<Response> {
+    try {
+        const passphrase = ctx.request.headers.get('X-Backup-Passphrase') || undefined;
+        const archive = await new BackupService(ctx.env).createBackup({ passphrase });
+        const filename = `subscription-backup-${archive.createdAt.slice(0, 10)}.json`;
+        return jsonResponse(archive, 200, {
+            'Content-Disposition': `attachment; filename="${filename}"`,
+        });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 立即执行一次自动备份（写入已配置的 R2 或 S3 存储），不发送通知
+ */
+async function handleBackupSnapshot(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const backup = ctx.config.backup;
+        if (!backup) {
+            return errorResponse('未配置自动备份', 400);
+        }
+        const result = await createSnapshot(ctx.env, backup, createSnapshotStore(ctx.env, backup));
+        await audit(ctx, 'backup.snapshot', { type: 'backup', name: result.key });
+        return jsonResponse({ success: true, ...result });
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '备份失败';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 恢复备份 API
+ * 查询参数 mode=merge|replace（默认 merge），dryRun=true 时只校验并返回变更统计
+ */
+async function handleRestore(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const mode = ctx.url.searchParams.get('mode') || 'merge';
+        if (mode !== 'merge' && mode !== 'replace') {
+            return errorResponse('mode 只能为 merge 或 replace', 400);
+        }
+        const dryRun = ['1', 'true'].includes(ctx.url.searchParams.get('dryRun') || '');
+        const passphrase = ctx.request.headers.get('X-Backup-Passphrase') || undefined;
+
+        const json: unknown = await ctx.request.json();
+        const archive = await BackupArchiveSchema.parseAsync(json);
+        const result = await new BackupService(ctx.env).restore(archive, { mode, dryRun, passphrase });
+        if (result.success && !dryRun) {
+            await audit(ctx, 'backup.restore', { type: 'backup', name: archive.createdAt }, null, { mode });
+        }
+        return jsonResponse(result, result.success ? 200 : 400);
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        if (error instanceof SyntaxError) {
+            return errorResponse('备份文件不是有效的 JSON', 400);
+        }
+        const message = error instanceof Error ? error.message : '恢复失败';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 存储迁移 API：在 KV 与 D1 之间复制订阅数据
+ */
+async function handleStorageMigration(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const json: unknown = await ctx.request.json();
+        const body = await StorageMigrationSchema.parseAsync(json);
+        const source = createSubscriptionRepository(ctx.env, body.from);
+        const target = createSubscriptionRepository(ctx.env, body.to);
+        const result = await migrateSubscriptions(source, target, { overwrite: body.overwrite });
+        await audit(ctx, 'storage.migrate', { type: 'storage', name: `${body.from} → ${body.to}` }, null, {
+            overwrite: body.overwrite,
+            migrated: result.migrated,
+            skipped: result.skipped,
+        });
+        return jsonResponse({ success: true, activeBackend: getStorageBackend(ctx.env), ...result });
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        const message = error instanceof Error ? error.message : '迁移失败';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 汇率 API（供管理页面换算金额使用）
+ */
+function handleExchangeRates(ctx: ApiContext): Response {
+    return jsonResponse({
+        baseCurrency: getBaseCurrency(ctx.config),
+        rates: ctx.config.exchangeRates || {},
+    });
+}
+
 /**
  * 失败日志 API
  */
 async function handleFailureLogs(ctx: ApiContext): Promise<Response> {
     try {
-        const idxRaw = await ctx.env.SUBSCRIPTIONS_KV.get('reminder_failure_index');
-        let idx: Array<{ key: string; id: number }> = [];
-        if (idxRaw) {
-            try {
-                idx = JSON.parse(idxRaw) || [];
-            } catch {
-                // ignore parse error
-            }
+        const limit = parseInt(ctx.url.searchParams.get('limit') || '') || CONFIG.FAILURE_LOG.DEFAULT_LIMIT;
+        const logs = await getRepositories(ctx.env).failureLogs.list(limit);
+        return jsonResponse(logs);
+    } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : '未知错误';
+        return errorResponse(message, 500);
+    }
+}
+
+/**
+ * 发送重试队列 API，查询参数 status 为 pending（等待重试）或 dead（死信）
+ */
+async function handleDeliveryQueue(ctx: ApiContext): Promise<Response> {
+    const status = ctx.url.searchParams.get('status') || undefined;
+    if (status !== undefined && status !== 'pending' && status !== 'dead') {
+        return errorResponse('status 只能是 pending 或 dead', 400);
+    }
+    return jsonResponse(await new DeliveryQueueService(ctx.env).list(status));
+}
+
+/**
+ * 手动重发（POST /deliveries/:id/resend）或删除（DELETE /deliveries/:id）队列中的消息
+ */
+async function handleDeliveryById(ctx: AuthedApiContext): Promise<Response> {
+    const [, , id, action] = ctx.path.split('/');
+    const queue = new DeliveryQueueService(ctx.env);
+
+    if (ctx.method === 'DELETE' && !action) {
+        if (!(await queue.discard(id))) {
+            return jsonResponse({ success: false, message: '记录不存在' }, 404);
         }
-        const limit = parseInt(ctx.url.searchParams.get('limit') || '50');
-        const keys = idx.slice(-limit).reverse();
-        const out: Array<{
-            key: string;
-            id: number;
-            timestamp: string;
-            title: string;
-            failures: Array<{ channel: string; success: boolean }>;
-            successes: Array<{ channel: string; success: boolean }>;
-        }> = [];
-
-        for (const item of keys) {
-            const raw = await ctx.env.SUBSCRIPTIONS_KV.get(item.key);
-            if (!raw) continue;
-            try {
-                const obj = JSON.parse(raw);
-                out.push({ key: item.key, id: item.id, ...obj });
-            } catch {
-                // ignore parse error
-            }
+        await audit(ctx, 'notification.discard', { type: 'delivery', id });
+        return jsonResponse({ success: true });
+    }
+
+    if (ctx.method !== 'POST' || action !== 'resend') {
+        return errorResponse('Not Found', 404);
+    }
+
+    try {
+        const result = await queue.resend(id, ctx.config);
+        if (!result) {
+            return jsonResponse({ success: false, message: '记录不存在' }, 404);
         }
-        return jsonResponse(out);
+        await audit(ctx, 'notification.resend', { type: 'delivery', id }, null, { success: result.success });
+        return jsonResponse(result.success
+            ? { success: true, message: '发送成功' }
+            : { success: false, message: '发送失败，已保留在队列中', delivery: result.delivery });
     } catch (e: unknown) {
         const message = e instanceof Error ? e.message : '未知错误';
-        return errorResponse(message, 500);
+        return jsonResponse({ success: false, message }, 400);
+    }
+}
+
+/**
+ * 审计日志 API
+ * 查询参数 actor、action（可为前缀，如 subscription）、targetType、targetId、since、until、limit
+ */
+async function handleAuditLogs(ctx: ApiContext): Promise<Response> {
+    const params = ctx.url.searchParams;
+    const filter: AuditLogFilter = {};
+    for (const key of ['actor', 'action', 'targetType', 'targetId'] as const) {
+        const value = params.get(key)?.trim();
+        if (value) filter[key] = value;
     }
+    for (const key of ['since', 'until'] as const) {
+        const value = params.get(key);
+        if (!value) continue;
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            return errorResponse(`${key} 不是有效的时间`, 400);
+        }
+        filter[key] = date.toISOString();
+    }
+    const limit = parseInt(params.get('limit') || '') || CONFIG.AUDIT.DEFAULT_LIMIT;
+    return jsonResponse(await new AuditService(ctx.env).list(filter, limit));
 }
 
 /**
  * 测试通知 API
  */
-async function handleTestNotification(ctx: ApiContext): Promise<Response> {
+async function handleTestNotification(ctx: AuthedApiContext): Promise<Response> {
     try {
         const json = await ctx.request.json();
         // 使用 Zod 验证
         const body = await TestNotificationSchema.parseAsync(json);
 
-        let success = false;
-        const tempConfig = { ...ctx.config };
-
-        switch (body.type) {
-            case 'telegram':
-                tempConfig.telegram = {
-                    botToken: body.TG_BOT_TOKEN || ctx.config.telegram?.botToken || '',
-                    chatId: body.TG_CHAT_ID || ctx.config.telegram?.chatId || '',
-                };
-                success = await sendTelegramNotification(
-                    '*测试通知*\n\n这是一条测试通知...',
-                    tempConfig
-                );
-                break;
-
-            case 'notifyx':
-                tempConfig.notifyx = {
-                    apiKey: body.NOTIFYX_API_KEY || ctx.config.notifyx?.apiKey || '',
-                };
-                success = await sendNotifyXNotification('测试通知', '## 测试通知...', '测试描述', tempConfig);
-                break;
-
-            case 'wenotify':
-                tempConfig.wenotify = {
-                    url: body.WENOTIFY_URL || ctx.config.wenotify?.url || '',
-                    token: body.WENOTIFY_TOKEN || ctx.config.wenotify?.token || '',
-                    userid: body.WENOTIFY_USERID || ctx.config.wenotify?.userid || '',
-                    templateId: body.WENOTIFY_TEMPLATE_ID || ctx.config.wenotify?.templateId || '',
-                };
-                success = await sendWeNotifyEdgeNotification('测试通知', '测试通知...', tempConfig, true);
-                break;
-
-            case 'webhook':
-                tempConfig.webhook = {
-                    url: body.WEBHOOK_URL || ctx.config.webhook?.url || '',
-                    method: body.WEBHOOK_METHOD || ctx.config.webhook?.method || 'POST',
-                    headers: body.WEBHOOK_HEADERS || ctx.config.webhook?.headers || '',
-                    template: body.WEBHOOK_TEMPLATE || ctx.config.webhook?.template || '',
-                };
-                success = await sendWebhookNotification('测试通知', '测试通知...', tempConfig);
-                break;
-
-            case 'wechatbot':
-                tempConfig.wechatBot = {
-                    webhook: body.WECHATBOT_WEBHOOK || ctx.config.wechatBot?.webhook || '',
-                    msgType: body.WECHATBOT_MSG_TYPE || ctx.config.wechatBot?.msgType || 'text',
-                    atMobiles: body.WECHATBOT_AT_MOBILES || ctx.config.wechatBot?.atMobiles || '',
-                    atAll: body.WECHATBOT_AT_ALL || ctx.config.wechatBot?.atAll || 'false',
-                };
-                success = await sendWechatBotNotification('测试通知', '测试通知...', tempConfig);
-                break;
-
-            case 'wechatOfficialAccount':
-                tempConfig.wechatOfficialAccount = {
-                    appId: body.WECHAT_OA_APPID || ctx.config.wechatOfficialAccount?.appId || '',
-                    appSecret: body.WECHAT_OA_APPSECRET || ctx.config.wechatOfficialAccount?.appSecret || '',
-                    templateId: body.WECHAT_OA_TEMPLATE_ID || ctx.config.wechatOfficialAccount?.templateId || '',
-                    userIds: body.WECHAT_OA_USERIDS || ctx.config.wechatOfficialAccount?.userIds || '',
-                };
-                success = await sendWeChatOfficialAccountNotification(
-                    '测试通知',
-                    '这是一条测试通知',
-                    tempConfig,
-                    ctx.env
-                );
-                break;
-
-            case 'email':
-                tempConfig.email = {
-                    resendApiKey: body.RESEND_API_KEY || ctx.config.email?.resendApiKey || '',
-                    fromEmail: body.EMAIL_FROM || ctx.config.email?.fromEmail || '',
-                    toEmail: body.EMAIL_TO || ctx.config.email?.toEmail || '',
-                };
-                success = await sendEmailNotification('测试通知', '测试通知...', tempConfig);
-                break;
-
-            case 'bark':
-                tempConfig.bark = {
-                    server: body.BARK_SERVER || ctx.config.bark?.server || '',
-                    deviceKey: body.BARK_DEVICE_KEY || ctx.config.bark?.deviceKey || '',
-                    isArchive: body.BARK_IS_ARCHIVE || ctx.config.bark?.isArchive || 'false',
-                };
-                success = await sendBarkNotification('测试通知', '测试通知...', tempConfig);
-                break;
+        // 表单中填写的字段覆盖已保存的配置，便于保存前先测试
+        const channel = getNotificationChannel(body.type)!;
+        const raw = await getRawConfig(ctx.env);
+        for (const key of Object.keys(channel.configSchema.shape)) {
+            const value = (body as Record<string, unknown>)[key];
+            if (value) raw[key] = value;
         }
+        const tempConfig: Config = { ...ctx.config, [channel.configKey]: channel.parseConfig(raw) };
+        const success = await channel.test(tempConfig, ctx.env);
 
+        await audit(ctx, 'notification.test', { type: 'notification', name: body.type }, null, { success });
         return jsonResponse({
             success,
             message: success ? '发送成功' : '发送失败',
@@ -477,11 +1136,171 @@ async function handleTestNotification(ctx: ApiContext): Promise<Response> {
     }
 }
 
+/**
+ * 用户列表与创建 API
+ */
+async function handleUsersApi(ctx: AuthedApiContext, method: string): Promise<Response> {
+    const userService = new UserService(ctx.env);
+
+    if (method === 'GET') {
+        return jsonResponse(await userService.listUsers());
+    }
+
+    try {
+        const json: unknown = await ctx.request.json();
+        const body = await UserCreateSchema.parseAsync(json);
+        const result = await userService.createUser(body);
+        if (result.user) {
+            await audit(ctx, 'user.create', { type: 'user', id: result.user.id, name: result.user.username }, null, result.user);
+        }
+        return jsonResponse(result, result.success ? 201 : 400);
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        return errorResponse('Invalid request', 400);
+    }
+}
+
+/**
+ * 停用/启用/修改角色：POST /users/:id/disable、/users/:id/enable、/users/:id/role
+ */
+async function handleUserByIdApi(ctx: AuthedApiContext): Promise<Response> {
+    const [, , id, action] = ctx.path.split('/');
+    const userService = new UserService(ctx.env);
+
+    if (action === 'role') {
+        if (id === ctx.principal.userId) {
+            return errorResponse('不能修改当前登录用户的角色', 400);
+        }
+        try {
+            const json: unknown = await ctx.request.json();
+            const body = await UserRoleUpdateSchema.parseAsync(json);
+            const before = await userService.getUser(id);
+            const result = await userService.setRole(id, body.role);
+            if (result.success) {
+                await new SessionService(ctx.env).revokeUserSessions(id);
+                await audit(ctx, 'user.role', { type: 'user', id, name: before?.username }, before, result.user);
+            }
+            return jsonResponse(result, result.success ? 200 : 404);
+        } catch (error: unknown) {
+            if (error instanceof z.ZodError) {
+                return errorResponse(error.errors[0].message, 400);
+            }
+            return errorResponse('Invalid request', 400);
+        }
+    }
+
+    if (action !== 'disable' && action !== 'enable') {
+        return errorResponse('Not Found', 404);
+    }
+    if (id === ctx.principal.userId) {
+        return errorResponse('不能停用当前登录的用户', 400);
+    }
+    const before = await userService.getUser(id);
+    const result = await userService.setDisabled(id, action === 'disable');
+    if (result.success && action === 'disable') {
+        await new SessionService(ctx.env).revokeUserSessions(id);
+    }
+    if (result.success) {
+        await audit(ctx, `user.${action}`, { type: 'user', id, name: before?.username }, before, result.user);
+    }
+    return jsonResponse(result, result.success ? 200 : 404);
+}
+
+/**
+ * 两步验证：GET /2fa 查询状态，POST /2fa/setup|enable|disable|recovery-codes
+ */
+async function handleTwoFactorApi(ctx: AuthedApiContext): Promise<Response> {
+    const twoFactor = new TwoFactorService(ctx.env);
+    const { userId, username } = ctx.principal;
+    const action = ctx.path.split('/')[2];
+
+    if (!action && ctx.method === 'GET') {
+        return jsonResponse(await twoFactor.getStatus(userId));
+    }
+    if (ctx.method !== 'POST') {
+        return errorResponse('Method not allowed', 405);
+    }
+    if (action === 'setup') {
+        const result = await twoFactor.beginSetup(userId, username);
+        if (result.success) {
+            await audit(ctx, 'two_factor.setup', { type: 'user', id: userId, name: username });
+        }
+        return jsonResponse(result, result.success ? 200 : 400);
+    }
+
+    try {
+        const json: unknown = await ctx.request.json();
+        const { code } = await TwoFactorCodeSchema.parseAsync(json);
+        let result: { success: boolean; message?: string };
+        if (action === 'enable') {
+            result = await twoFactor.enable(userId, code);
+        } else if (action === 'disable') {
+            result = await twoFactor.disable(userId, code);
+        } else if (action === 'recovery-codes') {
+            result = await twoFactor.regenerateRecoveryCodes(userId, code);
+        } else {
+            return errorResponse('Not Found', 404);
+        }
+        if (result.success) {
+            await audit(ctx, `two_factor.${action.replace('-', '_')}`, { type: 'user', id: userId, name: username });
+        }
+        return jsonResponse(result, result.success ? 200 : 400);
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        return errorResponse('Invalid request', 400);
+    }
+}
+
+/**
+ * 个人 API Token 列表与创建，新 Token 以当前用户的身份访问，权限不能超过当前角色
+ * 非管理员只能看到自己创建的 Token
+ */
+async function handleApiTokensApi(ctx: AuthedApiContext): Promise<Response> {
+    const tokenService = new ApiTokenService(ctx.env);
+
+    if (ctx.method === 'GET') {
+        return jsonResponse(await tokenService.listTokens(isAdmin(ctx.principal) ? undefined : ctx.principal.userId));
+    }
+
+    try {
+        const json: unknown = await ctx.request.json();
+        const body = await ApiTokenCreateSchema.parseAsync(json);
+        if (body.scopes.some((scope) => !canGrantScope(ctx.principal, scope))) {
+            return errorResponse('Token 权限不能超过当前角色', 403);
+        }
+        const result = await tokenService.createToken(ctx.principal.userId, body);
+        await audit(ctx, 'api_token.create', { type: 'api_token', id: result.apiToken.id, name: result.apiToken.name }, null, result.apiToken);
+        return jsonResponse({ success: true, ...result }, 201);
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        return errorResponse('Invalid request', 400);
+    }
+}
+
+/**
+ * 吊销 API Token：DELETE /tokens/:id，非管理员只能吊销自己创建的 Token
+ */
+async function handleApiTokenRevoke(ctx: AuthedApiContext): Promise<Response> {
+    const id = ctx.path.split('/')[2];
+    const revoked = await new ApiTokenService(ctx.env).revokeToken(id, isAdmin(ctx.principal) ? undefined : ctx.principal.userId);
+    if (!revoked) {
+        return jsonResponse({ success: false, message: 'Token 不存在' }, 404);
+    }
+    await audit(ctx, 'api_token.revoke', { type: 'api_token', id });
+    return jsonResponse({ success: true });
+}
+
 /**
  * 订阅列表 API
  */
-async function handleSubscriptionsApi(ctx: ApiContext): Promise<Response> {
-    const subscriptionService = new SubscriptionService(ctx.env);
+async function handleSubscriptionsApi(ctx: AuthedApiContext): Promise<Response> {
+    const subscriptionService = new SubscriptionService(ctx.env, ctx.principal);
 
     if (ctx.method === 'GET') {
         const subscriptions = await subscriptionService.getAllSubscriptions();
@@ -493,6 +1312,9 @@ async function handleSubscriptionsApi(ctx: ApiContext): Promise<Response> {
             const json = await ctx.request.json();
             const sub = await SubscriptionSchema.parseAsync(json);
             const result = await subscriptionService.createSubscription(sub);
+            if (result.subscription) {
+                await audit(ctx, 'subscription.create', subscriptionTarget(result.subscription), null, result.subscription);
+            }
             return jsonResponse(result, result.success ? 201 : 400);
         } catch (error: unknown) {
             if (error instanceof z.ZodError) {
@@ -505,11 +1327,56 @@ async function handleSubscriptionsApi(ctx: ApiContext): Promise<Response> {
     return errorResponse('Method not allowed', 405);
 }
 
+function subscriptionTarget(subscription: Subscription): AuditTarget {
+    return { type: 'subscription', id: subscription.id, name: subscription.name };
+}
+
+// 批量操作在审计日志中记为对应的单个订阅操作
+const BULK_AUDIT_ACTIONS: Record<BulkOperationInput['action'], string> = {
+    activate: 'subscription.toggle',
+    deactivate: 'subscription.toggle',
+    delete: 'subscription.delete',
+    setCustomType: 'subscription.update',
+    setReminderDays: 'subscription.update',
+    renew: 'subscription.renew',
+};
+
+/**
+ * 批量操作 API，每个成功处理的订阅记录一条审计日志
+ */
+async function handleBulkOperation(ctx: AuthedApiContext): Promise<Response> {
+    try {
+        const json: unknown = await ctx.request.json();
+        const body = await BulkOperationSchema.parseAsync(json);
+        const subscriptionService = new SubscriptionService(ctx.env, ctx.principal);
+        const snapshot = async (): Promise<Map<string, Subscription>> => new Map((await subscriptionService.getAllSubscriptions()).map((s) => [s.id, s]));
+        const before = await snapshot();
+        const result = await subscriptionService.bulkOperation(body);
+        const after = await snapshot();
+
+        const records: AuditRecordInput[] = result.results
+            .filter((r) => r.success && before.has(r.id))
+            .map((r) => ({
+                action: BULK_AUDIT_ACTIONS[body.action],
+                target: subscriptionTarget(before.get(r.id)!),
+                before: before.get(r.id),
+                after: after.get(r.id) ?? null,
+            }));
+        await new AuditService(ctx.env).recordMany(auditActor(ctx, ctx.principal), records);
+        return jsonResponse(result, result.success ? 200 : 400);
+    } catch (error: unknown) {
+        if (error instanceof z.ZodError) {
+            return errorResponse(error.errors[0].message, 400);
+        }
+        return errorResponse('Invalid request', 400);
+    }
+}
+
 /**
  * 单个订阅 API
  */
-async function handleSubscriptionByIdApi(ctx: ApiContext): Promise<Response> {
-    const subscriptionService = new SubscriptionService(ctx.env);
+async function handleSubscriptionByIdApi(ctx: AuthedApiContext): Promise<Response> {
+    const subscriptionService = new SubscriptionService(ctx.env, ctx.principal);
     const parts = ctx.path.split('/');
     const id = parts[2];
 
@@ -529,6 +1396,7 @@ async function handleSubscriptionByIdApi(ctx: ApiContext): Promise<Response> {
             await sendNotificationToAllChannels('订阅提醒测试', content, ctx.config, ctx.env, '[手动测试]', [
                 sub,
             ]);
+            await audit(ctx, 'subscription.test_notify', subscriptionTarget(sub));
             return jsonResponse({ success: true, message: '已发送' });
         } catch (e: unknown) {
             const message = e instanceof Error ? e.message : '未知错误';
@@ -536,6 +1404,50 @@ async function handleSubscriptionByIdApi(ctx: ApiContext): Promise<Response> {
         }
     }
 
+    // 启用/停用
+    if (parts[3] === 'toggle-status' && ctx.method === 'POST') {
+        try {
+            const json: unknown = await ctx.request.json().catch(() => ({}));
+            const body = await ToggleStatusSchema.parseAsync(json);
+            const before = await subscriptionService.getSubscription(id);
+            const result = await subscriptionService.toggleSubscriptionStatus(id, body.isActive);
+            if (before && result.subscription) {
+                await audit(ctx, 'subscription.toggle', subscriptionTarget(before), before, result.subscription);
+            }
+            return jsonResponse(result, result.success ? 200 : 400);
+        } catch (error: unknown) {
+            if (error instanceof z.ZodError) {
+                return errorResponse(error.errors[0].message, 400);
+            }
+            return errorResponse('Invalid request', 400);
+        }
+    }
+
+    // 手动续期
+    if (parts[3] === 'renew' && ctx.method === 'POST') {
+        try {
+            const json: unknown = await ctx.request.json().catch(() => ({}));
+            const body = await RenewSubscriptionSchema.parseAsync(json);
+            const before = await subscriptionService.getSubscription(id);
+            const result = await subscriptionService.renewSubscription(id, body);
+            if (before && result.subscription) {
+                await audit(ctx, 'subscription.renew', subscriptionTarget(before), before, result.subscription);
+            }
+            return jsonResponse(result, result.success ? 200 : 400);
+        } catch (error: unknown) {
+            if (error instanceof z.ZodError) {
+                return errorResponse(error.errors[0].message, 400);
+            }
+            return errorResponse('Invalid request', 400);
+        }
+    }
+
+    // 续期记录
+    if (parts[3] === 'history' && ctx.method === 'GET') {
+        const history = await subscriptionService.getRenewalHistory(id);
+        return jsonResponse(history);
+    }
+
     if (ctx.method === 'GET') {
         const sub = await subscriptionService.getSubscription(id);
         return jsonResponse(sub);
@@ -545,7 +1457,11 @@ async function handleSubscriptionByIdApi(ctx: ApiContext): Promise<Response> {
         try {
             const json = await ctx.request.json();
             const sub = await SubscriptionUpdateSchema.parseAsync(json);
+            const before = await subscriptionService.getSubscription(id);
             const result = await subscriptionService.updateSubscription(id, sub);
+            if (before && result.subscription) {
+                await audit(ctx, 'subscription.update', subscriptionTarget(before), before, result.subscription);
+            }
             return jsonResponse(result, result.success ? 200 : 400);
         } catch (error: unknown) {
             if (error instanceof z.ZodError) {
@@ -556,7 +1472,11 @@ async function handleSubscriptionByIdApi(ctx: ApiContext): Promise<Response> {
     }
 
     if (ctx.method === 'DELETE') {
+        const before = await subscriptionService.getSubscription(id);
         const result = await subscriptionService.deleteSubscription(id);
+        if (before && result.success) {
+            await audit(ctx, 'subscription.delete', subscriptionTarget(before), before, null);
+        }
         return jsonResponse(result, result.success ? 200 : 400);
     }
 
@@ -0,0 +1,88 @@
+import { Env, ApiToken } from '../types';
+import { CONFIG } from '../config/constants';
+import { getRepositories, ApiTokenRepository } from '../storage';
+import { generateUrlSafeToken } from '../utils/auth';
+import { sha256Hex } from '../utils/crypto';
+import { ApiTokenCreateInput } from '../utils/validation';
+
+/**
+ * 对外返回的 Token 信息（不含哈希）
+ */
+export type PublicApiToken = Omit<ApiToken, 'tokenHash'>;
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    userId: token.userId,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt,
+    createdAt: token.createdAt,
+    lastUsedAt: token.lastUsedAt,
+  };
+}
+
+export class ApiTokenService {
+  constructor(private env: Env) { }
+
+  private get repository(): ApiTokenRepository {
+    return getRepositories(this.env).apiTokens;
+  }
+
+  /**
+   * 按创建时间倒序列出 Token，传入 userId 时只返回该用户创建的 Token
+   */
+  async listTokens(userId?: string): Promise<PublicApiToken[]> {
+    const tokens = (await this.repository.list()).filter((token) => userId === undefined || token.userId === userId);
+    return tokens.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toPublicApiToken);
+  }
+
+  /**
+   * 为 userId 创建 Token，明文只在返回值中出现一次
+   */
+  async createToken(userId: string, input: ApiTokenCreateInput, now: Date = new Date()): Promise<{ token: string; apiToken: PublicApiToken }> {
+    const plain = CONFIG.API_TOKEN.PREFIX + generateUrlSafeToken(32);
+    const apiToken: ApiToken = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      tokenHash: await sha256Hex(plain),
+      prefix: plain.slice(0, CONFIG.API_TOKEN.DISPLAY_LENGTH),
+      userId,
+      scopes: Array.from(new Set(input.scopes)),
+      expiresAt: input.expiresInDays
+        ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null,
+      createdAt: now.toISOString(),
+    };
+    await this.repository.create(apiToken);
+    return { token: plain, apiToken: toPublicApiToken(apiToken) };
+  }
+
+  /**
+   * 吊销 Token，传入 userId 时只能吊销该用户创建的 Token
+   */
+  async revokeToken(id: string, userId?: string): Promise<boolean> {
+    const token = await this.repository.get(id);
+    if (!token || (userId !== undefined && token.userId !== userId)) return false;
+    await this.repository.delete(id);
+    return true;
+  }
+
+  /**
+   * 校验明文 Token，过期或已吊销时返回 null
+   */
+  async authenticate(plain: string, now: Date = new Date()): Promise<ApiToken | null> {
+    if (!plain.startsWith(CONFIG.API_TOKEN.PREFIX)) return null;
+    const token = await this.repository.getByHash(await sha256Hex(plain));
+    if (!token) return null;
+    if (token.expiresAt && new Date(token.expiresAt).getTime() <= now.getTime()) return null;
+
+    const lastUsed = token.lastUsedAt ? new Date(token.lastUsedAt).getTime() : 0;
+    if (now.getTime() - lastUsed >= CONFIG.API_TOKEN.TOUCH_INTERVAL_MS) {
+      token.lastUsedAt = now.toISOString();
+      await this.repository.update(token);
+    }
+    return token;
+  }
+}
@@ -0,0 +1,102 @@
+import { AuditChange, AuditEntry, AuditLogFilter, Env } from '../types';
+import { CONFIG, SECRET_CONFIG_KEYS } from '../config/constants';
+import { getRepositories } from '../storage';
+
+/**
+ * 执行操作的一方；未登录的调用（登录失败、第三方通知）id 为 null
+ */
+export interface AuditActor {
+  id: string | null;
+  name: string;
+  ip: string;
+}
+
+export interface AuditTarget {
+  type: string;
+  id?: string;
+  name?: string;
+}
+
+/**
+ * 一次待记录的操作，before/after 为修改前后的对象快照
+ */
+export interface AuditRecordInput {
+  action: string;
+  target: AuditTarget;
+  before?: object | null;
+  after?: object | null;
+}
+
+export const REDACTED = '******';
+
+// 每次保存都会变化，不计入差异
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const SECRET_FIELDS = new Set<string>([
+  ...SECRET_CONFIG_KEYS,
+  'passwordHash',
+  'tokenHash',
+  'secret',
+  'recoveryCodes',
+]);
+
+function redact(field: string, value: unknown): unknown {
+  return value !== undefined && SECRET_FIELDS.has(field) ? REDACTED : value;
+}
+
+/**
+ * 逐字段比较两个对象快照，敏感字段只记录发生了变化，不记录值
+ */
+export function diffAuditFields(before?: object | null, after?: object | null): AuditChange[] {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  const changes: AuditChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(previous[field]) === JSON.stringify(next[field])) continue;
+    const change: AuditChange = { field };
+    if (previous[field] !== undefined) change.before = redact(field, previous[field]);
+    if (next[field] !== undefined) change.after = redact(field, next[field]);
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * 审计日志服务
+ * 记录失败只写控制台，不影响原操作的结果
+ */
+export class AuditService {
+  constructor(private env: Env) { }
+
+  async record(actor: AuditActor, action: string, target: AuditTarget, before?: object | null, after?: object | null): Promise<void> {
+    await this.recordMany(actor, [{ action, target, before, after }]);
+  }
+
+  async recordMany(actor: AuditActor, inputs: AuditRecordInput[], now: Date = new Date()): Promise<void> {
+    const entries: AuditEntry[] = inputs.map((input) => ({
+      id: crypto.randomUUID(),
+      timestamp: now.toISOString(),
+      actorId: actor.id,
+      actor: actor.name,
+      ip: actor.ip,
+      action: input.action,
+      targetType: input.target.type,
+      targetId: input.target.id,
+      targetName: input.target.name,
+      changes: diffAuditFields(input.before, input.after),
+    }));
+    try {
+      await getRepositories(this.env).auditLogs.append(entries);
+    } catch (e: unknown) {
+      console.error('[审计日志] 写入失败:', e instanceof Error ? e.message : e);
+    }
+  }
+
+  async list(filter: AuditLogFilter = {}, limit: number = CONFIG.AUDIT.DEFAULT_LIMIT): Promise<AuditEntry[]> {
+    const capped = Math.min(Math.max(1, limit), CONFIG.AUDIT.MAX_LIMIT);
+    return getRepositories(this.env).auditLogs.list(filter, capped);
+  }
+}
@@ -0,0 +1,272 @@
+import { z } from 'zod';
+import { Env, Subscription, RenewalRecord, UserAccount, ApiToken, TwoFactorRecord, AuditEntry } from '../types';
+import { getRepositories, getStorageBackend, StorageBackend, FailureLogRecord } from '../storage';
+import { CONFIG, SECRET_CONFIG_KEYS } from '../config/constants';
+import { getRawConfig, saveRawConfig } from '../utils/config';
+import { EncryptedPayload, encryptWithPassphrase, decryptWithPassphrase } from '../utils/crypto';
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupArchiveInput,
+  BackupSubscriptionSchema,
+  BackupTwoFactorSchema,
+} from '../utils/validation';
+import { LEGACY_ADMIN_ID } from './user';
+
+/**
+ * 备份文件
+ * 提供口令时，SECRET_CONFIG_KEYS 中的配置从 config 移出并加密保存到 encryptedSecrets，
+ * 两步验证记录（含 TOTP 密钥）加密保存到 encryptedTwoFactor；登录会话不备份，恢复后需要重新登录
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  storageBackend: StorageBackend;
+  subscriptions: Subscription[];
+  history: Record<string, RenewalRecord[]>;
+  config: Record<string, unknown>;
+  encryptedSecrets?: EncryptedPayload;
+  failureLogs: FailureLogRecord[]; // 仅供排查，恢复时不写回
+  users: UserAccount[];
+  apiTokens: ApiToken[];
+  twoFactor: TwoFactorRecord[];
+  encryptedTwoFactor?: EncryptedPayload;
+  auditLogs: AuditEntry[]; // 按时间正序
+}
+
+/**
+ * 恢复模式：merge 保留备份中没有的订阅，replace 删除备份中没有的订阅
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreIssue {
+  index?: number; // 订阅在备份文件中的位置
+  id?: string;
+  message: string;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  dryRun: boolean;
+  mode: RestoreMode;
+  message?: string;
+  errors: RestoreIssue[];
+  warnings: RestoreIssue[]; // 不阻止恢复的问题，例如订阅的所有者不存在
+  subscriptions: { created: number; updated: number; deleted: number };
+  historyRecords: number;
+  configKeys: number;
+  users: number;
+  apiTokens: number;
+  twoFactor: number;
+  auditEntries: number;
+}
+
+function formatIssue(error: z.ZodError): string {
+  const issue = error.errors[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+function recordId(raw: unknown): string | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const id = (raw as { id?: unknown }).id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+export class BackupService {
+  constructor(private env: Env) { }
+
+  /**
+   * 导出订阅、续期记录、配置、用户账户（含 API Token 与两步验证）、审计日志和失败日志
+   */
+  async createBackup(options: { passphrase?: string } = {}): Promise<BackupArchive> {
+    const repositories = getRepositories(this.env);
+    const subscriptions = await repositories.subscriptions.list();
+
+    const history: Record<string, RenewalRecord[]> = {};
+    for (const sub of subscriptions) {
+      const records = await repositories.subscriptions.getHistory(sub.id);
+      if (records.length > 0) history[sub.id] = records;
+    }
+
+    const config = await getRawConfig(this.env);
+    let encryptedSecrets: EncryptedPayload | undefined;
+    if (options.passphrase) {
+      const secrets: Record<string, unknown> = {};
+      for (const key of SECRET_CONFIG_KEYS) {
+        if (key in config) {
+          secrets[key] = config[key];
+          delete config[key];
+        }
+      }
+      encryptedSecrets = await encryptWithPassphrase(JSON.stringify(secrets), options.passphrase);
+    }
+
+    const users = await repositories.users.list();
+    const twoFactor: TwoFactorRecord[] = [];
+    for (const userId of [LEGACY_ADMIN_ID, ...users.map((u) => u.id)]) {
+      const record = await repositories.twoFactor.get(userId);
+      if (record) twoFactor.push(record);
+    }
+    const encryptedTwoFactor = options.passphrase && twoFactor.length > 0
+      ? await encryptWithPassphrase(JSON.stringify(twoFactor), options.passphrase)
+      : undefined;
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      storageBackend: getStorageBackend(this.env),
+      subscriptions,
+      history,
+      config,
+      encryptedSecrets,
+      failureLogs: await repositories.failureLogs.list(CONFIG.FAILURE_LOG.MAX_RECORDS),
+      users,
+      apiTokens: await repositories.apiTokens.list(),
+      twoFactor: encryptedTwoFactor ? [] : twoFactor,
+      encryptedTwoFactor,
+      auditLogs: (await repositories.auditLogs.list({}, CONFIG.AUDIT.MAX_RECORDS)).reverse(),
+    };
+  }
+
+  /**
+   * 从备份恢复
+   * 先校验全部订阅记录与用户，任何一条不合法都不会写入数据；dryRun 只返回将要执行的变更
+   * 用户、API Token 与两步验证按 ID 新增或覆盖（replace 模式也不删除现有账户），审计日志只追加缺少的记录
+   */
+  async restore(
+    archive: BackupArchiveInput,
+    options: { mode?: RestoreMode; dryRun?: boolean; passphrase?: string } = {}
+  ): Promise<RestoreResult> {
+    const mode = options.mode || 'merge';
+    const result: RestoreResult = {
+      success: false,
+      dryRun: !!options.dryRun,
+      mode,
+      errors: [],
+      warnings: [],
+      subscriptions: { created: 0, updated: 0, deleted: 0 },
+      historyRecords: 0,
+      configKeys: 0,
+      users: 0,
+      apiTokens: 0,
+      twoFactor: 0,
+      auditEntries: 0,
+    };
+
+    const subscriptions: Subscription[] = [];
+    const seen = new Set<string>();
+    archive.subscriptions.forEach((raw, index) => {
+      const parsed = BackupSubscriptionSchema.safeParse(raw);
+      if (!parsed.success) {
+        result.errors.push({ index, id: recordId(raw), message: formatIssue(parsed.error) });
+      } else if (seen.has(parsed.data.id)) {
+        result.errors.push({ index, id: parsed.data.id, message: '订阅 ID 重复' });
+      } else {
+        seen.add(parsed.data.id);
+        subscriptions.push(parsed.data as Subscription);
+      }
+    });
+
+    let secrets: Record<string, unknown> = {};
+    let twoFactor: TwoFactorRecord[] = archive.twoFactor;
+    if (archive.encryptedSecrets || archive.encryptedTwoFactor) {
+      if (!options.passphrase) {
+        result.errors.push({ message: '备份中的敏感配置已加密，请提供口令' });
+      } else {
+        try {
+          if (archive.encryptedSecrets) {
+            secrets = JSON.parse(await decryptWithPassphrase(archive.encryptedSecrets, options.passphrase)) as Record<string, unknown>;
+          }
+          if (archive.encryptedTwoFactor) {
+            const decrypted: unknown = JSON.parse(await decryptWithPassphrase(archive.encryptedTwoFactor, options.passphrase));
+            twoFactor = BackupTwoFactorSchema.array().parse(decrypted);
+          }
+        } catch (e: unknown) {
+          result.errors.push({ message: e instanceof z.ZodError ? '两步验证数据格式错误' : e instanceof Error ? e.message : '解密失败' });
+        }
+      }
+    }
+
+    const repositories = getRepositories(this.env);
+    for (const user of archive.users) {
+      const sameName = await repositories.users.getByUsername(user.username);
+      if (sameName && sameName.id !== user.id) {
+        result.errors.push({ id: user.id, message: `用户名 ${user.username} 已被其他账户使用` });
+      }
+    }
+
+    if (result.errors.length > 0) {
+      result.message = '备份校验失败，未写入任何数据';
+      return result;
+    }
+
+    const repository = repositories.subscriptions;
+    const existingIds = new Set((await repository.list()).map((s) => s.id));
+    const toDelete = mode === 'replace' ? Array.from(existingIds).filter((id) => !seen.has(id)) : [];
+
+    const newHistory: RenewalRecord[] = [];
+    for (const sub of subscriptions) {
+      if (existingIds.has(sub.id)) result.subscriptions.updated++;
+      else result.subscriptions.created++;
+
+      const records = archive.history[sub.id] || [];
+      if (records.length === 0) continue;
+      const known = existingIds.has(sub.id)
+        ? new Set((await repository.getHistory(sub.id)).map((r) => r.id))
+        : new Set<string>();
+      newHistory.push(...records.filter((r) => r.subscriptionId === sub.id && !known.has(r.id)));
+    }
+    result.subscriptions.deleted = toDelete.length;
+    result.historyRecords = newHistory.length;
+
+    const restoredConfig = { ...archive.config, ...secrets };
+    result.configKeys = Object.keys(restoredConfig).length;
+
+    // 所有者既不在备份中也不在当前存储中的订阅，恢复后只有管理员可见
+    const userIds = new Set([LEGACY_ADMIN_ID, ...archive.users.map((u) => u.id), ...(await repositories.users.list()).map((u) => u.id)]);
+    for (const sub of subscriptions) {
+      if (sub.ownerId && !userIds.has(sub.ownerId)) {
+        result.warnings.push({ id: sub.id, message: `订阅「${sub.name}」的所有者 ${sub.ownerId} 不存在，恢复后仅管理员可见` });
+      }
+    }
+
+    const knownAudit = new Set((await repositories.auditLogs.list({}, CONFIG.AUDIT.MAX_RECORDS)).map((e) => e.id));
+    const newAudit = archive.auditLogs.filter((e) => !knownAudit.has(e.id));
+    result.users = archive.users.length;
+    result.apiTokens = archive.apiTokens.length;
+    result.twoFactor = twoFactor.length;
+    result.auditEntries = newAudit.length;
+
+    if (!result.dryRun) {
+      if (toDelete.length > 0) await repository.delete(toDelete);
+      for (const sub of subscriptions) {
+        if (existingIds.has(sub.id)) await repository.update(sub);
+        else await repository.create(sub);
+      }
+      for (const record of newHistory) {
+        await repository.appendHistory(record);
+      }
+      if (result.configKeys > 0) {
+        const base = mode === 'merge' ? await getRawConfig(this.env) : {};
+        await saveRawConfig(this.env, { ...base, ...restoredConfig });
+      }
+      for (const user of archive.users as UserAccount[]) {
+        if (await repositories.users.get(user.id)) await repositories.users.update(user);
+        else await repositories.users.create(user);
+      }
+      for (const token of archive.apiTokens) {
+        if (await repositories.apiTokens.get(token.id)) await repositories.apiTokens.update(token);
+        else await repositories.apiTokens.create(token);
+      }
+      for (const record of twoFactor) {
+        await repositories.twoFactor.save(record);
+      }
+      await repositories.auditLogs.append(newAudit);
+    }
+
+    result.success = true;
+    return result;
+  }
+}
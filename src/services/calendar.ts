@@ -0,0 +1,149 @@
+import { Subscription } from '../types';
+import { CONFIG } from '../config/constants';
+import { expandRenewalDates } from './stats';
+
+/**
+ * iCalendar 订阅源生成（RFC 5545）
+ * 每个启用的订阅生成全天事件：公历周期用 RRULE 表示，农历周期按农历逐次展开
+ */
+
+export interface CalendarOptions {
+  name?: string;
+  timezone?: string;
+  now?: Date;
+}
+
+const FREQ: Record<'day' | 'month' | 'year', string> = {
+  day: 'DAILY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * 按 75 字节折行，避免截断多字节字符
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // 续行以一个空格开头
+    if (size + length > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]|\.\d{3}/g, '');
+}
+
+function describe(sub: Subscription): string {
+  const lines: string[] = [];
+  if (sub.customType) lines.push(`类型：${sub.customType}`);
+  if (sub.price !== undefined) lines.push(`金额：${sub.price}${sub.currency ? ' ' + sub.currency : ''}`);
+  if (sub.periodValue && sub.periodUnit) {
+    const unit = { day: '天', month: '个月', year: '年' }[sub.periodUnit];
+    lines.push(`周期：${sub.periodValue}${unit}${sub.useLunar ? '（农历）' : ''}`);
+  }
+  lines.push(sub.autoRenew ? '自动续订' : '到期后不自动续订');
+  if (sub.notes) lines.push(`备注：${sub.notes}`);
+  return lines.join('\n');
+}
+
+function buildEvent(sub: Subscription, uid: string, date: Date, stamp: Date, rrule?: string): string[] {
+  const end = new Date(date.getTime() + 24 * 60 * 60 * 1000);
+  // 设置了分阶段提醒时每个阶段一个提醒
+  const alarmDays = sub.reminderStages && sub.reminderStages.length > 0
+    ? sub.reminderStages.map((s) => s.daysBefore)
+    : [sub.reminderDays ?? CONFIG.DEFAULTS.REMINDER_DAYS];
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    `DTSTART;VALUE=DATE:${formatDate(date)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(`${sub.name} ${sub.autoRenew ? '续费' : '到期'}`)}`,
+    `DESCRIPTION:${escapeText(describe(sub))}`,
+    'TRANSP:TRANSPARENT',
+  ];
+  if (rrule) lines.push(rrule);
+  for (const days of alarmDays) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`${sub.name} 将于 ${days} 天后到期`)}`,
+      `TRIGGER:${days > 0 ? `-P${days}D` : 'PT0S'}`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * 订阅对应的事件
+ * 自动续订的公历订阅生成一条带 RRULE 的事件，农历订阅展开为多条单次事件
+ */
+export function subscriptionEvents(sub: Subscription, now: Date = new Date()): string[] {
+  const expiry = new Date(sub.expiryDate);
+  if (!sub.isActive || isNaN(expiry.getTime())) return [];
+
+  const uid = `${sub.id}@subscription-manager`;
+  const periodUnit = sub.periodUnit;
+  const periodValue = sub.periodValue || 1;
+  if (!sub.autoRenew || !periodUnit) {
+    return buildEvent(sub, uid, expiry, now);
+  }
+
+  if (sub.useLunar) {
+    const until = new Date(now);
+    until.setFullYear(until.getFullYear() + CONFIG.CALENDAR.LUNAR_EXPANSION_YEARS);
+    return expandRenewalDates(sub, expiry, until).flatMap((date) =>
+      buildEvent(sub, `${sub.id}-${formatDate(date)}@subscription-manager`, date, now)
+    );
+  }
+
+  return buildEvent(sub, uid, expiry, now, `RRULE:FREQ=${FREQ[periodUnit]};INTERVAL=${periodValue}`);
+}
+
+/**
+ * 生成完整的 VCALENDAR 文本（CRLF 换行）
+ */
+export function generateCalendar(subscriptions: Subscription[], options: CalendarOptions = {}): string {
+  const now = options.now || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//subscription-manager//Renewals//ZH',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name || '订阅续费')}`,
+  ];
+  if (options.timezone) lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  for (const sub of subscriptions) {
+    lines.push(...subscriptionEvents(sub, now));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
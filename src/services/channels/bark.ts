@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { Config } from '../../types';
+import { CONFIG } from '../../config/constants';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString, stripMarkdown } from './common';
+
+interface BarkApiResponse {
+  code: number;
+  message: string;
+  timestamp?: number;
+  id?: string;
+}
+
+interface BarkPushRequestBody {
+  title: string;
+  body: string;
+  device_key: string;
+  isArchive?: number;
+  sound?: string;
+  icon?: string;
+  group?: string;
+  url?: string;
+  copy?: string;
+  autoCopy?: number;
+}
+
+// Bark
+export async function sendBarkNotification(title: string, content: string, config: Config): Promise<boolean> {
+  try {
+    if (!config.bark?.deviceKey) {
+      console.error('[Bark] 通知未配置，缺少设备Key');
+      return false;
+    }
+
+    const serverUrl = config.bark.server || 'https://api.day.app';
+    const url = serverUrl + '/push';
+    const payload: BarkPushRequestBody = {
+      title: title,
+      body: content,
+      device_key: config.bark.deviceKey
+    };
+
+    if (config.bark.isArchive === 'true') {
+      payload.isArchive = 1;
+    }
+
+    const response = await requestWithRetry(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8'
+      },
+      body: JSON.stringify(payload)
+    }, 2, 8000);
+
+    const result = (await response.json()) as BarkApiResponse;
+    return result.code === 200;
+  } catch (error) {
+    console.error('[Bark] 发送通知失败:', error);
+    return false;
+  }
+}
+
+export const barkChannel: NotificationChannel<'bark'> = {
+  id: 'bark',
+  name: 'Bark',
+  configKey: 'bark',
+  configSchema: z.object({
+    BARK_DEVICE_KEY: z.string().optional().default(''),
+    BARK_SERVER: z.string().url().optional().default(CONFIG.DEFAULTS.BARK_SERVER),
+    BARK_IS_ARCHIVE: z.string().optional().default('false'),
+  }),
+  parseConfig: (raw) => ({
+    server: readString(raw, 'BARK_SERVER', CONFIG.DEFAULTS.BARK_SERVER),
+    deviceKey: readString(raw, 'BARK_DEVICE_KEY'),
+    isArchive: readString(raw, 'BARK_IS_ARCHIVE', 'false'),
+  }),
+  format: (_title, content) => stripMarkdown(content),
+  send: (message, config) => sendBarkNotification(message.title, message.content, config),
+  test: (config) => sendBarkNotification('测试通知', '测试通知...', config),
+  adminAlert: true,
+};
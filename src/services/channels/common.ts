@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { ChannelConfigs, Config, Env, Subscription } from '../../types';
+
+/**
+ * 通知渠道插件接口
+ * 新增渠道只需实现此接口并在 index.ts 中注册，配置解析、配置校验、测试通知与提醒发送都遍历注册表
+ */
+
+/**
+ * 一条待发送的消息，content 已按渠道格式化
+ */
+export interface ChannelMessage {
+  title: string;
+  content: string;
+  description?: string; // 消息摘要，目前只有 NotifyX 使用
+}
+
+export interface NotificationChannel<K extends keyof ChannelConfigs = keyof ChannelConfigs> {
+  id: string; // ENABLED_NOTIFIERS 与测试通知中使用的标识
+  name: string; // 日志中显示的名称
+  configKey: K;
+
+  /**
+   * 原始配置字段及默认值，ConfigSchema 由全部渠道的字段合并而成
+   */
+  configSchema: z.ZodObject<z.ZodRawShape>;
+
+  /**
+   * 从原始配置解析出 Config 中对应的渠道配置
+   */
+  parseConfig(raw: Record<string, unknown>): NonNullable<Config[K]>;
+
+  /**
+   * 没有订阅数据（测试、告警、第三方通知）时，把通用内容转换为渠道格式
+   */
+  format(title: string, content: string): string;
+
+  /**
+   * 没有订阅数据时逐个发送的接收方，未实现时只发送一次
+   */
+  recipients?(config: Config): string[];
+
+  /**
+   * 按订阅的接收方设置分组，键为空字符串表示使用全局配置；未实现时所有订阅合并为一条消息
+   */
+  distribute?(subscriptions: Subscription[], config: Config): Map<string, Subscription[]>;
+
+  /**
+   * 为一组订阅生成渠道专用的提醒内容，与 distribute 一起使用
+   */
+  formatSubscriptions?(subscriptions: Subscription[], config: Config): string;
+
+  send(message: ChannelMessage, config: Config, env: Env | null, target?: string): Promise<boolean>;
+
+  /**
+   * 发送测试通知，失败时可以抛出错误以返回具体原因
+   */
+  test(config: Config, env: Env | null): Promise<boolean>;
+
+  adminAlert: boolean; // 其他渠道发送失败时，是否可用于通知管理员
+}
+
+/**
+ * 读取字符串类型的原始配置，缺失或为空时返回 fallback
+ */
+export function readString(raw: Record<string, unknown>, key: string, fallback = ''): string {
+  const value = raw[key];
+  return (typeof value === 'string' ? value : '') || fallback;
+}
+
+/**
+ * 去掉 Markdown 标记，用于不支持 Markdown 的渠道
+ */
+export function stripMarkdown(content: string): string {
+  return content.replace(/(\**|\*|##|#|`)/g, '');
+}
+
+/**
+ * 拆分以 , ; | 分隔的接收方列表
+ */
+export function splitList(value: string | undefined, separator: RegExp = /[,;|]/): string[] {
+  return (value || '').split(separator).map((s) => s.trim()).filter(Boolean);
+}
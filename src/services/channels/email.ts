@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { Config, Subscription } from '../../types';
+import { formatTimeInTimezone } from '../../utils/date';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString, splitList, stripMarkdown } from './common';
+import { formatNotificationContent } from './format';
+
+interface ResendEmailResponse {
+  id: string;
+  from: string;
+  to: string | string[];
+  created_at: string;
+}
+
+/**
+ * 分发邮件通知内容
+ */
+export function distributeEmailNotifications(subscriptions: Subscription[], config: Config): Map<string, Subscription[]> {
+  const distribution = new Map<string, Subscription[]>();
+  const globalEmails = (config.email?.toEmail || '').split(/[,;|]/).map(s => s.trim()).filter(Boolean);
+
+  for (const sub of subscriptions) {
+    let targets: string[] = [];
+    if (sub.emailAddresses) {
+      targets = sub.emailAddresses.split(/[,;|]/).map(s => s.trim()).filter(Boolean);
+    }
+
+    if (targets.length === 0) {
+      targets = globalEmails.length > 0 ? globalEmails : [''];
+    }
+
+    for (const email of targets) {
+      if (!distribution.has(email)) {
+        distribution.set(email, []);
+      }
+      distribution.get(email)!.push(sub);
+    }
+  }
+  return distribution;
+}
+
+// Email
+export async function sendEmailNotification(title: string, content: string, config: Config, recipientEmail?: string): Promise<boolean> {
+  try {
+    const finalToEmail = recipientEmail || config.email?.toEmail;
+    if (!config.email?.resendApiKey || !config.email?.fromEmail || !finalToEmail) {
+      console.error('[邮件通知] 通知未配置，缺少必要参数');
+      return false;
+    }
+
+    // 生成HTML邮件内容
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #f5f5f5; }
+        .container { max-width: 600px; margin: 0 auto; background-color: #ffffff; }
+        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px 20px; text-align: center; }
+        .header h1 { color: white; margin: 0; font-size: 24px; }
+        .content { padding: 30px 20px; }
+        .content h2 { color: #333; margin-top: 0; }
+        .content p { color: #666; line-height: 1.6; margin: 16px 0; }
+        .footer { background-color: #f8f9fa; padding: 20px; text-align: center; color: #666; font-size: 14px; }
+        .highlight { background-color: #e3f2fd; padding: 15px; border-radius: 8px; margin: 20px 0; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>📅 ${title}</h1>
+        </div>
+        <div class="content">
+            <div class="highlight">
+                ${content.replace(/\n/g, '<br>')}
+            </div>
+            <p>此邮件由订阅管理系统自动发送，请及时处理相关订阅事务。</p>
+        </div>
+        <div class="footer">
+            <p>订阅管理系统 | 发送时间: ${formatTimeInTimezone(new Date(), config.timezone || 'UTC', 'datetime')}</p>
+        </div>
+    </div>
+</body>
+</html>`;
+
+    const fromEmail = config.email.fromEmail.includes('<') ?
+      config.email.fromEmail :
+      (config.email.fromEmail ? `Notification <${config.email.fromEmail}>` : '');
+
+    const response = await requestWithRetry('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.email.resendApiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: fromEmail,
+        to: finalToEmail,
+        subject: title,
+        html: htmlContent,
+        text: content
+      })
+    }, 1, 10000);
+
+    const result = await response.json<ResendEmailResponse>();
+    return response.ok && !!result.id;
+  } catch (error) {
+    console.error('[邮件通知] 发送邮件失败:', error);
+    return false;
+  }
+}
+
+export const emailChannel: NotificationChannel<'email'> = {
+  id: 'email',
+  name: '邮件',
+  configKey: 'email',
+  configSchema: z.object({
+    RESEND_API_KEY: z.string().optional().default(''),
+    EMAIL_FROM: z.string().email().optional().or(z.literal('')).default(''),
+    EMAIL_FROM_NAME: z.string().optional().default(''),
+    EMAIL_TO: z.string().optional().default(''),
+  }),
+  parseConfig: (raw) => ({
+    resendApiKey: readString(raw, 'RESEND_API_KEY'),
+    fromEmail: readString(raw, 'EMAIL_FROM'),
+    toEmail: readString(raw, 'EMAIL_TO'),
+  }),
+  format: (_title, content) => stripMarkdown(content),
+  recipients: (config) => splitList(config.email?.toEmail),
+  distribute: distributeEmailNotifications,
+  formatSubscriptions: formatNotificationContent,
+  send: (message, config, _env, target) => sendEmailNotification(message.title, message.content, config, target),
+  test: (config) => sendEmailNotification('测试通知', '测试通知...', config),
+  adminAlert: true,
+};
@@ -0,0 +1,229 @@
+import { Subscription, Config } from '../../types';
+import { formatTimeInTimezone, formatTimezoneDisplay } from '../../utils/date';
+import { lunarCalendar } from '../../utils/lunar';
+import { formatPriceWithConversion } from '../../utils/currency';
+
+/**
+ * 格式化通知内容
+ */
+export function formatNotificationContent(subscriptions: Subscription[], config: Config): string {
+  const showLunar = config.showLunarGlobal === true;
+  const timezone = config.timezone || 'UTC';
+  let content = '';
+
+  for (const sub of subscriptions) {
+    const typeText = sub.customType || '其他';
+    const periodText = (sub.periodValue && sub.periodUnit) ? `(周期: ${sub.periodValue} ${{ day: '天', month: '月', year: '年' }[sub.periodUnit] || sub.periodUnit})` : '';
+
+    // 格式化到期日期（使用所选时区）
+    const expiryDateObj = new Date(sub.expiryDate);
+    const formattedExpiryDate = formatTimeInTimezone(expiryDateObj, timezone, 'date');
+
+    // 农历日期
+    let lunarExpiryText = '';
+    if (showLunar) {
+      const lunarExpiry = lunarCalendar.solar2lunar(expiryDateObj.getFullYear(), expiryDateObj.getMonth() + 1, expiryDateObj.getDate());
+      lunarExpiryText = lunarExpiry ? `\n农历日期: ${lunarExpiry.fullStr}` : '';
+    }
+
+    // 状态和到期时间
+    let statusText = '';
+    let statusEmoji = '';
+
+    // 计算剩余天数（需要根据时区重新计算，确保准确）
+    // 这里简单使用 sub.daysRemaining，假设调用前已更新
+    if (sub.daysRemaining === 0) {
+      statusEmoji = '⚠️';
+      statusText = '今天到期！';
+    } else if (sub.daysRemaining !== undefined && sub.daysRemaining < 0) {
+      statusEmoji = '🚨';
+      statusText = `已过期 ${Math.abs(sub.daysRemaining)} 天`;
+    } else {
+      statusEmoji = '📅';
+      statusText = `将在 ${sub.daysRemaining} 天后到期`;
+    }
+
+    // 获取日历类型和自动续期状态
+    const calendarType = sub.useLunar ? '农历' : '公历';
+    const autoRenewText = sub.autoRenew ? '是' : '否';
+
+    // 构建格式化的通知内容
+    const subscriptionContent = `${statusEmoji} **${sub.name}**
+类型: ${typeText} ${periodText}
+日历类型: ${calendarType}
+到期日期: ${formattedExpiryDate}${lunarExpiryText}
+自动续期: ${autoRenewText}
+到期状态: ${statusText}`;
+
+    // 添加金额（非基础货币时附带换算金额）
+    const priceContent = sub.price !== undefined ?
+      subscriptionContent + `\n金额: ${formatPriceWithConversion(sub.price, sub.currency, config)}` :
+      subscriptionContent;
+
+    // 添加备注
+    const finalContent = sub.notes ?
+      priceContent + `\n备注: ${sub.notes}` :
+      priceContent;
+
+    // 添加提醒操作链接（推迟、确认、标记已续订）
+    const actionContent = sub.actionLinks && sub.actionLinks.length > 0 ?
+      finalContent + '\n快捷操作:\n' + sub.actionLinks.map((link) => `- ${link.label}: ${link.url}`).join('\n') :
+      finalContent;
+
+    content += actionContent + '\n\n';
+  }
+
+  // 添加发送时间和时区信息
+  const currentTime = formatTimeInTimezone(new Date(), timezone, 'datetime');
+  content += `发送时间: ${currentTime}\n当前时区: ${formatTimezoneDisplay(timezone)}`;
+
+  return content;
+}
+
+/**
+ * 把 formatNotificationContent 生成的操作链接行改写为 Markdown 链接
+ * 链接中的 token 常含 _，作为纯文本发送到解析 Markdown 的渠道时会被当作斜体标记
+ */
+export function toMarkdownActionLinks(content: string): string {
+  return content.replace(/^- (.+): (https?:\/\/\S+)$/gm, (_line, label: string, url: string) => `- [${label}](${url})`);
+}
+
+/**
+ * 格式化企业微信 Markdown 内容 (支持颜色)
+ */
+export function formatWeChatMarkdownContent(subscriptions: Subscription[], config: Config): string {
+  const showLunar = config.showLunarGlobal === true;
+  const timezone = config.timezone || 'UTC';
+  let content = '';
+
+  for (const sub of subscriptions) {
+    const typeText = sub.customType || '其他';
+    const periodText = (sub.periodValue && sub.periodUnit) ? `(周期: ${sub.periodValue} ${{ day: '天', month: '月', year: '年' }[sub.periodUnit] || sub.periodUnit})` : '';
+
+    // 格式化到期日期（使用所选时区）
+    const expiryDateObj = new Date(sub.expiryDate);
+    const formattedExpiryDate = formatTimeInTimezone(expiryDateObj, timezone, 'date');
+
+    // 农历日期
+    let lunarExpiryText = '';
+    if (showLunar) {
+      const lunarExpiry = lunarCalendar.solar2lunar(expiryDateObj.getFullYear(), expiryDateObj.getMonth() + 1, expiryDateObj.getDate());
+      lunarExpiryText = lunarExpiry ? `\n<font color="comment">农历日期:</font> ${lunarExpiry.fullStr}` : '';
+    }
+
+    // 状态和到期时间
+    let statusText = '';
+    let statusEmoji = '';
+    let isWarning = false;
+
+    // 计算剩余天数
+    if (sub.daysRemaining === 0) {
+      statusEmoji = '⚠️';
+      statusText = '今天到期！';
+      isWarning = true;
+    } else if (sub.daysRemaining !== undefined && sub.daysRemaining < 0) {
+      statusEmoji = '🚨';
+      statusText = `已过期 ${Math.abs(sub.daysRemaining)} 天`;
+      isWarning = true;
+    } else {
+      statusEmoji = '📅';
+      statusText = `将在 ${sub.daysRemaining} 天后到期`;
+    }
+
+    // 对到期状态应用颜色
+    const finalStatusText = isWarning ? `<font color="warning">${statusText}</font>` : `<font color="info">${statusText}</font>`;
+
+    // 标题颜色：警告状态用橙色，正常状态用绿色
+    const titleColor = isWarning ? 'warning' : 'info';
+
+    // 获取日历类型和自动续期状态
+    const calendarType = sub.useLunar ? '农历' : '公历';
+    const autoRenewText = sub.autoRenew ? '是' : '否';
+
+    // 构建格式化的通知内容
+    // 标签使用 comment (灰色) 颜色，标题和重要信息使用颜色高亮
+    const subscriptionContent = `${statusEmoji} <font color="${titleColor}">**${sub.name}**</font>
+<font color="comment">类型:</font> ${typeText} ${periodText}
+<font color="comment">日历类型:</font> ${calendarType}
+<font color="comment">到期日期:</font> **${formattedExpiryDate}**${lunarExpiryText}
+<font color="comment">自动续期:</font> ${autoRenewText}
+<font color="comment">到期状态:</font> ${finalStatusText}`;
+
+    // 添加金额
+    const priceContent = sub.price !== undefined ?
+      subscriptionContent + `\n<font color="comment">金额:</font> ${formatPriceWithConversion(sub.price, sub.currency, config)}` :
+      subscriptionContent;
+
+    // 添加备注
+    const finalContent = sub.notes ?
+      priceContent + `\n<font color="comment">备注:</font> ${sub.notes}` :
+      priceContent;
+
+    // 添加提醒操作链接
+    const actionContent = sub.actionLinks && sub.actionLinks.length > 0 ?
+      finalContent + '\n<font color="comment">快捷操作:</font>\n' + sub.actionLinks.map((link) => `- [${link.label}](${link.url})`).join('\n') :
+      finalContent;
+
+    content += actionContent + '\n\n';
+  }
+
+  // 添加发送时间和时区信息
+  const currentTime = formatTimeInTimezone(new Date(), timezone, 'datetime');
+  content += `<font color="comment">发送时间:</font> ${currentTime}\n<font color="comment">当前时区:</font> ${formatTimezoneDisplay(timezone)}`;
+
+  return content;
+}
+
+/**
+ * 格式化 WeNotify Edge 结构化通知内容 (JSON)
+ */
+export function formatWeNotifyStructuredContent(subscriptions: Subscription[], config: Config): string {
+  const showLunar = config.showLunarGlobal === true;
+  const timezone = config.timezone || 'UTC';
+
+  const items = subscriptions.map(sub => {
+    const typeText = sub.customType || '其他';
+    const periodText = (sub.periodValue && sub.periodUnit) ? `(周期: ${sub.periodValue} ${{ day: '天', month: '月', year: '年' }[sub.periodUnit] || sub.periodUnit})` : '';
+
+    const expiryDateObj = new Date(sub.expiryDate);
+    const formattedExpiryDate = formatTimeInTimezone(expiryDateObj, timezone, 'date');
+
+    let lunarExpiryText = '';
+    if (showLunar) {
+      const lunarExpiry = lunarCalendar.solar2lunar(expiryDateObj.getFullYear(), expiryDateObj.getMonth() + 1, expiryDateObj.getDate());
+      lunarExpiryText = lunarExpiry ? lunarExpiry.fullStr : '';
+    }
+
+    let statusText = '';
+    let statusColor = '#4caf50'; // default green
+
+    if (sub.daysRemaining === 0) {
+      statusText = '今天到期！';
+      statusColor = '#ff9800'; // orange
+    } else if (sub.daysRemaining !== undefined && sub.daysRemaining < 0) {
+      statusText = `已过期 ${Math.abs(sub.daysRemaining)} 天`;
+      statusColor = '#f44336'; // red
+    } else {
+      statusText = `将在 ${sub.daysRemaining} 天后到期`;
+    }
+
+    const calendarType = sub.useLunar ? '农历' : '公历';
+    const autoRenewText = sub.autoRenew ? '是' : '否';
+
+    return {
+      name: sub.name,
+      type: `${typeText} ${periodText}`,
+      calendarType: calendarType,
+      expiryDate: formattedExpiryDate,
+      lunarDate: lunarExpiryText,
+      autoRenew: autoRenewText,
+      statusText: statusText,
+      statusColor: statusColor,
+      price: sub.price !== undefined ? formatPriceWithConversion(sub.price, sub.currency, config) : '',
+      notes: sub.notes || '',
+      actions: (sub.actionLinks || []).map((link) => ({ label: link.label, url: link.url }))
+    };
+  });
+
+  return JSON.stringify(items);
+}
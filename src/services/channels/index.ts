@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { ChannelConfigs } from '../../types';
+import { NotificationChannel } from './common';
+import { notifyxChannel } from './notifyx';
+import { wenotifyChannel } from './wenotify';
+import { wechatOfficialAccountChannel } from './wechatOfficialAccount';
+import { telegramChannel } from './telegram';
+import { webhookChannel } from './webhook';
+import { wechatBotChannel } from './wechatBot';
+import { emailChannel } from './email';
+import { barkChannel } from './bark';
+
+export * from './common';
+export * from './format';
+export * from './notifyx';
+export * from './wenotify';
+export * from './wechatOfficialAccount';
+export * from './telegram';
+export * from './webhook';
+export * from './wechatBot';
+export * from './email';
+export * from './bark';
+
+/**
+ * 通知渠道注册表
+ * 提醒按此顺序发送；发送失败时，按此顺序选择第一个可用于告警的已启用渠道通知管理员
+ */
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = [
+  notifyxChannel,
+  wenotifyChannel,
+  wechatOfficialAccountChannel,
+  telegramChannel,
+  webhookChannel,
+  wechatBotChannel,
+  emailChannel,
+  barkChannel,
+];
+
+export function getNotificationChannel(id: string): NotificationChannel | undefined {
+  return NOTIFICATION_CHANNELS.find((channel) => channel.id === id);
+}
+
+/**
+ * 全部渠道的原始配置字段，合并进 ConfigSchema
+ * 字段由各渠道在运行时提供，类型上不展开，避免覆盖 ConfigSchema 中其他字段的类型
+ */
+export const channelConfigShape = Object.assign(
+  {},
+  ...NOTIFICATION_CHANNELS.map((channel) => channel.configSchema.shape)
+) as Record<never, z.ZodTypeAny>;
+
+/**
+ * 按注册表解析全部渠道的配置
+ */
+export function parseChannelConfigs(raw: Record<string, unknown>): ChannelConfigs {
+  const configs: Record<string, unknown> = {};
+  for (const channel of NOTIFICATION_CHANNELS) {
+    configs[channel.configKey] = channel.parseConfig(raw);
+  }
+  return configs as ChannelConfigs;
+}
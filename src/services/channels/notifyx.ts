@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { Config } from '../../types';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString } from './common';
+
+interface NotifyXApiResponse {
+  status: 'queued' | 'sent' | 'failed';
+  message?: string;
+  id?: string;
+}
+
+// NotifyX
+export async function sendNotifyXNotification(title: string, content: string, description: string, config: Config): Promise<boolean> {
+  try {
+    if (!config.notifyx?.apiKey) {
+      console.error('[NotifyX] 通知未配置，缺少API Key');
+      return false;
+    }
+
+    const url = 'https://www.notifyx.cn/api/v1/send/' + config.notifyx.apiKey;
+    const response = await requestWithRetry(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        title: title,
+        content: content,
+        description: description || ''
+      })
+    }, 2, 8000);
+
+    const result = (await response.json()) as NotifyXApiResponse;
+    return result.status === 'queued';
+  } catch (error) {
+    console.error('[NotifyX] 发送通知失败:', error);
+    return false;
+  }
+}
+
+export const notifyxChannel: NotificationChannel<'notifyx'> = {
+  id: 'notifyx',
+  name: 'NotifyX',
+  configKey: 'notifyx',
+  configSchema: z.object({
+    NOTIFYX_API_KEY: z.string().optional().default(''),
+  }),
+  parseConfig: (raw) => ({
+    apiKey: readString(raw, 'NOTIFYX_API_KEY'),
+  }),
+  format: (title, content) => `## ${title}\n\n${content}`,
+  send: (message, config) => sendNotifyXNotification(message.title, message.content, message.description || '', config),
+  test: (config) => sendNotifyXNotification('测试通知', '## 测试通知...', '测试描述', config),
+  adminAlert: true,
+};
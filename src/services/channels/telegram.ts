@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { Config } from '../../types';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString } from './common';
+import { toMarkdownActionLinks } from './format';
+
+interface TelegramSendMessageResponse {
+  ok: boolean;
+  result?: unknown;
+  description?: string;
+  error_code?: number;
+}
+
+// Telegram
+export async function sendTelegramNotification(message: string, config: Config): Promise<boolean> {
+  try {
+    if (!config.telegram?.botToken || !config.telegram?.chatId) {
+      console.error('[Telegram] 通知未配置，缺少Bot Token或Chat ID');
+      return false;
+    }
+
+    const url = 'https://api.telegram.org/bot' + config.telegram.botToken + '/sendMessage';
+    const response = await requestWithRetry(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: config.telegram.chatId,
+        text: message,
+        parse_mode: 'Markdown'
+      })
+    }, 2, 8000);
+
+    const result = (await response.json()) as TelegramSendMessageResponse;
+    return result.ok;
+  } catch (error) {
+    console.error('[Telegram] 发送通知失败:', error);
+    return false;
+  }
+}
+
+export const telegramChannel: NotificationChannel<'telegram'> = {
+  id: 'telegram',
+  name: 'Telegram',
+  configKey: 'telegram',
+  configSchema: z.object({
+    TG_BOT_TOKEN: z.string().optional().default(''),
+    TG_CHAT_ID: z.string().optional().default(''),
+  }),
+  parseConfig: (raw) => ({
+    botToken: readString(raw, 'TG_BOT_TOKEN'),
+    chatId: readString(raw, 'TG_CHAT_ID'),
+  }),
+  format: (title, content) => `*${title}*\n\n${toMarkdownActionLinks(content)}`,
+  send: (message, config) => sendTelegramNotification(message.content, config),
+  test: (config) => sendTelegramNotification('*测试通知*\n\n这是一条测试通知...', config),
+  adminAlert: true,
+};
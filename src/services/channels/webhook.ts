@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { Config } from '../../types';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString, stripMarkdown } from './common';
+
+// 企业微信应用通知 (Webhook)
+export async function sendWebhookNotification(title: string, content: string, config: Config): Promise<boolean> {
+  try {
+    if (!config.webhook?.url) {
+      console.error('[企业微信应用通知] 未配置 Webhook URL');
+      return false;
+    }
+
+    const method = config.webhook.method || 'POST';
+    const headers = config.webhook.headers ? JSON.parse(config.webhook.headers) : { 'Content-Type': 'application/json' };
+    const template = config.webhook.template ? JSON.parse(config.webhook.template) : null;
+
+    let body;
+    if (template) {
+      // 使用模板替换变量
+      const templateStr = JSON.stringify(template);
+      const replacedStr = templateStr
+        .replace(/{{title}}/g, title)
+        .replace(/{{content}}/g, content)
+        .replace(/{{timestamp}}/g, new Date().toISOString());
+      body = replacedStr;
+    } else {
+      // 默认格式
+      body = JSON.stringify({
+        msgtype: 'text',
+        text: {
+          content: `${title}\n\n${content}`
+        }
+      });
+    }
+
+    const response = await requestWithRetry(config.webhook.url, {
+      method: method,
+      headers: headers,
+      body: method !== 'GET' ? body : undefined
+    }, 2, 8000);
+
+    return response.ok;
+  } catch (error) {
+    console.error('[企业微信应用通知] 发送失败:', error);
+    return false;
+  }
+}
+
+export const webhookChannel: NotificationChannel<'webhook'> = {
+  id: 'webhook',
+  name: '企业微信应用',
+  configKey: 'webhook',
+  configSchema: z.object({
+    WEBHOOK_URL: z.string().url().optional().or(z.literal('')).default(''),
+    WEBHOOK_METHOD: z.enum(['GET', 'POST', 'PUT', 'PATCH']).optional().default('POST'),
+    WEBHOOK_HEADERS: z.string().optional().default(''),
+    WEBHOOK_TEMPLATE: z.string().optional().default(''),
+  }),
+  parseConfig: (raw) => ({
+    url: readString(raw, 'WEBHOOK_URL'),
+    method: readString(raw, 'WEBHOOK_METHOD', 'POST'),
+    headers: readString(raw, 'WEBHOOK_HEADERS'),
+    template: readString(raw, 'WEBHOOK_TEMPLATE'),
+  }),
+  format: (_title, content) => stripMarkdown(content),
+  send: (message, config) => sendWebhookNotification(message.title, message.content, config),
+  test: (config) => sendWebhookNotification('测试通知', '测试通知...', config),
+  adminAlert: false,
+};
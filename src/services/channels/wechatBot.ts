@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { Config, Subscription } from '../../types';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString, splitList, stripMarkdown } from './common';
+import { formatNotificationContent, formatWeChatMarkdownContent } from './format';
+
+interface WeChatBotResponse {
+  errcode: number;
+  errmsg: string;
+}
+
+type WeChatBotMessage =
+  | { msgtype: 'text'; text: { content: string; mentioned_list?: string[]; mentioned_mobile_list?: string[] } }
+  | { msgtype: 'markdown'; markdown: { content: string } };
+
+/**
+ * 分发企微机器人通知内容
+ */
+export function distributeWechatBotNotifications(subscriptions: Subscription[], config: Config): Map<string, Subscription[]> {
+  const distribution = new Map<string, Subscription[]>();
+  const globalWebhooks = (config.wechatBot?.webhook || '').split('|').map(s => s.trim()).filter(Boolean);
+
+  for (const sub of subscriptions) {
+    let targets: string[] = [];
+    if (sub.wechatBotKeys) {
+      const targetKeys = sub.wechatBotKeys.split(/[,;|]/).map(s => s.trim()).filter(Boolean);
+      // 匹配包含对应 Key 的 Webhook
+      targets = globalWebhooks.filter(url => {
+        try {
+          const urlObj = new URL(url);
+          const key = urlObj.searchParams.get('key');
+          return key && targetKeys.includes(key);
+        } catch {
+          return false;
+        }
+      });
+    }
+
+    if (targets.length === 0) {
+      targets = globalWebhooks.length > 0 ? globalWebhooks : [''];
+    }
+
+    for (const url of targets) {
+      if (!distribution.has(url)) {
+        distribution.set(url, []);
+      }
+      distribution.get(url)!.push(sub);
+    }
+  }
+  return distribution;
+}
+
+// 企业微信机器人
+export async function sendWechatBotNotification(title: string, content: string, config: Config, webhookUrl?: string): Promise<boolean> {
+  try {
+    const finalWebhook = webhookUrl || config.wechatBot?.webhook;
+    if (!finalWebhook) {
+      console.error('[企业微信机器人] 未配置 Webhook URL');
+      return false;
+    }
+
+    const msgType = config.wechatBot?.msgType || 'text';
+    let messageData: WeChatBotMessage;
+
+    if (msgType === 'markdown') {
+      const markdownContent = `### ${title}\n\n${content}`;
+      messageData = {
+        msgtype: 'markdown',
+        markdown: {
+          content: markdownContent
+        }
+      };
+    } else {
+      const textContent = `${title}\n\n${content}`;
+      messageData = {
+        msgtype: 'text',
+        text: {
+          content: textContent
+        }
+      };
+    }
+
+    if (config.wechatBot?.atAll === 'true') {
+      if (msgType === 'text' && messageData.msgtype === 'text') {
+        messageData.text.mentioned_list = ['@all'];
+      }
+    } else if (config.wechatBot?.atMobiles) {
+      const mobiles = config.wechatBot.atMobiles.split(',').map((m: string) => m.trim()).filter((m: string) => m);
+      if (mobiles.length > 0) {
+        if (msgType === 'text' && messageData.msgtype === 'text') {
+          messageData.text.mentioned_mobile_list = mobiles;
+        }
+      }
+    }
+
+    const response = await requestWithRetry(finalWebhook, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(messageData)
+    }, 2, 8000);
+
+    const responseText = await response.text();
+    if (response.ok) {
+      try {
+        const result = JSON.parse(responseText) as WeChatBotResponse;
+        return result.errcode === 0;
+      } catch (parseError) {
+        return false;
+      }
+    } else {
+      return false;
+    }
+  } catch (error) {
+    console.error('[企业微信机器人] 发送通知失败:', error);
+    return false;
+  }
+}
+
+export const wechatBotChannel: NotificationChannel<'wechatBot'> = {
+  id: 'wechatbot',
+  name: '企业微信机器人',
+  configKey: 'wechatBot',
+  configSchema: z.object({
+    WECHATBOT_WEBHOOK: z.string().url().optional().or(z.literal('')).default(''),
+    WECHATBOT_MSG_TYPE: z.string().optional().default('text'),
+    WECHATBOT_AT_MOBILES: z.string().optional().default(''),
+    WECHATBOT_AT_ALL: z.string().optional().default('false'),
+  }),
+  parseConfig: (raw) => ({
+    webhook: readString(raw, 'WECHATBOT_WEBHOOK'),
+    msgType: readString(raw, 'WECHATBOT_MSG_TYPE', 'text'),
+    atMobiles: readString(raw, 'WECHATBOT_AT_MOBILES'),
+    atAll: readString(raw, 'WECHATBOT_AT_ALL', 'false'),
+  }),
+  format: (_title, content) => stripMarkdown(content),
+  recipients: (config) => splitList(config.wechatBot?.webhook, /\|/),
+  distribute: distributeWechatBotNotifications,
+  formatSubscriptions: (subscriptions, config) => config.wechatBot?.msgType === 'markdown'
+    ? formatWeChatMarkdownContent(subscriptions, config)
+    : stripMarkdown(formatNotificationContent(subscriptions, config)),
+  send: (message, config, _env, target) => sendWechatBotNotification(message.title, message.content, config, target),
+  test: (config) => sendWechatBotNotification('测试通知', '测试通知...', config),
+  adminAlert: true,
+};
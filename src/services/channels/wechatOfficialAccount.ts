@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { Config, Env, WeChatOfficialAccountConfig } from '../../types';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString, stripMarkdown } from './common';
+
+interface WeChatAccessTokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  errcode?: number;
+  errmsg?: string;
+}
+
+interface WeChatTemplateMessageResponse {
+  errcode: number;
+  errmsg: string;
+  msgid?: string;
+}
+
+interface WeChatTemplateData {
+  thing01?: { value: string };
+  thing02?: { value: string };
+  time01?: { value: string };
+  number01?: { value: string };
+  [key: string]: { value: string } | undefined;
+}
+
+/**
+ * 获取微信公众号 Access Token
+ */
+async function getWeChatAccessToken(env: Env, config: WeChatOfficialAccountConfig): Promise<string | null> {
+  const key = 'wx_oa_access_token';
+  const cached = env.SUBSCRIPTIONS_KV ? await env.SUBSCRIPTIONS_KV.get(key) : null;
+  if (cached) return cached;
+
+  const url = `https://api.weixin.qq.com/cgi-bin/token?grant_type=client_credential&appid=${config.appId}&secret=${config.appSecret}`;
+  try {
+    const resp = await requestWithRetry(url, { method: 'GET' }, 2, 5000);
+    const data = (await resp.json()) as WeChatAccessTokenResponse;
+    if (data.access_token) {
+      // 缓存 Token，有效期 7200 秒，这里设置 7000 秒
+      await env.SUBSCRIPTIONS_KV?.put(key, data.access_token, { expirationTtl: 7000 });
+      return data.access_token;
+    }
+    console.error('[WeChat Official Account] 获取 Access Token 失败:', data);
+    return null;
+  } catch (e) {
+    console.error('[WeChat Official Account] 获取 Access Token 错误:', e);
+    return null;
+  }
+}
+
+// 微信公众号（服务号）通知
+export async function sendWeChatOfficialAccountNotification(title: string, content: string, config: Config, env: Env | null): Promise<boolean> {
+  try {
+    if (!env) {
+      console.error('[WeChat Official Account] 缺少 Env 环境，无法使用 KV 缓存 Token');
+      return false;
+    }
+    const oaConfig = config.wechatOfficialAccount;
+    if (!oaConfig?.appId || !oaConfig?.appSecret || !oaConfig?.templateId || !oaConfig?.userIds) {
+      console.error('[WeChat Official Account] 通知未配置，缺少必要参数');
+      return false;
+    }
+
+    const token = await getWeChatAccessToken(env, oaConfig);
+    if (!token) return false;
+
+    const userIds = oaConfig.userIds.split('|').map(id => id.trim()).filter(id => id);
+    let successCount = 0;
+
+    for (const userId of userIds) {
+      // 构造符合微信模板消息的数据
+      // 这里采用一种比较通用的映射方式，兼容 Plan 中提到的 thing01, time01, number01, thing02
+      // 注意：微信对字段长度有限制，尤其是 thing 类型
+
+      const payloadData: WeChatTemplateData = {
+        thing01: { value: title.substring(0, 20) }, // 标题，截断到20字
+        time01: { value: new Date().toISOString().split('T')[0] }, // 当前日期
+        number01: { value: '1' }, // 这里的语义不太明确，暂时填1或者由外部传入
+        thing02: { value: content.substring(0, 20) + (content.length > 20 ? '...' : '') } // 内容，截断
+      };
+
+      // 尝试发送
+      const resp = await requestWithRetry(`https://api.weixin.qq.com/cgi-bin/message/template/send?access_token=${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          touser: userId,
+          template_id: oaConfig.templateId,
+          data: payloadData
+        })
+      }, 2, 5000);
+
+      if (resp.ok) {
+        const resJson = (await resp.json()) as WeChatTemplateMessageResponse;
+        if (resJson.errcode === 0) {
+          successCount++;
+        } else {
+          console.error(`[WeChat Official Account] 发送给 ${userId} 失败:`, resJson);
+        }
+      }
+    }
+
+    return successCount > 0;
+  } catch (error) {
+    console.error('[WeChat Official Account] 发送通知失败:', error);
+    return false;
+  }
+}
+
+export const wechatOfficialAccountChannel: NotificationChannel<'wechatOfficialAccount'> = {
+  id: 'wechatOfficialAccount',
+  name: '微信公众号',
+  configKey: 'wechatOfficialAccount',
+  configSchema: z.object({
+    WECHAT_OA_APPID: z.string().optional().default(''),
+    WECHAT_OA_APPSECRET: z.string().optional().default(''),
+    WECHAT_OA_TEMPLATE_ID: z.string().optional().default(''),
+    WECHAT_OA_USERIDS: z.string().optional().default(''),
+  }),
+  parseConfig: (raw) => ({
+    appId: readString(raw, 'WECHAT_OA_APPID'),
+    appSecret: readString(raw, 'WECHAT_OA_APPSECRET'),
+    templateId: readString(raw, 'WECHAT_OA_TEMPLATE_ID'),
+    userIds: readString(raw, 'WECHAT_OA_USERIDS'),
+  }),
+  format: (_title, content) => stripMarkdown(content),
+  send: (message, config, env) => sendWeChatOfficialAccountNotification(message.title, message.content, config, env),
+  test: (config, env) => sendWeChatOfficialAccountNotification('测试通知', '这是一条测试通知', config, env),
+  adminAlert: false,
+};
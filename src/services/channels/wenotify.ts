@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { Config, Subscription } from '../../types';
+import { requestWithRetry } from '../../utils/http';
+import { NotificationChannel, readString, splitList, stripMarkdown } from './common';
+import { formatWeNotifyStructuredContent } from './format';
+
+interface WeNotifyEdgeRequestBody {
+  title: string;
+  content: string;
+  token: string;
+  userid?: string;
+  template_id?: string;
+}
+
+/**
+ * 分发 WeNotify 通知内容
+ */
+export function distributeWeNotifyNotifications(subscriptions: Subscription[], config: Config): Map<string, Subscription[]> {
+  const distribution = new Map<string, Subscription[]>();
+  const globalUserIds = (config.wenotify?.userid || '').split(/[,;|]/).map(s => s.trim()).filter(Boolean);
+
+  for (const sub of subscriptions) {
+    let targets: string[] = [];
+    if (sub.weNotifyUserIds) {
+      targets = sub.weNotifyUserIds.split(/[,;|]/).map(s => s.trim()).filter(Boolean);
+    }
+
+    if (targets.length === 0) {
+      targets = globalUserIds.length > 0 ? globalUserIds : [''];
+    }
+
+    for (const userId of targets) {
+      if (!distribution.has(userId)) {
+        distribution.set(userId, []);
+      }
+      distribution.get(userId)!.push(sub);
+    }
+  }
+  return distribution;
+}
+
+// WeNotify Edge
+export async function sendWeNotifyEdgeNotification(title: string, content: string, config: Config, throwOnError = false, targetUserId?: string): Promise<boolean> {
+  try {
+    if (!config.wenotify?.url || !config.wenotify?.token) {
+      const msg = '[WeNotify Edge] 通知未配置，缺少服务地址或Token';
+      console.error(msg);
+      if (throwOnError) throw new Error(msg);
+      return false;
+    }
+    const base = config.wenotify.url.trim().replace(/\/+$/, '');
+
+    const tokenStr = config.wenotify.token.trim();
+    const path = (config.wenotify.path || '/wxsend').trim();
+    const joined = base + (path.startsWith('/') ? '' : '/') + path;
+    const addToken = (u: string) => u + (u.includes('?') ? '&' : '?') + 'token=' + encodeURIComponent(tokenStr);
+    const primaryUrl = addToken(joined);
+
+    const body: WeNotifyEdgeRequestBody = {
+      title: title,
+      content: content,
+      token: tokenStr
+    };
+
+    // 优先使用传入的目标用户，否则使用配置的用户
+    const finalUserId = targetUserId !== undefined ? targetUserId : config.wenotify.userid;
+    if (finalUserId) {
+      body.userid = finalUserId;
+    }
+    if (config.wenotify.templateId) {
+      body.template_id = config.wenotify.templateId;
+    }
+    const response = await requestWithRetry(primaryUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': tokenStr
+      },
+      body: JSON.stringify(body)
+    }, 2, 8000);
+
+    if (!response.ok) {
+      const firstText = await response.text();
+      const msg = `HTTP ${response.status}: ${firstText}`;
+      if (throwOnError) throw new Error(msg);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[WeNotify Edge] 发送通知失败:', error);
+    if (throwOnError) throw error;
+    return false;
+  }
+}
+
+export const wenotifyChannel: NotificationChannel<'wenotify'> = {
+  id: 'wenotify',
+  name: 'WeNotify Edge',
+  configKey: 'wenotify',
+  configSchema: z.object({
+    WENOTIFY_URL: z.string().url().optional().or(z.literal('')).default(''),
+    WENOTIFY_TOKEN: z.string().optional().default(''),
+    WENOTIFY_USERID: z.string().optional().default(''),
+    WENOTIFY_TEMPLATE_ID: z.string().optional().default(''),
+    WENOTIFY_PATH: z.string().optional().default('/wxsend'),
+  }),
+  parseConfig: (raw) => ({
+    url: readString(raw, 'WENOTIFY_URL'),
+    token: readString(raw, 'WENOTIFY_TOKEN'),
+    userid: readString(raw, 'WENOTIFY_USERID'),
+    templateId: readString(raw, 'WENOTIFY_TEMPLATE_ID'),
+    path: readString(raw, 'WENOTIFY_PATH', '/wxsend'),
+  }),
+  format: (_title, content) => stripMarkdown(content),
+  recipients: (config) => splitList(config.wenotify?.userid),
+  distribute: distributeWeNotifyNotifications,
+  formatSubscriptions: formatWeNotifyStructuredContent,
+  send: (message, config, _env, target) => sendWeNotifyEdgeNotification(message.title, message.content, config, false, target),
+  // 测试时抛出错误，把服务端返回的原因显示给用户
+  test: (config) => sendWeNotifyEdgeNotification('测试通知', '测试通知...', config, true),
+  adminAlert: true,
+};
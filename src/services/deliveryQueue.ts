@@ -0,0 +1,157 @@
+import { Config, Env, QueuedDelivery } from '../types';
+import { CONFIG } from '../config/constants';
+import { getRepositories, DeliveryQueueRepository } from '../storage';
+import { ChannelMessage, getNotificationChannel } from './channels';
+
+/**
+ * 发送失败的重试队列
+ * 每个渠道、每个接收方的失败消息单独入队，定时任务按指数退避重试，次数用尽后转为死信，由管理员手动重发或删除
+ */
+
+export interface RetryResult {
+  retried: number;
+  delivered: number;
+  dead: number; // 本次转为死信的数量
+}
+
+/**
+ * 第 attempts 次发送失败后，到下一次重试的等待时间（毫秒）
+ */
+export function retryDelayMs(attempts: number): number {
+  const { BASE_DELAY_MINUTES, MAX_DELAY_MINUTES } = CONFIG.DELIVERY_RETRY;
+  const minutes = Math.min(BASE_DELAY_MINUTES * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MINUTES);
+  return minutes * 60 * 1000;
+}
+
+export class DeliveryQueueService {
+  constructor(private env: Env) { }
+
+  private get repository(): DeliveryQueueRepository {
+    return getRepositories(this.env).deliveryQueue;
+  }
+
+  /**
+   * 首次发送失败后加入队列，等待第一次重试
+   */
+  async enqueue(channel: string, message: ChannelMessage, target?: string, now: Date = new Date()): Promise<QueuedDelivery> {
+    const delivery: QueuedDelivery = {
+      id: crypto.randomUUID(),
+      channel,
+      title: message.title,
+      content: message.content,
+      description: message.description,
+      target: target || undefined,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now.toISOString(),
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: now.toISOString(),
+      lastError: '发送失败',
+    };
+    return this.recordFailure(delivery, now);
+  }
+
+  /**
+   * 按时间倒序列出队列中的记录，可按状态筛选
+   */
+  async list(status?: QueuedDelivery['status']): Promise<QueuedDelivery[]> {
+    const deliveries = await this.repository.list();
+    return deliveries
+      .filter((d) => !status || d.status === status)
+      .sort((a, b) => b.lastAttemptAt.localeCompare(a.lastAttemptAt));
+  }
+
+  /**
+   * 重试所有到期的待重试消息，渠道已删除或停用的直接转为死信
+   */
+  async processDue(config: Config, now: Date = new Date()): Promise<RetryResult> {
+    const result: RetryResult = { retried: 0, delivered: 0, dead: 0 };
+    const due = await this.repository.listDue(now);
+
+    for (const delivery of due) {
+      if (!config.enabledNotifiers.includes(delivery.channel) || !getNotificationChannel(delivery.channel)) {
+        await this.repository.save({ ...delivery, status: 'dead', lastError: '渠道不存在或已停用' });
+        await this.pruneDeadLetters();
+        result.dead++;
+        continue;
+      }
+      result.retried++;
+      const updated = await this.attempt(delivery, config, now);
+      if (!updated) {
+        result.delivered++;
+      } else if (updated.status === 'dead') {
+        result.dead++;
+      }
+    }
+
+    if (result.retried > 0 || result.dead > 0) {
+      console.log(`[重试队列] 重试 ${result.retried} 条，成功 ${result.delivered} 条，转入死信 ${result.dead} 条`);
+    }
+    return result;
+  }
+
+  /**
+   * 立即重发一条消息（不论是否到期或已成为死信），成功后移出队列；记录不存在时返回 null
+   */
+  async resend(id: string, config: Config, now: Date = new Date()): Promise<{ success: boolean; delivery: QueuedDelivery | null } | null> {
+    const delivery = await this.repository.get(id);
+    if (!delivery) return null;
+    if (!getNotificationChannel(delivery.channel)) throw new Error('不支持的通知渠道');
+    const updated = await this.attempt(delivery, config, now);
+    return { success: updated === null, delivery: updated };
+  }
+
+  async discard(id: string): Promise<boolean> {
+    if (!(await this.repository.get(id))) return false;
+    await this.repository.delete([id]);
+    return true;
+  }
+
+  /**
+   * 发送一次，成功时删除记录并返回 null，失败时返回更新后的记录
+   */
+  private async attempt(delivery: QueuedDelivery, config: Config, now: Date): Promise<QueuedDelivery | null> {
+    const channel = getNotificationChannel(delivery.channel)!;
+    const message: ChannelMessage = { title: delivery.title, content: delivery.content, description: delivery.description };
+    let error = '发送失败';
+    try {
+      if (await channel.send(message, config, this.env, delivery.target)) {
+        await this.repository.delete([delivery.id]);
+        return null;
+      }
+    } catch (e: unknown) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    return this.recordFailure({ ...delivery, lastError: error }, now);
+  }
+
+  /**
+   * 记录一次失败：次数用尽（或本来就是死信）时转为死信，否则按退避时间安排下次重试
+   */
+  private async recordFailure(delivery: QueuedDelivery, now: Date): Promise<QueuedDelivery> {
+    const attempts = delivery.attempts + 1;
+    const dead = delivery.status === 'dead' || attempts >= CONFIG.DELIVERY_RETRY.MAX_ATTEMPTS;
+    const updated: QueuedDelivery = {
+      ...delivery,
+      attempts,
+      status: dead ? 'dead' : 'pending',
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: dead ? delivery.nextAttemptAt : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+    };
+    await this.repository.save(updated);
+    if (dead && delivery.status !== 'dead') {
+      console.warn(`[重试队列] ${delivery.channel} 通知「${delivery.title}」重试 ${attempts} 次仍失败，已转入死信`);
+      await this.pruneDeadLetters();
+    }
+    return updated;
+  }
+
+  /**
+   * 死信超过上限时删除最早的记录
+   */
+  private async pruneDeadLetters(): Promise<void> {
+    const dead = await this.list('dead');
+    const excess = dead.slice(CONFIG.DELIVERY_RETRY.MAX_DEAD_LETTERS);
+    await this.repository.delete(excess.map((d) => d.id));
+  }
+}
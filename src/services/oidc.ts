@@ -0,0 +1,205 @@
+import { Env, OidcConfig, UserAccount } from '../types';
+import { CONFIG } from '../config/constants';
+import { CryptoJS, generateUrlSafeToken, verifyHmacSHA256 } from '../utils/auth';
+import { Jwks, base64UrlDecode, base64UrlEncode, verifyJws } from '../utils/jws';
+import { UserService } from './user';
+
+/**
+ * OIDC 单点登录（授权码 + PKCE）
+ * 登录状态（state、nonce、code_verifier）签名后保存在短期 Cookie 中，不占用存储
+ */
+
+/**
+ * 身份提供方的 /.well-known/openid-configuration 中用到的字段
+ */
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  exp: number; // 秒
+  linkUserId?: string; // 已登录用户发起绑定时为该用户 ID
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+}
+
+// 与提醒操作链接等其他签名数据区分
+const SIGNATURE_PURPOSE = 'oidc-login-state';
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * PKCE S256：code_challenge = BASE64URL(SHA-256(code_verifier))
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * 序列化登录状态并用 JWT 密钥签名
+ */
+export async function signLoginState(state: OidcLoginState, secret: string): Promise<string> {
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(state)));
+  return `${payload}.${await CryptoJS.HmacSHA256(`${SIGNATURE_PURPOSE}.${payload}`, secret)}`;
+}
+
+/**
+ * 校验签名与有效期，失败时返回 null
+ */
+export async function readLoginState(value: string | null, secret: string, now: Date = new Date()): Promise<OidcLoginState | null> {
+  const [payload, signature] = (value || '').split('.');
+  if (!payload || !signature || !(await verifyHmacSHA256(`${SIGNATURE_PURPOSE}.${payload}`, signature, secret))) return null;
+  try {
+    const state = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as OidcLoginState;
+    return state.exp * 1000 > now.getTime() ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 是否允许该邮箱登录，allowedDomains 为空时不限制
+ */
+export function isEmailAllowed(email: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) return true;
+  const domain = email.split('@').pop()?.toLowerCase() || '';
+  return allowedDomains.includes(domain);
+}
+
+/**
+ * 校验 ID Token 的 iss、aud、azp、有效期与 nonce（签名另行校验）
+ */
+export function validateIdTokenClaims(claims: IdTokenClaims, issuer: string, clientId: string, nonce: string, now: Date = new Date()): void {
+  const seconds = Math.floor(now.getTime() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (trimSlash(claims.iss || '') !== trimSlash(issuer)) throw new Error('ID Token 的签发方不匹配');
+  if (!audiences.includes(clientId)) throw new Error('ID Token 的受众不匹配');
+  if (audiences.length > 1 && claims.azp !== clientId) throw new Error('ID Token 的 azp 不匹配');
+  if (!claims.exp || claims.exp + CONFIG.OIDC.CLOCK_SKEW < seconds) throw new Error('ID Token 已过期');
+  if (claims.iat && claims.iat - CONFIG.OIDC.CLOCK_SKEW > seconds) throw new Error('ID Token 签发时间无效');
+  if (claims.nonce !== nonce) throw new Error('ID Token 的 nonce 不匹配');
+  if (!claims.sub) throw new Error('ID Token 缺少 sub');
+}
+
+export class OidcService {
+  constructor(private env: Env, private oidc: OidcConfig | undefined) { }
+
+  isEnabled(): boolean {
+    return !!this.oidc?.enabled && !!this.oidc.issuer && !!this.oidc.clientId;
+  }
+
+  private get settings(): OidcConfig {
+    if (!this.oidc || !this.isEnabled()) throw new Error('未启用单点登录');
+    return this.oidc;
+  }
+
+  private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      throw new Error(`请求身份提供方失败: HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  async discover(): Promise<OidcDiscovery> {
+    const issuer = trimSlash(this.settings.issuer);
+    const discovery = await this.fetchJson<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`);
+    if (trimSlash(discovery.issuer || '') !== issuer) {
+      throw new Error('身份提供方返回的 issuer 与配置不一致');
+    }
+    return discovery;
+  }
+
+  /**
+   * 生成跳转到身份提供方的授权地址与待签名的登录状态，传入 linkUserId 时回调把身份绑定到该用户
+   */
+  async beginLogin(redirectUri: string, now: Date = new Date(), linkUserId?: string): Promise<{ url: string; state: OidcLoginState }> {
+    const discovery = await this.discover();
+    const state: OidcLoginState = {
+      state: generateUrlSafeToken(16),
+      nonce: generateUrlSafeToken(16),
+      codeVerifier: generateUrlSafeToken(32),
+      exp: Math.floor(now.getTime() / 1000) + CONFIG.OIDC.STATE_TTL,
+      ...(linkUserId ? { linkUserId } : {}),
+    };
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.settings.clientId,
+      redirect_uri: redirectUri,
+      scope: CONFIG.OIDC.SCOPE,
+      state: state.state,
+      nonce: state.nonce,
+      code_challenge: await createCodeChallenge(state.codeVerifier),
+      code_challenge_method: 'S256',
+    }).toString();
+    return { url: url.toString(), state };
+  }
+
+  /**
+   * 用授权码换取 ID Token，校验签名与声明后映射为本地账户
+   * 登录状态中带有 linkUserId 时改为把该身份绑定到这个已登录的用户
+   */
+  async completeLogin(params: URLSearchParams, state: OidcLoginState | null, redirectUri: string): Promise<UserAccount> {
+    const settings = this.settings;
+    const error = params.get('error');
+    if (error) throw new Error(`身份提供方拒绝登录: ${params.get('error_description') || error}`);
+    if (!state || params.get('state') !== state.state) throw new Error('登录状态无效或已过期，请重新登录');
+    const code = params.get('code');
+    if (!code) throw new Error('缺少授权码');
+
+    const discovery = await this.discover();
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (settings.clientSecret) {
+      const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+      headers.Authorization = `Basic ${btoa(credentials)}`;
+    }
+    const tokens = await this.fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: settings.clientId,
+        code_verifier: state.codeVerifier,
+      }).toString(),
+    });
+    if (!tokens.id_token) throw new Error('身份提供方未返回 ID Token');
+
+    const jwks = await this.fetchJson<Jwks>(discovery.jwks_uri);
+    const claims = await verifyJws<IdTokenClaims>(tokens.id_token, jwks);
+    validateIdTokenClaims(claims, discovery.issuer, settings.clientId, state.nonce);
+
+    const email = claims.email?.toLowerCase();
+    if (!email || claims.email_verified !== true) throw new Error('身份提供方未提供已验证的邮箱');
+    if (!isEmailAllowed(email, settings.allowedDomains)) throw new Error('该邮箱域名不允许登录');
+
+    const subject = `${trimSlash(discovery.issuer)}|${claims.sub}`;
+    const users = new UserService(this.env);
+    const result = state.linkUserId
+      ? await users.linkOidcSubject(state.linkUserId, subject)
+      : await users.findOrCreateOidcUser(subject, email, settings.defaultRole);
+    if (!result.user) throw new Error(result.message || '无法登录');
+    return result.user;
+  }
+}
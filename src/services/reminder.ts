@@ -0,0 +1,123 @@
+import { Config, Env, Subscription } from '../types';
+import { CONFIG } from '../config/constants';
+import { getRepositories } from '../storage';
+import { getLocalDateTime } from '../utils/date';
+import { SubscriptionService, ExpiringSubscription } from './subscription';
+import { sendNotificationToAllChannels, formatNotificationContent } from './notification';
+import { AuditService } from './audit';
+import { createReminderActionLinks } from './reminderAction';
+
+/**
+ * 定时提醒
+ * 每个订阅、每个时段每天只发送一次：当天已到时间且尚未发送的时段都会在下一次运行时发出，
+ * 因此 cron 延迟或跳过的时段会被补发，重复触发也不会重复发送。发送记录在发送前写入，
+ * 渠道发送失败的消息交给重试队列处理
+ */
+
+export interface ReminderRunResult {
+  date: string; // 本地日期
+  subscriptions: number; // 本次提醒的订阅数
+  slots: number; // 本次记为已发送的时段数
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * 订阅每天的提醒时段：订阅自己设置的时段优先，否则使用全局时段
+ */
+export function getReminderSlots(subscription: Subscription, globalTimes: string[]): string[] {
+  const own = subscription.dailyReminderTimes || [];
+  const times = own.length > 0 ? own : globalTimes.length > 0 ? globalTimes : CONFIG.REMINDER.DEFAULT_TIMES;
+  return [...new Set(times)].filter((t) => TIME_PATTERN.test(t));
+}
+
+/**
+ * 发送记录中的时段键
+ */
+export function reminderSlotKey(subscriptionId: string, slot: string): string {
+  return `${subscriptionId}@${slot}`;
+}
+
+/**
+ * 执行一次定时提醒，需要提醒的订阅合并为一条通知发送
+ */
+export async function runScheduledReminders(env: Env, config: Config, now: Date = new Date()): Promise<ReminderRunResult> {
+  const { date, time } = getLocalDateTime(now, config.timezone || 'UTC');
+  const ledger = getRepositories(env).reminderLedger;
+  const sent = new Set(await ledger.getSent(date));
+
+  const service = new SubscriptionService(env);
+  const { notifications } = await service.checkExpiringSubscriptions();
+  const dueKeys: string[] = [];
+  const due = notifications.filter((n) => {
+    const keys = getReminderSlots(n.subscription, config.reminderTimes || [])
+      .filter((slot) => slot <= time)
+      .map((slot) => reminderSlotKey(n.subscription.id, slot))
+      .filter((key) => !sent.has(key));
+    dueKeys.push(...keys);
+    return keys.length > 0;
+  });
+
+  const result: ReminderRunResult = { date, subscriptions: due.length, slots: dueKeys.length };
+  if (due.length === 0) return result;
+
+  // 先记为已发送，之后重复触发的运行不会再次选中这些时段
+  await ledger.markSent(date, dueKeys);
+
+  due.sort((a, b) => a.daysUntil - b.daysUntil);
+  const final = due.filter((n) => n.deactivate);
+  // 提醒附带推迟、确认、标记已续订的链接
+  const regular: ExpiringSubscription[] = [];
+  for (const n of due.filter((item) => !item.deactivate)) {
+    const actionLinks = await createReminderActionLinks(n.subscription, n.daysUntil, config, now);
+    regular.push({ ...n, subscription: { ...n.subscription, actionLinks } });
+  }
+  await sendGrouped('订阅到期提醒', '', regular, config, env);
+
+  // 过期时间达到自动停用天数的订阅：停用后发送最后一次通知
+  if (final.length > 0) {
+    const audit = new AuditService(env);
+    for (const n of final) {
+      await service.toggleSubscriptionStatus(n.subscription.id, false);
+      await audit.record(
+        { id: null, name: '定时任务', ip: '' },
+        'subscription.auto_deactivate',
+        { type: 'subscription', id: n.subscription.id, name: n.subscription.name },
+        { isActive: true },
+        { isActive: false }
+      );
+    }
+    const notice = '以下订阅已过期且达到自动停用天数，已停用并不再提醒：\n\n';
+    await sendGrouped('订阅已过期并自动停用', notice, final, config, env);
+  }
+  return result;
+}
+
+async function sendGrouped(title: string, notice: string, due: ExpiringSubscription[], config: Config, env: Env): Promise<void> {
+  if (due.length === 0) return;
+  for (const group of groupByChannel(due, config.enabledNotifiers || [])) {
+    const commonContent = notice + formatNotificationContent(group.subscriptions, config);
+    const groupConfig = { ...config, enabledNotifiers: group.channels };
+    await sendNotificationToAllChannels(title, commonContent, groupConfig, env, '[定时任务]', group.subscriptions);
+  }
+}
+
+/**
+ * 按渠道分组：提醒阶段限定了渠道的订阅只发送到这些渠道，收到相同订阅的渠道合并为一组
+ */
+function groupByChannel(due: ExpiringSubscription[], enabledNotifiers: string[]): { channels: string[]; subscriptions: Subscription[] }[] {
+  const groups = new Map<string, { channels: string[]; subscriptions: Subscription[] }>();
+  for (const channel of enabledNotifiers) {
+    const items = due.filter((n) => !n.channels || n.channels.length === 0 || n.channels.includes(channel));
+    if (items.length === 0) continue;
+    const key = items.map((n) => n.subscription.id).join(',');
+    const group = groups.get(key);
+    if (group) {
+      group.channels.push(channel);
+    } else {
+      groups.set(key, { channels: [channel], subscriptions: items.map((n) => ({ ...n.subscription, daysRemaining: n.daysUntil })) });
+    }
+  }
+  if (groups.size === 0) console.log('[定时任务] 没有可用于本次提醒的通知渠道。');
+  return [...groups.values()];
+}
@@ -0,0 +1,132 @@
+import { Config, Env, ReminderActionLink, Subscription } from '../types';
+import { CONFIG } from '../config/constants';
+import { CryptoJS, verifyHmacSHA256 } from '../utils/auth';
+import { base64UrlDecode, base64UrlEncode } from '../utils/jws';
+import { formatTimeInTimezone } from '../utils/date';
+import { SubscriptionService } from './subscription';
+import { AuditActor, AuditService } from './audit';
+
+/**
+ * 通知中的提醒操作链接（推迟、确认、标记已续订）
+ * 链接载荷用 JWT 密钥签名并绑定签发时的到期日：续订或修改到期日后旧链接自动失效，
+ * 因此无需登录即可操作，同一条「标记已续订」链接也不会重复续订
+ */
+
+export type ReminderAction = 'snooze' | 'snooze_until' | 'acknowledge' | 'renew';
+
+export interface ReminderActionPayload {
+  subscriptionId: string;
+  action: ReminderAction;
+  expiryDate: string; // 签发时的到期日
+  exp: number; // 链接过期时间（秒）
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 与登录状态等其他签名数据区分
+const SIGNATURE_PURPOSE = 'reminder-action';
+
+export const REMINDER_ACTION_LABELS: Record<ReminderAction, string> = {
+  snooze: `推迟 ${CONFIG.REMINDER_ACTION.SNOOZE_DAYS} 天提醒`,
+  snooze_until: `到期前 ${CONFIG.REMINDER_ACTION.SNOOZE_UNTIL_DAYS_BEFORE} 天再提醒`,
+  acknowledge: '已知晓，本周期不再提醒',
+  renew: '标记为已续订',
+};
+
+export async function signReminderAction(payload: ReminderActionPayload, secret: string): Promise<string> {
+  const encoded = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${encoded}.${await CryptoJS.HmacSHA256(`${SIGNATURE_PURPOSE}.${encoded}`, secret)}`;
+}
+
+/**
+ * 校验签名与有效期，失败时返回 null
+ */
+export async function readReminderAction(token: string | null, secret: string, now: Date = new Date()): Promise<ReminderActionPayload | null> {
+  const [encoded, signature] = (token || '').split('.');
+  if (!encoded || !signature || !(await verifyHmacSHA256(`${SIGNATURE_PURPOSE}.${encoded}`, signature, secret))) return null;
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded))) as ReminderActionPayload;
+    if (!(payload.action in REMINDER_ACTION_LABELS) || typeof payload.subscriptionId !== 'string') return null;
+    return payload.exp * 1000 > now.getTime() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 生成一条提醒中附带的操作链接；未配置站点地址时返回空列表
+ */
+export async function createReminderActionLinks(
+  subscription: Subscription,
+  daysRemaining: number,
+  config: Config,
+  now: Date = new Date()
+): Promise<ReminderActionLink[]> {
+  if (!config.publicBaseUrl || !config.jwtSecret) return [];
+
+  const actions: ReminderAction[] = ['snooze'];
+  if (daysRemaining > CONFIG.REMINDER_ACTION.SNOOZE_UNTIL_DAYS_BEFORE) actions.push('snooze_until');
+  actions.push('acknowledge', 'renew');
+
+  const exp = Math.floor((now.getTime() + CONFIG.REMINDER_ACTION.LINK_TTL_DAYS * DAY_MS) / 1000);
+  const links: ReminderActionLink[] = [];
+  for (const action of actions) {
+    const token = await signReminderAction({ subscriptionId: subscription.id, action, expiryDate: subscription.expiryDate, exp }, config.jwtSecret);
+    links.push({ label: REMINDER_ACTION_LABELS[action], url: `${config.publicBaseUrl}/api/reminder-action?token=${token}` });
+  }
+  return links;
+}
+
+/**
+ * 执行链接中的操作，返回给用户看的结果说明；订阅不存在或到期日已变化时抛出错误
+ */
+export async function applyReminderAction(
+  env: Env,
+  config: Config,
+  payload: ReminderActionPayload,
+  actor: AuditActor,
+  now: Date = new Date()
+): Promise<string> {
+  const timezone = config.timezone || 'UTC';
+  const service = new SubscriptionService(env);
+  const subscription = await service.getSubscription(payload.subscriptionId);
+  if (!subscription) throw new Error('订阅不存在');
+  if (subscription.expiryDate !== payload.expiryDate) throw new Error('订阅的到期日已变化，该链接已失效');
+
+  let message: string;
+  if (payload.action === 'renew') {
+    const result = await service.renewSubscription(subscription.id);
+    if (!result.success || !result.subscription) throw new Error(result.message || '续期失败');
+    await new AuditService(env).record(
+      actor,
+      'subscription.renew',
+      { type: 'subscription', id: subscription.id, name: subscription.name },
+      { expiryDate: subscription.expiryDate },
+      { expiryDate: result.subscription.expiryDate }
+    );
+    return `「${subscription.name}」已续订，新的到期日为 ${formatTimeInTimezone(result.subscription.expiryDate, timezone, 'date')}`;
+  }
+
+  const state = { ...subscription.reminderState };
+  if (payload.action === 'acknowledge') {
+    state.acknowledgedExpiry = subscription.expiryDate;
+    message = `已确认「${subscription.name}」的到期提醒，本周期内不再提醒`;
+  } else {
+    const until = payload.action === 'snooze'
+      ? now.getTime() + CONFIG.REMINDER_ACTION.SNOOZE_DAYS * DAY_MS
+      : new Date(subscription.expiryDate).getTime() - CONFIG.REMINDER_ACTION.SNOOZE_UNTIL_DAYS_BEFORE * DAY_MS;
+    if (until <= now.getTime()) throw new Error('距离到期日已不足，无法推迟到该时间');
+    state.snoozedUntil = new Date(until).toISOString();
+    message = `「${subscription.name}」的提醒已推迟到 ${formatTimeInTimezone(state.snoozedUntil, timezone, 'datetime')}`;
+  }
+
+  await service.setReminderState(subscription.id, state);
+  await new AuditService(env).record(
+    actor,
+    `subscription.${payload.action}`,
+    { type: 'subscription', id: subscription.id, name: subscription.name },
+    { reminderState: subscription.reminderState ?? null },
+    { reminderState: state }
+  );
+  return message;
+}
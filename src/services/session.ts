@@ -0,0 +1,114 @@
+import { Env, Session } from '../types';
+import { CONFIG } from '../config/constants';
+import { getRepositories, SessionRepository } from '../storage';
+import { DEFAULT_JWT_EXPIRY } from '../utils/auth';
+import { getClientIP } from '../middleware/rateLimit';
+
+/**
+ * 对外返回的会话信息，current 表示发起请求的会话
+ */
+export interface SessionView extends Session {
+  current: boolean;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/MicroMessenger/, '微信'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/curl\//, 'curl'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * 从 User-Agent 中提取浏览器与系统，例如「Chrome · macOS」
+ */
+export function describeUserAgent(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return [browser, system].filter(Boolean).join(' · ') || '未知设备';
+}
+
+/**
+ * 登录会话服务
+ * 每次登录创建一个会话，会话 ID 写入 JWT 的 jti；吊销会话即让对应 Token 失效
+ */
+export class SessionService {
+  constructor(private env: Env) { }
+
+  private get repository(): SessionRepository {
+    return getRepositories(this.env).sessions;
+  }
+
+  async createSession(userId: string, username: string, request: Request, now: Date = new Date()): Promise<Session> {
+    const userAgent = request.headers.get('User-Agent') || '';
+    const session: Session = {
+      id: crypto.randomUUID(),
+      userId,
+      username,
+      ip: getClientIP(request),
+      userAgent,
+      device: describeUserAgent(userAgent),
+      createdAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + DEFAULT_JWT_EXPIRY * 1000).toISOString(),
+    };
+    await this.repository.create(session);
+    return session;
+  }
+
+  /**
+   * 校验会话仍然有效且属于 userId，并按间隔更新最近活动时间与 IP
+   */
+  async touch(id: string | undefined, userId: string, request: Request, now: Date = new Date()): Promise<boolean> {
+    if (!id) return false;
+    const session = await this.repository.get(id);
+    if (!session || session.userId !== userId) return false;
+
+    if (now.getTime() - new Date(session.lastSeenAt).getTime() >= CONFIG.SESSION.TOUCH_INTERVAL_MS) {
+      await this.repository.update({ ...session, lastSeenAt: now.toISOString(), ip: getClientIP(request) });
+    }
+    return true;
+  }
+
+  async listSessions(userId: string, currentId?: string): Promise<SessionView[]> {
+    const sessions = (await this.repository.list()).filter((s) => s.userId === userId);
+    return sessions
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+      .map((s) => ({ ...s, current: s.id === currentId }));
+  }
+
+  /**
+   * 吊销单个会话；userId 不为空时只能吊销该用户自己的会话
+   */
+  async revoke(id: string, userId?: string): Promise<boolean> {
+    const session = await this.repository.get(id);
+    if (!session || (userId && session.userId !== userId)) return false;
+    await this.repository.delete([id]);
+    return true;
+  }
+
+  /**
+   * 吊销用户的全部会话，可保留 exceptId
+   */
+  async revokeUserSessions(userId: string, exceptId?: string): Promise<number> {
+    const ids = (await this.repository.list())
+      .filter((s) => s.userId === userId && s.id !== exceptId)
+      .map((s) => s.id);
+    await this.repository.delete(ids);
+    return ids.length;
+  }
+
+  async revokeAll(): Promise<void> {
+    await this.repository.delete((await this.repository.list()).map((s) => s.id));
+  }
+}
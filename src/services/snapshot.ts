@@ -0,0 +1,97 @@
+import { Env, Config, BackupConfig } from '../types';
+import { CONFIG } from '../config/constants';
+import { SnapshotStore, createSnapshotStore, getRepositories } from '../storage';
+import { getLocalDateTime } from '../utils/date';
+import { BackupService } from './backup';
+import { sendNotificationToAllChannels } from './notification';
+
+/**
+ * 单次快照结果
+ */
+export interface SnapshotResult {
+  target: 'r2' | 's3';
+  key: string;
+  size: number; // 字节数
+  subscriptions: number;
+  pruned: string[]; // 超出保留数量被删除的旧快照
+}
+
+/**
+ * 快照文件名：前缀 + 时间戳，按字典序即按时间排序
+ */
+export function snapshotKey(prefix: string, date: Date): string {
+  const stamp = date.toISOString().replace(/[:.]/g, '-');
+  return `${prefix}${CONFIG.BACKUP.FILE_PREFIX}${stamp}.json`;
+}
+
+/**
+ * 生成完整备份写入对象存储，并只保留最近 retention 份快照
+ */
+export async function createSnapshot(
+  env: Env,
+  backup: BackupConfig,
+  store: SnapshotStore,
+  now: Date = new Date()
+): Promise<SnapshotResult> {
+  const archive = await new BackupService(env).createBackup({ passphrase: backup.passphrase });
+  const body = JSON.stringify(archive);
+  const key = snapshotKey(backup.prefix, now);
+  await store.put(key, body);
+
+  const filePrefix = backup.prefix + CONFIG.BACKUP.FILE_PREFIX;
+  const snapshots = (await store.list(filePrefix)).filter((k) => k.endsWith('.json')).sort();
+  const pruned = snapshots.slice(0, Math.max(0, snapshots.length - backup.retention));
+  await store.delete(pruned);
+
+  return {
+    target: store.target,
+    key,
+    size: new TextEncoder().encode(body).length,
+    subscriptions: archive.subscriptions.length,
+    pruned,
+  };
+}
+
+/**
+ * 执行自动备份并通过全部通知渠道报告结果
+ * 失败时不抛出异常，返回 null
+ */
+export async function runScheduledBackup(env: Env, config: Config, now: Date = new Date()): Promise<SnapshotResult | null> {
+  if (!config.backup) return null;
+  const logPrefix = '[自动备份]';
+
+  try {
+    const result = await createSnapshot(env, config.backup, createSnapshotStore(env, config.backup), now);
+    console.log(`${logPrefix} 已写入 ${result.key}，清理 ${result.pruned.length} 个旧快照`);
+
+    const content = [
+      `存储位置：${result.target.toUpperCase()}`,
+      `备份文件：${result.key}`,
+      `订阅数量：${result.subscriptions}`,
+      `文件大小：${(result.size / 1024).toFixed(1)} KB`,
+      `清理旧快照：${result.pruned.length} 个（保留最近 ${config.backup.retention} 个）`,
+    ].join('\n');
+    await sendNotificationToAllChannels('自动备份成功', content, config, env, logPrefix);
+    return result;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${logPrefix} 备份失败:`, message);
+    await sendNotificationToAllChannels('自动备份失败', `错误信息：${message}`, config, env, logPrefix);
+    return null;
+  }
+}
+
+/**
+ * 定时任务每分钟调用：当天已过备份时间且尚未备份时执行一次，cron 延迟或跳过备份时间的那一分钟也会补上
+ * 执行前先记录日期，重复触发不会重复备份；失败时已通过通知报告，当天不再重试
+ */
+export async function runDueBackup(env: Env, config: Config, now: Date = new Date()): Promise<SnapshotResult | null> {
+  if (!config.backup?.enabled) return null;
+  const { date, time } = getLocalDateTime(now, config.timezone || 'UTC');
+  if (time < config.backup.time) return null;
+
+  const state = getRepositories(env).backupState;
+  if ((await state.getLastRunDate()) === date) return null;
+  await state.setLastRunDate(date);
+  return runScheduledBackup(env, config, now);
+}
@@ -0,0 +1,162 @@
+import { Env, Subscription, Principal } from '../types';
+import { SubscriptionService, addSubscriptionPeriod } from './subscription';
+import { getConfig } from '../utils/config';
+import { getCurrentTimeInTimezone } from '../utils/date';
+import { convertToBaseCurrency, getBaseCurrency } from '../utils/currency';
+import { CONFIG } from '../config/constants';
+
+/**
+ * 分类支出统计
+ */
+export interface TypeSpending {
+  type: string;
+  count: number;
+  monthly: number;
+  annual: number;
+}
+
+/**
+ * 月度支出预测
+ */
+export interface MonthlyProjection {
+  month: string; // YYYY-MM
+  amount: number;
+  renewals: number;
+}
+
+/**
+ * 支出统计结果（金额均为基础货币）
+ */
+export interface SpendingStats {
+  baseCurrency: string;
+  totals: { monthly: number; annual: number };
+  byType: TypeSpending[];
+  counts: { total: number; active: number; inactive: number; expiring: number; expired: number };
+  projection: MonthlyProjection[];
+  unconverted: string[]; // 缺少汇率而未计入金额的订阅 ID
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const PROJECTION_MONTHS = 12;
+// 单个订阅在预测窗口内最多展开的续期次数（按天计费的订阅一年约 366 次）
+const MAX_EXPANSIONS = 1000;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * 按周期折算为月度金额（与仪表盘口径一致：天周期按 30 天/月计算）
+ */
+export function toMonthlyAmount(price: number, periodValue: number, periodUnit: 'day' | 'month' | 'year'): number {
+  const val = Math.max(1, periodValue);
+  if (periodUnit === 'year') return price / (val * 12);
+  if (periodUnit === 'day') return price * (30 / val);
+  return price / val;
+}
+
+/**
+ * 展开订阅在 [from, to) 区间内的所有续期日期
+ */
+export function expandRenewalDates(sub: Subscription, from: Date, to: Date): Date[] {
+  const periodValue = sub.periodValue || 1;
+  const periodUnit = sub.periodUnit || 'month';
+  const useLunar = !!sub.useLunar;
+  const dates: Date[] = [];
+
+  let current: Date | null = new Date(sub.expiryDate);
+  if (isNaN(current.getTime())) return dates;
+
+  for (let i = 0; current && current < to && i < MAX_EXPANSIONS; i++) {
+    if (current >= from) dates.push(current);
+    current = addSubscriptionPeriod(current, periodValue, periodUnit, useLunar);
+  }
+  return dates;
+}
+
+export class StatsService {
+  constructor(private env: Env, private principal?: Principal) { }
+
+  /**
+   * 汇总支出与状态统计
+   */
+  async getStats(options: { expiringWithinDays?: number } = {}): Promise<SpendingStats> {
+    const subscriptionService = new SubscriptionService(this.env, this.principal);
+    const subscriptions = await subscriptionService.getAllSubscriptions();
+    const config = await getConfig(this.env);
+    const baseCurrency = getBaseCurrency(config);
+    const rates = config.exchangeRates || {};
+    const expiringWithinDays = options.expiringWithinDays ?? CONFIG.DEFAULTS.REMINDER_DAYS;
+
+    const currentTime = getCurrentTimeInTimezone(config.timezone || 'UTC');
+    const today = new Date(currentTime);
+    today.setHours(0, 0, 0, 0);
+
+    const projectionStart = new Date(today.getFullYear(), today.getMonth(), 1);
+    const projectionEnd = new Date(today.getFullYear(), today.getMonth() + PROJECTION_MONTHS, 1);
+    const projection = new Map<string, MonthlyProjection>();
+    for (let m = 0; m < PROJECTION_MONTHS; m++) {
+      const key = monthKey(new Date(today.getFullYear(), today.getMonth() + m, 1));
+      projection.set(key, { month: key, amount: 0, renewals: 0 });
+    }
+
+    const counts = { total: subscriptions.length, active: 0, inactive: 0, expiring: 0, expired: 0 };
+    const byType = new Map<string, TypeSpending>();
+    const unconverted: string[] = [];
+    let monthlyTotal = 0;
+
+    for (const sub of subscriptions) {
+      if (sub.isActive === false) {
+        counts.inactive++;
+        continue;
+      }
+      counts.active++;
+
+      const expiry = new Date(sub.expiryDate);
+      expiry.setHours(0, 0, 0, 0);
+      const daysRemaining = Math.ceil((expiry.getTime() - today.getTime()) / DAY_MS);
+      if (daysRemaining < 0) counts.expired++;
+      else if (daysRemaining <= expiringWithinDays) counts.expiring++;
+
+      if (sub.price === undefined || isNaN(Number(sub.price))) continue;
+
+      const price = convertToBaseCurrency(Number(sub.price), sub.currency || baseCurrency, baseCurrency, rates);
+      if (price === null) {
+        unconverted.push(sub.id);
+        continue;
+      }
+
+      const monthly = toMonthlyAmount(price, sub.periodValue || 1, sub.periodUnit || 'month');
+      monthlyTotal += monthly;
+
+      const type = sub.customType || '其他';
+      const typeStats = byType.get(type) || { type, count: 0, monthly: 0, annual: 0 };
+      typeStats.count++;
+      typeStats.monthly += monthly;
+      typeStats.annual += monthly * 12;
+      byType.set(type, typeStats);
+
+      for (const date of expandRenewalDates(sub, projectionStart, projectionEnd)) {
+        const bucket = projection.get(monthKey(date));
+        if (!bucket) continue;
+        bucket.amount += price;
+        bucket.renewals++;
+      }
+    }
+
+    return {
+      baseCurrency,
+      totals: { monthly: round2(monthlyTotal), annual: round2(monthlyTotal * 12) },
+      byType: Array.from(byType.values())
+        .map((t) => ({ ...t, monthly: round2(t.monthly), annual: round2(t.annual) }))
+        .sort((a, b) => b.monthly - a.monthly),
+      counts,
+      projection: Array.from(projection.values()).map((p) => ({ ...p, amount: round2(p.amount) })),
+      unconverted,
+    };
+  }
+}
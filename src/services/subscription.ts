@@ -1,8 +1,40 @@
-import { Subscription, Env } from '../types';
+import { Subscription, Env, RenewalRecord, Principal, ReminderStage, OverduePolicy, ReminderState, Config } from '../types';
 import { lunarBiz, lunarCalendar } from '../utils/lunar';
 import { getConfig } from '../utils/config';
 import { getCurrentTimeInTimezone } from '../utils/date';
 import { CONFIG } from '../config/constants';
+import { BulkOperationInput } from '../utils/validation';
+import { SubscriptionRepository, getRepositories, isStorageBound } from '../storage';
+
+/**
+ * Advance a date by exactly one period (lunar periods follow the lunar calendar)
+ * Returns null when the lunar conversion is out of range
+ */
+export function addSubscriptionPeriod(
+  date: Date,
+  periodValue: number,
+  periodUnit: 'day' | 'month' | 'year',
+  useLunar: boolean
+): Date | null {
+  if (useLunar) {
+    const lunarData = lunarCalendar.solar2lunar(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    if (!lunarData) return null;
+    const nextLunar = lunarBiz.addLunarPeriod(lunarData, periodValue, periodUnit);
+    const solar = lunarBiz.lunar2solar(nextLunar);
+    if (!solar) return null;
+    return new Date(solar.year, solar.month - 1, solar.day);
+  }
+
+  const next = new Date(date);
+  if (periodUnit === 'day') {
+    next.setDate(next.getDate() + periodValue);
+  } else if (periodUnit === 'month') {
+    next.setMonth(next.getMonth() + periodValue);
+  } else if (periodUnit === 'year') {
+    next.setFullYear(next.getFullYear() + periodValue);
+  }
+  return next;
+}
 
 /**
  * Calculate the next expiry date based on period
@@ -19,92 +51,125 @@ function calculateNextExpiryDate(
   // If date is already in future (>= target), no need to calculate
   if (nextExpiry >= targetDate) return nextExpiry;
 
-  if (useLunar) {
-    let lunarData = lunarCalendar.solar2lunar(
-      nextExpiry.getFullYear(),
-      nextExpiry.getMonth() + 1,
-      nextExpiry.getDate()
-    );
-    // If lunar conversion fails, return original to avoid infinite loops or errors
-    if (!lunarData) return nextExpiry;
-
-    while (nextExpiry < targetDate) {
-      const nextLunar = lunarBiz.addLunarPeriod(lunarData, periodValue, periodUnit);
-      const solar = lunarBiz.lunar2solar(nextLunar);
-      if (!solar) break;
-      nextExpiry = new Date(solar.year, solar.month - 1, solar.day);
-      // Update lunarData for next iteration
-      lunarData = { ...nextLunar, yearStr: '', monthStr: '', dayStr: '', fullStr: '' };
-    }
-  } else {
-    while (nextExpiry < targetDate) {
-      if (periodUnit === 'day') {
-        nextExpiry.setDate(nextExpiry.getDate() + periodValue);
-      } else if (periodUnit === 'month') {
-        nextExpiry.setMonth(nextExpiry.getMonth() + periodValue);
-      } else if (periodUnit === 'year') {
-        nextExpiry.setFullYear(nextExpiry.getFullYear() + periodValue);
-      }
-    }
+  while (nextExpiry < targetDate) {
+    const next = addSubscriptionPeriod(nextExpiry, periodValue, periodUnit, useLunar);
+    // If lunar conversion fails, keep the last valid date to avoid infinite loops
+    if (!next) break;
+    nextExpiry = next;
   }
   return nextExpiry;
 }
 
+/**
+ * 当天需要提醒的订阅，channels 为空时发送到所有已启用的渠道
+ */
+export interface ExpiringSubscription {
+  subscription: Subscription;
+  daysUntil: number;
+  channels?: string[];
+  deactivate?: boolean; // 过期天数已达到自动停用的天数，发送最后一次通知后停用
+}
+
+/**
+ * 按天数从大到小排列提醒阶段，没有阶段时返回 undefined（改用 reminderDays）
+ */
+function normalizeReminderStages(stages: ReminderStage[] | undefined): ReminderStage[] | undefined {
+  if (!Array.isArray(stages) || stages.length === 0) return undefined;
+  return stages
+    .map((s) => (s.channels && s.channels.length > 0 ? { daysBefore: s.daysBefore, channels: s.channels } : { daysBefore: s.daysBefore }))
+    .sort((a, b) => b.daysBefore - a.daysBefore);
+}
+
+/**
+ * 距到期 daysRemaining 天时应发送的提醒阶段，不需要提醒时返回 null
+ * 设置了 reminderStages 时只在这些天提醒，否则在 reminderDays 天内每天提醒且不限渠道
+ */
+export function getReminderStage(sub: Subscription, daysRemaining: number): ReminderStage | null {
+  if (daysRemaining < 0) return null;
+  if (sub.reminderStages && sub.reminderStages.length > 0) {
+    return sub.reminderStages.find((s) => s.daysBefore === daysRemaining) || null;
+  }
+  return daysRemaining <= (sub.reminderDays || 7) ? { daysBefore: daysRemaining } : null;
+}
+
+/**
+ * 去掉未设置的字段，全部未设置时返回 undefined（完全使用全局策略）
+ */
+function normalizeOverduePolicy(policy: Partial<OverduePolicy> | undefined): Partial<OverduePolicy> | undefined {
+  if (!policy) return undefined;
+  const entries = Object.entries(policy).filter(([, value]) => typeof value === 'number');
+  return entries.length > 0 ? (Object.fromEntries(entries) as Partial<OverduePolicy>) : undefined;
+}
+
+/**
+ * 订阅的过期提醒策略：订阅自己设置的字段优先，其次是全局配置
+ */
+export function resolveOverduePolicy(sub: Subscription, config: Config): OverduePolicy {
+  return {
+    dailyDays: CONFIG.OVERDUE.DAILY_DAYS,
+    weeklyUntilDays: CONFIG.OVERDUE.WEEKLY_UNTIL_DAYS,
+    deactivateAfterDays: CONFIG.OVERDUE.DEACTIVATE_AFTER_DAYS,
+    ...config.overduePolicy,
+    ...normalizeOverduePolicy(sub.overduePolicy),
+  };
+}
+
+/**
+ * 过期 overdueDays 天时的处理：remind 提醒，deactivate 发送最后一次通知并停用，null 不提醒
+ */
+export function getOverdueAction(overdueDays: number, policy: OverduePolicy): 'remind' | 'deactivate' | null {
+  if (policy.deactivateAfterDays > 0 && overdueDays >= policy.deactivateAfterDays) return 'deactivate';
+  if (overdueDays <= policy.dailyDays) return 'remind';
+  if (overdueDays <= policy.weeklyUntilDays && (overdueDays - policy.dailyDays) % CONFIG.OVERDUE.WEEKLY_INTERVAL === 0) {
+    return 'remind';
+  }
+  return null;
+}
+
+/**
+ * 是否已通过提醒链接推迟（未到推迟时间）或确认了本周期的提醒
+ */
+export function isReminderMuted(sub: Subscription, now: Date = new Date()): boolean {
+  const state = sub.reminderState;
+  if (!state) return false;
+  if (state.acknowledgedExpiry && state.acknowledgedExpiry === sub.expiryDate) return true;
+  return !!state.snoozedUntil && new Date(state.snoozedUntil).getTime() > now.getTime();
+}
+
+/**
+ * 订阅服务
+ * 传入 principal 时只能访问该用户自己的订阅（管理员可访问全部）；定时任务等系统调用不传
+ */
 export class SubscriptionService {
-  constructor(private env: Env) { }
+  constructor(private env: Env, private principal?: Principal) { }
 
-  /**
-   * 获取所有订阅（使用分批并行获取优化性能）
-   */
-  async getAllSubscriptions(): Promise<Subscription[]> {
-    if (!this.env.SUBSCRIPTIONS_KV) return [];
-
-    const indexStr = await this.env.SUBSCRIPTIONS_KV.get('subscriptions:index');
-    if (indexStr) {
-      const ids: string[] = JSON.parse(indexStr);
-      const subscriptions: Subscription[] = [];
-      const BATCH_SIZE = CONFIG.BATCH.SUBSCRIPTION_BATCH_SIZE;
-
-      // 分批并行获取，避免过多并发请求
-      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
-        const batch = ids.slice(i, i + BATCH_SIZE);
-        const promises = batch.map((id) => this.env.SUBSCRIPTIONS_KV.get('subscription:' + id));
-        const results = await Promise.all(promises);
-
-        for (const result of results) {
-          if (result !== null) {
-            try {
-              subscriptions.push(JSON.parse(result));
-            } catch {
-              // 忽略解析错误
-            }
-          }
-        }
-      }
+  private get repository(): SubscriptionRepository {
+    return getRepositories(this.env).subscriptions;
+  }
 
-      return subscriptions;
-    }
+  private canAccess(subscription: Subscription): boolean {
+    if (!this.principal || this.principal.role === 'admin') return true;
+    return subscription.ownerId === this.principal.userId;
+  }
 
-    // 兼容旧数据格式迁移
-    const legacy = await this.env.SUBSCRIPTIONS_KV.get('subscriptions');
-    if (legacy) {
-      const list: Subscription[] = JSON.parse(legacy);
-      const ids = list.map((s) => s.id);
-      await this.env.SUBSCRIPTIONS_KV.put('subscriptions:index', JSON.stringify(ids));
-      for (const s of list) {
-        await this.env.SUBSCRIPTIONS_KV.put('subscription:' + s.id, JSON.stringify(s));
-      }
-      return list;
-    }
+  /**
+   * 只有管理员可以把订阅指派给其他用户，其余调用者的订阅归属自己
+   */
+  private isAdminCaller(): boolean {
+    return this.principal?.role === 'admin';
+  }
 
-    return [];
+  /**
+   * 获取所有订阅
+   */
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    if (!isStorageBound(this.env)) return [];
+    return (await this.repository.list()).filter((s) => this.canAccess(s));
   }
 
   async getSubscription(id: string): Promise<Subscription | undefined> {
-    const s = await this.env.SUBSCRIPTIONS_KV.get('subscription:' + id);
-    if (s) return JSON.parse(s) as Subscription;
-    const subscriptions = await this.getAllSubscriptions();
-    return subscriptions.find(s => s.id === id);
+    const subscription = await this.repository.get(id);
+    return subscription && this.canAccess(subscription) ? subscription : undefined;
   }
 
   async createSubscription(subscription: Partial<Subscription>): Promise<{ success: boolean; message?: string; subscription?: Subscription }> {
@@ -151,21 +216,21 @@ export class SubscriptionService {
         periodValue: subscription.periodValue || 1,
         periodUnit: subscription.periodUnit || 'month',
         price: subscription.price !== undefined ? Number(subscription.price) : undefined,
+        currency: subscription.currency || config.baseCurrency || CONFIG.DEFAULTS.BASE_CURRENCY,
         reminderDays: subscription.reminderDays !== undefined ? subscription.reminderDays : 7,
+        reminderStages: normalizeReminderStages(subscription.reminderStages),
+        overduePolicy: normalizeOverduePolicy(subscription.overduePolicy),
         dailyReminderTimes: Array.isArray(subscription.dailyReminderTimes) ? subscription.dailyReminderTimes : undefined,
         notes: subscription.notes || '',
         isActive: subscription.isActive !== false,
         autoRenew: subscription.autoRenew !== false,
         useLunar: useLunar,
+        ownerId: this.isAdminCaller() && subscription.ownerId ? subscription.ownerId : this.principal?.userId,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       };
 
-      const indexStr = await this.env.SUBSCRIPTIONS_KV.get('subscriptions:index');
-      const ids: string[] = indexStr ? JSON.parse(indexStr) : [];
-      ids.push(newSubscription.id);
-      await this.env.SUBSCRIPTIONS_KV.put('subscriptions:index', JSON.stringify(ids));
-      await this.env.SUBSCRIPTIONS_KV.put('subscription:' + newSubscription.id, JSON.stringify(newSubscription));
+      await this.repository.create(newSubscription);
       return { success: true, subscription: newSubscription };
     } catch (error: unknown) {
       console.error("创建订阅异常：", error);
@@ -220,16 +285,20 @@ export class SubscriptionService {
         periodValue: subscription.periodValue || current.periodValue || 1,
         periodUnit: subscription.periodUnit || current.periodUnit || 'month',
         price: subscription.price !== undefined ? Number(subscription.price) : current.price,
+        currency: subscription.currency || current.currency,
         reminderDays: subscription.reminderDays !== undefined ? subscription.reminderDays : current.reminderDays,
+        reminderStages: Array.isArray(subscription.reminderStages) ? normalizeReminderStages(subscription.reminderStages) : current.reminderStages,
+        overduePolicy: subscription.overduePolicy !== undefined ? normalizeOverduePolicy(subscription.overduePolicy) : current.overduePolicy,
         dailyReminderTimes: Array.isArray(subscription.dailyReminderTimes) ? subscription.dailyReminderTimes : current.dailyReminderTimes,
         notes: subscription.notes || '',
         isActive: subscription.isActive !== undefined ? subscription.isActive : current.isActive,
         autoRenew: subscription.autoRenew !== undefined ? subscription.autoRenew : current.autoRenew,
         useLunar: useLunar,
+        ownerId: this.isAdminCaller() && subscription.ownerId ? subscription.ownerId : current.ownerId,
         updatedAt: new Date().toISOString()
       };
 
-      await this.env.SUBSCRIPTIONS_KV.put('subscription:' + id, JSON.stringify(updated));
+      await this.repository.update(updated);
       return { success: true, subscription: updated };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : '更新订阅失败';
@@ -239,37 +308,173 @@ export class SubscriptionService {
 
   async deleteSubscription(id: string): Promise<{ success: boolean; message?: string }> {
     try {
-      const indexStr = await this.env.SUBSCRIPTIONS_KV.get('subscriptions:index');
-      const ids: string[] = indexStr ? JSON.parse(indexStr) : [];
-      const newIds = ids.filter(x => x !== id);
-      if (newIds.length === ids.length) {
+      if (!(await this.getSubscription(id))) {
+        return { success: false, message: '订阅不存在' };
+      }
+      const deleted = await this.repository.delete([id]);
+      if (deleted.length === 0) {
         return { success: false, message: '订阅不存在' };
       }
-      await this.env.SUBSCRIPTIONS_KV.put('subscriptions:index', JSON.stringify(newIds));
-      await this.env.SUBSCRIPTIONS_KV.delete('subscription:' + id);
       return { success: true };
     } catch (error: unknown) {
       return { success: false, message: '删除订阅失败' };
     }
   }
 
-  async toggleSubscriptionStatus(id: string, isActive: boolean): Promise<{ success: boolean; message?: string; subscription?: Subscription }> {
+  /**
+   * 保存通过提醒链接推迟或确认的状态
+   */
+  async setReminderState(id: string, reminderState: ReminderState): Promise<{ success: boolean; message?: string; subscription?: Subscription }> {
+    const current = await this.getSubscription(id);
+    if (!current) return { success: false, message: '订阅不存在' };
+    const updated: Subscription = { ...current, reminderState, updatedAt: new Date().toISOString() };
+    await this.repository.update(updated);
+    return { success: true, subscription: updated };
+  }
+
+  async toggleSubscriptionStatus(id: string, isActive?: boolean): Promise<{ success: boolean; message?: string; subscription?: Subscription }> {
     try {
       const current = await this.getSubscription(id);
       if (!current) return { success: false, message: '订阅不存在' };
       const updated: Subscription = {
         ...current,
-        isActive: isActive,
+        isActive: isActive !== undefined ? isActive : !current.isActive,
         updatedAt: new Date().toISOString()
       };
-      await this.env.SUBSCRIPTIONS_KV.put('subscription:' + id, JSON.stringify(updated));
+      await this.repository.update(updated);
       return { success: true, subscription: updated };
     } catch (error: unknown) {
       return { success: false, message: '更新状态失败' };
     }
   }
 
-  async checkExpiringSubscriptions(): Promise<{ notifications: { subscription: Subscription; daysUntil: number }[] }> {
+  /**
+   * 批量操作，逐个返回处理结果
+   */
+  async bulkOperation(operation: BulkOperationInput): Promise<{
+    success: boolean;
+    succeeded: number;
+    failed: number;
+    results: Array<{ id: string; success: boolean; message?: string }>;
+  }> {
+    const ids = Array.from(new Set(operation.ids));
+    let results: Array<{ id: string; success: boolean; message?: string }> = [];
+
+    if (operation.action === 'delete') {
+      const accessible = new Set((await this.getAllSubscriptions()).map((s) => s.id));
+      const deleted = new Set(await this.repository.delete(ids.filter((id) => accessible.has(id))));
+      results = ids.map((id) => (deleted.has(id) ? { id, success: true } : { id, success: false, message: '订阅不存在' }));
+    } else {
+      for (const id of ids) {
+        let result: { success: boolean; message?: string };
+        switch (operation.action) {
+          case 'activate':
+          case 'deactivate':
+            result = await this.toggleSubscriptionStatus(id, operation.action === 'activate');
+            break;
+          case 'setCustomType':
+            result = await this.patchSubscription(id, { customType: operation.customType });
+            break;
+          case 'setReminderDays':
+            // 设置了分阶段提醒时 reminderDays 不生效，一并清除才能让新的提醒天数生效
+            result = await this.patchSubscription(id, { reminderDays: operation.reminderDays, reminderStages: undefined });
+            break;
+          case 'renew':
+            result = await this.renewSubscription(id, { periods: operation.periods });
+            break;
+        }
+        results.push({ id, success: result.success, message: result.message });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    return { success: succeeded > 0, succeeded, failed: results.length - succeeded, results };
+  }
+
+  /**
+   * 局部更新字段（不触发到期日重算）
+   */
+  private async patchSubscription(id: string, patch: Partial<Subscription>): Promise<{ success: boolean; message?: string }> {
+    const current = await this.getSubscription(id);
+    if (!current) return { success: false, message: '订阅不存在' };
+    const updated: Subscription = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    await this.repository.update(updated);
+    return { success: true };
+  }
+
+  /**
+   * 手动续期：将到期日顺延 N 个周期，并记录实付金额
+   */
+  async renewSubscription(
+    id: string,
+    options: { periods?: number; paidAmount?: number } = {}
+  ): Promise<{ success: boolean; message?: string; subscription?: Subscription; record?: RenewalRecord }> {
+    try {
+      const current = await this.getSubscription(id);
+      if (!current) return { success: false, message: '订阅不存在' };
+
+      const periods = Math.max(1, options.periods || 1);
+      let nextExpiry: Date | null = new Date(current.expiryDate);
+      for (let i = 0; i < periods && nextExpiry; i++) {
+        nextExpiry = addSubscriptionPeriod(
+          nextExpiry,
+          current.periodValue || 1,
+          current.periodUnit || 'month',
+          !!current.useLunar
+        );
+      }
+      if (!nextExpiry) return { success: false, message: '农历日期超出支持范围' };
+
+      const oldExpiryDate = current.expiryDate;
+      const updated: Subscription = {
+        ...current,
+        expiryDate: nextExpiry.toISOString(),
+        reminderState: undefined,
+        updatedAt: new Date().toISOString()
+      };
+      await this.repository.update(updated);
+
+      const paid = options.paidAmount !== undefined ? options.paidAmount : current.price;
+      const record = await this.appendRenewalHistory(updated, 'manual', oldExpiryDate, paid);
+      return { success: true, subscription: updated, record };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : '续期失败';
+      return { success: false, message: errorMessage };
+    }
+  }
+
+  /**
+   * 获取订阅的续期记录（按时间顺序）
+   */
+  async getRenewalHistory(id: string): Promise<RenewalRecord[]> {
+    if (!(await this.getSubscription(id))) return [];
+    return this.repository.getHistory(id);
+  }
+
+  /**
+   * 追加一条续期记录（只追加，不修改已有记录）
+   */
+  async appendRenewalHistory(
+    sub: Subscription,
+    type: RenewalRecord['type'],
+    oldExpiryDate: string,
+    price: number | undefined = sub.price
+  ): Promise<RenewalRecord> {
+    const record: RenewalRecord = {
+      id: crypto.randomUUID(),
+      subscriptionId: sub.id,
+      type,
+      oldExpiryDate,
+      newExpiryDate: sub.expiryDate,
+      price,
+      currency: sub.currency,
+      renewedAt: new Date().toISOString(),
+    };
+    await this.repository.appendHistory(record);
+    return record;
+  }
+
+  async checkExpiringSubscriptions(): Promise<{ notifications: ExpiringSubscription[] }> {
     const subscriptions = await this.getAllSubscriptions();
     const config = await getConfig(this.env);
     const timezone = config.timezone || 'UTC';
@@ -279,7 +484,7 @@ export class SubscriptionService {
     const today = new Date(currentTime);
     today.setHours(0, 0, 0, 0);
 
-    const notifications: { subscription: Subscription; daysUntil: number }[] = [];
+    const notifications: ExpiringSubscription[] = [];
 
     for (let i = 0; i < subscriptions.length; i++) {
       const sub = subscriptions[i];
@@ -308,10 +513,13 @@ export class SubscriptionService {
           !!sub.useLunar,
           today
         );
+        const oldExpiryDate = sub.expiryDate;
         sub.expiryDate = nextExpiry.toISOString();
+        sub.reminderState = undefined;
 
         sub.updatedAt = new Date().toISOString();
-        await this.env.SUBSCRIPTIONS_KV.put('subscription:' + sub.id, JSON.stringify(sub));
+        await this.repository.update(sub);
+        await this.appendRenewalHistory(sub, 'auto', oldExpiryDate);
 
         // Recalculate days remaining for the renewed subscription
         const newExpiry = new Date(sub.expiryDate);
@@ -319,22 +527,24 @@ export class SubscriptionService {
         const newDiff = newExpiry.getTime() - today.getTime();
         const newDaysRemaining = Math.ceil(newDiff / (1000 * 60 * 60 * 24));
 
-        // Add to notifications as "Renewed" or just status update?
-        // Usually we want to notify that it was renewed or is now due in X days.
-        // If it's renewed, it might be far in future, so maybe no notification unless reminderDays matches.
-        // But if we want to notify "Renewed", we might need a special flag.
-        // For now, let's just check against reminderDays again.
-
-        if (newDaysRemaining <= (sub.reminderDays || 7) && newDaysRemaining >= 0) {
-          notifications.push({ subscription: sub, daysUntil: newDaysRemaining });
+        // 续订后按新的到期日重新判断是否处于提醒阶段
+        const stage = getReminderStage(sub, newDaysRemaining);
+        if (stage) {
+          notifications.push({ subscription: sub, daysUntil: newDaysRemaining, channels: stage.channels });
         }
       } else {
         // Regular check
-        if (daysRemaining <= (sub.reminderDays || 7) && daysRemaining >= 0) {
-          notifications.push({ subscription: sub, daysUntil: daysRemaining });
+        const stage = getReminderStage(sub, daysRemaining);
+        if (stage) {
+          if (!isReminderMuted(sub)) {
+            notifications.push({ subscription: sub, daysUntil: daysRemaining, channels: stage.channels });
+          }
         } else if (daysRemaining < 0) {
-          // Expired and not auto-renewed
-          notifications.push({ subscription: sub, daysUntil: daysRemaining });
+          // 已过期且不自动续订，按过期提醒策略决定是否提醒；推迟或确认后仍会按策略自动停用
+          const action = getOverdueAction(-daysRemaining, resolveOverduePolicy(sub, config));
+          if (action === 'deactivate' || (action && !isReminderMuted(sub))) {
+            notifications.push({ subscription: sub, daysUntil: daysRemaining, deactivate: action === 'deactivate' });
+          }
         }
       }
     }
@@ -0,0 +1,130 @@
+import { Env, TwoFactorRecord } from '../types';
+import { CONFIG } from '../config/constants';
+import { getRepositories, TwoFactorRepository } from '../storage';
+import { generateUrlSafeToken } from '../utils/auth';
+import { sha256Hex } from '../utils/crypto';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * 恢复码格式 xxxxx-xxxxx（十六进制），比较时忽略大小写和分隔符
+ */
+function generateRecoveryCode(): string {
+  const raw = generateUrlSafeToken(5);
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+function hashRecoveryCode(code: string): Promise<string> {
+  return sha256Hex(code.toLowerCase().replace(/[^0-9a-f]/g, ''));
+}
+
+/**
+ * 两步验证服务
+ * 启用流程：beginSetup 生成密钥 → 用户在认证器 App 中添加 → enable 校验首个验证码并发放恢复码
+ */
+export class TwoFactorService {
+  constructor(private env: Env) { }
+
+  private get repository(): TwoFactorRepository {
+    return getRepositories(this.env).twoFactor;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const record = await this.repository.get(userId);
+    return {
+      enabled: !!record?.enabled,
+      recoveryCodesRemaining: record?.enabled ? record.recoveryCodes.length : 0,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return !!(await this.repository.get(userId))?.enabled;
+  }
+
+  /**
+   * 生成新的待确认密钥，覆盖之前未完成的设置
+   */
+  async beginSetup(
+    userId: string,
+    accountName: string
+  ): Promise<{ success: boolean; message?: string; secret?: string; otpauthUri?: string }> {
+    if (await this.isEnabled(userId)) {
+      return { success: false, message: '两步验证已启用，请先停用后再重新设置' };
+    }
+    const secret = generateTotpSecret();
+    await this.repository.save({
+      userId,
+      secret,
+      enabled: false,
+      recoveryCodes: [],
+      createdAt: new Date().toISOString(),
+    });
+    return { success: true, secret, otpauthUri: buildOtpauthUri(secret, accountName, CONFIG.TOTP.ISSUER) };
+  }
+
+  /**
+   * 校验首个验证码后启用，返回只显示一次的恢复码
+   */
+  async enable(userId: string, code: string, now: Date = new Date()): Promise<{ success: boolean; message?: string; recoveryCodes?: string[] }> {
+    const record = await this.repository.get(userId);
+    if (!record) return { success: false, message: '请先生成两步验证密钥' };
+    if (record.enabled) return { success: false, message: '两步验证已启用' };
+
+    const step = await verifyTotp(record.secret, code.trim(), now, CONFIG.TOTP.WINDOW);
+    if (step === null) return { success: false, message: '验证码错误' };
+
+    const recoveryCodes = Array.from({ length: CONFIG.TOTP.RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.repository.save({
+      ...record,
+      enabled: true,
+      recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+      lastUsedStep: step,
+      enabledAt: now.toISOString(),
+    });
+    return { success: true, recoveryCodes };
+  }
+
+  /**
+   * 校验验证码或恢复码
+   * 同一时间步的验证码只能使用一次，恢复码使用后作废
+   */
+  async verify(userId: string, code: string, now: Date = new Date()): Promise<boolean> {
+    const record = await this.repository.get(userId);
+    if (!record?.enabled) return false;
+    const input = code.trim();
+
+    if (/^\d+$/.test(input)) {
+      const step = await verifyTotp(record.secret, input, now, CONFIG.TOTP.WINDOW);
+      if (step === null || step <= (record.lastUsedStep ?? -1)) return false;
+      await this.repository.save({ ...record, lastUsedStep: step });
+      return true;
+    }
+
+    const hash = await hashRecoveryCode(input);
+    if (!record.recoveryCodes.includes(hash)) return false;
+    const updated: TwoFactorRecord = { ...record, recoveryCodes: record.recoveryCodes.filter((h) => h !== hash) };
+    await this.repository.save(updated);
+    return true;
+  }
+
+  async disable(userId: string, code: string): Promise<{ success: boolean; message?: string }> {
+    if (!(await this.verify(userId, code))) return { success: false, message: '验证码错误' };
+    await this.repository.delete(userId);
+    return { success: true };
+  }
+
+  /**
+   * 重新生成恢复码，旧恢复码全部作废
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<{ success: boolean; message?: string; recoveryCodes?: string[] }> {
+    if (!(await this.verify(userId, code))) return { success: false, message: '验证码错误' };
+    const record = (await this.repository.get(userId))!;
+    const recoveryCodes = Array.from({ length: CONFIG.TOTP.RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.repository.save({ ...record, recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode)) });
+    return { success: true, recoveryCodes };
+  }
+}
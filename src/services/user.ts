@@ -0,0 +1,167 @@
+import { Env, UserAccount, UserRole, Principal } from '../types';
+import { getRepositories, UserRepository } from '../storage';
+import { getConfig } from '../utils/config';
+import { generateRandomSecret, hashPassword, verifyPassword } from '../utils/auth';
+import { UserCreateInput } from '../utils/validation';
+
+/**
+ * 配置中的管理员账户（ADMIN_USERNAME / ADMIN_PASSWORD）使用的固定用户 ID
+ */
+export const LEGACY_ADMIN_ID = 'admin';
+
+/**
+ * 对外返回的用户信息（不含密码哈希）
+ */
+export type PublicUser = Omit<UserAccount, 'passwordHash'>;
+
+/**
+ * 规范化存储中的角色，旧版本的 member 视为 editor，未知值按最低权限处理
+ */
+export function normalizeRole(role: string): UserRole {
+  if (role === 'admin' || role === 'editor' || role === 'viewer') return role;
+  return role === 'member' ? 'editor' : 'viewer';
+}
+
+export function toPublicUser(user: UserAccount): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: normalizeRole(user.role),
+    disabled: user.disabled,
+    oidcSubject: user.oidcSubject,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+export function toPrincipal(user: UserAccount): Principal {
+  return { userId: user.id, username: user.username, role: normalizeRole(user.role) };
+}
+
+export class UserService {
+  constructor(private env: Env) { }
+
+  private get repository(): UserRepository {
+    return getRepositories(this.env).users;
+  }
+
+  async listUsers(): Promise<PublicUser[]> {
+    return (await this.repository.list()).map(toPublicUser);
+  }
+
+  async getUser(id: string): Promise<UserAccount | null> {
+    return this.repository.get(id);
+  }
+
+  async createUser(input: UserCreateInput): Promise<{ success: boolean; message?: string; user?: PublicUser }> {
+    const config = await getConfig(this.env);
+    const adminUsername = config.adminUsername || 'admin';
+    if (input.username.toLowerCase() === adminUsername.toLowerCase()) {
+      return { success: false, message: '用户名已被管理员账户使用' };
+    }
+    if (await this.repository.getByUsername(input.username)) {
+      return { success: false, message: '用户名已存在' };
+    }
+
+    const now = new Date().toISOString();
+    const user: UserAccount = {
+      id: crypto.randomUUID(),
+      username: input.username,
+      passwordHash: await hashPassword(input.password),
+      role: input.role,
+      disabled: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.repository.create(user);
+    return { success: true, user: toPublicUser(user) };
+  }
+
+  /**
+   * 停用或启用用户，停用后已签发的登录凭证立即失效
+   */
+  async setDisabled(id: string, disabled: boolean): Promise<{ success: boolean; message?: string; user?: PublicUser }> {
+    const user = await this.repository.get(id);
+    if (!user) return { success: false, message: '用户不存在' };
+    const updated: UserAccount = { ...user, disabled, updatedAt: new Date().toISOString() };
+    await this.repository.update(updated);
+    return { success: true, user: toPublicUser(updated) };
+  }
+
+  /**
+   * 修改用户角色，角色变更后已签发的登录凭证立即失效
+   */
+  async setRole(id: string, role: UserRole): Promise<{ success: boolean; message?: string; user?: PublicUser }> {
+    const user = await this.repository.get(id);
+    if (!user) return { success: false, message: '用户不存在' };
+    const updated: UserAccount = { ...user, role, updatedAt: new Date().toISOString() };
+    await this.repository.update(updated);
+    return { success: true, user: toPublicUser(updated) };
+  }
+
+  async changePassword(id: string, currentPassword: string, newPassword: string): Promise<{ success: boolean; message?: string }> {
+    const user = await this.repository.get(id);
+    if (!user) return { success: false, message: '用户不存在' };
+    if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+      return { success: false, message: '当前密码错误' };
+    }
+    await this.repository.update({ ...user, passwordHash: await hashPassword(newPassword), updatedAt: new Date().toISOString() });
+    return { success: true };
+  }
+
+  /**
+   * 按 OIDC 身份查找账户：匹配已绑定的 subject，不存在时以 role 创建新账户（随机密码，只能通过单点登录）
+   * 与邮箱同名的已有账户不会自动绑定，需要该用户登录后通过 linkOidcSubject 绑定
+   */
+  async findOrCreateOidcUser(subject: string, email: string, role: UserRole): Promise<{ user?: UserAccount; message?: string }> {
+    const users = await this.repository.list();
+    const now = new Date().toISOString();
+    const bound = users.find((u) => u.oidcSubject === subject);
+    if (bound) return bound.disabled ? { message: '账户已停用' } : { user: bound };
+
+    const config = await getConfig(this.env);
+    if (email.toLowerCase() === (config.adminUsername || 'admin').toLowerCase()) {
+      return { message: '该邮箱已被管理员账户使用' };
+    }
+    if (await this.repository.getByUsername(email)) {
+      return { message: '该邮箱已有本地账户，请先用密码登录，再在账户页绑定单点登录' };
+    }
+
+    const user: UserAccount = {
+      id: crypto.randomUUID(),
+      username: email,
+      passwordHash: await hashPassword(generateRandomSecret()),
+      role,
+      disabled: false,
+      oidcSubject: subject,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.repository.create(user);
+    return { user };
+  }
+
+  /**
+   * 把 OIDC 身份绑定到已登录的用户，同一身份只能绑定一个账户
+   */
+  async linkOidcSubject(id: string, subject: string): Promise<{ user?: UserAccount; message?: string }> {
+    const user = await this.repository.get(id);
+    if (!user) return { message: '用户不存在' };
+    if (user.disabled) return { message: '账户已停用' };
+    const bound = (await this.repository.list()).find((u) => u.oidcSubject === subject);
+    if (bound && bound.id !== id) return { message: '该单点登录身份已绑定其他账户' };
+
+    const linked: UserAccount = { ...user, oidcSubject: subject, updatedAt: new Date().toISOString() };
+    await this.repository.update(linked);
+    return { user: linked };
+  }
+
+  /**
+   * 校验用户名和密码，停用的用户无法登录
+   */
+  async authenticate(username: string, password: string): Promise<UserAccount | null> {
+    const user = await this.repository.getByUsername(username);
+    if (!user || user.disabled) return null;
+    return (await verifyPassword(password, user.passwordHash)) ? user : null;
+  }
+}
@@ -0,0 +1,34 @@
+import { AuditEntry, AuditLogFilter } from '../types';
+import { CONFIG } from '../config/constants';
+
+/**
+ * 审计日志筛选与保留策略（KV 与内存后端共用）
+ */
+
+/**
+ * 筛选只需要的字段，KV 索引中只保存这些字段
+ */
+export type AuditIndexItem = Pick<AuditEntry, 'id' | 'timestamp' | 'actor' | 'actorId' | 'action' | 'targetType' | 'targetId'>;
+
+export function toAuditIndexItem(entry: AuditEntry): AuditIndexItem {
+  const { id, timestamp, actor, actorId, action, targetType, targetId } = entry;
+  return { id, timestamp, actor, actorId, action, targetType, targetId };
+}
+
+export function matchesAuditFilter(item: AuditIndexItem, filter: AuditLogFilter): boolean {
+  if (filter.actor && item.actor !== filter.actor && item.actorId !== filter.actor) return false;
+  if (filter.action && item.action !== filter.action && !item.action.startsWith(filter.action + '.')) return false;
+  if (filter.targetType && item.targetType !== filter.targetType) return false;
+  if (filter.targetId && item.targetId !== filter.targetId) return false;
+  if (filter.since && item.timestamp < filter.since) return false;
+  if (filter.until && item.timestamp >= filter.until) return false;
+  return true;
+}
+
+/**
+ * 丢弃超过保留天数的记录，并只保留最近的 MAX_RECORDS 条（按追加顺序）
+ */
+export function pruneAuditItems<T extends AuditIndexItem>(items: T[], now: Date = new Date()): T[] {
+  const cutoff = new Date(now.getTime() - CONFIG.AUDIT.RETENTION_DAYS * 86400 * 1000).toISOString();
+  return items.filter((item) => item.timestamp >= cutoff).slice(-CONFIG.AUDIT.MAX_RECORDS);
+}
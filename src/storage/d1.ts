@@ -0,0 +1,78 @@
+import { Subscription, RenewalRecord } from '../types';
+import { SubscriptionRepository } from './types';
+
+/**
+ * D1（SQLite）存储
+ * 每个订阅一行，索引即表本身，新增/删除由数据库保证原子性
+ * 表结构见 migrations/0001_create_subscriptions.sql
+ */
+export class D1SubscriptionRepository implements SubscriptionRepository {
+  readonly backend = 'd1' as const;
+
+  constructor(private db: D1Database) { }
+
+  async list(): Promise<Subscription[]> {
+    const { results } = await this.db
+      .prepare('SELECT data FROM subscriptions ORDER BY seq')
+      .all<{ data: string }>();
+    return parseRows<Subscription>(results);
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    const row = await this.db
+      .prepare('SELECT data FROM subscriptions WHERE id = ?')
+      .bind(id)
+      .first<{ data: string }>();
+    return row ? (JSON.parse(row.data) as Subscription) : null;
+  }
+
+  async create(subscription: Subscription): Promise<void> {
+    await this.db
+      .prepare('INSERT INTO subscriptions (id, data, updated_at) VALUES (?, ?, ?)')
+      .bind(subscription.id, JSON.stringify(subscription), new Date().toISOString())
+      .run();
+  }
+
+  async update(subscription: Subscription): Promise<void> {
+    await this.db
+      .prepare('UPDATE subscriptions SET data = ?, updated_at = ? WHERE id = ?')
+      .bind(JSON.stringify(subscription), new Date().toISOString(), subscription.id)
+      .run();
+  }
+
+  async delete(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    // batch 在同一事务中执行
+    const results = await this.db.batch<{ id: string }>(
+      ids.map((id) => this.db.prepare('DELETE FROM subscriptions WHERE id = ? RETURNING id').bind(id))
+    );
+    return results.flatMap((r) => (r.results || []).map((row) => row.id));
+  }
+
+  async getHistory(subscriptionId: string): Promise<RenewalRecord[]> {
+    const { results } = await this.db
+      .prepare('SELECT data FROM renewal_history WHERE subscription_id = ? ORDER BY seq')
+      .bind(subscriptionId)
+      .all<{ data: string }>();
+    return parseRows<RenewalRecord>(results);
+  }
+
+  async appendHistory(record: RenewalRecord): Promise<void> {
+    await this.db
+      .prepare('INSERT INTO renewal_history (id, subscription_id, data, renewed_at) VALUES (?, ?, ?, ?)')
+      .bind(record.id, record.subscriptionId, JSON.stringify(record), record.renewedAt)
+      .run();
+  }
+}
+
+function parseRows<T>(rows: Array<{ data: string }> | undefined): T[] {
+  const items: T[] = [];
+  for (const row of rows || []) {
+    try {
+      items.push(JSON.parse(row.data) as T);
+    } catch {
+      // 忽略解析错误
+    }
+  }
+  return items;
+}
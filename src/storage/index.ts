@@ -0,0 +1,150 @@
+import { Env, KVNamespace } from '../types';
+import { SubscriptionRepository, StorageBackend, Repositories } from './types';
+import {
+  KVSubscriptionRepository,
+  KVConfigRepository,
+  KVFailureLogRepository,
+  KVDeliveryQueueRepository,
+  KVReminderLedgerRepository,
+  KVBackupStateRepository,
+  KVAuditLogRepository,
+  KVRateLimitRepository,
+  KVUserRepository,
+  KVApiTokenRepository,
+  KVTwoFactorRepository,
+  KVSessionRepository,
+} from './kv';
+import { D1SubscriptionRepository } from './d1';
+import { createMemoryRepositories } from './memory';
+
+export * from './types';
+export * from './kv';
+export * from './memory';
+export { D1SubscriptionRepository } from './d1';
+export * from './snapshots';
+
+/**
+ * 当前配置的存储后端（环境变量 STORAGE_BACKEND，默认 KV）
+ */
+export function getStorageBackend(env: Env): StorageBackend {
+  if (env.STORAGE_BACKEND === 'd1' || env.STORAGE_BACKEND === 'memory') return env.STORAGE_BACKEND;
+  return 'kv';
+}
+
+/**
+ * 当前后端所需的存储绑定是否存在
+ */
+export function isStorageBound(env: Env): boolean {
+  return getStorageBackend(env) === 'memory' || !!env.SUBSCRIPTIONS_KV;
+}
+
+function requireKV(env: Env): KVNamespace {
+  if (!env.SUBSCRIPTIONS_KV) {
+    throw new Error('未绑定 KV 命名空间 SUBSCRIPTIONS_KV');
+  }
+  return env.SUBSCRIPTIONS_KV;
+}
+
+/**
+ * 创建指定持久化后端的订阅存储
+ */
+export function createSubscriptionRepository(env: Env, backend: 'kv' | 'd1'): SubscriptionRepository {
+  if (backend === 'd1') {
+    if (!env.SUBSCRIPTIONS_DB) {
+      throw new Error('未绑定 D1 数据库 SUBSCRIPTIONS_DB');
+    }
+    return new D1SubscriptionRepository(env.SUBSCRIPTIONS_DB);
+  }
+  return new KVSubscriptionRepository(requireKV(env));
+}
+
+// 按 env 缓存，内存后端的数据随 env 对象存在
+const repositoryCache = new WeakMap<Env, Repositories>();
+
+/**
+ * 获取当前后端的全部存储仓库
+ * d1 后端只存放订阅数据，配置、用户、日志与限流计数仍使用 KV
+ */
+export function getRepositories(env: Env): Repositories {
+  const cached = repositoryCache.get(env);
+  if (cached) return cached;
+
+  const backend = getStorageBackend(env);
+  let repositories: Repositories;
+  if (backend === 'memory') {
+    repositories = createMemoryRepositories();
+  } else {
+    const kv = requireKV(env);
+    repositories = {
+      subscriptions: createSubscriptionRepository(env, backend),
+      config: new KVConfigRepository(kv),
+      failureLogs: new KVFailureLogRepository(kv),
+      deliveryQueue: new KVDeliveryQueueRepository(kv),
+      reminderLedger: new KVReminderLedgerRepository(kv),
+      backupState: new KVBackupStateRepository(kv),
+      auditLogs: new KVAuditLogRepository(kv),
+      rateLimits: new KVRateLimitRepository(kv),
+      users: new KVUserRepository(kv),
+      apiTokens: new KVApiTokenRepository(kv),
+      twoFactor: new KVTwoFactorRepository(kv),
+      sessions: new KVSessionRepository(kv),
+    };
+  }
+  repositoryCache.set(env, repositories);
+  return repositories;
+}
+
+/**
+ * 存储迁移结果
+ */
+export interface MigrationResult {
+  from: StorageBackend;
+  to: StorageBackend;
+  total: number;
+  migrated: number;
+  skipped: number;
+  historyRecords: number;
+}
+
+/**
+ * 在两个存储后端之间复制订阅及续期记录
+ * 目标中已存在的订阅默认跳过，overwrite 为 true 时覆盖；续期记录按 ID 去重追加
+ */
+export async function migrateSubscriptions(
+  source: SubscriptionRepository,
+  target: SubscriptionRepository,
+  options: { overwrite?: boolean } = {}
+): Promise<MigrationResult> {
+  const subscriptions = await source.list();
+  const result: MigrationResult = {
+    from: source.backend,
+    to: target.backend,
+    total: subscriptions.length,
+    migrated: 0,
+    skipped: 0,
+    historyRecords: 0,
+  };
+
+  for (const subscription of subscriptions) {
+    const existing = await target.get(subscription.id);
+    if (!existing) {
+      await target.create(subscription);
+    } else if (options.overwrite) {
+      await target.update(subscription);
+    } else {
+      result.skipped++;
+      continue;
+    }
+    result.migrated++;
+
+    const targetHistory = await target.getHistory(subscription.id);
+    const knownIds = new Set(targetHistory.map((r) => r.id));
+    for (const record of await source.getHistory(subscription.id)) {
+      if (knownIds.has(record.id)) continue;
+      await target.appendHistory(record);
+      result.historyRecords++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,533 @@
+import { Subscription, RenewalRecord, UserAccount, ApiToken, TwoFactorRecord, Session, AuditEntry, AuditLogFilter, QueuedDelivery, KVNamespace } from '../types';
+import { CONFIG } from '../config/constants';
+import {
+  SubscriptionRepository,
+  ConfigRepository,
+  FailureLogRepository,
+  FailureLogEntry,
+  FailureLogRecord,
+  DeliveryQueueRepository,
+  ReminderLedgerRepository,
+  BackupStateRepository,
+  AuditLogRepository,
+  RateLimitRepository,
+  UserRepository,
+  ApiTokenRepository,
+  TwoFactorRepository,
+  SessionRepository,
+} from './types';
+import { AuditIndexItem, toAuditIndexItem, matchesAuditFilter, pruneAuditItems } from './auditFilter';
+
+const INDEX_KEY = 'subscriptions:index';
+const LEGACY_KEY = 'subscriptions';
+const CONFIG_KEY = 'config';
+const FAILURE_INDEX_KEY = 'reminder_failure_index';
+const USER_INDEX_KEY = 'users:index';
+const API_TOKEN_INDEX_KEY = 'api_tokens:index';
+const SESSION_INDEX_KEY = 'sessions:index';
+const AUDIT_INDEX_KEY = 'audit_log:index';
+const DELIVERY_INDEX_KEY = 'deliveries:index';
+const BACKUP_LAST_RUN_KEY = 'backup:last_run';
+
+const subscriptionKey = (id: string): string => 'subscription:' + id;
+const historyKey = (id: string): string => `subscription:${id}:history`;
+const userKey = (id: string): string => 'user:' + id;
+const apiTokenKey = (id: string): string => 'api_token:' + id;
+const twoFactorKey = (userId: string): string => 'two_factor:' + userId;
+const sessionKey = (id: string): string => 'session:' + id;
+const auditKey = (id: string): string => 'audit_log:' + id;
+const deliveryKey = (id: string): string => 'delivery:' + id;
+const reminderLedgerKey = (date: string): string => 'reminder_sent:' + date;
+
+/**
+ * KV 存储（默认后端）
+ * 索引为 subscriptions:index 中的 ID 数组，读改写不是原子操作
+ */
+export class KVSubscriptionRepository implements SubscriptionRepository {
+  readonly backend = 'kv' as const;
+
+  constructor(private kv: KVNamespace) { }
+
+  async list(): Promise<Subscription[]> {
+    const ids = await this.readIndex();
+    if (ids) {
+      const subscriptions: Subscription[] = [];
+      const BATCH_SIZE = CONFIG.BATCH.SUBSCRIPTION_BATCH_SIZE;
+
+      // 分批并行获取，避免过多并发请求
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        const results = await Promise.all(batch.map((id) => this.kv.get(subscriptionKey(id))));
+
+        for (const result of results) {
+          if (result !== null) {
+            try {
+              subscriptions.push(JSON.parse(result) as Subscription);
+            } catch {
+              // 忽略解析错误
+            }
+          }
+        }
+      }
+
+      return subscriptions;
+    }
+
+    // 兼容旧数据格式迁移
+    const legacy = await this.kv.get(LEGACY_KEY);
+    if (legacy) {
+      const list = JSON.parse(legacy) as Subscription[];
+      await this.writeIndex(list.map((s) => s.id));
+      for (const s of list) {
+        await this.kv.put(subscriptionKey(s.id), JSON.stringify(s));
+      }
+      return list;
+    }
+
+    return [];
+  }
+
+  async get(id: string): Promise<Subscription | null> {
+    const raw = await this.kv.get(subscriptionKey(id));
+    if (raw) return JSON.parse(raw) as Subscription;
+    // 索引不存在时可能是尚未迁移的旧数据格式
+    if (await this.readIndex()) return null;
+    const list = await this.list();
+    return list.find((s) => s.id === id) || null;
+  }
+
+  async create(subscription: Subscription): Promise<void> {
+    const ids = (await this.readIndex()) || [];
+    ids.push(subscription.id);
+    await this.writeIndex(ids);
+    await this.kv.put(subscriptionKey(subscription.id), JSON.stringify(subscription));
+  }
+
+  async update(subscription: Subscription): Promise<void> {
+    await this.kv.put(subscriptionKey(subscription.id), JSON.stringify(subscription));
+  }
+
+  async delete(ids: string[]): Promise<string[]> {
+    const index = (await this.readIndex()) || [];
+    const existing = new Set(index);
+    const toDelete = new Set(ids.filter((id) => existing.has(id)));
+    if (toDelete.size === 0) return [];
+
+    await this.writeIndex(index.filter((id) => !toDelete.has(id)));
+    for (const id of toDelete) {
+      await this.kv.delete(subscriptionKey(id));
+    }
+    return Array.from(toDelete);
+  }
+
+  async getHistory(subscriptionId: string): Promise<RenewalRecord[]> {
+    const raw = await this.kv.get(historyKey(subscriptionId));
+    if (!raw) return [];
+    try {
+      const records = JSON.parse(raw) as RenewalRecord[];
+      return Array.isArray(records) ? records : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async appendHistory(record: RenewalRecord): Promise<void> {
+    const records = await this.getHistory(record.subscriptionId);
+    records.push(record);
+    await this.kv.put(historyKey(record.subscriptionId), JSON.stringify(records));
+  }
+
+  private async readIndex(): Promise<string[] | null> {
+    const raw = await this.kv.get(INDEX_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : null;
+  }
+
+  private async writeIndex(ids: string[]): Promise<void> {
+    await this.kv.put(INDEX_KEY, JSON.stringify(ids));
+  }
+}
+
+/**
+ * KV 配置存储（键 config）
+ */
+export class KVConfigRepository implements ConfigRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async get(): Promise<Record<string, unknown>> {
+    const data = await this.kv.get(CONFIG_KEY);
+    return data ? (JSON.parse(data) as Record<string, unknown>) : {};
+  }
+
+  async save(config: Record<string, unknown>): Promise<void> {
+    await this.kv.put(CONFIG_KEY, JSON.stringify(config));
+  }
+}
+
+/**
+ * KV 失败日志存储
+ * 每条日志一个键 reminder_failure_<时间戳>，索引保存在 reminder_failure_index
+ */
+export class KVFailureLogRepository implements FailureLogRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async append(entry: FailureLogEntry): Promise<FailureLogRecord> {
+    const id = Date.now();
+    const key = `reminder_failure_${id}`;
+    await this.kv.put(key, JSON.stringify(entry));
+
+    const index = await this.readIndex();
+    index.push({ key, id });
+    await this.kv.put(FAILURE_INDEX_KEY, JSON.stringify(index.slice(-CONFIG.FAILURE_LOG.MAX_RECORDS)));
+    return { key, id, ...entry };
+  }
+
+  async list(limit: number): Promise<FailureLogRecord[]> {
+    const items = (await this.readIndex()).slice(-limit).reverse();
+    const records: FailureLogRecord[] = [];
+    for (const item of items) {
+      const raw = await this.kv.get(item.key);
+      if (!raw) continue;
+      try {
+        records.push({ key: item.key, id: item.id, ...(JSON.parse(raw) as FailureLogEntry) });
+      } catch {
+        // 忽略解析错误
+      }
+    }
+    return records;
+  }
+
+  private async readIndex(): Promise<Array<{ key: string; id: number }>> {
+    const raw = await this.kv.get(FAILURE_INDEX_KEY);
+    if (!raw) return [];
+    try {
+      const index = JSON.parse(raw) as Array<{ key: string; id: number }>;
+      return Array.isArray(index) ? index : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * 重试队列索引项，保存状态与下次重试时间，定时任务只需读取索引即可找出到期的记录
+ * 旧版本的索引只保存 ID，读取时缺少这两个字段，视为需要读取记录本身判断
+ */
+type DeliveryIndexItem = { id: string } & Partial<Pick<QueuedDelivery, 'status' | 'nextAttemptAt'>>;
+
+const toDeliveryIndexItem = (delivery: QueuedDelivery): DeliveryIndexItem => ({
+  id: delivery.id,
+  status: delivery.status,
+  nextAttemptAt: delivery.nextAttemptAt,
+});
+
+/**
+ * KV 发送重试队列（键 delivery:<ID>，索引保存在 deliveries:index）
+ */
+export class KVDeliveryQueueRepository implements DeliveryQueueRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async list(): Promise<QueuedDelivery[]> {
+    return this.load(await this.readIndex());
+  }
+
+  async listDue(now: Date): Promise<QueuedDelivery[]> {
+    const index = await this.readIndex();
+    const candidates = index.filter(
+      (item) => !item.status || (item.status === 'pending' && new Date(item.nextAttemptAt || 0).getTime() <= now.getTime())
+    );
+    const loaded = await this.load(candidates);
+
+    // 旧版本的索引项读取一次后补全字段（记录已不存在的移出索引），之后不再读取未到期的记录
+    if (candidates.some((item) => !item.status)) {
+      const byId = new Map(loaded.map((d) => [d.id, d]));
+      const upgraded = index.flatMap((item) => {
+        if (item.status) return [item];
+        const delivery = byId.get(item.id);
+        return delivery ? [toDeliveryIndexItem(delivery)] : [];
+      });
+      await this.kv.put(DELIVERY_INDEX_KEY, JSON.stringify(upgraded));
+    }
+
+    return loaded.filter((d) => d.status === 'pending' && new Date(d.nextAttemptAt).getTime() <= now.getTime());
+  }
+
+  async get(id: string): Promise<QueuedDelivery | null> {
+    const raw = await this.kv.get(deliveryKey(id));
+    return raw ? (JSON.parse(raw) as QueuedDelivery) : null;
+  }
+
+  async save(delivery: QueuedDelivery): Promise<void> {
+    const item = toDeliveryIndexItem(delivery);
+    const index = await this.readIndex();
+    const position = index.findIndex((existing) => existing.id === delivery.id);
+    if (position === -1) {
+      index.push(item);
+    } else {
+      index[position] = item;
+    }
+    await this.kv.put(DELIVERY_INDEX_KEY, JSON.stringify(index));
+    await this.kv.put(deliveryKey(delivery.id), JSON.stringify(delivery));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const remaining = (await this.readIndex()).filter((item) => !ids.includes(item.id));
+    await this.kv.put(DELIVERY_INDEX_KEY, JSON.stringify(remaining));
+    await Promise.all(ids.map((id) => this.kv.delete(deliveryKey(id))));
+  }
+
+  private async load(items: DeliveryIndexItem[]): Promise<QueuedDelivery[]> {
+    const results = await Promise.all(items.map((item) => this.get(item.id)));
+    return results.filter((delivery): delivery is QueuedDelivery => delivery !== null);
+  }
+
+  private async readIndex(): Promise<DeliveryIndexItem[]> {
+    const raw = await this.kv.get(DELIVERY_INDEX_KEY);
+    const index = raw ? (JSON.parse(raw) as (string | DeliveryIndexItem)[]) : [];
+    return index.map((item) => (typeof item === 'string' ? { id: item } : item));
+  }
+}
+
+/**
+ * KV 提醒发送记录（键 reminder_sent:<本地日期>），设置了保留天数对应的过期时间
+ */
+export class KVReminderLedgerRepository implements ReminderLedgerRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async getSent(date: string): Promise<string[]> {
+    const raw = await this.kv.get(reminderLedgerKey(date));
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  }
+
+  async markSent(date: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const sent = new Set([...(await this.getSent(date)), ...keys]);
+    await this.kv.put(reminderLedgerKey(date), JSON.stringify([...sent]), {
+      expirationTtl: CONFIG.REMINDER.LEDGER_RETENTION_DAYS * 86400,
+    });
+  }
+}
+
+/**
+ * KV 自动备份状态（键 backup:last_run）
+ */
+export class KVBackupStateRepository implements BackupStateRepository {
+  constructor(private kv: KVNamespace) { }
+
+  getLastRunDate(): Promise<string | null> {
+    return this.kv.get(BACKUP_LAST_RUN_KEY);
+  }
+
+  async setLastRunDate(date: string): Promise<void> {
+    await this.kv.put(BACKUP_LAST_RUN_KEY, date);
+  }
+}
+
+/**
+ * KV 审计日志存储（键 audit_log:<ID>，索引保存在 audit_log:index）
+ * 索引中保存用于筛选的字段，日志键设置了保留天数对应的过期时间
+ */
+export class KVAuditLogRepository implements AuditLogRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async append(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const expirationTtl = CONFIG.AUDIT.RETENTION_DAYS * 86400;
+    await Promise.all(entries.map((entry) => this.kv.put(auditKey(entry.id), JSON.stringify(entry), { expirationTtl })));
+
+    const index = pruneAuditItems([...(await this.readIndex()), ...entries.map(toAuditIndexItem)]);
+    await this.kv.put(AUDIT_INDEX_KEY, JSON.stringify(index));
+  }
+
+  async list(filter: AuditLogFilter, limit: number): Promise<AuditEntry[]> {
+    const items = pruneAuditItems(await this.readIndex()).filter((item) => matchesAuditFilter(item, filter)).reverse();
+    const entries: AuditEntry[] = [];
+    for (const item of items) {
+      if (entries.length >= limit) break;
+      const raw = await this.kv.get(auditKey(item.id));
+      if (raw) entries.push(JSON.parse(raw) as AuditEntry);
+    }
+    return entries;
+  }
+
+  private async readIndex(): Promise<AuditIndexItem[]> {
+    const raw = await this.kv.get(AUDIT_INDEX_KEY);
+    if (!raw) return [];
+    try {
+      const index = JSON.parse(raw) as AuditIndexItem[];
+      return Array.isArray(index) ? index : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * KV 速率限制计数（键 rate:<操作>:<标识>:<时间窗口>）
+ */
+export class KVRateLimitRepository implements RateLimitRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async increment(action: string, identifier: string, bucket: number, ttlSeconds: number): Promise<number> {
+    const key = `rate:${action}:${identifier}:${bucket}`;
+    const val = await this.kv.get(key);
+    const current = (val ? parseInt(val, 10) : 0) + 1;
+    await this.kv.put(key, String(current), { expirationTtl: ttlSeconds });
+    return current;
+  }
+}
+
+/**
+ * KV 用户存储（键 user:<ID>，索引保存在 users:index）
+ * 用户数量很少，按用户名查找时直接遍历
+ */
+export class KVUserRepository implements UserRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async list(): Promise<UserAccount[]> {
+    const ids = await this.readIndex();
+    const results = await Promise.all(ids.map((id) => this.get(id)));
+    return results.filter((user): user is UserAccount => user !== null);
+  }
+
+  async get(id: string): Promise<UserAccount | null> {
+    const raw = await this.kv.get(userKey(id));
+    return raw ? (JSON.parse(raw) as UserAccount) : null;
+  }
+
+  async getByUsername(username: string): Promise<UserAccount | null> {
+    const target = username.toLowerCase();
+    return (await this.list()).find((u) => u.username.toLowerCase() === target) || null;
+  }
+
+  async create(user: UserAccount): Promise<void> {
+    const ids = await this.readIndex();
+    ids.push(user.id);
+    await this.kv.put(USER_INDEX_KEY, JSON.stringify(ids));
+    await this.kv.put(userKey(user.id), JSON.stringify(user));
+  }
+
+  async update(user: UserAccount): Promise<void> {
+    await this.kv.put(userKey(user.id), JSON.stringify(user));
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const raw = await this.kv.get(USER_INDEX_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  }
+}
+
+/**
+ * KV API Token 存储（键 api_token:<ID>，索引保存在 api_tokens:index）
+ * Token 数量很少，按哈希查找时直接遍历
+ */
+export class KVApiTokenRepository implements ApiTokenRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async list(): Promise<ApiToken[]> {
+    const ids = await this.readIndex();
+    const results = await Promise.all(ids.map((id) => this.get(id)));
+    return results.filter((token): token is ApiToken => token !== null);
+  }
+
+  async get(id: string): Promise<ApiToken | null> {
+    const raw = await this.kv.get(apiTokenKey(id));
+    return raw ? (JSON.parse(raw) as ApiToken) : null;
+  }
+
+  async getByHash(tokenHash: string): Promise<ApiToken | null> {
+    return (await this.list()).find((t) => t.tokenHash === tokenHash) || null;
+  }
+
+  async create(token: ApiToken): Promise<void> {
+    const ids = await this.readIndex();
+    ids.push(token.id);
+    await this.kv.put(API_TOKEN_INDEX_KEY, JSON.stringify(ids));
+    await this.kv.put(apiTokenKey(token.id), JSON.stringify(token));
+  }
+
+  async update(token: ApiToken): Promise<void> {
+    await this.kv.put(apiTokenKey(token.id), JSON.stringify(token));
+  }
+
+  async delete(id: string): Promise<void> {
+    const ids = await this.readIndex();
+    await this.kv.put(API_TOKEN_INDEX_KEY, JSON.stringify(ids.filter((i) => i !== id)));
+    await this.kv.delete(apiTokenKey(id));
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const raw = await this.kv.get(API_TOKEN_INDEX_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  }
+}
+
+/**
+ * KV 会话存储（键 session:<ID>，索引保存在 sessions:index）
+ * 会话键设置了 KV 过期时间，列出时顺带从索引中移除已过期的 ID
+ */
+export class KVSessionRepository implements SessionRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async list(): Promise<Session[]> {
+    const ids = await this.readIndex();
+    const results = await Promise.all(ids.map((id) => this.get(id)));
+    const sessions = results.filter((session): session is Session => session !== null);
+    if (sessions.length !== ids.length) {
+      await this.kv.put(SESSION_INDEX_KEY, JSON.stringify(sessions.map((s) => s.id)));
+    }
+    return sessions;
+  }
+
+  async get(id: string): Promise<Session | null> {
+    const raw = await this.kv.get(sessionKey(id));
+    if (!raw) return null;
+    const session = JSON.parse(raw) as Session;
+    return new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+  }
+
+  async create(session: Session): Promise<void> {
+    const ids = await this.readIndex();
+    ids.push(session.id);
+    await this.kv.put(SESSION_INDEX_KEY, JSON.stringify(ids));
+    await this.update(session);
+  }
+
+  async update(session: Session): Promise<void> {
+    await this.kv.put(sessionKey(session.id), JSON.stringify(session), {
+      expiration: Math.floor(new Date(session.expiresAt).getTime() / 1000),
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const remaining = (await this.readIndex()).filter((id) => !ids.includes(id));
+    await this.kv.put(SESSION_INDEX_KEY, JSON.stringify(remaining));
+    await Promise.all(ids.map((id) => this.kv.delete(sessionKey(id))));
+  }
+
+  private async readIndex(): Promise<string[]> {
+    const raw = await this.kv.get(SESSION_INDEX_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  }
+}
+
+/**
+ * KV 两步验证存储（键 two_factor:<用户 ID>）
+ */
+export class KVTwoFactorRepository implements TwoFactorRepository {
+  constructor(private kv: KVNamespace) { }
+
+  async get(userId: string): Promise<TwoFactorRecord | null> {
+    const raw = await this.kv.get(twoFactorKey(userId));
+    return raw ? (JSON.parse(raw) as TwoFactorRecord) : null;
+  }
+
+  async save(record: TwoFactorRecord): Promise<void> {
+    await this.kv.put(twoFactorKey(record.userId), JSON.stringify(record));
+  }
+
+  async delete(userId: string): Promise<void> {
+    await this.kv.delete(twoFactorKey(userId));
+  }
+}
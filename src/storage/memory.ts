@@ -0,0 +1,331 @@
+import { Subscription, RenewalRecord, UserAccount, ApiToken, TwoFactorRecord, Session, AuditEntry, AuditLogFilter, QueuedDelivery } from '../types';
+import { CONFIG } from '../config/constants';
+import {
+  SubscriptionRepository,
+  ConfigRepository,
+  FailureLogRepository,
+  FailureLogEntry,
+  FailureLogRecord,
+  DeliveryQueueRepository,
+  ReminderLedgerRepository,
+  BackupStateRepository,
+  AuditLogRepository,
+  RateLimitRepository,
+  UserRepository,
+  ApiTokenRepository,
+  TwoFactorRepository,
+  SessionRepository,
+  Repositories,
+} from './types';
+import { matchesAuditFilter, pruneAuditItems } from './auditFilter';
+
+/**
+ * 内存存储
+ * 数据只保存在当前进程内，重启即丢失；返回值均为副本，避免调用方修改内部状态
+ */
+export class MemorySubscriptionRepository implements SubscriptionRepository {
+  readonly backend = 'memory' as const;
+
+  private subscriptions = new Map<string, Subscription>();
+  private history = new Map<string, RenewalRecord[]>();
+
+  list(): Promise<Subscription[]> {
+    return Promise.resolve(Array.from(this.subscriptions.values()).map(clone));
+  }
+
+  get(id: string): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(id);
+    return Promise.resolve(subscription ? clone(subscription) : null);
+  }
+
+  create(subscription: Subscription): Promise<void> {
+    if (this.subscriptions.has(subscription.id)) {
+      return Promise.reject(new Error('订阅已存在: ' + subscription.id));
+    }
+    this.subscriptions.set(subscription.id, clone(subscription));
+    return Promise.resolve();
+  }
+
+  update(subscription: Subscription): Promise<void> {
+    if (this.subscriptions.has(subscription.id)) {
+      this.subscriptions.set(subscription.id, clone(subscription));
+    }
+    return Promise.resolve();
+  }
+
+  delete(ids: string[]): Promise<string[]> {
+    return Promise.resolve(ids.filter((id) => this.subscriptions.delete(id)));
+  }
+
+  getHistory(subscriptionId: string): Promise<RenewalRecord[]> {
+    return Promise.resolve((this.history.get(subscriptionId) || []).map(clone));
+  }
+
+  appendHistory(record: RenewalRecord): Promise<void> {
+    const records = this.history.get(record.subscriptionId) || [];
+    records.push(clone(record));
+    this.history.set(record.subscriptionId, records);
+    return Promise.resolve();
+  }
+}
+
+export class MemoryConfigRepository implements ConfigRepository {
+  private config: Record<string, unknown> = {};
+
+  get(): Promise<Record<string, unknown>> {
+    return Promise.resolve(clone(this.config));
+  }
+
+  save(config: Record<string, unknown>): Promise<void> {
+    this.config = clone(config);
+    return Promise.resolve();
+  }
+}
+
+export class MemoryFailureLogRepository implements FailureLogRepository {
+  private records: FailureLogRecord[] = [];
+  private lastId = 0;
+
+  append(entry: FailureLogEntry): Promise<FailureLogRecord> {
+    // 同一毫秒内的多条日志保持 ID 递增
+    const id = Math.max(Date.now(), this.lastId + 1);
+    this.lastId = id;
+    const record: FailureLogRecord = { key: `reminder_failure_${id}`, id, ...clone(entry) };
+    this.records.push(record);
+    this.records = this.records.slice(-CONFIG.FAILURE_LOG.MAX_RECORDS);
+    return Promise.resolve(clone(record));
+  }
+
+  list(limit: number): Promise<FailureLogRecord[]> {
+    return Promise.resolve(this.records.slice(-limit).reverse().map(clone));
+  }
+}
+
+export class MemoryDeliveryQueueRepository implements DeliveryQueueRepository {
+  private deliveries = new Map<string, QueuedDelivery>();
+
+  list(): Promise<QueuedDelivery[]> {
+    return Promise.resolve(Array.from(this.deliveries.values()).map(clone));
+  }
+
+  listDue(now: Date): Promise<QueuedDelivery[]> {
+    const due = Array.from(this.deliveries.values()).filter(
+      (d) => d.status === 'pending' && new Date(d.nextAttemptAt).getTime() <= now.getTime()
+    );
+    return Promise.resolve(due.map(clone));
+  }
+
+  get(id: string): Promise<QueuedDelivery | null> {
+    const delivery = this.deliveries.get(id);
+    return Promise.resolve(delivery ? clone(delivery) : null);
+  }
+
+  save(delivery: QueuedDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, clone(delivery));
+    return Promise.resolve();
+  }
+
+  delete(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.deliveries.delete(id));
+    return Promise.resolve();
+  }
+}
+
+export class MemoryReminderLedgerRepository implements ReminderLedgerRepository {
+  private sent = new Map<string, Set<string>>();
+
+  getSent(date: string): Promise<string[]> {
+    return Promise.resolve([...(this.sent.get(date) || [])]);
+  }
+
+  markSent(date: string, keys: string[]): Promise<void> {
+    const sent = this.sent.get(date) || new Set<string>();
+    keys.forEach((key) => sent.add(key));
+    this.sent.set(date, sent);
+    return Promise.resolve();
+  }
+}
+
+export class MemoryBackupStateRepository implements BackupStateRepository {
+  private lastRunDate: string | null = null;
+
+  getLastRunDate(): Promise<string | null> {
+    return Promise.resolve(this.lastRunDate);
+  }
+
+  setLastRunDate(date: string): Promise<void> {
+    this.lastRunDate = date;
+    return Promise.resolve();
+  }
+}
+
+export class MemoryAuditLogRepository implements AuditLogRepository {
+  private entries: AuditEntry[] = [];
+
+  append(entries: AuditEntry[]): Promise<void> {
+    this.entries = pruneAuditItems([...this.entries, ...entries.map(clone)]);
+    return Promise.resolve();
+  }
+
+  list(filter: AuditLogFilter, limit: number): Promise<AuditEntry[]> {
+    const matched = pruneAuditItems(this.entries).filter((entry) => matchesAuditFilter(entry, filter));
+    return Promise.resolve(matched.reverse().slice(0, limit).map(clone));
+  }
+}
+
+export class MemoryRateLimitRepository implements RateLimitRepository {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  increment(action: string, identifier: string, bucket: number, ttlSeconds: number): Promise<number> {
+    const key = `${action}:${identifier}:${bucket}`;
+    const now = Date.now();
+    const existing = this.counters.get(key);
+    const count = existing && existing.expiresAt > now ? existing.count + 1 : 1;
+    this.counters.set(key, { count, expiresAt: now + ttlSeconds * 1000 });
+    return Promise.resolve(count);
+  }
+}
+
+export class MemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserAccount>();
+
+  list(): Promise<UserAccount[]> {
+    return Promise.resolve(Array.from(this.users.values()).map(clone));
+  }
+
+  get(id: string): Promise<UserAccount | null> {
+    const user = this.users.get(id);
+    return Promise.resolve(user ? clone(user) : null);
+  }
+
+  getByUsername(username: string): Promise<UserAccount | null> {
+    const target = username.toLowerCase();
+    const user = Array.from(this.users.values()).find((u) => u.username.toLowerCase() === target);
+    return Promise.resolve(user ? clone(user) : null);
+  }
+
+  create(user: UserAccount): Promise<void> {
+    if (this.users.has(user.id)) {
+      return Promise.reject(new Error('用户已存在: ' + user.id));
+    }
+    this.users.set(user.id, clone(user));
+    return Promise.resolve();
+  }
+
+  update(user: UserAccount): Promise<void> {
+    if (this.users.has(user.id)) {
+      this.users.set(user.id, clone(user));
+    }
+    return Promise.resolve();
+  }
+}
+
+export class MemoryApiTokenRepository implements ApiTokenRepository {
+  private tokens = new Map<string, ApiToken>();
+
+  list(): Promise<ApiToken[]> {
+    return Promise.resolve(Array.from(this.tokens.values()).map(clone));
+  }
+
+  get(id: string): Promise<ApiToken | null> {
+    const token = this.tokens.get(id);
+    return Promise.resolve(token ? clone(token) : null);
+  }
+
+  getByHash(tokenHash: string): Promise<ApiToken | null> {
+    const token = Array.from(this.tokens.values()).find((t) => t.tokenHash === tokenHash);
+    return Promise.resolve(token ? clone(token) : null);
+  }
+
+  create(token: ApiToken): Promise<void> {
+    this.tokens.set(token.id, clone(token));
+    return Promise.resolve();
+  }
+
+  update(token: ApiToken): Promise<void> {
+    if (this.tokens.has(token.id)) {
+      this.tokens.set(token.id, clone(token));
+    }
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<void> {
+    this.tokens.delete(id);
+    return Promise.resolve();
+  }
+}
+
+export class MemoryTwoFactorRepository implements TwoFactorRepository {
+  private records = new Map<string, TwoFactorRecord>();
+
+  get(userId: string): Promise<TwoFactorRecord | null> {
+    const record = this.records.get(userId);
+    return Promise.resolve(record ? clone(record) : null);
+  }
+
+  save(record: TwoFactorRecord): Promise<void> {
+    this.records.set(record.userId, clone(record));
+    return Promise.resolve();
+  }
+
+  delete(userId: string): Promise<void> {
+    this.records.delete(userId);
+    return Promise.resolve();
+  }
+}
+
+export class MemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, Session>();
+
+  list(): Promise<Session[]> {
+    const now = Date.now();
+    const active = Array.from(this.sessions.values()).filter((s) => new Date(s.expiresAt).getTime() > now);
+    return Promise.resolve(active.map(clone));
+  }
+
+  get(id: string): Promise<Session | null> {
+    const session = this.sessions.get(id);
+    return Promise.resolve(session && new Date(session.expiresAt).getTime() > Date.now() ? clone(session) : null);
+  }
+
+  create(session: Session): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+    return Promise.resolve();
+  }
+
+  update(session: Session): Promise<void> {
+    if (this.sessions.has(session.id)) {
+      this.sessions.set(session.id, clone(session));
+    }
+    return Promise.resolve();
+  }
+
+  delete(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.sessions.delete(id));
+    return Promise.resolve();
+  }
+}
+
+/**
+ * 创建一组相互独立的内存存储
+ */
+export function createMemoryRepositories(): Repositories {
+  return {
+    subscriptions: new MemorySubscriptionRepository(),
+    config: new MemoryConfigRepository(),
+    failureLogs: new MemoryFailureLogRepository(),
+    deliveryQueue: new MemoryDeliveryQueueRepository(),
+    reminderLedger: new MemoryReminderLedgerRepository(),
+    backupState: new MemoryBackupStateRepository(),
+    auditLogs: new MemoryAuditLogRepository(),
+    rateLimits: new MemoryRateLimitRepository(),
+    users: new MemoryUserRepository(),
+    apiTokens: new MemoryApiTokenRepository(),
+    twoFactor: new MemoryTwoFactorRepository(),
+    sessions: new MemorySessionRepository(),
+  };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
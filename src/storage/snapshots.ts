@@ -0,0 +1,127 @@
+import { Env, BackupConfig, S3BackupConfig } from '../types';
+import { signRequest } from '../utils/sigv4';
+
+/**
+ * 备份快照存储（对象存储）
+ */
+export interface SnapshotStore {
+  readonly target: 'r2' | 's3';
+
+  put(key: string, body: string): Promise<void>;
+
+  /**
+   * 列出指定前缀下的全部对象键
+   */
+  list(prefix: string): Promise<string[]>;
+
+  delete(keys: string[]): Promise<void>;
+}
+
+/**
+ * 通过 Workers R2 绑定读写
+ */
+export class R2SnapshotStore implements SnapshotStore {
+  readonly target = 'r2' as const;
+
+  constructor(private bucket: R2Bucket) { }
+
+  async put(key: string, body: string): Promise<void> {
+    await this.bucket.put(key, body, { httpMetadata: { contentType: 'application/json' } });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.bucket.list({ prefix, cursor });
+      keys.push(...page.objects.map((o) => o.key));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+    return keys;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length > 0) await this.bucket.delete(keys);
+  }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (m) => decodeXml(m[1]));
+}
+
+/**
+ * 通过 SigV4 签名的 fetch 访问 S3 兼容存储
+ * 使用 path-style 地址（endpoint/bucket/key），兼容 MinIO 等自建服务
+ */
+export class S3SnapshotStore implements SnapshotStore {
+  readonly target = 's3' as const;
+
+  constructor(private options: S3BackupConfig) { }
+
+  private objectUrl(key = ''): string {
+    const base = this.options.endpoint.replace(/\/+$/, '');
+    const path = key ? '/' + key.split('/').map(encodeURIComponent).join('/') : '';
+    return `${base}/${encodeURIComponent(this.options.bucket)}${path}`;
+  }
+
+  private async send(method: string, url: string, body?: string, headers: Record<string, string> = {}): Promise<Response> {
+    const signed = await signRequest({ method, url, headers, body }, this.options);
+    const response = await fetch(url, { method, headers: signed, body });
+    if (!response.ok) {
+      const text = await response.text();
+      const code = xmlValues(text, 'Code')[0];
+      throw new Error(`S3 ${method} 请求失败: HTTP ${response.status}${code ? ` ${code}` : ''}`);
+    }
+    return response;
+  }
+
+  async put(key: string, body: string): Promise<void> {
+    await this.send('PUT', this.objectUrl(key), body, { 'content-type': 'application/json' });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let token: string | undefined;
+    do {
+      const params = new URLSearchParams({ 'list-type': '2', prefix });
+      if (token) params.set('continuation-token', token);
+      const xml = await (await this.send('GET', `${this.objectUrl()}?${params.toString()}`)).text();
+      keys.push(...xmlValues(xml, 'Key'));
+      token = xmlValues(xml, 'IsTruncated')[0] === 'true' ? xmlValues(xml, 'NextContinuationToken')[0] : undefined;
+    } while (token);
+    return keys;
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.send('DELETE', this.objectUrl(key));
+    }
+  }
+}
+
+/**
+ * 根据备份配置创建快照存储，缺少必要配置时抛出异常
+ */
+export function createSnapshotStore(env: Env, backup: BackupConfig): SnapshotStore {
+  if (backup.target === 's3') {
+    const { endpoint, bucket, accessKeyId, secretAccessKey } = backup.s3;
+    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error('S3 备份配置不完整，需要 Endpoint、Bucket、Access Key ID 和 Secret Access Key');
+    }
+    return new S3SnapshotStore(backup.s3);
+  }
+  if (!env.BACKUP_BUCKET) {
+    throw new Error('未绑定 R2 存储桶 BACKUP_BUCKET');
+  }
+  return new R2SnapshotStore(env.BACKUP_BUCKET);
+}
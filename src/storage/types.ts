@@ -0,0 +1,231 @@
+import { Subscription, RenewalRecord, UserAccount, ApiToken, TwoFactorRecord, Session, AuditEntry, AuditLogFilter, QueuedDelivery } from '../types';
+
+/**
+ * 可选的存储后端
+ * memory 仅保存在当前进程内，用于测试和本地调试
+ */
+export type StorageBackend = 'kv' | 'd1' | 'memory';
+
+/**
+ * 订阅存储接口
+ * 订阅列表按创建顺序返回
+ */
+export interface SubscriptionRepository {
+  readonly backend: StorageBackend;
+
+  list(): Promise<Subscription[]>;
+
+  get(id: string): Promise<Subscription | null>;
+
+  /**
+   * 新增订阅并加入索引
+   */
+  create(subscription: Subscription): Promise<void>;
+
+  /**
+   * 覆盖已存在的订阅记录
+   */
+  update(subscription: Subscription): Promise<void>;
+
+  /**
+   * 删除订阅，返回实际被删除的 ID
+   */
+  delete(ids: string[]): Promise<string[]>;
+
+  getHistory(subscriptionId: string): Promise<RenewalRecord[]>;
+
+  appendHistory(record: RenewalRecord): Promise<void>;
+}
+
+/**
+ * 原始配置存储（键名为 ADMIN_USERNAME 等大写形式）
+ */
+export interface ConfigRepository {
+  get(): Promise<Record<string, unknown>>;
+
+  save(config: Record<string, unknown>): Promise<void>;
+}
+
+/**
+ * 通知渠道发送结果
+ */
+export interface ChannelResult {
+  channel: string;
+  success: boolean;
+}
+
+/**
+ * 通知失败日志
+ */
+export interface FailureLogEntry {
+  timestamp: string;
+  title: string;
+  failures: ChannelResult[];
+  successes: ChannelResult[];
+}
+
+export interface FailureLogRecord extends FailureLogEntry {
+  key: string;
+  id: number;
+}
+
+/**
+ * 通知失败日志存储（只保留最近的记录）
+ */
+export interface FailureLogRepository {
+  append(entry: FailureLogEntry): Promise<FailureLogRecord>;
+
+  /**
+   * 按时间倒序返回最近的日志
+   */
+  list(limit: number): Promise<FailureLogRecord[]>;
+}
+
+/**
+ * 定时提醒发送记录，按本地日期保存已发送的时段键（订阅 ID@HH:mm），过期自动清理
+ */
+export interface ReminderLedgerRepository {
+  getSent(date: string): Promise<string[]>;
+
+  /**
+   * 把时段键追加到当天的记录中
+   */
+  markSent(date: string, keys: string[]): Promise<void>;
+}
+
+/**
+ * 自动备份状态，记录最近一次执行自动备份的本地日期（YYYY-MM-DD）
+ */
+export interface BackupStateRepository {
+  getLastRunDate(): Promise<string | null>;
+
+  setLastRunDate(date: string): Promise<void>;
+}
+
+/**
+ * 发送重试队列存储，待重试与死信保存在同一队列中，以 status 区分
+ */
+export interface DeliveryQueueRepository {
+  /**
+   * 按加入队列的顺序返回全部记录
+   */
+  list(): Promise<QueuedDelivery[]>;
+
+  /**
+   * 返回下次重试时间不晚于 now 的待重试记录，定时任务每分钟调用，不应读取其他记录
+   */
+  listDue(now: Date): Promise<QueuedDelivery[]>;
+
+  get(id: string): Promise<QueuedDelivery | null>;
+
+  /**
+   * 新增或覆盖记录
+   */
+  save(delivery: QueuedDelivery): Promise<void>;
+
+  delete(ids: string[]): Promise<void>;
+}
+
+/**
+ * 审计日志存储，超过保留天数或最大条数的记录会被丢弃
+ */
+export interface AuditLogRepository {
+  append(entries: AuditEntry[]): Promise<void>;
+
+  /**
+   * 按时间倒序返回满足条件的最近 limit 条记录
+   */
+  list(filter: AuditLogFilter, limit: number): Promise<AuditEntry[]>;
+}
+
+/**
+ * 速率限制计数存储
+ */
+export interface RateLimitRepository {
+  /**
+   * 将时间窗口内的计数加一并返回新值，计数在 ttlSeconds 秒后过期
+   */
+  increment(action: string, identifier: string, bucket: number, ttlSeconds: number): Promise<number>;
+}
+
+/**
+ * 用户账户存储
+ */
+export interface UserRepository {
+  list(): Promise<UserAccount[]>;
+
+  get(id: string): Promise<UserAccount | null>;
+
+  /**
+   * 按用户名查找（不区分大小写）
+   */
+  getByUsername(username: string): Promise<UserAccount | null>;
+
+  create(user: UserAccount): Promise<void>;
+
+  update(user: UserAccount): Promise<void>;
+}
+
+/**
+ * 个人 API Token 存储
+ */
+export interface ApiTokenRepository {
+  list(): Promise<ApiToken[]>;
+
+  get(id: string): Promise<ApiToken | null>;
+
+  getByHash(tokenHash: string): Promise<ApiToken | null>;
+
+  create(token: ApiToken): Promise<void>;
+
+  update(token: ApiToken): Promise<void>;
+
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * 登录会话存储，过期的会话由存储自动清理
+ */
+export interface SessionRepository {
+  /**
+   * 列出全部未过期的会话
+   */
+  list(): Promise<Session[]>;
+
+  get(id: string): Promise<Session | null>;
+
+  create(session: Session): Promise<void>;
+
+  update(session: Session): Promise<void>;
+
+  delete(ids: string[]): Promise<void>;
+}
+
+/**
+ * 两步验证设置存储（按用户 ID）
+ */
+export interface TwoFactorRepository {
+  get(userId: string): Promise<TwoFactorRecord | null>;
+
+  save(record: TwoFactorRecord): Promise<void>;
+
+  delete(userId: string): Promise<void>;
+}
+
+/**
+ * 全部存储仓库
+ */
+export interface Repositories {
+  subscriptions: SubscriptionRepository;
+  config: ConfigRepository;
+  failureLogs: FailureLogRepository;
+  deliveryQueue: DeliveryQueueRepository;
+  reminderLedger: ReminderLedgerRepository;
+  backupState: BackupStateRepository;
+  auditLogs: AuditLogRepository;
+  rateLimits: RateLimitRepository;
+  users: UserRepository;
+  apiTokens: ApiTokenRepository;
+  twoFactor: TwoFactorRepository;
+  sessions: SessionRepository;
+}
@@ -101,6 +101,10 @@ export const adminPage = `
       nav .h-16 { height: 56px; }
       #subscriptionModal .p-5 { padding: 16px; }
     }
+
+    /* 按角色隐藏无权限的操作 */
+    body.role-viewer .editor-only { display: none !important; }
+    body.role-viewer .admin-only, body.role-editor .admin-only { display: none !important; }
   </style>
 </head>
 <body class="bg-gray-100 min-h-screen font-sans">
@@ -113,12 +117,18 @@ export const adminPage = `
         </div>
         <div class="flex items-center space-x-4">
           <div class="text-gray-600 text-sm hidden md:block mr-2" id="systemTimeDisplay"></div>
-          <a href="/admin/config" class="text-gray-600 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
+          <a href="/admin/config" class="admin-only text-gray-600 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
             <i class="fas fa-cog mr-1"></i>系统配置
           </a>
-          <button onclick="openFailureLogs()" class="text-gray-600 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
+          <button onclick="openFailureLogs()" class="admin-only text-gray-600 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
             <i class="fas fa-exclamation-triangle mr-1"></i>失败日志
           </button>
+          <button onclick="openAuditLogs()" class="admin-only text-gray-600 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
+            <i class="fas fa-history mr-1"></i>审计日志
+          </button>
+          <a href="/admin/password" class="text-gray-600 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
+            <i class="fas fa-key mr-1"></i>修改密码
+          </a>
           <form action="/api/logout" method="POST" class="inline">
             <button type="submit" class="text-gray-600 hover:text-red-500 px-3 py-2 rounded-md text-sm font-medium transition duration-150">
               <i class="fas fa-sign-out-alt mr-1"></i>退出
@@ -195,21 +205,38 @@ export const adminPage = `
             <button id="exportCsvBtn" class="hidden sm:inline-block px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100" title="导出CSV">
               导出CSV
             </button>
-            <label class="hidden sm:inline-block px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 cursor-pointer" title="导入CSV">
+            <label class="editor-only hidden sm:inline-block px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 cursor-pointer" title="导入CSV">
               导入CSV
               <input id="importCsvInput" type="file" accept=".csv,text/csv" class="hidden">
             </label>
           </div>
-          <button onclick="openModal()" class="btn-primary px-4 py-2 rounded-lg text-white text-sm font-medium shadow-md flex items-center whitespace-nowrap">
+          <button onclick="openModal()" class="editor-only btn-primary px-4 py-2 rounded-lg text-white text-sm font-medium shadow-md flex items-center whitespace-nowrap">
             <i class="fas fa-plus mr-2"></i>添加订阅
           </button>
         </div>
       </div>
       
+      <!-- 批量操作栏 -->
+      <div id="bulkActionBar" class="editor-only hidden mb-4 p-3 bg-indigo-50 border border-indigo-100 rounded-lg flex flex-wrap items-center gap-2 text-sm">
+        <span class="text-indigo-700">已选择 <span id="bulkSelectedCount">0</span> 项</span>
+        <select id="bulkActionSelect" class="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" aria-label="批量操作">
+          <option value="activate">启用</option>
+          <option value="deactivate">停用</option>
+          <option value="renew">标记已续费</option>
+          <option value="setCustomType">设置类型</option>
+          <option value="setReminderDays">设置提醒天数</option>
+          <option value="delete">删除</option>
+        </select>
+        <input id="bulkActionValue" type="text" class="hidden px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 w-36">
+        <button id="bulkApplyBtn" class="btn-primary px-3 py-2 rounded-md text-white">执行</button>
+        <button id="bulkClearBtn" class="px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100">取消选择</button>
+      </div>
+
       <div class="hidden md:block overflow-x-auto">
         <table class="min-w-full divide-y divide-gray-200">
           <thead class="bg-gray-50">
             <tr>
+              <th class="pl-4 py-3 text-left"><input type="checkbox" id="selectAllCheckbox" title="全选" aria-label="全选"></th>
               <th class="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">服务名称</th>
               <th class="hidden lg:table-cell px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">类型</th>
               <th class="hidden lg:table-cell px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">周期</th>
@@ -222,7 +249,7 @@ export const adminPage = `
           </thead>
           <tbody class="bg-white divide-y divide-gray-200" id="subscriptionList">
             <tr>
-              <td colspan="8" class="px-6 py-10 text-center text-gray-500">
+              <td colspan="9" class="px-6 py-10 text-center text-gray-500">
                 <i class="fas fa-spinner fa-spin mr-2"></i>加载中...
               </td>
             </tr>
@@ -330,9 +357,30 @@ export const adminPage = `
           </div>
         </div>
         
-        <div>
-          <label for="price" class="block text-sm font-medium text-gray-700 mb-1">金额（每周期，¥）</label>
-          <input type="number" id="price" min="0" step="0.01" placeholder="例如 29.90" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+        <div class="grid grid-cols-3 gap-4">
+          <div class="col-span-2">
+            <label for="price" class="block text-sm font-medium text-gray-700 mb-1">金额（每周期）</label>
+            <input type="number" id="price" min="0" step="0.01" placeholder="例如 29.90" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+          </div>
+          <div>
+            <label for="currency" class="block text-sm font-medium text-gray-700 mb-1">货币</label>
+            <select id="currency" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+              <option value="CNY">CNY ¥</option>
+              <option value="USD">USD $</option>
+              <option value="EUR">EUR €</option>
+              <option value="GBP">GBP £</option>
+              <option value="JPY">JPY ¥</option>
+              <option value="HKD">HKD HK$</option>
+              <option value="TWD">TWD NT$</option>
+              <option value="KRW">KRW ₩</option>
+              <option value="SGD">SGD S$</option>
+              <option value="AUD">AUD A$</option>
+              <option value="CAD">CAD C$</option>
+              <option value="CHF">CHF</option>
+              <option value="RUB">RUB ₽</option>
+              <option value="INR">INR ₹</option>
+            </select>
+          </div>
         </div>
         
         <div class="flex items-center space-x-4 bg-gray-50 p-3 rounded-lg">
@@ -368,6 +416,22 @@ export const adminPage = `
           </div>
         </div>
 
+        <div>
+          <label for="reminderStages" class="block text-sm font-medium text-gray-700 mb-1">分阶段提醒</label>
+          <input type="text" id="reminderStages" placeholder="30:email,7,1,0:telegram" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" autocomplete="off">
+          <p class="mt-1 text-xs text-gray-500">只在到期前的这些天提醒，设置后取代“提醒设置 (天)”。格式为「天数」或「天数:渠道」，多个渠道用 | 分隔，例如 30:email 表示提前 30 天只发邮件；留空则在提醒天数内每天提醒</p>
+        </div>
+
+        <div>
+          <label class="block text-sm font-medium text-gray-700 mb-1">过期提醒（仅不自动续订的订阅）</label>
+          <div class="grid grid-cols-3 gap-4">
+            <input type="number" id="overdueDailyDays" min="0" max="3650" placeholder="每天提醒天数" title="过期后每天提醒的天数" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            <input type="number" id="overdueWeeklyUntilDays" min="0" max="3650" placeholder="每周提醒至第几天" title="之后每周提醒一次，直到过期第几天" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+            <input type="number" id="overdueDeactivateDays" min="0" max="3650" placeholder="自动停用天数" title="过期满几天后自动停用，0 表示不停用" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500">
+          </div>
+          <p class="mt-1 text-xs text-gray-500">留空的项使用系统配置中的过期提醒策略；自动停用时会发送最后一次通知</p>
+        </div>
+
         <div>
           <label for="weNotifyUserIds" class="block text-sm font-medium text-gray-700 mb-1">WeNotify 定向推送用户</label>
           <input type="text" id="weNotifyUserIds" placeholder="user1|user2" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500" autocomplete="off">
@@ -399,6 +463,11 @@ export const adminPage = `
           </div>
         </div>
         
+        <div id="renewalHistorySection" class="hidden border-t pt-4">
+          <h4 class="text-sm font-medium text-gray-700 mb-3"><i class="fas fa-history mr-1 text-gray-400"></i>续期记录</h4>
+          <ol id="renewalHistoryList" class="relative border-l border-gray-200 ml-2 space-y-4 max-h-48 overflow-y-auto"></ol>
+        </div>
+        
         <div class="flex justify-end space-x-3 mt-6 pt-4 border-t">
           <button type="button" id="cancelBtn" class="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition duration-150">取消</button>
           <button type="submit" class="btn-primary px-6 py-2 text-white rounded-lg shadow-md font-medium">保存订阅</button>
@@ -408,7 +477,7 @@ export const adminPage = `
   </div>
 
   <div id="failureLogsModal" class="fixed inset-0 bg-gray-600 bg-opacity-50 hidden overflow-y-auto h-full w-full z-50 flex items-center justify-center">
-    <div class="relative mx-auto p-5 border w-full max-w-2xl shadow-lg rounded-xl bg-white">
+    <div class="relative mx-auto p-5 border w-full max-w-4xl shadow-lg rounded-xl bg-white">
       <div class="flex justify-between items-center mb-5 pb-3 border-b">
         <h3 class="text-xl font-bold text-gray-900">失败日志</h3>
         <div class="flex items-center space-x-3">
@@ -437,6 +506,76 @@ export const adminPage = `
           </tbody>
         </table>
       </div>
+      <div class="flex justify-between items-center mt-6 mb-3">
+        <h4 class="text-lg font-semibold text-gray-900">重试队列</h4>
+        <span class="text-xs text-gray-500">发送失败的消息按指数退避自动重试，次数用尽后成为死信，可手动重新发送</span>
+      </div>
+      <div class="overflow-x-auto">
+        <table class="min-w-full divide-y divide-gray-200">
+          <thead class="bg-gray-50">
+            <tr>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">最近发送</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">渠道</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">标题</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">状态</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">次数</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">操作</th>
+            </tr>
+          </thead>
+          <tbody id="deliveryQueueBody" class="bg-white divide-y divide-gray-200"></tbody>
+        </table>
+      </div>
+    </div>
+  </div>
+
+  <div id="auditLogsModal" class="fixed inset-0 bg-gray-600 bg-opacity-50 hidden overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+    <div class="relative mx-auto p-5 border w-full max-w-5xl shadow-lg rounded-xl bg-white">
+      <div class="flex justify-between items-center mb-5 pb-3 border-b">
+        <h3 class="text-xl font-bold text-gray-900">审计日志</h3>
+        <div class="flex items-center space-x-3">
+          <button id="refreshAuditLogs" class="text-gray-600 hover:text-indigo-600 px-3 py-1 rounded-md text-sm border">刷新</button>
+          <button id="closeAuditLogs" class="text-gray-400 hover:text-gray-600 transition duration-150">
+            <i class="fas fa-times text-xl"></i>
+          </button>
+        </div>
+      </div>
+      <div class="flex flex-wrap items-center gap-3 mb-4">
+        <input type="text" id="auditActorFilter" placeholder="操作者" class="px-3 py-1.5 border border-gray-300 rounded-md text-sm">
+        <select id="auditActionFilter" class="px-3 py-1.5 border border-gray-300 rounded-md text-sm">
+          <option value="">全部操作</option>
+          <option value="subscription">订阅</option>
+          <option value="config">系统配置</option>
+          <option value="user">用户</option>
+          <option value="api_token">API Token</option>
+          <option value="two_factor">两步验证</option>
+          <option value="session">登录会话</option>
+          <option value="auth">登录与登出</option>
+          <option value="backup">备份与恢复</option>
+          <option value="storage">存储迁移</option>
+          <option value="notification">通知</option>
+        </select>
+        <label class="text-sm text-gray-600">起始日期 <input type="date" id="auditSinceFilter" class="ml-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm"></label>
+      </div>
+      <div class="overflow-x-auto max-h-[60vh] overflow-y-auto">
+        <table class="min-w-full divide-y divide-gray-200">
+          <thead class="bg-gray-50">
+            <tr>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">时间</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">操作者</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">操作</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">对象</th>
+              <th class="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">变更</th>
+            </tr>
+          </thead>
+          <tbody id="auditLogsBody" class="bg-white divide-y divide-gray-200">
+            <tr>
+              <td colspan="5" class="px-6 py-10 text-center text-gray-500">
+                <i class="fas fa-spinner fa-spin mr-2"></i>加载中...
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
     </div>
   </div>
 
@@ -735,6 +874,46 @@ export const adminPage = `
     let sortKey = 'expiryDate';
     let sortDir = 'asc';
     let filterKey = 'all';
+    let baseCurrency = 'CNY';
+    let exchangeRates = {};
+    let selectedIds = new Set();
+    let visibleIds = [];
+    const currencySymbols = { CNY: '¥', USD: '$', EUR: '€', GBP: '£', JPY: 'JP¥', HKD: 'HK$', TWD: 'NT$', KRW: '₩', SGD: 'S$', AUD: 'A$', CAD: 'C$', CHF: 'CHF ', RUB: '₽', INR: '₹' };
+    
+    function formatMoney(amount, currency) {
+      const symbol = currencySymbols[currency];
+      return symbol ? symbol + amount.toFixed(2) : currency + ' ' + amount.toFixed(2);
+    }
+    
+    // 换算为基础货币，缺少汇率时返回 null
+    function toBaseAmount(amount, currency) {
+      const code = currency || baseCurrency;
+      if (code === baseCurrency) return amount;
+      const rate = Number(exchangeRates[code]);
+      return rate > 0 ? amount * rate : null;
+    }
+    
+    // 选择货币，下拉框中没有的币种（如自定义基础货币）临时追加
+    function setCurrencyValue(code) {
+      const select = document.getElementById('currency');
+      if (!Array.from(select.options).some(o => o.value === code)) {
+        const opt = document.createElement('option');
+        opt.value = code;
+        opt.textContent = code;
+        select.appendChild(opt);
+      }
+      select.value = code;
+    }
+    
+    function monthlyAmount(sub) {
+      const price = Number(sub.price);
+      const val = sub.periodValue || 1;
+      const unit = sub.periodUnit || 'month';
+      if (unit === 'month') return price / Math.max(1, val);
+      if (unit === 'year') return price / Math.max(1, val * 12);
+      if (unit === 'day') return price * (30 / Math.max(1, val));
+      return 0;
+    }
     
     function toCSVRow(values) {
       let out = '';
@@ -753,9 +932,11 @@ export const adminPage = `
     }
     
     function exportCSV() {
-      const header = ['name','customType','startDate','expiryDate','periodValue','periodUnit','price','reminderDays','notes','isActive','autoRenew','useLunar'];
+      const header = ['name','customType','startDate','expiryDate','periodValue','periodUnit','price','currency','convertedPrice','baseCurrency','reminderDays','notes','isActive','autoRenew','useLunar'];
       const rows = [toCSVRow(header)];
       subscriptions.forEach(s => {
+        const hasPrice = s.price !== undefined && !isNaN(Number(s.price));
+        const converted = hasPrice ? toBaseAmount(Number(s.price), s.currency) : null;
         rows.push(toCSVRow([
           s.name || '',
           s.customType || '',
@@ -764,6 +945,9 @@ export const adminPage = `
           s.periodValue !== undefined ? s.periodValue : '',
           s.periodUnit || '',
           s.price !== undefined ? s.price : '',
+          s.currency || baseCurrency,
+          converted !== null ? converted.toFixed(2) : '',
+          baseCurrency,
           s.reminderDays !== undefined ? s.reminderDays : '',
           s.notes || '',
           s.isActive ? 'true' : 'false',
@@ -871,6 +1055,7 @@ export const adminPage = `
             periodValue: get('periodValue') ? parseInt(get('periodValue')) : undefined,
             periodUnit: get('periodUnit') || 'month',
             price: get('price') ? parseFloat(get('price')) : undefined,
+            currency: get('currency') ? get('currency').toUpperCase() : undefined,
             reminderDays: get('reminderDays') ? parseInt(get('reminderDays')) : undefined,
             notes: get('notes'),
             isActive: get('isActive') ? (get('isActive').toLowerCase() === 'true') : true,
@@ -900,17 +1085,26 @@ export const adminPage = `
     // Load Subscriptions
     async function loadSubscriptions() {
       const tbody = document.getElementById('subscriptionList');
-      tbody.innerHTML = '<tr><td colspan="8" class="text-center py-10"><i class="fas fa-spinner fa-spin mr-2"></i>加载中...</td></tr>';
+      tbody.innerHTML = '<tr><td colspan="9" class="text-center py-10"><i class="fas fa-spinner fa-spin mr-2"></i>加载中...</td></tr>';
       
       try {
-        const res = await fetch('/api/subscriptions', { credentials: 'include' });
+        const [res, ratesRes] = await Promise.all([
+          fetch('/api/subscriptions', { credentials: 'include' }),
+          fetch('/api/exchange-rates', { credentials: 'include' })
+        ]);
         subscriptions = await res.json();
+        selectedIds = new Set(Array.from(selectedIds).filter(id => subscriptions.some(s => s.id === id)));
+        if (ratesRes.ok) {
+          const rateData = await ratesRes.json();
+          baseCurrency = rateData.baseCurrency || 'CNY';
+          exchangeRates = rateData.rates || {};
+        }
         
         renderSubscriptions();
         updateStats();
       } catch (err) {
         console.error(err);
-        tbody.innerHTML = '<tr><td colspan="8" class="text-center py-10 text-red-500">加载失败</td></tr>';
+        tbody.innerHTML = '<tr><td colspan="9" class="text-center py-10 text-red-500">加载失败</td></tr>';
         showToast('加载失败', 'error');
       }
     }
@@ -937,15 +1131,18 @@ export const adminPage = `
             exp.setHours(0,0,0,0);
             const diff = Math.ceil((exp - today) / (1000 * 60 * 60 * 24));
             if (filterKey === 'active') return s.isActive !== false && diff >= 0;
-            if (filterKey === 'expiring') return s.isActive !== false && diff >= 0 && diff <= (s.reminderDays || 7);
+            if (filterKey === 'expiring') return s.isActive !== false && diff >= 0 && diff <= reminderWindow(s);
             if (filterKey === 'expired') return diff < 0;
             if (filterKey === 'inactive') return s.isActive === false;
             return true;
           });
         }
         
+        visibleIds = list.map(s => s.id);
+        updateBulkBar();
+        
         if (list.length === 0) {
-          tbody.innerHTML = '<tr><td colspan="8" class="text-center py-10 text-gray-500">暂无订阅，点击上方按钮添加</td></tr>';
+          tbody.innerHTML = '<tr><td colspan="9" class="text-center py-10 text-gray-500">暂无订阅，点击上方按钮添加</td></tr>';
           mobileList.innerHTML = '<div class="text-center py-10 text-gray-500">暂无订阅，点击上方按钮添加</div>';
           return;
         }
@@ -979,28 +1176,33 @@ export const adminPage = `
           let statusHtml = '';
           if (sub.isActive === false) statusHtml = '<span class="px-2 py-1 text-xs rounded-full bg-gray-200 text-gray-800">已停用</span>';
           else if (diff < 0) statusHtml = '<span class="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">已过期</span>';
-          else if (diff <= (sub.reminderDays || 7)) statusHtml = '<span class="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800">即将到期</span>';
+          else if (diff <= reminderWindow(sub)) statusHtml = '<span class="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800">即将到期</span>';
           else statusHtml = '<span class="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">正常</span>';
+          const mutedText = sub.isActive !== false ? reminderMutedText(sub) : '';
+          if (mutedText) statusHtml += ' <i class="fas fa-bell-slash text-gray-400" title="' + mutedText + '"></i>';
           
           const dateStr = exp.toISOString().split('T')[0];
           
           let priceStr = '-';
+          let convertedStr = '';
           let monthlyStr = '-';
           if (sub.price !== undefined && !isNaN(Number(sub.price))) {
             const price = Number(sub.price);
-            const val = sub.periodValue || 1;
-            const unit = sub.periodUnit || 'month';
-            let m = 0;
-            if (unit === 'month') m = price / Math.max(1, val);
-            else if (unit === 'year') m = price / Math.max(1, val * 12);
-            else if (unit === 'day') m = price * (30 / Math.max(1, val));
-            priceStr = '¥' + price.toFixed(2);
-            monthlyStr = '¥' + m.toFixed(2);
+            const currency = sub.currency || baseCurrency;
+            const m = monthlyAmount(sub);
+            const convertedPrice = toBaseAmount(price, currency);
+            const convertedMonthly = toBaseAmount(m, currency);
+            priceStr = formatMoney(price, currency);
+            if (currency !== baseCurrency) {
+              convertedStr = convertedPrice !== null ? '≈ ' + formatMoney(convertedPrice, baseCurrency) : '未设置汇率';
+            }
+            monthlyStr = convertedMonthly !== null ? formatMoney(convertedMonthly, baseCurrency) : formatMoney(m, currency);
           }
           
           // Desktop Table Row
           const tr = document.createElement('tr');
           tr.innerHTML = \`
+            <td class="pl-4 py-4"><input type="checkbox" onchange="toggleSelect('\${sub.id}', this.checked)" \${selectedIds.has(sub.id) ? 'checked' : ''} aria-label="选择"></td>
             <td class="px-4 sm:px-6 py-4 whitespace-nowrap max-w-[80px] sm:max-w-[140px] md:max-w-[200px] overflow-hidden">
                 <div class="text-sm font-medium text-gray-900 truncate" title="\${sub.name}">\${sub.name}</div>
                 \${sub.notes ? \`<div class="text-xs text-gray-500 truncate" title="\${sub.notes.replace(/"/g,'&quot;')}">\${sub.notes}</div>\` : ''}
@@ -1011,15 +1213,19 @@ export const adminPage = `
               \${dateStr}
               <div class="text-xs text-gray-400" title="\${sub.useLunar ? '按农历周期滚动，显示为换算后的阳历日期' : '按公历周期滚动'}">\${sub.useLunar ? '农历' : '公历'}</div>
             </td>
-            <td class="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-sm text-gray-500">\${priceStr}</td>
+            <td class="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+              \${priceStr}
+              \${convertedStr ? \`<div class="text-xs text-gray-400">\${convertedStr}</div>\` : ''}
+            </td>
             <td class="hidden lg:table-cell px-6 py-4 whitespace-nowrap text-sm text-gray-500">\${monthlyStr}</td>
             <td class="px-6 py-4 whitespace-nowrap">\${statusHtml}</td>
             <td class="px-4 py-4 whitespace-nowrap text-sm font-medium">
-              <div class="flex items-center space-x-3">
+              <div class="editor-only flex items-center space-x-3">
                 <button onclick="openModal('\${sub.id}')" class="text-indigo-600 hover:text-indigo-900" title="编辑"><i class="fas fa-edit"></i></button>
                 <button onclick="toggleStatus('\${sub.id}', \${!sub.isActive})" class="text-blue-600 hover:text-blue-900" title="\${sub.isActive ? '停用' : '启用'}">
                   <i class="fas \${sub.isActive ? 'fa-toggle-on' : 'fa-toggle-off'}"></i>
                 </button>
+                <button onclick="markRenewed('\${sub.id}')" class="text-green-600 hover:text-green-900" title="已续费"><i class="fas fa-check-circle"></i></button>
                 <button onclick="testNotify('\${sub.id}')" class="text-yellow-600 hover:text-yellow-900" title="发送测试通知"><i class="fas fa-bell"></i></button>
                 <button onclick="deleteSubscription('\${sub.id}')" class="text-red-600 hover:text-red-900" title="删除"><i class="fas fa-trash"></i></button>
               </div>
@@ -1032,19 +1238,22 @@ export const adminPage = `
           card.className = 'bg-white p-4 rounded-xl shadow-sm border border-gray-100';
           card.innerHTML = \`
             <div class="flex justify-between items-start mb-3">
-              <div class="overflow-hidden mr-2">
+              <div class="overflow-hidden mr-2 flex items-start">
+                <input type="checkbox" class="mt-2 mr-3" onchange="toggleSelect('\${sub.id}', this.checked)" \${selectedIds.has(sub.id) ? 'checked' : ''} aria-label="选择">
+                <div class="overflow-hidden">
                 <h3 class="font-bold text-gray-900 text-lg truncate">\${sub.name}</h3>
                 <div class="flex items-center text-xs text-gray-500 mt-1">
                   <span class="bg-gray-100 px-2 py-0.5 rounded mr-2">\${sub.customType || '其他'}</span>
                   <span>\${sub.periodValue}\${unitMap[sub.periodUnit]}</span>
                 </div>
+                </div>
               </div>
               <div class="flex-shrink-0">\${statusHtml}</div>
             </div>
             
             <div class="grid grid-cols-2 gap-y-2 gap-x-4 text-sm text-gray-600 mb-4 bg-gray-50 p-3 rounded-lg">
                <div class="flex items-center"><i class="fas fa-calendar-alt mr-2 text-gray-400 w-4"></i>\${dateStr}</div>
-               <div class="flex items-center"><i class="fas fa-yen-sign mr-2 text-gray-400 w-4"></i>\${priceStr === '-' ? '--' : priceStr.replace('¥','')}</div>
+               <div class="flex items-center"><i class="fas fa-money-bill-wave mr-2 text-gray-400 w-4"></i>\${priceStr === '-' ? '--' : priceStr}\${convertedStr ? \` <span class="text-xs text-gray-400 ml-1">\${convertedStr}</span>\` : ''}</div>
                <div class="flex items-center col-span-2 text-xs text-gray-400">
                   <i class="fas fa-info-circle mr-2 w-4"></i>\${sub.useLunar ? '农历' : '公历'}
                </div>
@@ -1052,11 +1261,12 @@ export const adminPage = `
             
             <div class="flex justify-between items-center pt-2 border-t border-gray-100">
               <div class="text-xs text-gray-400 italic truncate max-w-[120px]">\${sub.notes || '无备注'}</div>
-              <div class="flex space-x-4">
+              <div class="editor-only flex space-x-4">
                 <button onclick="openModal('\${sub.id}')" class="text-indigo-600 hover:text-indigo-800"><i class="fas fa-edit text-lg"></i></button>
                 <button onclick="toggleStatus('\${sub.id}', \${!sub.isActive})" class="text-blue-600 hover:text-blue-800">
                   <i class="fas \${sub.isActive ? 'fa-toggle-on' : 'fa-toggle-off'} text-lg"></i>
                 </button>
+                <button onclick="markRenewed('\${sub.id}')" class="text-green-600 hover:text-green-800" title="已续费"><i class="fas fa-check-circle text-lg"></i></button>
                 <button onclick="testNotify('\${sub.id}')" class="text-yellow-600 hover:text-yellow-800"><i class="fas fa-bell text-lg"></i></button>
                 <button onclick="deleteSubscription('\${sub.id}')" class="text-red-600 hover:text-red-800"><i class="fas fa-trash text-lg"></i></button>
               </div>
@@ -1066,37 +1276,31 @@ export const adminPage = `
         });
     }
     
-    function updateStats() {
-        const active = subscriptions.filter(s => s.isActive !== false).length;
-        const total = subscriptions.length;
-        
-        const today = new Date();
-        today.setHours(0,0,0,0);
+    // 仪表盘统计由服务端 /api/stats 计算
+    async function updateStats() {
+        let stats;
+        try {
+          const res = await fetch('/api/stats', { credentials: 'include' });
+          if (!res.ok) throw new Error('HTTP ' + res.status);
+          stats = await res.json();
+        } catch (err) {
+          console.error('加载统计失败', err);
+          return;
+        }
         
-        const expiring = subscriptions.filter(s => {
-          if (s.isActive === false) return false;
-          const exp = new Date(s.expiryDate);
-          exp.setHours(0,0,0,0);
-          const diff = Math.ceil((exp - today) / (1000 * 60 * 60 * 24));
-          return diff >= 0 && diff <= 7;
-        }).length;
+        const total = stats.counts.total;
+        const active = stats.counts.active;
+        const expiring = stats.counts.expiring;
+        const monthly = stats.totals.monthly;
         
         document.getElementById('totalCount').textContent = total;
         document.getElementById('activeCount').textContent = active;
         document.getElementById('expiringCount').textContent = expiring;
         
-        let monthly = 0;
-        subscriptions.forEach(s => {
-          if (s.isActive === false) return;
-          if (s.price === undefined || isNaN(Number(s.price))) return;
-          const price = Number(s.price);
-          const val = s.periodValue || 1;
-          const unit = s.periodUnit || 'month';
-          if (unit === 'month') monthly += price / Math.max(1, val);
-          else if (unit === 'year') monthly += price / Math.max(1, val * 12);
-          else if (unit === 'day') monthly += price * (30 / Math.max(1, val));
-        });
-        document.getElementById('monthlyExpense').textContent = '¥' + monthly.toFixed(2); 
+        const expenseEl = document.getElementById('monthlyExpense');
+        expenseEl.textContent = formatMoney(monthly, stats.baseCurrency);
+        expenseEl.title = '年化支出 ' + formatMoney(stats.totals.annual, stats.baseCurrency) +
+          (stats.unconverted.length > 0 ? '；' + stats.unconverted.length + ' 个订阅缺少汇率，未计入' : '');
         
         const totalPercent = Math.min(100, Math.round((total / 50) * 100));
         const activePercent = total > 0 ? Math.round((active / total) * 100) : 0;
@@ -1144,8 +1348,12 @@ export const adminPage = `
       document.getElementById('periodValue').value = 1;
       document.getElementById('periodUnit').value = 'month';
       document.getElementById('reminderDays').value = 7;
+      document.getElementById('reminderStages').value = '';
+      OVERDUE_FIELDS.forEach(([field, inputId]) => { document.getElementById(inputId).value = ''; });
       const priceEl = document.getElementById('price');
       if (priceEl) priceEl.value = '';
+      document.getElementById('renewalHistorySection').classList.add('hidden');
+      setCurrencyValue(baseCurrency);
       
       if (id) {
           const sub = subscriptions.find(s => s.id === id);
@@ -1163,11 +1371,18 @@ export const adminPage = `
              document.getElementById('periodUnit').value = sub.periodUnit || 'month';
              document.getElementById('reminderDays').value = sub.reminderDays !== undefined ? sub.reminderDays : 7;
              document.getElementById('dailyReminderTimes').value = (sub.dailyReminderTimes || []).join(',');
+             document.getElementById('reminderStages').value = formatReminderStages(sub.reminderStages);
+             OVERDUE_FIELDS.forEach(([field, inputId]) => {
+               const value = (sub.overduePolicy || {})[field];
+               document.getElementById(inputId).value = value !== undefined ? value : '';
+             });
              document.getElementById('weNotifyUserIds').value = sub.weNotifyUserIds || '';
              document.getElementById('wechatBotKeys').value = sub.wechatBotKeys || '';
              document.getElementById('emailAddresses').value = sub.emailAddresses || '';
              document.getElementById('useLunar').checked = !!sub.useLunar;
              if (priceEl) priceEl.value = sub.price !== undefined ? String(sub.price) : '';
+             setCurrencyValue(sub.currency || baseCurrency);
+             loadRenewalHistory(sub.id);
           }
       }
       
@@ -1190,7 +1405,10 @@ export const adminPage = `
     window.deleteSubscription = deleteSubscription;
     window.toggleStatus = toggleStatus;
     window.testNotify = testNotify;
+    window.markRenewed = markRenewed;
+    window.toggleSelect = toggleSelect;
     window.openFailureLogs = openFailureLogs;
+    window.openAuditLogs = openAuditLogs;
     
     document.getElementById('closeModal').addEventListener('click', () => {
       document.getElementById('subscriptionModal').classList.add('hidden');
@@ -1204,6 +1422,16 @@ export const adminPage = `
     });
     document.getElementById('refreshFailureLogs').addEventListener('click', () => {
       loadFailureLogs();
+      loadDeliveryQueue();
+    });
+    document.getElementById('closeAuditLogs').addEventListener('click', () => {
+      document.getElementById('auditLogsModal').classList.add('hidden');
+    });
+    document.getElementById('refreshAuditLogs').addEventListener('click', () => {
+      loadAuditLogs();
+    });
+    ['auditActorFilter', 'auditActionFilter', 'auditSinceFilter'].forEach(id => {
+      document.getElementById(id).addEventListener('change', () => loadAuditLogs());
     });
     
     // Form Submit
@@ -1214,6 +1442,11 @@ export const adminPage = `
         showToast('当天重复提醒时段格式错误，请按 HH:mm 重新输入', 'error');
         return;
       }
+      const stages = parseReminderStages(document.getElementById('reminderStages').value);
+      if (stages.error) {
+        showToast(stages.error, 'error');
+        return;
+      }
       const id = document.getElementById('subscriptionId').value;
       const data = {
         name: document.getElementById('name').value,
@@ -1226,6 +1459,8 @@ export const adminPage = `
         periodValue: parseInt(document.getElementById('periodValue').value),
         periodUnit: document.getElementById('periodUnit').value,
         reminderDays: parseInt(document.getElementById('reminderDays').value),
+        reminderStages: stages.stages,
+        overduePolicy: readOverduePolicy(),
         dailyReminderTimes: (function(){ 
           let v = document.getElementById('dailyReminderTimes').value.trim(); 
           v = normalizeTimeStr(v);
@@ -1235,7 +1470,8 @@ export const adminPage = `
         wechatBotKeys: document.getElementById('wechatBotKeys').value.trim(),
         emailAddresses: document.getElementById('emailAddresses').value.trim(),
         useLunar: document.getElementById('useLunar').checked,
-        price: (function(){ const v = document.getElementById('price').value; return v ? parseFloat(v) : undefined; })()
+        price: (function(){ const v = document.getElementById('price').value; return v ? parseFloat(v) : undefined; })(),
+        currency: document.getElementById('currency').value || undefined
       };
       
       const btn = e.target.querySelector('button[type="submit"]');
@@ -1264,6 +1500,58 @@ export const adminPage = `
       }
     });
     
+    // 分阶段提醒的文本格式：「天数」或「天数:渠道1|渠道2」，多个阶段用逗号分隔
+    function parseReminderStages(text) {
+      const stages = [];
+      const parts = (text || '').replace(/[，；;]/g, ',').split(',').map(s => s.trim()).filter(Boolean);
+      for (const part of parts) {
+        const segs = part.replace('：', ':').split(':');
+        const days = segs[0].trim();
+        if (segs.length > 2 || !/^[0-9]+$/.test(days)) {
+          return { error: '分阶段提醒格式错误: "' + part + '"' };
+        }
+        const stage = { daysBefore: parseInt(days, 10) };
+        const channels = (segs[1] || '').split('|').map(s => s.trim()).filter(Boolean);
+        if (channels.length > 0) stage.channels = channels;
+        stages.push(stage);
+      }
+      return { stages };
+    }
+
+    function formatReminderStages(stages) {
+      return (stages || []).map(s => s.daysBefore + (s.channels && s.channels.length ? ':' + s.channels.join('|') : '')).join(',');
+    }
+
+    // 订阅级过期提醒策略：[字段, 输入框 ID]，留空的字段使用全局设置
+    const OVERDUE_FIELDS = [
+      ['dailyDays', 'overdueDailyDays'],
+      ['weeklyUntilDays', 'overdueWeeklyUntilDays'],
+      ['deactivateAfterDays', 'overdueDeactivateDays'],
+    ];
+
+    function readOverduePolicy() {
+      const policy = {};
+      OVERDUE_FIELDS.forEach(([field, inputId]) => {
+        const value = parseInt(document.getElementById(inputId).value, 10);
+        if (!isNaN(value) && value >= 0) policy[field] = value;
+      });
+      return policy;
+    }
+
+    // 列表中「即将到期」的范围：分阶段提醒取最早的阶段
+    function reminderWindow(sub) {
+      if (sub.reminderStages && sub.reminderStages.length) return Math.max(...sub.reminderStages.map(s => s.daysBefore));
+      return sub.reminderDays || 7;
+    }
+
+    // 通过通知中的链接推迟或确认后暂不提醒
+    function reminderMutedText(sub) {
+      const state = sub.reminderState || {};
+      if (state.acknowledgedExpiry && state.acknowledgedExpiry === sub.expiryDate) return '已确认，本周期不再提醒';
+      if (state.snoozedUntil && new Date(state.snoozedUntil) > new Date()) return '提醒已推迟到 ' + new Date(state.snoozedUntil).toLocaleString();
+      return '';
+    }
+
     function normalizeTimeStr(val) {
       if (!val) return '';
       // 1. To Half-width chars
@@ -1433,6 +1721,106 @@ export const adminPage = `
       }
     }
     
+    // 标记已续费：到期日顺延一个周期并写入续期记录
+    async function markRenewed(id) {
+      const sub = subscriptions.find(s => s.id === id);
+      if (!sub || !confirm('确认「' + sub.name + '」已续费一个周期？')) return;
+      try {
+        const res = await fetch('/api/subscriptions/' + id + '/renew', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ periods: 1 })
+        });
+        const result = await res.json();
+        if (result.success) {
+          showToast('已续费，新的到期日: ' + result.subscription.expiryDate.split('T')[0], 'success');
+          loadSubscriptions();
+        } else {
+          showToast('续期失败: ' + (result.message || '未知错误'), 'error');
+        }
+      } catch (e) {
+        showToast('续期失败', 'error');
+      }
+    }
+    
+    // 批量选择
+    function toggleSelect(id, checked) {
+      if (checked) selectedIds.add(id);
+      else selectedIds.delete(id);
+      updateBulkBar();
+    }
+    
+    function updateBulkBar() {
+      const bar = document.getElementById('bulkActionBar');
+      const selectAll = document.getElementById('selectAllCheckbox');
+      document.getElementById('bulkSelectedCount').textContent = selectedIds.size;
+      bar.classList.toggle('hidden', selectedIds.size === 0);
+      const selectedVisible = visibleIds.filter(id => selectedIds.has(id)).length;
+      selectAll.checked = visibleIds.length > 0 && selectedVisible === visibleIds.length;
+      selectAll.indeterminate = selectedVisible > 0 && selectedVisible < visibleIds.length;
+    }
+    
+    function updateBulkValueInput() {
+      const action = document.getElementById('bulkActionSelect').value;
+      const input = document.getElementById('bulkActionValue');
+      input.value = '';
+      input.classList.toggle('hidden', !['setCustomType', 'setReminderDays', 'renew'].includes(action));
+      if (action === 'setCustomType') {
+        input.type = 'text';
+        input.placeholder = '类型，如：流媒体';
+      } else if (action === 'setReminderDays') {
+        input.type = 'number';
+        input.min = '0';
+        input.placeholder = '提前提醒天数（将清除分阶段提醒）';
+      } else if (action === 'renew') {
+        input.type = 'number';
+        input.min = '1';
+        input.placeholder = '续期周期数（默认1）';
+      }
+    }
+    
+    async function applyBulkAction() {
+      const ids = Array.from(selectedIds);
+      if (ids.length === 0) return;
+      const action = document.getElementById('bulkActionSelect').value;
+      const value = document.getElementById('bulkActionValue').value.trim();
+      const payload = { action, ids };
+      if (action === 'setCustomType') {
+        payload.customType = value;
+      } else if (action === 'setReminderDays') {
+        if (value === '' || isNaN(parseInt(value))) {
+          showToast('请输入提醒天数', 'warning');
+          return;
+        }
+        payload.reminderDays = parseInt(value);
+      } else if (action === 'renew' && value !== '') {
+        payload.periods = parseInt(value);
+      }
+      const label = document.getElementById('bulkActionSelect').selectedOptions[0].textContent;
+      if (!confirm('确认对选中的 ' + ids.length + ' 个订阅执行「' + label + '」？')) return;
+      
+      try {
+        const res = await fetch('/api/subscriptions/bulk', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(payload)
+        });
+        const result = await res.json();
+        if (result.results) {
+          const message = '成功 ' + result.succeeded + ' 项' + (result.failed > 0 ? '，失败 ' + result.failed + ' 项' : '');
+          showToast(message, result.failed > 0 ? 'warning' : 'success');
+          selectedIds = new Set(result.results.filter(r => !r.success).map(r => r.id));
+          loadSubscriptions();
+        } else {
+          showToast('批量操作失败: ' + (result.message || '未知错误'), 'error');
+        }
+      } catch (e) {
+        showToast('批量操作失败', 'error');
+      }
+    }
+    
     async function testNotify(id) {
         try {
             showToast('发送测试通知...', 'info');
@@ -1478,9 +1866,168 @@ export const adminPage = `
         tbody.innerHTML = '<tr><td colspan="4" class="px-6 py-6 text-center text-red-500">加载失败</td></tr>';
       }
     }
+    // 编辑弹窗中的续期时间线（最新的在最上方）
+    async function loadRenewalHistory(id) {
+      const section = document.getElementById('renewalHistorySection');
+      const list = document.getElementById('renewalHistoryList');
+      list.innerHTML = '<li class="ml-4 text-sm text-gray-500"><i class="fas fa-spinner fa-spin mr-2"></i>加载中...</li>';
+      section.classList.remove('hidden');
+      try {
+        const res = await fetch('/api/subscriptions/' + id + '/history', { credentials: 'include' });
+        const records = await res.json();
+        if (!Array.isArray(records) || records.length === 0) {
+          list.innerHTML = '<li class="ml-4 text-sm text-gray-500">暂无续期记录</li>';
+          return;
+        }
+        list.innerHTML = '';
+        records.slice().reverse().forEach(r => {
+          const li = document.createElement('li');
+          li.className = 'ml-4';
+          const typeHtml = r.type === 'auto'
+            ? '<span class="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">自动续期</span>'
+            : '<span class="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">手动续期</span>';
+          const priceHtml = r.price !== undefined && r.price !== null
+            ? '<span class="ml-2 text-gray-700">' + formatMoney(Number(r.price), r.currency || baseCurrency) + '</span>'
+            : '';
+          li.innerHTML = \`
+            <div class="absolute w-2.5 h-2.5 bg-indigo-400 rounded-full -left-[5px] mt-1.5 border border-white"></div>
+            <div class="text-xs text-gray-400">\${new Date(r.renewedAt).toLocaleString()}</div>
+            <div class="text-sm text-gray-800 mt-0.5">\${typeHtml}\${priceHtml}</div>
+            <div class="text-xs text-gray-500 mt-0.5">\${r.oldExpiryDate.split('T')[0]} → \${r.newExpiryDate.split('T')[0]}</div>
+          \`;
+          list.appendChild(li);
+        });
+      } catch (e) {
+        list.innerHTML = '<li class="ml-4 text-sm text-red-500">加载续期记录失败</li>';
+      }
+    }
+    
     function openFailureLogs() {
       document.getElementById('failureLogsModal').classList.remove('hidden');
       loadFailureLogs();
+      loadDeliveryQueue();
+    }
+
+    // 重试队列：标题与接收方来自用户输入，用 textContent 写入
+    async function loadDeliveryQueue() {
+      const tbody = document.getElementById('deliveryQueueBody');
+      if (!tbody) return;
+      tbody.innerHTML = '<tr><td colspan="6" class="px-6 py-6 text-center text-gray-500"><i class="fas fa-spinner fa-spin mr-2"></i>加载中...</td></tr>';
+      try {
+        const res = await fetch('/api/deliveries', { credentials: 'include' });
+        const items = await res.json();
+        if (!Array.isArray(items) || items.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="6" class="px-6 py-6 text-center text-gray-500">队列为空</td></tr>';
+          return;
+        }
+        tbody.innerHTML = '';
+        items.forEach(item => {
+          const dead = item.status === 'dead';
+          const status = dead
+            ? '死信：' + (item.lastError || '发送失败')
+            : '等待重试（' + new Date(item.nextAttemptAt).toLocaleString() + '）';
+          const tr = document.createElement('tr');
+          tr.appendChild(auditCell(new Date(item.lastAttemptAt).toLocaleString(), 'whitespace-nowrap text-gray-500'));
+          tr.appendChild(auditCell(item.channel + (item.target ? ' → ' + item.target : ''), 'text-gray-700'));
+          tr.appendChild(auditCell(item.title, 'text-gray-900'));
+          tr.appendChild(auditCell(status, dead ? 'text-red-600' : 'text-yellow-600'));
+          tr.appendChild(auditCell(String(item.attempts), 'text-gray-500'));
+          const actions = auditCell('', 'whitespace-nowrap');
+          const resend = document.createElement('button');
+          resend.className = 'text-indigo-600 hover:text-indigo-800 mr-3';
+          resend.textContent = '重新发送';
+          resend.addEventListener('click', () => resendDelivery(item.id, resend));
+          const remove = document.createElement('button');
+          remove.className = 'text-red-600 hover:text-red-800';
+          remove.textContent = '删除';
+          remove.addEventListener('click', () => discardDelivery(item.id));
+          actions.append(resend, remove);
+          tr.appendChild(actions);
+          tbody.appendChild(tr);
+        });
+      } catch (e) {
+        tbody.innerHTML = '<tr><td colspan="6" class="px-6 py-6 text-center text-red-500">加载失败</td></tr>';
+      }
+    }
+
+    async function resendDelivery(id, button) {
+      button.disabled = true;
+      try {
+        const res = await fetch('/api/deliveries/' + encodeURIComponent(id) + '/resend', { method: 'POST', credentials: 'include' });
+        const result = await res.json();
+        showToast(result.message || '发送失败', result.success ? 'success' : 'error');
+      } catch (e) {
+        showToast('重新发送失败', 'error');
+      }
+      loadDeliveryQueue();
+    }
+
+    async function discardDelivery(id) {
+      if (!confirm('确定从重试队列中删除这条消息吗？')) return;
+      try {
+        const res = await fetch('/api/deliveries/' + encodeURIComponent(id), { method: 'DELETE', credentials: 'include' });
+        const result = await res.json();
+        if (!result.success) showToast(result.message || '删除失败', 'error');
+      } catch (e) {
+        showToast('删除失败', 'error');
+      }
+      loadDeliveryQueue();
+    }
+
+    // 审计日志：对象名称与变更内容来自用户输入，统一用 textContent 写入
+    function formatAuditValue(value) {
+      if (value === undefined) return '∅';
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return text.length > 60 ? text.slice(0, 57) + '...' : text;
+    }
+
+    function auditCell(text, className) {
+      const td = document.createElement('td');
+      td.className = 'px-4 py-3 text-sm align-top ' + className;
+      td.textContent = text;
+      return td;
+    }
+
+    async function loadAuditLogs() {
+      const tbody = document.getElementById('auditLogsBody');
+      if (!tbody) return;
+      tbody.innerHTML = '<tr><td colspan="5" class="px-6 py-10 text-center text-gray-500"><i class="fas fa-spinner fa-spin mr-2"></i>加载中...</td></tr>';
+      const params = new URLSearchParams({ limit: '200' });
+      const actor = document.getElementById('auditActorFilter').value.trim();
+      const action = document.getElementById('auditActionFilter').value;
+      const since = document.getElementById('auditSinceFilter').value;
+      if (actor) params.set('actor', actor);
+      if (action) params.set('action', action);
+      if (since) params.set('since', new Date(since + 'T00:00:00').toISOString());
+      try {
+        const res = await fetch('/api/audit?' + params.toString(), { credentials: 'include' });
+        const items = await res.json();
+        if (!Array.isArray(items) || items.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="5" class="px-6 py-6 text-center text-gray-500">暂无审计记录</td></tr>';
+          return;
+        }
+        tbody.innerHTML = '';
+        items.forEach(item => {
+          const tr = document.createElement('tr');
+          const target = item.targetName || item.targetId || '';
+          const changes = (item.changes || [])
+            .map(c => c.field + ': ' + formatAuditValue(c.before) + ' → ' + formatAuditValue(c.after))
+            .join('; ');
+          tr.appendChild(auditCell(new Date(item.timestamp).toLocaleString(), 'whitespace-nowrap text-gray-500'));
+          tr.appendChild(auditCell(item.actor + (item.ip && item.ip !== 'unknown' ? ' (' + item.ip + ')' : ''), 'text-gray-900'));
+          tr.appendChild(auditCell(item.action, 'whitespace-nowrap text-indigo-700 font-mono'));
+          tr.appendChild(auditCell(item.targetType + (target ? ' · ' + target : ''), 'text-gray-700'));
+          tr.appendChild(auditCell(changes || '-', 'text-gray-500 break-all'));
+          tbody.appendChild(tr);
+        });
+      } catch (e) {
+        tbody.innerHTML = '<tr><td colspan="5" class="px-6 py-6 text-center text-red-500">加载失败</td></tr>';
+      }
+    }
+
+    function openAuditLogs() {
+      document.getElementById('auditLogsModal').classList.remove('hidden');
+      loadAuditLogs();
     }
     
     // Helpers
@@ -1529,7 +2076,20 @@ export const adminPage = `
     }
     
     // Init
+    // 按当前用户角色隐藏无权限的操作（服务端同样会校验）
+    async function applyRole() {
+      try {
+        const res = await fetch('/api/me', { credentials: 'include' });
+        if (!res.ok) return;
+        const me = await res.json();
+        document.body.classList.add('role-' + me.role);
+      } catch (e) {
+        console.error('获取当前用户失败', e);
+      }
+    }
+
     document.addEventListener('DOMContentLoaded', () => {
+      applyRole();
       loadSubscriptions();
       
       // Event Listeners
@@ -1565,6 +2125,16 @@ export const adminPage = `
       });
       const exportBtn = document.getElementById('exportCsvBtn');
       if (exportBtn) exportBtn.addEventListener('click', exportCSV);
+      document.getElementById('selectAllCheckbox').addEventListener('change', (e) => {
+        visibleIds.forEach(id => e.target.checked ? selectedIds.add(id) : selectedIds.delete(id));
+        renderSubscriptions();
+      });
+      document.getElementById('bulkActionSelect').addEventListener('change', updateBulkValueInput);
+      document.getElementById('bulkApplyBtn').addEventListener('click', applyBulkAction);
+      document.getElementById('bulkClearBtn').addEventListener('click', () => {
+        selectedIds.clear();
+        renderSubscriptions();
+      });
       const importInput = document.getElementById('importCsvInput');
       if (importInput) importInput.addEventListener('change', (e) => {
         const file = e.target.files && e.target.files[0];
@@ -129,9 +129,47 @@ export const configPage = `
             <input type="text" id="reminderTimes" placeholder="08:00,12:00,18:00" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
             <p class="mt-1 text-sm text-gray-500">作为默认提醒时段生效；未设置订阅级“当天重复提醒时段”时使用。按 HH:mm 输入多个时段，使用逗号分隔</p>
           </div>
+          <div>
+            <label class="block text-sm font-medium text-gray-700 mb-1">过期提醒策略（不自动续订的订阅）</label>
+            <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label for="overdueDailyDays" class="block text-xs text-gray-500 mb-1">过期后每天提醒 (天)</label>
+                <input type="number" id="overdueDailyDays" min="0" max="3650" placeholder="7" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              </div>
+              <div>
+                <label for="overdueWeeklyUntilDays" class="block text-xs text-gray-500 mb-1">之后每周提醒，直到过期 (天)</label>
+                <input type="number" id="overdueWeeklyUntilDays" min="0" max="3650" placeholder="30" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              </div>
+              <div>
+                <label for="overdueDeactivateDays" class="block text-xs text-gray-500 mb-1">过期满几天自动停用 (0 为不停用)</label>
+                <input type="number" id="overdueDeactivateDays" min="0" max="3650" placeholder="0" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              </div>
+            </div>
+            <p class="mt-1 text-sm text-gray-500">超过“直到过期”天数后不再提醒；自动停用时会发送最后一次通知。订阅编辑页可单独覆盖这些设置</p>
+          </div>
+          <div class="mt-6">
+            <label for="publicBaseUrl" class="block text-sm font-medium text-gray-700 mb-1">站点地址（通知中的操作链接）</label>
+            <input type="url" id="publicBaseUrl" placeholder="https://subs.example.com" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            <p class="mt-1 text-sm text-gray-500">填写后，到期提醒会附带「推迟」「已知晓」「标记为已续订」链接，无需登录即可操作；链接 14 天内有效，续订后失效。留空则不附带链接</p>
+          </div>
+        </div>
+
+        <div class="border-b border-gray-200 pb-6">
+          <h3 class="text-lg font-medium text-gray-900 mb-4">货币与汇率</h3>
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label for="baseCurrency" class="block text-sm font-medium text-gray-700 mb-1">基础货币</label>
+              <input type="text" id="baseCurrency" maxlength="3" placeholder="CNY" class="w-full px-3 py-2 border border-gray-300 rounded-md uppercase focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <p class="mt-1 text-sm text-gray-500">统计、导出和通知中的换算金额均以该货币显示（ISO 4217 代码，如 CNY、USD）</p>
+            </div>
+            <div>
+              <label for="exchangeRates" class="block text-sm font-medium text-gray-700 mb-1">汇率表</label>
+              <textarea id="exchangeRates" rows="4" placeholder="USD=7.20&#10;EUR=7.85&#10;JPY=0.048" class="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"></textarea>
+              <p class="mt-1 text-sm text-gray-500">每行一条，格式为「货币代码=汇率」，表示 1 单位该货币折合多少基础货币</p>
+            </div>
+          </div>
         </div>
 
-        
         <div class="border-b border-gray-200 pb-6">
           <h3 class="text-lg font-medium text-gray-900 mb-4">通知设置</h3>
           <div class="mb-6">
@@ -404,12 +442,289 @@ export const configPage = `
 
         </div>
 
+        <div class="border-b border-gray-200 pb-6">
+          <h3 class="text-lg font-medium text-gray-900 mb-4">自动备份</h3>
+          <p class="text-sm text-gray-500 mb-4">每天在指定时间（按上方时区）将完整备份写入 R2 存储桶或 S3 兼容存储，只保留最近若干份快照，结果通过已启用的通知渠道发送。</p>
+          <label class="inline-flex items-center mb-4">
+            <input type="checkbox" id="backupEnabled" class="form-checkbox h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500">
+            <span class="ml-2 text-sm text-gray-700">启用每日自动备份</span>
+          </label>
+          <div class="grid grid-cols-1 md:grid-cols-3 gap-6 mb-4">
+            <div>
+              <label for="backupTarget" class="block text-sm font-medium text-gray-700 mb-1">存储位置</label>
+              <select id="backupTarget" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+                <option value="r2">R2 绑定（BACKUP_BUCKET）</option>
+                <option value="s3">S3 兼容存储</option>
+              </select>
+            </div>
+            <div>
+              <label for="backupTime" class="block text-sm font-medium text-gray-700 mb-1">执行时间</label>
+              <input type="text" id="backupTime" placeholder="03:00" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="backupRetention" class="block text-sm font-medium text-gray-700 mb-1">保留快照数</label>
+              <input type="number" id="backupRetention" min="1" max="365" placeholder="7" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+          </div>
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+            <div>
+              <label for="backupPrefix" class="block text-sm font-medium text-gray-700 mb-1">对象前缀</label>
+              <input type="text" id="backupPrefix" placeholder="backups/" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="backupAutoPassphrase" class="block text-sm font-medium text-gray-700 mb-1">加密口令（可选）</label>
+              <input type="password" id="backupAutoPassphrase" autocomplete="new-password" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <p class="mt-1 text-sm text-gray-500">设置后快照中的密码、密钥和通知渠道凭据将加密保存</p>
+            </div>
+          </div>
+          <div id="backupS3Config" class="hidden grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+            <div>
+              <label for="backupS3Endpoint" class="block text-sm font-medium text-gray-700 mb-1">Endpoint</label>
+              <input type="text" id="backupS3Endpoint" placeholder="https://s3.amazonaws.com 或 http://minio:9000" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="backupS3Region" class="block text-sm font-medium text-gray-700 mb-1">Region</label>
+              <input type="text" id="backupS3Region" placeholder="us-east-1" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="backupS3Bucket" class="block text-sm font-medium text-gray-700 mb-1">Bucket</label>
+              <input type="text" id="backupS3Bucket" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="backupS3AccessKeyId" class="block text-sm font-medium text-gray-700 mb-1">Access Key ID</label>
+              <input type="text" id="backupS3AccessKeyId" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="backupS3SecretAccessKey" class="block text-sm font-medium text-gray-700 mb-1">Secret Access Key</label>
+              <input type="password" id="backupS3SecretAccessKey" autocomplete="new-password" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+          </div>
+          <div class="flex justify-end">
+            <button type="button" id="runBackupBtn" class="btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+              <i class="fas fa-cloud-upload-alt mr-2"></i>立即备份（使用已保存的配置）
+            </button>
+          </div>
+        </div>
+
+        <div class="border-b border-gray-200 pb-6">
+          <h3 class="text-lg font-medium text-gray-900 mb-4">单点登录（OIDC）</h3>
+          <p class="text-sm text-gray-500 mb-4">在身份提供方中创建 Web 应用，回调地址填写 <code id="oidcRedirectUri"></code>。用户首次登录时以默认角色自动创建账户，之后固定绑定该身份；已有的本地账户需要用户登录后在「修改密码」页自行绑定。</p>
+          <label class="inline-flex items-center mb-4">
+            <input type="checkbox" id="oidcEnabled" class="form-checkbox h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500">
+            <span class="ml-2 text-sm text-gray-700">在登录页显示「使用单点登录」</span>
+          </label>
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label for="oidcIssuer" class="block text-sm font-medium text-gray-700 mb-1">Issuer</label>
+              <input type="text" id="oidcIssuer" placeholder="https://accounts.google.com" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="oidcClientId" class="block text-sm font-medium text-gray-700 mb-1">Client ID</label>
+              <input type="text" id="oidcClientId" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            </div>
+            <div>
+              <label for="oidcClientSecret" class="block text-sm font-medium text-gray-700 mb-1">Client Secret</label>
+              <input type="password" id="oidcClientSecret" autocomplete="new-password" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <p class="mt-1 text-sm text-gray-500">公共客户端可留空，仅使用 PKCE</p>
+            </div>
+            <div>
+              <label for="oidcAllowedDomains" class="block text-sm font-medium text-gray-700 mb-1">允许的邮箱域名</label>
+              <input type="text" id="oidcAllowedDomains" placeholder="example.com, example.org" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <p class="mt-1 text-sm text-gray-500">多个域名用逗号分隔，留空表示不限制</p>
+            </div>
+            <div>
+              <label for="oidcDefaultRole" class="block text-sm font-medium text-gray-700 mb-1">新账户默认角色</label>
+              <select id="oidcDefaultRole" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+                <option value="viewer">只读</option>
+                <option value="editor">编辑者</option>
+                <option value="admin">管理员</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
         <div class="flex justify-end">
           <button type="submit" class="btn-primary text-white px-6 py-3 rounded-md text-base font-medium flex items-center">
             <i class="fas fa-save mr-2"></i>保存配置
           </button>
         </div>
       </form>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">备份与恢复</h3>
+        <p class="text-sm text-gray-500 mb-4">完整备份包含全部订阅、续期记录、系统配置与失败日志。填写备份口令后，密码、密钥和通知渠道凭据将加密保存，恢复时需要输入同一口令。</p>
+        <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label for="backupPassphrase" class="block text-sm font-medium text-gray-700 mb-1">备份口令（可选）</label>
+            <input type="password" id="backupPassphrase" autocomplete="new-password" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            <button type="button" id="downloadBackupBtn" class="mt-3 btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+              <i class="fas fa-download mr-2"></i>下载完整备份
+            </button>
+          </div>
+          <div>
+            <label for="restoreFile" class="block text-sm font-medium text-gray-700 mb-1">从备份恢复</label>
+            <input type="file" id="restoreFile" accept=".json,application/json" class="w-full text-sm text-gray-700">
+            <select id="restoreMode" class="mt-3 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <option value="merge">合并：保留备份中没有的订阅</option>
+              <option value="replace">替换：删除备份中没有的订阅</option>
+            </select>
+            <button type="button" id="restoreBackupBtn" class="mt-3 btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+              <i class="fas fa-upload mr-2"></i>校验并恢复
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">日历订阅</h3>
+        <p class="text-sm text-gray-500 mb-4">在 Google 日历、Outlook 或 Apple 日历中通过网址订阅，即可看到所有用户启用订阅的续费日期与提前提醒。订阅源仅供管理员使用：地址中包含访问令牌，请勿公开或分享给其他用户；生成地址的管理员被停用、删除或降级后地址失效，重置后旧地址立即失效。</p>
+        <div class="flex flex-col md:flex-row gap-3">
+          <input type="text" id="calendarUrl" readonly placeholder="点击「显示地址」生成订阅地址" class="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 font-mono text-sm">
+          <button type="button" id="showCalendarUrlBtn" class="btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+            <i class="fas fa-calendar-alt mr-2"></i>显示地址
+          </button>
+          <button type="button" id="copyCalendarUrlBtn" class="btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+            <i class="fas fa-copy mr-2"></i>复制
+          </button>
+          <button type="button" id="resetCalendarUrlBtn" class="btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+            <i class="fas fa-sync-alt mr-2"></i>重置地址
+          </button>
+        </div>
+      </div>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">用户管理</h3>
+        <p class="text-sm text-gray-500 mb-4">只读用户只能查看分配给自己的订阅；编辑者还可以添加、修改、删除订阅并发送测试通知；管理员可以查看全部订阅并修改系统配置、查看失败日志和备份。上方「管理员账户」始终拥有管理员权限。停用后该用户立即退出登录。</p>
+        <div class="overflow-x-auto mb-4">
+          <table class="min-w-full divide-y divide-gray-200 text-sm">
+            <thead class="bg-gray-50">
+              <tr>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">用户名</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">角色</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">状态</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">创建时间</th>
+                <th class="px-4 py-2 text-right font-medium text-gray-500">操作</th>
+              </tr>
+            </thead>
+            <tbody id="userTableBody" class="divide-y divide-gray-200"></tbody>
+          </table>
+        </div>
+        <div class="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label for="newUsername" class="block text-sm font-medium text-gray-700 mb-1">用户名</label>
+            <input type="text" id="newUsername" autocomplete="off" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+          </div>
+          <div>
+            <label for="newUserPassword" class="block text-sm font-medium text-gray-700 mb-1">初始密码</label>
+            <input type="password" id="newUserPassword" autocomplete="new-password" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+          </div>
+          <div>
+            <label for="newUserRole" class="block text-sm font-medium text-gray-700 mb-1">角色</label>
+            <select id="newUserRole" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <option value="viewer">只读</option>
+              <option value="editor" selected>编辑者</option>
+              <option value="admin">管理员</option>
+            </select>
+          </div>
+          <button type="button" id="createUserBtn" class="btn-primary text-white px-4 py-2 rounded-md text-sm font-medium">
+            <i class="fas fa-user-plus mr-2"></i>添加用户
+          </button>
+        </div>
+      </div>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">两步验证</h3>
+        <p class="text-sm text-gray-500">两步验证在账户页中设置，所有角色的用户都可以为自己的账户启用。<a href="/admin/password" class="text-indigo-600 hover:text-indigo-800">前往设置</a></p>
+      </div>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">敏感配置加密</h3>
+        <p class="text-sm text-gray-500 mb-4">设置 Worker Secret <code>CONFIG_ENCRYPTION_KEY</code>（<code>openssl rand -base64 32</code>）后，密码、密钥和通知渠道凭据以 AES-GCM 信封加密保存在 KV 中。更换主密钥时把旧密钥保留为 <code>CONFIG_ENCRYPTION_KEY_PREVIOUS</code>，然后点击「重新加密」。</p>
+        <p class="text-sm mb-4">当前状态：<span id="encryptionStatus" class="font-medium text-gray-700">加载中...</span></p>
+        <button type="button" id="rotateEncryptionBtn" class="btn-secondary text-white px-4 py-2 rounded-md text-sm font-medium">
+          <i class="fas fa-lock mr-2"></i>重新加密
+        </button>
+      </div>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">登录会话</h3>
+        <p class="text-sm text-gray-500 mb-4">当前账户在各设备上的登录记录。吊销会话后该设备需要重新登录；重置 JWT 密钥会让所有账户的全部会话失效，包括当前会话。</p>
+        <div class="overflow-x-auto mb-4">
+          <table class="min-w-full divide-y divide-gray-200 text-sm">
+            <thead class="bg-gray-50">
+              <tr>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">设备</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">IP</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">登录时间</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">最近活动</th>
+                <th class="px-4 py-2 text-right font-medium text-gray-500">操作</th>
+              </tr>
+            </thead>
+            <tbody id="sessionTableBody" class="divide-y divide-gray-200"></tbody>
+          </table>
+        </div>
+        <div class="flex flex-wrap gap-2">
+          <button type="button" id="revokeAllSessionsBtn" class="px-4 py-2 border border-red-300 rounded-md text-sm text-red-600 hover:bg-red-50">
+            <i class="fas fa-sign-out-alt mr-2"></i>退出所有设备
+          </button>
+          <button type="button" id="rotateJwtSecretBtn" class="admin-only px-4 py-2 border border-red-300 rounded-md text-sm text-red-600 hover:bg-red-50">
+            <i class="fas fa-key mr-2"></i>重置 JWT 密钥
+          </button>
+        </div>
+      </div>
+
+      <div class="mt-8 pt-6 border-t border-gray-200">
+        <h3 class="text-lg font-medium text-gray-900 mb-4">API Token</h3>
+        <p class="text-sm text-gray-500 mb-4">供脚本和自动化调用，请求时携带 <code>Authorization: Bearer &lt;Token&gt;</code>。Token 以创建者身份访问，只能使用勾选的权限；明文只在创建后显示一次，请妥善保存。这里列出全部用户的 Token，其他用户可以在<a href="/admin/password" class="text-indigo-600 hover:text-indigo-800">账户页</a>管理自己的 Token。</p>
+        <div class="overflow-x-auto mb-4">
+          <table class="min-w-full divide-y divide-gray-200 text-sm">
+            <thead class="bg-gray-50">
+              <tr>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">名称</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">Token</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">权限</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">过期时间</th>
+                <th class="px-4 py-2 text-left font-medium text-gray-500">最近使用</th>
+                <th class="px-4 py-2 text-right font-medium text-gray-500">操作</th>
+              </tr>
+            </thead>
+            <tbody id="apiTokenTableBody" class="divide-y divide-gray-200"></tbody>
+          </table>
+        </div>
+        <div class="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label for="apiTokenName" class="block text-sm font-medium text-gray-700 mb-1">名称</label>
+            <input type="text" id="apiTokenName" autocomplete="off" placeholder="例如：同步脚本" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+          </div>
+          <div>
+            <span class="block text-sm font-medium text-gray-700 mb-1">权限</span>
+            <label class="inline-flex items-center mr-3 text-sm"><input type="checkbox" class="api-token-scope mr-1" value="subscriptions:read" checked>读取订阅</label>
+            <label class="inline-flex items-center mr-3 text-sm"><input type="checkbox" class="api-token-scope mr-1" value="subscriptions:write">修改订阅</label>
+            <label class="inline-flex items-center text-sm"><input type="checkbox" class="api-token-scope mr-1" value="notify">发送通知</label>
+          </div>
+          <div>
+            <label for="apiTokenExpiry" class="block text-sm font-medium text-gray-700 mb-1">有效期</label>
+            <select id="apiTokenExpiry" class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+              <option value="30">30 天</option>
+              <option value="90" selected>90 天</option>
+              <option value="365">1 年</option>
+              <option value="">永不过期</option>
+            </select>
+          </div>
+          <button type="button" id="createApiTokenBtn" class="btn-primary text-white px-4 py-2 rounded-md text-sm font-medium">
+            <i class="fas fa-key mr-2"></i>创建 Token
+          </button>
+        </div>
+        <div id="newApiTokenBox" class="hidden mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p class="text-sm text-yellow-800 mb-2">新 Token 只显示这一次：</p>
+          <div class="flex gap-2">
+            <input type="text" id="newApiToken" readonly class="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-white font-mono text-sm">
+            <button type="button" id="copyApiTokenBtn" class="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100">
+              <i class="fas fa-copy mr-1"></i>复制
+            </button>
+          </div>
+        </div>
+      </div>
     </div>
   </div>
 
@@ -470,10 +785,36 @@ export const configPage = `
         document.getElementById('barkServer').value = config.BARK_SERVER || 'https://api.day.app';
         document.getElementById('barkDeviceKey').value = config.BARK_DEVICE_KEY || '';
         document.getElementById('barkIsArchive').checked = config.BARK_IS_ARCHIVE === 'true';
+        document.getElementById('backupEnabled').checked = config.BACKUP_ENABLED === true;
+        document.getElementById('backupTarget').value = config.BACKUP_TARGET || 'r2';
+        document.getElementById('backupTime').value = config.BACKUP_TIME || '03:00';
+        document.getElementById('backupRetention').value = config.BACKUP_RETENTION || 7;
+        document.getElementById('backupPrefix').value = config.BACKUP_PREFIX ?? 'backups/';
+        document.getElementById('backupAutoPassphrase').value = config.BACKUP_PASSPHRASE || '';
+        document.getElementById('backupS3Endpoint').value = config.BACKUP_S3_ENDPOINT || '';
+        document.getElementById('backupS3Region').value = config.BACKUP_S3_REGION || 'us-east-1';
+        document.getElementById('backupS3Bucket').value = config.BACKUP_S3_BUCKET || '';
+        document.getElementById('backupS3AccessKeyId').value = config.BACKUP_S3_ACCESS_KEY_ID || '';
+        document.getElementById('backupS3SecretAccessKey').value = config.BACKUP_S3_SECRET_ACCESS_KEY || '';
+        toggleBackupTarget();
+        document.getElementById('oidcEnabled').checked = config.OIDC_ENABLED === true;
+        document.getElementById('oidcIssuer').value = config.OIDC_ISSUER || '';
+        document.getElementById('oidcClientId').value = config.OIDC_CLIENT_ID || '';
+        document.getElementById('oidcClientSecret').value = config.OIDC_CLIENT_SECRET || '';
+        document.getElementById('oidcAllowedDomains').value = config.OIDC_ALLOWED_DOMAINS || '';
+        document.getElementById('oidcDefaultRole').value = config.OIDC_DEFAULT_ROLE || 'viewer';
 
         // 初始化时区选择
         initTimezoneSelect(config.TIMEZONE || 'UTC');
         document.getElementById('reminderTimes').value = (config.REMINDER_TIMES || '').toString();
+        document.getElementById('overdueDailyDays').value = config.OVERDUE_DAILY_DAYS ?? 7;
+        document.getElementById('overdueWeeklyUntilDays').value = config.OVERDUE_WEEKLY_UNTIL_DAYS ?? 30;
+        document.getElementById('overdueDeactivateDays').value = config.OVERDUE_DEACTIVATE_DAYS ?? 0;
+        document.getElementById('publicBaseUrl').value = config.PUBLIC_BASE_URL || '';
+        document.getElementById('baseCurrency').value = config.BASE_CURRENCY || 'CNY';
+        document.getElementById('exchangeRates').value = Object.entries(config.EXCHANGE_RATES || {})
+          .map(([code, rate]) => code + '=' + rate)
+          .join('\\n');
 
         const enabledNotifiers = config.ENABLED_NOTIFIERS || ['notifyx'];
         document.querySelectorAll('input[name="enabledNotifiers"]').forEach(checkbox => {
@@ -488,6 +829,18 @@ export const configPage = `
       }
     }
 
+    // 解析汇率文本，格式错误时返回 null
+    function parseExchangeRates(text) {
+      const rates = {};
+      const lines = text.split(/\\r?\\n/).map(l => l.trim()).filter(l => l.length > 0);
+      for (const line of lines) {
+        const match = line.replace(/：/g, ':').match(/^([A-Za-z]{3})\\s*[=:]\\s*([0-9]*\\.?[0-9]+)$/);
+        if (!match || !(parseFloat(match[2]) > 0)) return null;
+        rates[match[1].toUpperCase()] = parseFloat(match[2]);
+      }
+      return rates;
+    }
+
     function initTimezoneSelect(selectedTimezone) {
       const timezoneSelect = document.getElementById('timezone');
       
@@ -593,6 +946,22 @@ export const configPage = `
         return;
       }
 
+      const baseCurrency = document.getElementById('baseCurrency').value.trim().toUpperCase() || 'CNY';
+      if (!/^[A-Z]{3}$/.test(baseCurrency)) {
+        showToast('基础货币必须为 3 位字母代码', 'warning');
+        return;
+      }
+      const exchangeRates = parseExchangeRates(document.getElementById('exchangeRates').value);
+      if (!exchangeRates) {
+        showToast('汇率表格式错误，请按「USD=7.20」每行填写', 'warning');
+        return;
+      }
+      // 过期提醒策略的天数，留空时使用默认值
+      const readDays = (id, fallback) => {
+        const value = parseInt(document.getElementById(id).value, 10);
+        return isNaN(value) || value < 0 ? fallback : value;
+      };
+
         const config = {
           ADMIN_USERNAME: document.getElementById('adminUsername').value.trim(),
           TG_BOT_TOKEN: document.getElementById('tgBotToken').value.trim(),
@@ -625,7 +994,30 @@ export const configPage = `
         BARK_IS_ARCHIVE: document.getElementById('barkIsArchive').checked.toString(),
         ENABLED_NOTIFIERS: enabledNotifiers,
         TIMEZONE: document.getElementById('timezone').value.trim(),
-        REMINDER_TIMES: document.getElementById('reminderTimes').value.trim().replace(/，/g, ',').replace(/：/g, ':')
+        REMINDER_TIMES: document.getElementById('reminderTimes').value.trim().replace(/，/g, ',').replace(/：/g, ':'),
+        OVERDUE_DAILY_DAYS: readDays('overdueDailyDays', 7),
+        OVERDUE_WEEKLY_UNTIL_DAYS: readDays('overdueWeeklyUntilDays', 30),
+        OVERDUE_DEACTIVATE_DAYS: readDays('overdueDeactivateDays', 0),
+        PUBLIC_BASE_URL: document.getElementById('publicBaseUrl').value.trim(),
+        BASE_CURRENCY: baseCurrency,
+        EXCHANGE_RATES: exchangeRates,
+        BACKUP_ENABLED: document.getElementById('backupEnabled').checked,
+        BACKUP_TARGET: document.getElementById('backupTarget').value,
+        BACKUP_TIME: document.getElementById('backupTime').value.trim() || '03:00',
+        BACKUP_RETENTION: parseInt(document.getElementById('backupRetention').value, 10) || 7,
+        BACKUP_PREFIX: document.getElementById('backupPrefix').value.trim(),
+        BACKUP_PASSPHRASE: document.getElementById('backupAutoPassphrase').value,
+        BACKUP_S3_ENDPOINT: document.getElementById('backupS3Endpoint').value.trim(),
+        BACKUP_S3_REGION: document.getElementById('backupS3Region').value.trim() || 'us-east-1',
+        BACKUP_S3_BUCKET: document.getElementById('backupS3Bucket').value.trim(),
+        BACKUP_S3_ACCESS_KEY_ID: document.getElementById('backupS3AccessKeyId').value.trim(),
+        BACKUP_S3_SECRET_ACCESS_KEY: document.getElementById('backupS3SecretAccessKey').value.trim(),
+        OIDC_ENABLED: document.getElementById('oidcEnabled').checked,
+        OIDC_ISSUER: document.getElementById('oidcIssuer').value.trim(),
+        OIDC_CLIENT_ID: document.getElementById('oidcClientId').value.trim(),
+        OIDC_CLIENT_SECRET: document.getElementById('oidcClientSecret').value.trim(),
+        OIDC_ALLOWED_DOMAINS: document.getElementById('oidcAllowedDomains').value.trim(),
+        OIDC_DEFAULT_ROLE: document.getElementById('oidcDefaultRole').value
       };
 
       const passwordField = document.getElementById('adminPassword');
@@ -849,6 +1241,484 @@ export const configPage = `
       testNotification('bark');
     });
 
+    async function downloadBackup() {
+      const passphrase = document.getElementById('backupPassphrase').value;
+      const headers = passphrase ? { 'X-Backup-Passphrase': passphrase } : {};
+      try {
+        const response = await fetch('/api/backup', { credentials: 'include', headers });
+        if (!response.ok) throw new Error('HTTP ' + response.status);
+        const blob = await response.blob();
+        const a = document.createElement('a');
+        a.href = URL.createObjectURL(blob);
+        a.download = 'subscription-backup-' + new Date().toISOString().slice(0, 10) + '.json';
+        a.click();
+        URL.revokeObjectURL(a.href);
+        showToast(passphrase ? '备份已下载（敏感配置已加密）' : '备份已下载', 'success');
+      } catch (error) {
+        console.error('下载备份失败:', error);
+        showToast('下载备份失败', 'error');
+      }
+    }
+    
+    async function sendRestore(text, mode, dryRun) {
+      const passphrase = document.getElementById('backupPassphrase').value;
+      const headers = { 'Content-Type': 'application/json' };
+      if (passphrase) headers['X-Backup-Passphrase'] = passphrase;
+      const response = await fetch('/api/restore?mode=' + mode + '&dryRun=' + dryRun, {
+        method: 'POST',
+        credentials: 'include',
+        headers,
+        body: text
+      });
+      return response.json();
+    }
+    
+    // 先预检，确认变更后再正式写入
+    async function restoreBackup() {
+      const file = document.getElementById('restoreFile').files[0];
+      if (!file) {
+        showToast('请选择备份文件', 'warning');
+        return;
+      }
+      const mode = document.getElementById('restoreMode').value;
+      try {
+        const text = await file.text();
+        const preview = await sendRestore(text, mode, true);
+        if (!preview.success) {
+          const detail = (preview.errors || []).slice(0, 3).map(e => (e.index !== undefined ? '#' + (e.index + 1) + ' ' : '') + e.message).join('；');
+          showToast((preview.message || '备份校验失败') + (detail ? '：' + detail : ''), 'error');
+          return;
+        }
+        const s = preview.subscriptions;
+        const summary = '新增 ' + s.created + ' 个订阅，更新 ' + s.updated + ' 个，删除 ' + s.deleted + ' 个；续期记录 ' + preview.historyRecords + ' 条；配置项 ' + preview.configKeys + ' 个；' +
+          '用户 ' + preview.users + ' 个，API Token ' + preview.apiTokens + ' 个，两步验证 ' + preview.twoFactor + ' 个；审计日志 ' + preview.auditEntries + ' 条。' +
+          ((preview.warnings || []).length > 0 ? '\\n注意：' + preview.warnings.slice(0, 3).map(w => w.message).join('；') : '');
+        if (!confirm('校验通过，将执行以下变更：\\n' + summary + '\\n确认恢复？')) return;
+        const result = await sendRestore(text, mode, false);
+        if (result.success) {
+          showToast('恢复完成', 'success');
+          setTimeout(() => location.reload(), 1000);
+        } else {
+          showToast(result.message || '恢复失败', 'error');
+        }
+      } catch (error) {
+        console.error('恢复失败:', error);
+        showToast('恢复失败', 'error');
+      }
+    }
+    
+    function toggleBackupTarget() {
+      const isS3 = document.getElementById('backupTarget').value === 's3';
+      document.getElementById('backupS3Config').classList.toggle('hidden', !isS3);
+    }
+    
+    async function runBackupNow() {
+      const button = document.getElementById('runBackupBtn');
+      const originalContent = button.innerHTML;
+      button.innerHTML = '<i class="fas fa-spinner fa-spin mr-2"></i>备份中...';
+      button.disabled = true;
+      try {
+        const response = await fetch('/api/backup/snapshot', { method: 'POST', credentials: 'include' });
+        const result = await response.json();
+        if (result.success) {
+          showToast('已写入 ' + result.key + '，清理旧快照 ' + result.pruned.length + ' 个', 'success');
+        } else {
+          showToast('备份失败: ' + (result.message || '未知错误'), 'error');
+        }
+      } catch (error) {
+        console.error('备份失败:', error);
+        showToast('备份失败，请稍后再试', 'error');
+      } finally {
+        button.innerHTML = originalContent;
+        button.disabled = false;
+      }
+    }
+    
+    document.getElementById('downloadBackupBtn').addEventListener('click', downloadBackup);
+    document.getElementById('restoreBackupBtn').addEventListener('click', restoreBackup);
+    async function loadCalendarUrl(reset) {
+      if (reset && !confirm('重置后旧的订阅地址将失效，确定继续？')) return;
+      try {
+        const response = await fetch('/api/calendar/token', { method: reset ? 'POST' : 'GET', credentials: 'include' });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        document.getElementById('calendarUrl').value = result.url;
+        if (reset) showToast('订阅地址已重置', 'success');
+      } catch (error) {
+        console.error('获取日历订阅地址失败:', error);
+        showToast('获取日历订阅地址失败', 'error');
+      }
+    }
+    
+    async function copyCalendarUrl() {
+      const input = document.getElementById('calendarUrl');
+      if (!input.value) await loadCalendarUrl(false);
+      if (!input.value) return;
+      try {
+        await navigator.clipboard.writeText(input.value);
+        showToast('订阅地址已复制', 'success');
+      } catch (error) {
+        input.select();
+        showToast('请手动复制订阅地址', 'warning');
+      }
+    }
+    
+    document.getElementById('backupTarget').addEventListener('change', toggleBackupTarget);
+    document.getElementById('runBackupBtn').addEventListener('click', runBackupNow);
+    async function loadUsers() {
+      const tbody = document.getElementById('userTableBody');
+      try {
+        const response = await fetch('/api/users', { credentials: 'include' });
+        const users = await response.json();
+        if (!Array.isArray(users)) throw new Error(users.message || '未知错误');
+        if (users.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="5" class="px-4 py-3 text-center text-gray-500">暂无其他用户</td></tr>';
+          return;
+        }
+        tbody.innerHTML = '';
+        users.forEach(user => {
+          const row = document.createElement('tr');
+          const cells = [
+            user.username,
+            null,
+            user.disabled ? '已停用' : '正常',
+            new Date(user.createdAt).toLocaleString('zh-CN', { timeZone: globalTimezone })
+          ];
+          cells.forEach(text => {
+            const td = document.createElement('td');
+            td.className = 'px-4 py-2 text-gray-700';
+            if (text === null) {
+              td.appendChild(createRoleSelect(user));
+            } else {
+              td.textContent = text;
+            }
+            row.appendChild(td);
+          });
+          const actionCell = document.createElement('td');
+          actionCell.className = 'px-4 py-2 text-right';
+          const button = document.createElement('button');
+          button.type = 'button';
+          button.className = 'text-indigo-600 hover:text-indigo-800 text-sm';
+          button.textContent = user.disabled ? '启用' : '停用';
+          button.addEventListener('click', () => setUserDisabled(user.id, !user.disabled));
+          actionCell.appendChild(button);
+          row.appendChild(actionCell);
+          tbody.appendChild(row);
+        });
+      } catch (error) {
+        console.error('加载用户失败:', error);
+        tbody.innerHTML = '<tr><td colspan="5" class="px-4 py-3 text-center text-red-500">加载用户失败</td></tr>';
+      }
+    }
+    
+    const USER_ROLES = [['viewer', '只读'], ['editor', '编辑者'], ['admin', '管理员']];
+
+    function createRoleSelect(user) {
+      const select = document.createElement('select');
+      select.className = 'px-2 py-1 border border-gray-300 rounded-md text-sm';
+      USER_ROLES.forEach(([value, label]) => {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        option.selected = user.role === value;
+        select.appendChild(option);
+      });
+      select.addEventListener('change', () => setUserRole(user.id, select.value));
+      return select;
+    }
+
+    async function setUserRole(id, role) {
+      try {
+        const response = await fetch('/api/users/' + id + '/role', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ role })
+        });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        showToast('角色已更新，该用户需要重新登录', 'success');
+      } catch (error) {
+        showToast('修改角色失败: ' + error.message, 'error');
+      }
+      loadUsers();
+    }
+
+    async function setUserDisabled(id, disabled) {
+      if (disabled && !confirm('停用后该用户将无法登录，确定继续？')) return;
+      try {
+        const response = await fetch('/api/users/' + id + (disabled ? '/disable' : '/enable'), { method: 'POST', credentials: 'include' });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        showToast(disabled ? '用户已停用' : '用户已启用', 'success');
+        loadUsers();
+      } catch (error) {
+        showToast('操作失败: ' + error.message, 'error');
+      }
+    }
+    
+    async function createUser() {
+      const username = document.getElementById('newUsername').value.trim();
+      const password = document.getElementById('newUserPassword').value;
+      const role = document.getElementById('newUserRole').value;
+      if (!username || !password) {
+        showToast('请填写用户名和初始密码', 'warning');
+        return;
+      }
+      try {
+        const response = await fetch('/api/users', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ username, password, role })
+        });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        showToast('用户已添加', 'success');
+        document.getElementById('newUsername').value = '';
+        document.getElementById('newUserPassword').value = '';
+        loadUsers();
+      } catch (error) {
+        showToast('添加用户失败: ' + error.message, 'error');
+      }
+    }
+    
+    function describeEncryption(status) {
+      if (!status.enabled) return '未配置主密钥，敏感配置以明文保存';
+      if (status.plaintextKeys.length > 0) return '有 ' + status.plaintextKeys.length + ' 项敏感配置仍为明文，请重新加密';
+      if (status.storedKeyId && status.storedKeyId !== status.keyId) return '使用旧主密钥 ' + status.storedKeyId + ' 加密，请重新加密';
+      return '已加密（主密钥 ' + status.keyId + '）';
+    }
+
+    async function loadEncryptionStatus() {
+      const statusEl = document.getElementById('encryptionStatus');
+      try {
+        const response = await fetch('/api/config/encryption', { credentials: 'include' });
+        const status = await response.json();
+        statusEl.textContent = describeEncryption(status);
+        statusEl.className = 'font-medium ' + (status.enabled && status.plaintextKeys.length === 0 && status.storedKeyId === status.keyId ? 'text-green-600' : 'text-yellow-600');
+        document.getElementById('rotateEncryptionBtn').disabled = !status.enabled;
+      } catch (error) {
+        statusEl.textContent = '加载失败';
+      }
+    }
+
+    async function rotateEncryption() {
+      try {
+        const response = await fetch('/api/config/encryption/rotate', { method: 'POST', credentials: 'include' });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        showToast('敏感配置已重新加密', 'success');
+        loadEncryptionStatus();
+      } catch (error) {
+        showToast('重新加密失败: ' + error.message, 'error');
+      }
+    }
+
+    document.getElementById('rotateEncryptionBtn').addEventListener('click', rotateEncryption);
+    window.addEventListener('load', loadEncryptionStatus);
+
+    async function loadSessions() {
+      const tbody = document.getElementById('sessionTableBody');
+      try {
+        const response = await fetch('/api/sessions', { credentials: 'include' });
+        const sessions = await response.json();
+        if (!Array.isArray(sessions)) throw new Error(sessions.message || '未知错误');
+        tbody.innerHTML = '';
+        sessions.forEach(session => {
+          const row = document.createElement('tr');
+          const cells = [
+            session.device + (session.current ? '（当前）' : ''),
+            session.ip,
+            formatTokenTime(session.createdAt, '-'),
+            formatTokenTime(session.lastSeenAt, '-')
+          ];
+          cells.forEach(text => {
+            const td = document.createElement('td');
+            td.className = 'px-4 py-2 text-gray-700';
+            td.textContent = text;
+            row.appendChild(td);
+          });
+          row.firstChild.title = session.userAgent;
+          const actionCell = document.createElement('td');
+          actionCell.className = 'px-4 py-2 text-right';
+          const button = document.createElement('button');
+          button.type = 'button';
+          button.className = 'text-red-600 hover:text-red-800 text-sm';
+          button.textContent = session.current ? '退出' : '吊销';
+          button.addEventListener('click', () => revokeSession(session));
+          actionCell.appendChild(button);
+          row.appendChild(actionCell);
+          tbody.appendChild(row);
+        });
+      } catch (error) {
+        console.error('加载登录会话失败:', error);
+        tbody.innerHTML = '<tr><td colspan="5" class="px-4 py-3 text-center text-red-500">加载登录会话失败</td></tr>';
+      }
+    }
+
+    async function confirmSessionAction(method, path, message) {
+      if (!confirm(message)) return false;
+      const response = await fetch(path, { method, credentials: 'include' });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.message || '未知错误');
+      return true;
+    }
+
+    async function revokeSession(session) {
+      try {
+        const message = session.current ? '退出当前设备后需要重新登录，确定继续？' : '吊销后该设备需要重新登录，确定继续？';
+        if (!(await confirmSessionAction('DELETE', '/api/sessions/' + session.id, message))) return;
+        if (session.current) {
+          window.location.href = '/';
+          return;
+        }
+        showToast('会话已吊销', 'success');
+        loadSessions();
+      } catch (error) {
+        showToast('吊销失败: ' + error.message, 'error');
+      }
+    }
+
+    async function revokeAllSessions() {
+      try {
+        if (await confirmSessionAction('DELETE', '/api/sessions', '将退出当前账户在所有设备上的登录，确定继续？')) {
+          window.location.href = '/';
+        }
+      } catch (error) {
+        showToast('操作失败: ' + error.message, 'error');
+      }
+    }
+
+    async function rotateJwtSecret() {
+      try {
+        if (await confirmSessionAction('POST', '/api/config/jwt-secret', '重置后所有用户都需要重新登录，确定继续？')) {
+          window.location.href = '/';
+        }
+      } catch (error) {
+        showToast('重置失败: ' + error.message, 'error');
+      }
+    }
+
+    document.getElementById('revokeAllSessionsBtn').addEventListener('click', revokeAllSessions);
+    document.getElementById('rotateJwtSecretBtn').addEventListener('click', rotateJwtSecret);
+    window.addEventListener('load', loadSessions);
+
+    const API_TOKEN_SCOPES = { 'subscriptions:read': '读取订阅', 'subscriptions:write': '修改订阅', notify: '发送通知' };
+
+    function formatTokenTime(value, fallback) {
+      return value ? new Date(value).toLocaleString('zh-CN', { timeZone: globalTimezone }) : fallback;
+    }
+
+    async function loadApiTokens() {
+      const tbody = document.getElementById('apiTokenTableBody');
+      try {
+        const response = await fetch('/api/tokens', { credentials: 'include' });
+        const tokens = await response.json();
+        if (!Array.isArray(tokens)) throw new Error(tokens.message || '未知错误');
+        if (tokens.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="6" class="px-4 py-3 text-center text-gray-500">暂无 API Token</td></tr>';
+          return;
+        }
+        tbody.innerHTML = '';
+        tokens.forEach(token => {
+          const row = document.createElement('tr');
+          const expired = token.expiresAt && new Date(token.expiresAt) <= new Date();
+          const cells = [
+            token.name,
+            token.prefix + '…',
+            token.scopes.map(scope => API_TOKEN_SCOPES[scope] || scope).join('、'),
+            formatTokenTime(token.expiresAt, '永不过期') + (expired ? '（已过期）' : ''),
+            formatTokenTime(token.lastUsedAt, '从未使用')
+          ];
+          cells.forEach((text, index) => {
+            const td = document.createElement('td');
+            td.className = 'px-4 py-2 text-gray-700' + (index === 1 ? ' font-mono' : '');
+            td.textContent = text;
+            row.appendChild(td);
+          });
+          const actionCell = document.createElement('td');
+          actionCell.className = 'px-4 py-2 text-right';
+          const button = document.createElement('button');
+          button.type = 'button';
+          button.className = 'text-red-600 hover:text-red-800 text-sm';
+          button.textContent = '吊销';
+          button.addEventListener('click', () => revokeApiToken(token.id, token.name));
+          actionCell.appendChild(button);
+          row.appendChild(actionCell);
+          tbody.appendChild(row);
+        });
+      } catch (error) {
+        console.error('加载 API Token 失败:', error);
+        tbody.innerHTML = '<tr><td colspan="6" class="px-4 py-3 text-center text-red-500">加载 API Token 失败</td></tr>';
+      }
+    }
+
+    async function createApiToken() {
+      const name = document.getElementById('apiTokenName').value.trim();
+      const scopes = Array.from(document.querySelectorAll('.api-token-scope:checked')).map(el => el.value);
+      const expiry = document.getElementById('apiTokenExpiry').value;
+      if (!name) {
+        showToast('请填写 Token 名称', 'warning');
+        return;
+      }
+      if (scopes.length === 0) {
+        showToast('请至少选择一项权限', 'warning');
+        return;
+      }
+      try {
+        const response = await fetch('/api/tokens', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ name, scopes, expiresInDays: expiry ? parseInt(expiry, 10) : null })
+        });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        document.getElementById('newApiToken').value = result.token;
+        document.getElementById('newApiTokenBox').classList.remove('hidden');
+        document.getElementById('apiTokenName').value = '';
+        showToast('Token 已创建', 'success');
+        loadApiTokens();
+      } catch (error) {
+        showToast('创建 Token 失败: ' + error.message, 'error');
+      }
+    }
+
+    async function revokeApiToken(id, name) {
+      if (!confirm('吊销后使用「' + name + '」的脚本将立即无法访问，确定继续？')) return;
+      try {
+        const response = await fetch('/api/tokens/' + id, { method: 'DELETE', credentials: 'include' });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        showToast('Token 已吊销', 'success');
+        loadApiTokens();
+      } catch (error) {
+        showToast('吊销失败: ' + error.message, 'error');
+      }
+    }
+
+    async function copyApiToken() {
+      const input = document.getElementById('newApiToken');
+      try {
+        await navigator.clipboard.writeText(input.value);
+        showToast('Token 已复制', 'success');
+      } catch (error) {
+        input.select();
+        showToast('请手动复制 Token', 'warning');
+      }
+    }
+
+    document.getElementById('showCalendarUrlBtn').addEventListener('click', () => loadCalendarUrl(false));
+    document.getElementById('copyCalendarUrlBtn').addEventListener('click', copyCalendarUrl);
+    document.getElementById('resetCalendarUrlBtn').addEventListener('click', () => loadCalendarUrl(true));
+    document.getElementById('createUserBtn').addEventListener('click', createUser);
+    window.addEventListener('load', loadUsers);
+    document.getElementById('createApiTokenBtn').addEventListener('click', createApiToken);
+    document.getElementById('copyApiTokenBtn').addEventListener('click', copyApiToken);
+    window.addEventListener('load', loadApiTokens);
+
+    document.getElementById('oidcRedirectUri').textContent = window.location.origin + '/api/oidc/callback';
     window.addEventListener('load', loadConfig);
     
     // 全局时区配置
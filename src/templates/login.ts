@@ -59,6 +59,14 @@ export const loginPage = `
         <input type="password" id="password" name="password" required
           class="input-field w-full px-4 py-3 rounded-lg text-gray-700 focus:outline-none">
       </div>
+
+      <div id="totpField" class="hidden">
+        <label for="totpCode" class="block text-sm font-medium text-gray-700 mb-1">
+          <i class="fas fa-shield-alt mr-2"></i>两步验证码
+        </label>
+        <input type="text" id="totpCode" name="totpCode" inputmode="numeric" autocomplete="one-time-code" placeholder="6 位验证码或恢复码"
+          class="input-field w-full px-4 py-3 rounded-lg text-gray-700 focus:outline-none">
+      </div>
       
       <button type="submit" 
         class="btn-primary w-full py-3 rounded-lg text-white font-medium focus:outline-none">
@@ -67,13 +75,38 @@ export const loginPage = `
       
       <div id="errorMsg" class="text-red-500 text-center"></div>
     </form>
+
+    <div id="ssoLogin" class="hidden mt-6">
+      <div class="flex items-center mb-6">
+        <div class="flex-1 border-t border-gray-300"></div>
+        <span class="px-3 text-sm text-gray-500">或</span>
+        <div class="flex-1 border-t border-gray-300"></div>
+      </div>
+      <a href="/api/oidc/login" class="block w-full py-3 rounded-lg text-center font-medium text-gray-700 border border-gray-300 bg-white hover:bg-gray-50">
+        <i class="fas fa-id-badge mr-2"></i>使用单点登录（SSO）
+      </a>
+    </div>
   </div>
   
   <script>
+    const ssoError = new URLSearchParams(window.location.search).get('sso_error');
+    if (ssoError) {
+      document.getElementById('errorMsg').textContent = ssoError;
+      history.replaceState(null, '', '/');
+    }
+
+    fetch('/api/oidc/config')
+      .then(response => response.json())
+      .then(result => {
+        if (result.enabled) document.getElementById('ssoLogin').classList.remove('hidden');
+      })
+      .catch(() => {});
+
     document.getElementById('loginForm').addEventListener('submit', async (e) => {
       e.preventDefault();
       const username = document.getElementById('username').value;
       const password = document.getElementById('password').value;
+      const totpCode = document.getElementById('totpCode').value.trim();
       
       const button = e.target.querySelector('button');
       const originalContent = button.innerHTML;
@@ -85,14 +118,19 @@ export const loginPage = `
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
-          body: JSON.stringify({ username, password })
+          body: JSON.stringify(totpCode ? { username, password, totpCode } : { username, password })
         });
         
         const result = await response.json();
         
         if (result.success) {
-          window.location.href = '/admin';
+          window.location.href = result.mustChangePassword ? '/admin/password' : '/admin';
         } else {
+          if (result.requiresTotp) {
+            document.getElementById('totpField').classList.remove('hidden');
+            document.getElementById('totpCode').value = '';
+            document.getElementById('totpCode').focus();
+          }
           document.getElementById('errorMsg').textContent = result.message || '用户名或密码错误';
           button.innerHTML = originalContent;
           button.disabled = false;
@@ -0,0 +1,439 @@
+export const passwordPage = `
+<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>修改密码 - 订阅管理系统</title>
+    <link rel="preconnect" href="https://cdnjs.cloudflare.com">
+    <script src="https://cdn.tailwindcss.com"></script>
+    <script src="https://cdnjs.cloudflare.com/ajax/libs/qrcodejs/1.0.0/qrcode.min.js" defer></script>
+    <link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0-beta3/css/all.min.css" rel="stylesheet" media="print" onload="this.media='all'">
+  <style>
+    .login-container {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      min-height: 100vh;
+    }
+    .login-box {
+      backdrop-filter: blur(8px);
+      background-color: rgba(255, 255, 255, 0.9);
+      box-shadow: 0 10px 25px rgba(0, 0, 0, 0.15);
+    }
+    .btn-primary {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      transition: all 0.3s;
+    }
+    .btn-primary:hover {
+      transform: translateY(-2px);
+      box-shadow: 0 5px 15px rgba(0, 0, 0, 0.1);
+    }
+    .input-field {
+      transition: all 0.3s;
+      border: 1px solid #e2e8f0;
+    }
+    .input-field:focus {
+      border-color: #667eea;
+      box-shadow: 0 0 0 3px rgba(102, 126, 234, 0.25);
+    }
+  </style>
+</head>
+<body class="login-container flex items-center justify-center">
+  <div class="login-box p-8 rounded-xl w-full max-w-md">
+    <div class="text-center mb-8">
+      <h1 class="text-2xl font-bold text-gray-800"><i class="fas fa-key mr-2"></i>修改密码</h1>
+      <p id="passwordHint" class="text-gray-600 mt-2">为了账户安全，请设置新的登录密码</p>
+    </div>
+
+    <form id="passwordForm" class="space-y-6">
+      <div>
+        <label for="currentPassword" class="block text-sm font-medium text-gray-700 mb-1">
+          <i class="fas fa-lock mr-2"></i>当前密码
+        </label>
+        <input type="password" id="currentPassword" autocomplete="current-password" required
+          class="input-field w-full px-4 py-3 rounded-lg text-gray-700 focus:outline-none">
+      </div>
+
+      <div>
+        <label for="newPassword" class="block text-sm font-medium text-gray-700 mb-1">
+          <i class="fas fa-key mr-2"></i>新密码
+        </label>
+        <input type="password" id="newPassword" autocomplete="new-password" required
+          class="input-field w-full px-4 py-3 rounded-lg text-gray-700 focus:outline-none">
+        <p class="text-xs text-gray-500 mt-1">至少 8 个字符，包含字母、数字、符号中的至少两种，且不能包含用户名</p>
+      </div>
+
+      <div>
+        <label for="confirmPassword" class="block text-sm font-medium text-gray-700 mb-1">
+          <i class="fas fa-check mr-2"></i>确认新密码
+        </label>
+        <input type="password" id="confirmPassword" autocomplete="new-password" required
+          class="input-field w-full px-4 py-3 rounded-lg text-gray-700 focus:outline-none">
+      </div>
+
+      <button type="submit"
+        class="btn-primary w-full py-3 rounded-lg text-white font-medium focus:outline-none">
+        <i class="fas fa-save mr-2"></i>保存新密码
+      </button>
+
+      <div id="errorMsg" class="text-red-500 text-center"></div>
+      <div class="text-center">
+        <a href="/admin" class="text-sm text-gray-500 hover:text-indigo-600">返回</a>
+      </div>
+    </form>
+
+    <div id="ssoLink" class="hidden mt-8 pt-6 border-t border-gray-200">
+      <h2 class="text-lg font-semibold text-gray-800 mb-2"><i class="fas fa-id-badge mr-2"></i>单点登录</h2>
+      <p class="text-sm text-gray-600 mb-3">绑定后可以使用身份提供方登录当前账户，同名邮箱不会自动绑定</p>
+      <div id="ssoLinkMsg" class="text-sm text-center mb-3"></div>
+      <a href="/api/oidc/link" class="block w-full py-2 rounded-lg text-center font-medium text-gray-700 border border-gray-300 bg-white hover:bg-gray-50">
+        绑定单点登录身份
+      </a>
+    </div>
+
+    <div id="twoFactor" class="mt-8 pt-6 border-t border-gray-200">
+      <h2 class="text-lg font-semibold text-gray-800 mb-2"><i class="fas fa-shield-alt mr-2"></i>两步验证</h2>
+      <p class="text-sm text-gray-600 mb-3">启用后登录当前账户时，除密码外还需要输入认证器 App（如 Google Authenticator、1Password）生成的 6 位验证码。手机丢失时可以使用恢复码登录，每个恢复码只能使用一次。</p>
+      <p class="text-sm mb-3">当前状态：<span id="twoFactorStatus" class="font-medium text-gray-700">加载中...</span></p>
+      <div id="twoFactorMsg" class="text-sm text-center mb-3"></div>
+      <button type="button" id="setupTwoFactorBtn" class="hidden btn-primary w-full py-2 rounded-lg text-white font-medium">
+        <i class="fas fa-shield-alt mr-2"></i>设置两步验证
+      </button>
+      <div id="twoFactorSetup" class="hidden mt-3 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+        <p class="text-sm text-gray-700 mb-3">使用认证器 App 扫描二维码，或手动输入密钥：</p>
+        <div id="twoFactorQr" class="mb-3"></div>
+        <p class="text-sm text-gray-700 mb-1">密钥：<code id="twoFactorSecret" class="font-mono break-all"></code></p>
+        <p class="text-xs text-gray-500 mb-3 break-all" id="twoFactorUri"></p>
+        <div class="flex gap-2">
+          <input type="text" id="twoFactorEnableCode" inputmode="numeric" autocomplete="one-time-code" placeholder="输入 App 中的 6 位验证码" class="input-field flex-1 min-w-0 px-3 py-2 rounded-lg text-gray-700 focus:outline-none">
+          <button type="button" id="enableTwoFactorBtn" class="btn-primary text-white px-4 py-2 rounded-lg text-sm font-medium">确认启用</button>
+        </div>
+      </div>
+      <div id="twoFactorManage" class="hidden">
+        <input type="text" id="twoFactorManageCode" autocomplete="one-time-code" placeholder="验证码或恢复码" class="input-field w-full px-3 py-2 rounded-lg text-gray-700 focus:outline-none mb-2">
+        <div class="flex gap-2">
+          <button type="button" id="regenerateRecoveryCodesBtn" class="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white hover:bg-gray-50">重新生成恢复码</button>
+          <button type="button" id="disableTwoFactorBtn" class="flex-1 px-4 py-2 border border-red-300 rounded-lg text-sm text-red-600 bg-white hover:bg-red-50">停用</button>
+        </div>
+      </div>
+      <div id="recoveryCodesBox" class="hidden mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+        <p class="text-sm text-yellow-800 mb-2">请妥善保存以下恢复码，它们只显示这一次：</p>
+        <pre id="recoveryCodes" class="font-mono text-sm text-gray-800"></pre>
+      </div>
+    </div>
+
+    <div id="apiTokens" class="hidden mt-8 pt-6 border-t border-gray-200">
+      <h2 class="text-lg font-semibold text-gray-800 mb-2"><i class="fas fa-key mr-2"></i>API Token</h2>
+      <p class="text-sm text-gray-600 mb-3">供脚本和自动化调用，请求时携带 <code>Authorization: Bearer &lt;Token&gt;</code>。Token 以当前账户的身份访问，权限不能超过当前角色；明文只在创建后显示一次，请妥善保存。</p>
+      <div id="apiTokenMsg" class="text-sm text-center mb-3"></div>
+      <ul id="apiTokenList" class="divide-y divide-gray-200 mb-3"></ul>
+      <div class="space-y-2">
+        <input type="text" id="apiTokenName" autocomplete="off" placeholder="Token 名称，例如：同步脚本" class="input-field w-full px-3 py-2 rounded-lg text-gray-700 focus:outline-none">
+        <div class="text-sm text-gray-700">
+          <label class="inline-flex items-center mr-3"><input type="checkbox" class="api-token-scope mr-1" value="subscriptions:read" checked>读取订阅</label>
+          <label class="inline-flex items-center mr-3"><input type="checkbox" class="api-token-scope mr-1" value="subscriptions:write" data-role="editor">修改订阅</label>
+          <label class="inline-flex items-center"><input type="checkbox" class="api-token-scope mr-1" value="notify" data-role="editor">发送通知</label>
+        </div>
+        <div class="flex gap-2">
+          <select id="apiTokenExpiry" class="input-field flex-1 px-3 py-2 rounded-lg text-gray-700 bg-white focus:outline-none">
+            <option value="30">30 天</option>
+            <option value="90" selected>90 天</option>
+            <option value="365">1 年</option>
+            <option value="">永不过期</option>
+          </select>
+          <button type="button" id="createApiTokenBtn" class="btn-primary text-white px-4 py-2 rounded-lg text-sm font-medium">创建 Token</button>
+        </div>
+      </div>
+      <div id="newApiTokenBox" class="hidden mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+        <p class="text-sm text-yellow-800 mb-2">新 Token 只显示这一次：</p>
+        <input type="text" id="newApiToken" readonly class="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white font-mono text-sm">
+      </div>
+    </div>
+  </div>
+
+  <script>
+    fetch('/api/me', { credentials: 'include' })
+      .then(res => res.ok ? res.json() : null)
+      .then(me => {
+        if (me && me.mustChangePassword) {
+          document.getElementById('passwordHint').textContent = '当前密码为默认密码或强度不足，修改后才能继续使用';
+        } else if (me) {
+          initApiTokens(me);
+        }
+      })
+      .catch(() => {});
+
+    const params = new URLSearchParams(window.location.search);
+    const ssoLinkMsg = document.getElementById('ssoLinkMsg');
+    if (params.get('sso_linked')) {
+      ssoLinkMsg.className = 'text-sm text-center mb-3 text-green-600';
+      ssoLinkMsg.textContent = '已绑定单点登录身份';
+    } else if (params.get('sso_error')) {
+      ssoLinkMsg.className = 'text-sm text-center mb-3 text-red-500';
+      ssoLinkMsg.textContent = params.get('sso_error');
+    }
+    if (params.toString()) history.replaceState(null, '', '/admin/password');
+
+    fetch('/api/oidc/config')
+      .then(response => response.json())
+      .then(result => {
+        if (result.enabled || ssoLinkMsg.textContent) document.getElementById('ssoLink').classList.remove('hidden');
+      })
+      .catch(() => {});
+
+    const twoFactorMsg = document.getElementById('twoFactorMsg');
+
+    function showTwoFactorMessage(message, isError) {
+      twoFactorMsg.className = 'text-sm text-center mb-3 ' + (isError ? 'text-red-500' : 'text-green-600');
+      twoFactorMsg.textContent = message;
+    }
+
+    async function loadTwoFactorStatus() {
+      const statusEl = document.getElementById('twoFactorStatus');
+      try {
+        const response = await fetch('/api/2fa', { credentials: 'include' });
+        if (!response.ok) {
+          // 修改默认密码前两步验证接口不可用
+          document.getElementById('twoFactor').classList.add('hidden');
+          return;
+        }
+        const status = await response.json();
+        statusEl.textContent = status.enabled ? '已启用（剩余 ' + status.recoveryCodesRemaining + ' 个恢复码）' : '未启用';
+        statusEl.className = 'font-medium ' + (status.enabled ? 'text-green-600' : 'text-gray-700');
+        document.getElementById('setupTwoFactorBtn').classList.toggle('hidden', status.enabled);
+        document.getElementById('twoFactorManage').classList.toggle('hidden', !status.enabled);
+        if (status.enabled) document.getElementById('twoFactorSetup').classList.add('hidden');
+      } catch (error) {
+        statusEl.textContent = '加载失败';
+      }
+    }
+
+    function showRecoveryCodes(codes) {
+      document.getElementById('recoveryCodes').textContent = codes.join('\\n');
+      document.getElementById('recoveryCodesBox').classList.remove('hidden');
+    }
+
+    async function postTwoFactor(action, code) {
+      const response = await fetch('/api/2fa/' + action, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: code === undefined ? undefined : JSON.stringify({ code })
+      });
+      const result = await response.json();
+      if (!result.success) throw new Error(result.message || '未知错误');
+      return result;
+    }
+
+    async function setupTwoFactor() {
+      try {
+        const result = await postTwoFactor('setup');
+        document.getElementById('twoFactorSecret').textContent = result.secret;
+        document.getElementById('twoFactorUri').textContent = result.otpauthUri;
+        const qr = document.getElementById('twoFactorQr');
+        qr.innerHTML = '';
+        if (window.QRCode) {
+          new QRCode(qr, { text: result.otpauthUri, width: 180, height: 180 });
+        }
+        twoFactorMsg.textContent = '';
+        document.getElementById('twoFactorSetup').classList.remove('hidden');
+        document.getElementById('twoFactorEnableCode').focus();
+      } catch (error) {
+        showTwoFactorMessage('生成密钥失败: ' + error.message, true);
+      }
+    }
+
+    async function enableTwoFactor() {
+      const input = document.getElementById('twoFactorEnableCode');
+      try {
+        const result = await postTwoFactor('enable', input.value.trim());
+        input.value = '';
+        showRecoveryCodes(result.recoveryCodes);
+        showTwoFactorMessage('两步验证已启用', false);
+        loadTwoFactorStatus();
+      } catch (error) {
+        showTwoFactorMessage('启用失败: ' + error.message, true);
+      }
+    }
+
+    async function manageTwoFactor(action) {
+      const input = document.getElementById('twoFactorManageCode');
+      if (!input.value.trim()) {
+        showTwoFactorMessage('请输入验证码或恢复码', true);
+        return;
+      }
+      if (action === 'disable' && !confirm('停用后登录只需要密码，确定继续？')) return;
+      try {
+        const result = await postTwoFactor(action, input.value.trim());
+        input.value = '';
+        if (action === 'disable') {
+          document.getElementById('recoveryCodesBox').classList.add('hidden');
+          showTwoFactorMessage('两步验证已停用', false);
+        } else {
+          showRecoveryCodes(result.recoveryCodes);
+          showTwoFactorMessage('恢复码已重新生成', false);
+        }
+        loadTwoFactorStatus();
+      } catch (error) {
+        showTwoFactorMessage('操作失败: ' + error.message, true);
+      }
+    }
+
+    document.getElementById('setupTwoFactorBtn').addEventListener('click', setupTwoFactor);
+    document.getElementById('enableTwoFactorBtn').addEventListener('click', enableTwoFactor);
+    document.getElementById('disableTwoFactorBtn').addEventListener('click', () => manageTwoFactor('disable'));
+    document.getElementById('regenerateRecoveryCodesBtn').addEventListener('click', () => manageTwoFactor('recovery-codes'));
+    loadTwoFactorStatus();
+
+    const API_TOKEN_SCOPES = { 'subscriptions:read': '读取订阅', 'subscriptions:write': '修改订阅', notify: '发送通知' };
+    const apiTokenMsg = document.getElementById('apiTokenMsg');
+    let currentUserId = null;
+
+    function showApiTokenMessage(message, isError) {
+      apiTokenMsg.className = 'text-sm text-center mb-3 ' + (isError ? 'text-red-500' : 'text-green-600');
+      apiTokenMsg.textContent = message;
+    }
+
+    function formatTokenTime(value, fallback) {
+      return value ? new Date(value).toLocaleString('zh-CN') : fallback;
+    }
+
+    // 只读用户不能授予修改订阅与发送通知权限
+    function initApiTokens(me) {
+      currentUserId = me.userId;
+      if (me.role === 'viewer') {
+        document.querySelectorAll('.api-token-scope[data-role="editor"]').forEach(el => {
+          el.disabled = true;
+          el.parentElement.classList.add('text-gray-400');
+        });
+      }
+      document.getElementById('apiTokens').classList.remove('hidden');
+      loadApiTokens();
+    }
+
+    async function loadApiTokens() {
+      const list = document.getElementById('apiTokenList');
+      try {
+        const response = await fetch('/api/tokens', { credentials: 'include' });
+        const result = await response.json();
+        if (!Array.isArray(result)) throw new Error(result.message || '未知错误');
+        // 管理员会收到全部用户的 Token，这里只显示自己的
+        const tokens = result.filter(token => token.userId === currentUserId);
+        list.innerHTML = '';
+        if (tokens.length === 0) {
+          list.innerHTML = '<li class="py-2 text-sm text-center text-gray-500">暂无 API Token</li>';
+          return;
+        }
+        tokens.forEach(token => {
+          const item = document.createElement('li');
+          item.className = 'py-2 flex items-start justify-between gap-2';
+          const info = document.createElement('div');
+          info.className = 'text-sm min-w-0';
+          const expired = token.expiresAt && new Date(token.expiresAt) <= new Date();
+          const title = document.createElement('p');
+          title.className = 'font-medium text-gray-800 break-all';
+          title.textContent = token.name + '（' + token.prefix + '…）';
+          const detail = document.createElement('p');
+          detail.className = 'text-xs text-gray-500';
+          detail.textContent = token.scopes.map(scope => API_TOKEN_SCOPES[scope] || scope).join('、') +
+            ' · 过期：' + formatTokenTime(token.expiresAt, '永不过期') + (expired ? '（已过期）' : '') +
+            ' · 最近使用：' + formatTokenTime(token.lastUsedAt, '从未使用');
+          info.appendChild(title);
+          info.appendChild(detail);
+          const button = document.createElement('button');
+          button.type = 'button';
+          button.className = 'text-red-600 hover:text-red-800 text-sm whitespace-nowrap';
+          button.textContent = '吊销';
+          button.addEventListener('click', () => revokeApiToken(token.id, token.name));
+          item.appendChild(info);
+          item.appendChild(button);
+          list.appendChild(item);
+        });
+      } catch (error) {
+        list.innerHTML = '<li class="py-2 text-sm text-center text-red-500">加载 API Token 失败</li>';
+      }
+    }
+
+    async function createApiToken() {
+      const name = document.getElementById('apiTokenName').value.trim();
+      const scopes = Array.from(document.querySelectorAll('.api-token-scope:checked')).map(el => el.value);
+      const expiry = document.getElementById('apiTokenExpiry').value;
+      if (!name) {
+        showApiTokenMessage('请填写 Token 名称', true);
+        return;
+      }
+      if (scopes.length === 0) {
+        showApiTokenMessage('请至少选择一项权限', true);
+        return;
+      }
+      try {
+        const response = await fetch('/api/tokens', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ name, scopes, expiresInDays: expiry ? parseInt(expiry, 10) : null })
+        });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        document.getElementById('newApiToken').value = result.token;
+        document.getElementById('newApiTokenBox').classList.remove('hidden');
+        document.getElementById('apiTokenName').value = '';
+        showApiTokenMessage('Token 已创建', false);
+        loadApiTokens();
+      } catch (error) {
+        showApiTokenMessage('创建 Token 失败: ' + error.message, true);
+      }
+    }
+
+    async function revokeApiToken(id, name) {
+      if (!confirm('吊销后使用「' + name + '」的脚本将立即无法访问，确定继续？')) return;
+      try {
+        const response = await fetch('/api/tokens/' + id, { method: 'DELETE', credentials: 'include' });
+        const result = await response.json();
+        if (!result.success) throw new Error(result.message || '未知错误');
+        showApiTokenMessage('Token 已吊销', false);
+        loadApiTokens();
+      } catch (error) {
+        showApiTokenMessage('吊销失败: ' + error.message, true);
+      }
+    }
+
+    document.getElementById('createApiTokenBtn').addEventListener('click', createApiToken);
+
+    document.getElementById('passwordForm').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const errorMsg = document.getElementById('errorMsg');
+      const currentPassword = document.getElementById('currentPassword').value;
+      const newPassword = document.getElementById('newPassword').value;
+      if (newPassword !== document.getElementById('confirmPassword').value) {
+        errorMsg.textContent = '两次输入的新密码不一致';
+        return;
+      }
+
+      const button = e.target.querySelector('button');
+      const originalContent = button.innerHTML;
+      button.innerHTML = '<i class="fas fa-spinner fa-spin mr-2"></i>保存中...';
+      button.disabled = true;
+
+      try {
+        const response = await fetch('/api/password', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ currentPassword, newPassword })
+        });
+        const result = await response.json();
+        if (result.success) {
+          window.location.href = '/admin';
+          return;
+        }
+        errorMsg.textContent = result.message || '修改密码失败';
+      } catch (error) {
+        errorMsg.textContent = '发生错误，请稍后再试';
+      }
+      button.innerHTML = originalContent;
+      button.disabled = false;
+    });
+  </script>
+</body>
+</html>
+`;
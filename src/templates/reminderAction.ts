@@ -0,0 +1,51 @@
+/**
+ * 提醒操作链接的落地页
+ * 打开链接（GET）只显示确认按钮，点击后才以 POST 执行，避免邮件客户端、聊天软件预览链接时误触发操作
+ */
+
+export interface ReminderActionPageOptions {
+  title: string;
+  message: string;
+  token?: string; // 有值时显示确认按钮
+  success?: boolean;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function reminderActionPage(options: ReminderActionPageOptions): string {
+  const icon = options.token ? 'fa-bell' : options.success ? 'fa-check-circle text-green-500' : 'fa-exclamation-circle text-red-500';
+  const form = options.token
+    ? `<form method="POST" action="/api/reminder-action" class="mt-6">
+      <input type="hidden" name="token" value="${escapeHtml(options.token)}">
+      <button type="submit" class="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-2 px-4 rounded-md font-medium">确认</button>
+    </form>`
+    : '';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(options.title)} - 订阅管理系统</title>
+  <script src="https://cdn.tailwindcss.com"></script>
+  <link href="https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0-beta3/css/all.min.css" rel="stylesheet">
+</head>
+<body class="bg-gray-100 min-h-screen flex items-center justify-center">
+  <div class="bg-white p-8 rounded-xl shadow w-full max-w-md text-center">
+    <i class="fas ${icon} text-4xl mb-4"></i>
+    <h1 class="text-xl font-bold text-gray-800">${escapeHtml(options.title)}</h1>
+    <p class="text-gray-600 mt-3">${escapeHtml(options.message)}</p>
+    ${form}
+  </div>
+</body>
+</html>`;
+}
@@ -7,7 +7,11 @@ export interface Subscription {
   periodValue?: number;
   periodUnit?: 'year' | 'month' | 'day';
   price?: number;
+  currency?: string; // ISO 4217 货币代码，缺省为基础货币
   reminderDays?: number;
+  reminderStages?: ReminderStage[]; // 设置后只在这些天提醒，取代 reminderDays
+  overduePolicy?: Partial<OverduePolicy>; // 未设置的字段使用全局配置
+  reminderState?: ReminderState; // 通过通知中的操作链接推迟或确认提醒，续订后清除
   dailyReminderTimes?: string[];
   notes?: string;
   isActive: boolean;
@@ -16,9 +20,11 @@ export interface Subscription {
   weNotifyUserIds?: string;
   wechatBotKeys?: string;
   emailAddresses?: string;
+  ownerId?: string; // 创建者的用户 ID，旧数据为空时仅管理员可见
   createdAt?: string;
   updatedAt?: string;
   daysRemaining?: number; // Runtime calculated field
+  actionLinks?: ReminderActionLink[]; // 发送提醒时生成，不保存
 
   // Legacy or alternative fields mapping (if needed)
   // type?: 'solar' | 'lunar'; // Mapped to useLunar
@@ -26,6 +32,48 @@ export interface Subscription {
   // notifyTime?: ... // Mapped to reminderDays
 }
 
+/**
+ * 分阶段提醒：到期前 daysBefore 天提醒一次，channels 为空时发送到所有已启用的渠道
+ */
+export interface ReminderStage {
+  daysBefore: number;
+  channels?: string[];
+}
+
+/**
+ * 过期提醒策略（不自动续订的订阅过期后）：过期后前 dailyDays 天每天提醒，之后每 7 天提醒一次，
+ * 过期超过 weeklyUntilDays 天后不再提醒；deactivateAfterDays 大于 0 时，过期满该天数发送最后一次通知并停用订阅
+ */
+export interface OverduePolicy {
+  dailyDays: number;
+  weeklyUntilDays: number;
+  deactivateAfterDays: number;
+}
+
+/**
+ * 提醒状态：snoozedUntil 之前不提醒；acknowledgedExpiry 等于当前到期日时本周期不再提醒
+ */
+export interface ReminderState {
+  snoozedUntil?: string; // ISO 时间
+  acknowledgedExpiry?: string;
+}
+
+export interface ReminderActionLink {
+  label: string;
+  url: string;
+}
+
+export interface RenewalRecord {
+  id: string;
+  subscriptionId: string;
+  type: 'auto' | 'manual';
+  oldExpiryDate: string;
+  newExpiryDate: string;
+  price?: number; // 续期时的金额（手动续期可填写实付金额）
+  currency?: string;
+  renewedAt: string;
+}
+
 export interface ChannelConfig {
   enabled: boolean;
   [key: string]: string | number | boolean | undefined;
@@ -81,15 +129,40 @@ export interface WeChatOfficialAccountConfig {
   userIds: string; // Supports multiple user IDs separated by |
 }
 
-export interface Config {
-  adminUsername?: string;
-  adminPassword?: string;
-  jwtSecret?: string;
-  thirdPartyToken?: string; // 第三方通知 API 专用 Token
-  timezone?: string;
-  reminderTimes?: string[];
-  showLunarGlobal?: boolean;
-  enabledNotifiers: string[];
+export interface S3BackupConfig {
+  endpoint: string; // 例如 https://<account>.r2.cloudflarestorage.com 或 http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface BackupConfig {
+  enabled: boolean;
+  target: 'r2' | 's3'; // r2 使用 BACKUP_BUCKET 绑定，s3 使用 SigV4 签名请求
+  time: string; // 每日执行时间 HH:mm（按 timezone）
+  retention: number; // 保留最近的快照数量
+  prefix: string;
+  passphrase?: string; // 设置后敏感配置加密保存
+  s3: S3BackupConfig;
+}
+
+/**
+ * OIDC 单点登录配置（授权码 + PKCE）
+ */
+export interface OidcConfig {
+  enabled: boolean;
+  issuer: string; // 例如 https://accounts.google.com，用于拼接 /.well-known/openid-configuration
+  clientId: string;
+  clientSecret: string; // 公共客户端可留空
+  allowedDomains: string[]; // 允许登录的邮箱域名，为空时不限制
+  defaultRole: UserRole; // 首次登录自动创建账户时的角色
+}
+
+/**
+ * 各通知渠道的配置，键与渠道注册表中的 configKey 对应
+ */
+export interface ChannelConfigs {
   telegram?: TelegramConfig;
   notifyx?: NotifyXConfig;
   wenotify?: WeNotifyConfig;
@@ -100,9 +173,33 @@ export interface Config {
   bark?: BarkConfig;
 }
 
+export interface Config extends ChannelConfigs {
+  adminUsername?: string;
+  adminPassword?: string;
+  jwtSecret?: string;
+  thirdPartyToken?: string; // 第三方通知 API 专用 Token
+  calendarToken?: string; // 日历订阅源专用 Token，为空时订阅源不可用
+  calendarTokenOwner?: string; // 生成日历 Token 的管理员用户 ID
+  publicBaseUrl?: string; // 通知中操作链接的站点地址，为空时不生成链接
+  timezone?: string;
+  reminderTimes?: string[];
+  showLunarGlobal?: boolean;
+  baseCurrency?: string;
+  exchangeRates?: Record<string, number>; // 1 单位外币 = N 单位基础货币
+  enabledNotifiers: string[];
+  overduePolicy?: OverduePolicy;
+  backup?: BackupConfig;
+  oidc?: OidcConfig;
+}
+
 export interface Env {
-  SUBSCRIPTIONS_KV: KVNamespace;
+  SUBSCRIPTIONS_KV?: KVNamespace; // STORAGE_BACKEND 为 memory 时可不绑定
+  SUBSCRIPTIONS_DB?: D1Database;
+  STORAGE_BACKEND?: string; // 'kv'（默认）、'd1' 或 'memory'
   JWT_SECRET?: string;
+  BACKUP_BUCKET?: R2Bucket; // 自动备份的 R2 存储桶（可选）
+  CONFIG_ENCRYPTION_KEY?: string; // 敏感配置的主密钥（Worker Secret，Base64 编码的 32 字节）
+  CONFIG_ENCRYPTION_KEY_PREVIOUS?: string; // 轮换期间保留的旧主密钥，仅用于解密
 }
 
 export interface User {
@@ -110,6 +207,143 @@ export interface User {
   iat: number;
 }
 
+/**
+ * 用户角色（权限依次递增）
+ * viewer 只能查看订阅，editor 还可以增删改订阅并发送测试通知，admin 可查看全部订阅并管理系统
+ */
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+/**
+ * 用户账户（密码以 bcrypt 哈希保存）
+ */
+export interface UserAccount {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  disabled: boolean;
+  oidcSubject?: string; // 绑定的 OIDC 身份（issuer 与 sub），通过单点登录创建或首次登录时写入
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 个人 API Token 的权限范围
+ */
+export type ApiTokenScope = 'subscriptions:read' | 'subscriptions:write' | 'notify';
+
+/**
+ * 个人 API Token（只保存 SHA-256 哈希，明文仅在创建时返回一次）
+ * Token 以创建者的身份访问，权限同时受创建者角色和 scopes 限制
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  tokenHash: string;
+  prefix: string; // 明文的前几位，用于辨认
+  userId: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * 两步验证（TOTP）设置，按用户 ID 保存，配置中的管理员账户使用固定 ID
+ */
+export interface TwoFactorRecord {
+  userId: string;
+  secret: string; // Base32 编码的 TOTP 密钥
+  enabled: boolean; // 首次输入验证码确认后才启用
+  recoveryCodes: string[]; // 恢复码的 SHA-256 哈希，使用后移除
+  lastUsedStep?: number; // 最近一次登录使用的时间步，防止验证码重放
+  createdAt: string;
+  enabledAt?: string;
+}
+
+/**
+ * 审计日志中单个字段的变更，敏感字段的值以 ****** 代替
+ */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 审计日志：谁在什么时候从哪个 IP 对什么对象做了什么修改
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actorId: string | null; // 未登录的调用（登录失败、第三方通知）为 null
+  actor: string; // 用户名或调用来源
+  ip: string;
+  action: string; // 例如 subscription.update、config.update
+  targetType: string; // 例如 subscription、config、user
+  targetId?: string;
+  targetName?: string;
+  changes: AuditChange[];
+}
+
+/**
+ * 审计日志查询条件，未设置的条件不做限制
+ */
+export interface AuditLogFilter {
+  actor?: string; // 用户名或用户 ID
+  action?: string; // 完整动作或以 . 分隔的前缀，例如 subscription
+  targetType?: string;
+  targetId?: string;
+  since?: string; // ISO 时间（含）
+  until?: string; // ISO 时间（不含）
+}
+
+/**
+ * 发送失败、等待重试的单条渠道消息
+ * 保存已按渠道格式化的内容与接收方，重试时原样再次发送；重试次数用尽后转为死信（dead）
+ */
+export interface QueuedDelivery {
+  id: string;
+  channel: string; // 渠道 ID，例如 telegram
+  title: string;
+  content: string;
+  description?: string;
+  target?: string; // 接收方，为空时使用渠道的全局配置
+  status: 'pending' | 'dead';
+  attempts: number; // 已发送次数（含首次发送）
+  createdAt: string;
+  lastAttemptAt: string;
+  nextAttemptAt: string; // 下次自动重试的时间，死信不再自动重试
+  lastError?: string;
+}
+
+/**
+ * 登录会话，ID 即 JWT 中的 jti，删除后对应的 Token 立即失效
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  username: string;
+  ip: string;
+  userAgent: string;
+  device: string; // 由 User-Agent 解析出的浏览器与系统
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
+/**
+ * 当前请求的调用者
+ */
+export interface Principal {
+  userId: string;
+  username: string;
+  role: UserRole;
+  scopes?: ApiTokenScope[]; // 通过 API Token 认证时的权限范围，Cookie 登录时不设置
+  mustChangePassword?: boolean; // 使用默认或弱密码登录，修改密码前只能访问修改密码接口
+  sessionId?: string; // Cookie 登录时的会话 ID
+}
+
 export interface DebugInfo {
   timestamp: string;
   pathname: string;
@@ -5,12 +5,17 @@
 import bcrypt from 'bcryptjs';
 import { CONFIG } from '../config/constants';
 import { Logger } from './logger';
+import { UserRole } from '../types';
 
 /**
  * JWT Payload 类型
  */
 export interface JWTPayload {
   username: string;
+  sub?: string; // 用户 ID，配置中的管理员账户签发的 Token 不含此字段
+  role?: UserRole;
+  mustChangePassword?: boolean;
+  jti?: string; // 会话 ID
   iat: number;
   exp: number;
 }
@@ -18,7 +23,7 @@ export interface JWTPayload {
 /**
  * 默认 JWT 过期时间（秒）- 24小时
  */
-const DEFAULT_JWT_EXPIRY = 86400;
+export const DEFAULT_JWT_EXPIRY = 86400;
 
 /**
  * 密码哈希
@@ -74,6 +79,17 @@ export const CryptoJS = {
   },
 };
 
+/**
+ * 校验 CryptoJS.HmacSHA256 生成的十六进制签名，由 crypto.subtle.verify 做常数时间比较
+ */
+export async function verifyHmacSHA256(message: string, signature: string, key: string): Promise<boolean> {
+  if (!/^[0-9a-f]{64}$/.test(signature)) return false;
+  const bytes = new Uint8Array(signature.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  return crypto.subtle.verify('HMAC', cryptoKey, bytes, encoder.encode(message));
+}
+
 /**
  * 生成随机密钥
  */
@@ -89,23 +105,33 @@ export function generateRandomSecret(): string {
   return result;
 }
 
+/**
+ * 生成只含十六进制字符的令牌，可直接放在 URL 中
+ */
+export function generateUrlSafeToken(bytes = 24): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
 /**
  * 生成 JWT Token
  *
  * @param username - 用户名
  * @param secret - JWT 密钥
  * @param expiresIn - 过期时间（秒），默认 24 小时
+ * @param claims - 用户 ID（sub）、角色、是否需要修改密码与会话 ID（jti）
  * @returns JWT Token
  */
 export async function generateJWT(
   username: string,
   secret: string,
-  expiresIn: number = DEFAULT_JWT_EXPIRY
+  expiresIn: number = DEFAULT_JWT_EXPIRY,
+  claims: Pick<JWTPayload, 'sub' | 'role' | 'mustChangePassword' | 'jti'> = {}
 ): Promise<string> {
   const header = { alg: 'HS256', typ: 'JWT' };
   const now = Math.floor(Date.now() / 1000);
   const payload: JWTPayload = {
     username,
+    ...claims,
     iat: now,
     exp: now + expiresIn,
   };
@@ -124,11 +150,13 @@ export async function generateJWT(
  *
  * @param token - JWT Token
  * @param secret - JWT 密钥
+ * @param isSessionActive - 会话校验，返回 false 时视为已吊销
  * @returns JWT Payload 或 null（验证失败）
  */
 export async function verifyJWT(
   token: string | null,
-  secret: string
+  secret: string,
+  isSessionActive?: (payload: JWTPayload) => Promise<boolean>
 ): Promise<JWTPayload | null> {
   try {
     if (!token || !secret) {
@@ -160,6 +188,11 @@ export async function verifyJWT(
       return null;
     }
 
+    if (isSessionActive && !(await isSessionActive(payload))) {
+      console.log('[JWT] 会话已失效:', payload.jti);
+      return null;
+    }
+
     console.log('[JWT] 验证成功，用户:', payload.username);
     return payload;
   } catch (error) {
@@ -1,6 +1,10 @@
-import { Config, Env } from '../types';
-import { generateRandomSecret, verifyPassword } from './auth';
-import { CONFIG } from '../config/constants';
+import { Config, Env, UserRole } from '../types';
+import { generateRandomSecret, hashPassword, verifyPassword } from './auth';
+import { CONFIG, SECRET_CONFIG_KEYS } from '../config/constants';
+import { normalizeExchangeRates } from './currency';
+import { EnvelopePayload, MasterKey, importMasterKey, openEnvelope, sealEnvelope } from './crypto';
+import { getRepositories, isStorageBound } from '../storage';
+import { parseChannelConfigs } from '../services/channels';
 
 // 密码哈希标记前缀，用于识别已哈希的密码
 const HASH_PREFIX = 'HASHED:';
@@ -25,6 +29,26 @@ export function clearConfigCache(): void {
   configCache = null;
 }
 
+export function isHashedAdminPassword(storedPassword: string): boolean {
+  return storedPassword.startsWith(HASH_PREFIX);
+}
+
+/**
+ * 生成带 HASHED: 前缀的管理员密码哈希，写入配置前必须调用
+ */
+export async function hashAdminPassword(password: string): Promise<string> {
+  return HASH_PREFIX + (await hashPassword(password));
+}
+
+/**
+ * 以哈希形式保存管理员密码
+ */
+export async function saveAdminPassword(env: Env, password: string): Promise<void> {
+  const raw = await getRawConfig(env);
+  raw.ADMIN_PASSWORD = await hashAdminPassword(password);
+  await saveRawConfig(env, raw);
+}
+
 /**
  * 验证管理员密码（自动处理哈希）
  */
@@ -42,17 +66,164 @@ export async function verifyAdminPassword(
     return await verifyPassword(inputPassword, hashed);
   }
 
-  // 兼容未哈希的旧密码（明文比较）
+  // 兼容未哈希的旧密码（明文比较），登录成功后会升级为哈希
   return inputPassword === storedPassword;
 }
 
+/**
+ * 快照保留数量，非法值回退为默认值
+ */
+function normalizeRetention(value: unknown): number {
+  const retention = typeof value === 'string' ? parseInt(value, 10) : value;
+  if (typeof retention !== 'number' || !Number.isInteger(retention) || retention < 1) {
+    return CONFIG.BACKUP.DEFAULT_RETENTION;
+  }
+  return Math.min(retention, CONFIG.BACKUP.MAX_RETENTION);
+}
+
+/**
+ * 过期提醒策略中的天数，非法值回退为默认值
+ */
+function normalizeOverdueDays(value: unknown, fallback: number): number {
+  const days = typeof value === 'string' ? parseInt(value, 10) : value;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 0) return fallback;
+  return Math.min(days, CONFIG.OVERDUE.MAX_DAYS);
+}
+
+/**
+ * 站点地址去掉末尾的 /，只接受 http(s) 地址
+ */
+function normalizeBaseUrl(value: unknown): string {
+  if (typeof value !== 'string' || !/^https?:\/\//i.test(value.trim())) return '';
+  return value.trim().replace(/\/+$/, '');
+}
+
+/**
+ * 逗号分隔的邮箱域名列表，统一转为小写并去掉开头的 @
+ */
+function parseDomains(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  return value
+    .split(',')
+    .map((d) => d.trim().toLowerCase().replace(/^@/, ''))
+    .filter((d) => d.length > 0);
+}
+
+function parseRole(value: unknown): UserRole {
+  return value === 'admin' || value === 'editor' || value === 'viewer' ? value : CONFIG.OIDC.DEFAULT_ROLE;
+}
+
+// 加密后的敏感配置在原始配置中的键名
+const ENCRYPTED_SECRETS_KEY = 'ENCRYPTED_SECRETS';
+
+/**
+ * 已加密的敏感配置无法解密（主密钥缺失或不匹配），此时不能回退为默认配置
+ */
+export class ConfigEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigEncryptionError';
+  }
+}
+
+/**
+ * 当前主密钥在前，轮换期间的旧主密钥在后
+ */
+async function getMasterKeys(env: Env): Promise<MasterKey[]> {
+  const secrets = [env.CONFIG_ENCRYPTION_KEY, env.CONFIG_ENCRYPTION_KEY_PREVIOUS].filter((k): k is string => !!k);
+  try {
+    return await Promise.all(secrets.map(importMasterKey));
+  } catch (error: unknown) {
+    throw new ConfigEncryptionError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * 把 SECRET_CONFIG_KEYS 中的字段移入信封；未配置主密钥时原样保存
+ */
+async function encryptSecrets(env: Env, config: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const [master] = await getMasterKeys(env);
+  if (!master) return config;
+
+  const rest = { ...config };
+  delete rest[ENCRYPTED_SECRETS_KEY];
+  const secrets: Record<string, unknown> = {};
+  for (const key of SECRET_CONFIG_KEYS) {
+    if (key in rest) {
+      secrets[key] = rest[key];
+      delete rest[key];
+    }
+  }
+  return { ...rest, [ENCRYPTED_SECRETS_KEY]: await sealEnvelope(JSON.stringify(secrets), master) };
+}
+
+/**
+ * 按信封中的密钥指纹选择主密钥解密，并合并回原始配置
+ */
+async function decryptSecrets(env: Env, stored: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const envelope = stored[ENCRYPTED_SECRETS_KEY] as EnvelopePayload | undefined;
+  if (!envelope) return stored;
+
+  const master = (await getMasterKeys(env)).find((k) => k.id === envelope.keyId);
+  if (!master) {
+    throw new ConfigEncryptionError(`敏感配置由主密钥 ${envelope.keyId} 加密，请配置对应的 CONFIG_ENCRYPTION_KEY`);
+  }
+  const rest = { ...stored };
+  delete rest[ENCRYPTED_SECRETS_KEY];
+  try {
+    return { ...rest, ...(JSON.parse(await openEnvelope(envelope, master)) as Record<string, unknown>) };
+  } catch (error: unknown) {
+    throw new ConfigEncryptionError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * 读取原始配置，已加密的敏感字段会被解密
+ */
 export async function getRawConfig(env: Env): Promise<Record<string, unknown>> {
-  if (!env.SUBSCRIPTIONS_KV) {
+  if (!isStorageBound(env)) {
     console.error('[配置] KV存储未绑定');
     return {};
   }
-  const data = await env.SUBSCRIPTIONS_KV.get('config');
-  return data ? JSON.parse(data) : {};
+  return decryptSecrets(env, await getRepositories(env).config.get());
+}
+
+/**
+ * 保存原始配置并清除缓存，配置了主密钥时敏感字段加密保存
+ */
+export async function saveRawConfig(env: Env, config: Record<string, unknown>): Promise<void> {
+  await getRepositories(env).config.save(await encryptSecrets(env, config));
+  clearConfigCache();
+}
+
+export interface ConfigEncryptionStatus {
+  enabled: boolean; // 是否配置了主密钥
+  keyId: string | null; // 当前主密钥指纹
+  storedKeyId: string | null; // 已保存配置使用的主密钥指纹
+  plaintextKeys: string[]; // 仍以明文保存的敏感字段
+}
+
+export async function getConfigEncryptionStatus(env: Env): Promise<ConfigEncryptionStatus> {
+  const stored = await getRepositories(env).config.get();
+  const [master] = await getMasterKeys(env);
+  const envelope = stored[ENCRYPTED_SECRETS_KEY] as EnvelopePayload | undefined;
+  return {
+    enabled: !!master,
+    keyId: master?.id ?? null,
+    storedKeyId: envelope?.keyId ?? null,
+    plaintextKeys: SECRET_CONFIG_KEYS.filter((key) => key in stored),
+  };
+}
+
+/**
+ * 用当前主密钥和新的数据密钥重新加密全部敏感配置（也会加密仍为明文的旧配置）
+ */
+export async function rotateConfigEncryption(env: Env): Promise<ConfigEncryptionStatus> {
+  if (!env.CONFIG_ENCRYPTION_KEY) {
+    throw new ConfigEncryptionError('未配置 CONFIG_ENCRYPTION_KEY');
+  }
+  await saveRawConfig(env, await getRawConfig(env));
+  return getConfigEncryptionStatus(env);
 }
 
 export async function getConfig(env: Env): Promise<Config> {
@@ -75,8 +246,8 @@ export async function getConfig(env: Env): Promise<Config> {
 
       // 保存新的JWT密钥
       const updatedConfig = { ...config, JWT_SECRET: jwtSecret };
-      if (env.SUBSCRIPTIONS_KV) {
-        await env.SUBSCRIPTIONS_KV.put('config', JSON.stringify(updatedConfig));
+      if (isStorageBound(env)) {
+        await saveRawConfig(env, updatedConfig);
       }
     }
 
@@ -85,62 +256,49 @@ export async function getConfig(env: Env): Promise<Config> {
       adminPassword: (typeof config.ADMIN_PASSWORD === 'string' ? config.ADMIN_PASSWORD : 'password') || 'password',
       jwtSecret: jwtSecret || generateRandomSecret(),
       thirdPartyToken: (typeof config.THIRD_PARTY_TOKEN === 'string' ? config.THIRD_PARTY_TOKEN : undefined) || generateRandomSecret(),
+      calendarToken: typeof config.CALENDAR_TOKEN === 'string' ? config.CALENDAR_TOKEN : '',
+      calendarTokenOwner: typeof config.CALENDAR_TOKEN_OWNER === 'string' ? config.CALENDAR_TOKEN_OWNER : undefined,
+      publicBaseUrl: normalizeBaseUrl(config.PUBLIC_BASE_URL),
       timezone: (typeof config.TIMEZONE === 'string' ? config.TIMEZONE : undefined) || 'UTC',
       reminderTimes: (typeof config.REMINDER_TIMES === 'string' ? config.REMINDER_TIMES : '')
         .split(',')
         .map((s: string) => s.trim())
         .filter((s: string) => s.length > 0),
       showLunarGlobal: config.SHOW_LUNAR === true,
+      baseCurrency: (typeof config.BASE_CURRENCY === 'string' ? config.BASE_CURRENCY : undefined) || CONFIG.DEFAULTS.BASE_CURRENCY,
+      exchangeRates: normalizeExchangeRates(config.EXCHANGE_RATES),
       enabledNotifiers: (Array.isArray(config.ENABLED_NOTIFIERS) ? config.ENABLED_NOTIFIERS : undefined) || ['notifyx'],
-
-      telegram: {
-        botToken: (typeof config.TG_BOT_TOKEN === 'string' ? config.TG_BOT_TOKEN : '') || '',
-        chatId: (typeof config.TG_CHAT_ID === 'string' ? config.TG_CHAT_ID : '') || '',
+      overduePolicy: {
+        dailyDays: normalizeOverdueDays(config.OVERDUE_DAILY_DAYS, CONFIG.OVERDUE.DAILY_DAYS),
+        weeklyUntilDays: normalizeOverdueDays(config.OVERDUE_WEEKLY_UNTIL_DAYS, CONFIG.OVERDUE.WEEKLY_UNTIL_DAYS),
+        deactivateAfterDays: normalizeOverdueDays(config.OVERDUE_DEACTIVATE_DAYS, CONFIG.OVERDUE.DEACTIVATE_AFTER_DAYS),
       },
 
-      notifyx: {
-        apiKey: (typeof config.NOTIFYX_API_KEY === 'string' ? config.NOTIFYX_API_KEY : '') || '',
-      },
-
-      wenotify: {
-        url: (typeof config.WENOTIFY_URL === 'string' ? config.WENOTIFY_URL : '') || '',
-        token: (typeof config.WENOTIFY_TOKEN === 'string' ? config.WENOTIFY_TOKEN : '') || '',
-        userid: (typeof config.WENOTIFY_USERID === 'string' ? config.WENOTIFY_USERID : '') || '',
-        templateId: (typeof config.WENOTIFY_TEMPLATE_ID === 'string' ? config.WENOTIFY_TEMPLATE_ID : '') || '',
-        path: (typeof config.WENOTIFY_PATH === 'string' ? config.WENOTIFY_PATH : undefined) || '/wxsend',
-      },
-
-      wechatBot: {
-        webhook: (typeof config.WECHATBOT_WEBHOOK === 'string' ? config.WECHATBOT_WEBHOOK : '') || '',
-        msgType: (typeof config.WECHATBOT_MSG_TYPE === 'string' ? config.WECHATBOT_MSG_TYPE : undefined) || 'text',
-        atMobiles: (typeof config.WECHATBOT_AT_MOBILES === 'string' ? config.WECHATBOT_AT_MOBILES : '') || '',
-        atAll: (typeof config.WECHATBOT_AT_ALL === 'string' ? config.WECHATBOT_AT_ALL : undefined) || 'false',
-      },
+      ...parseChannelConfigs(config),
 
-      wechatOfficialAccount: {
-        appId: (typeof config.WECHAT_OA_APPID === 'string' ? config.WECHAT_OA_APPID : '') || '',
-        appSecret: (typeof config.WECHAT_OA_APPSECRET === 'string' ? config.WECHAT_OA_APPSECRET : '') || '',
-        templateId: (typeof config.WECHAT_OA_TEMPLATE_ID === 'string' ? config.WECHAT_OA_TEMPLATE_ID : '') || '',
-        userIds: (typeof config.WECHAT_OA_USERIDS === 'string' ? config.WECHAT_OA_USERIDS : '') || '',
+      backup: {
+        enabled: config.BACKUP_ENABLED === true,
+        target: config.BACKUP_TARGET === 's3' ? 's3' : 'r2',
+        time: (typeof config.BACKUP_TIME === 'string' ? config.BACKUP_TIME : undefined) || CONFIG.BACKUP.DEFAULT_TIME,
+        retention: normalizeRetention(config.BACKUP_RETENTION),
+        prefix: typeof config.BACKUP_PREFIX === 'string' ? config.BACKUP_PREFIX : CONFIG.BACKUP.DEFAULT_PREFIX,
+        passphrase: (typeof config.BACKUP_PASSPHRASE === 'string' ? config.BACKUP_PASSPHRASE : undefined) || undefined,
+        s3: {
+          endpoint: (typeof config.BACKUP_S3_ENDPOINT === 'string' ? config.BACKUP_S3_ENDPOINT : '') || '',
+          region: (typeof config.BACKUP_S3_REGION === 'string' ? config.BACKUP_S3_REGION : undefined) || CONFIG.BACKUP.DEFAULT_REGION,
+          bucket: (typeof config.BACKUP_S3_BUCKET === 'string' ? config.BACKUP_S3_BUCKET : '') || '',
+          accessKeyId: (typeof config.BACKUP_S3_ACCESS_KEY_ID === 'string' ? config.BACKUP_S3_ACCESS_KEY_ID : '') || '',
+          secretAccessKey: (typeof config.BACKUP_S3_SECRET_ACCESS_KEY === 'string' ? config.BACKUP_S3_SECRET_ACCESS_KEY : '') || '',
+        },
       },
 
-      webhook: {
-        url: (typeof config.WEBHOOK_URL === 'string' ? config.WEBHOOK_URL : '') || '',
-        method: (typeof config.WEBHOOK_METHOD === 'string' ? config.WEBHOOK_METHOD : undefined) || 'POST',
-        headers: (typeof config.WEBHOOK_HEADERS === 'string' ? config.WEBHOOK_HEADERS : undefined) || '',
-        template: (typeof config.WEBHOOK_TEMPLATE === 'string' ? config.WEBHOOK_TEMPLATE : undefined) || '',
-      },
-
-      email: {
-        resendApiKey: (typeof config.RESEND_API_KEY === 'string' ? config.RESEND_API_KEY : '') || '',
-        fromEmail: (typeof config.EMAIL_FROM === 'string' ? config.EMAIL_FROM : '') || '',
-        toEmail: (typeof config.EMAIL_TO === 'string' ? config.EMAIL_TO : '') || '',
-      },
-
-      bark: {
-        server: (typeof config.BARK_SERVER === 'string' ? config.BARK_SERVER : 'https://api.day.app') || 'https://api.day.app',
-        deviceKey: (typeof config.BARK_DEVICE_KEY === 'string' ? config.BARK_DEVICE_KEY : '') || '',
-        isArchive: (typeof config.BARK_IS_ARCHIVE === 'string' ? config.BARK_IS_ARCHIVE : 'false') || 'false',
+      oidc: {
+        enabled: config.OIDC_ENABLED === true,
+        issuer: (typeof config.OIDC_ISSUER === 'string' ? config.OIDC_ISSUER : '') || '',
+        clientId: (typeof config.OIDC_CLIENT_ID === 'string' ? config.OIDC_CLIENT_ID : '') || '',
+        clientSecret: (typeof config.OIDC_CLIENT_SECRET === 'string' ? config.OIDC_CLIENT_SECRET : '') || '',
+        allowedDomains: parseDomains(config.OIDC_ALLOWED_DOMAINS),
+        defaultRole: parseRole(config.OIDC_DEFAULT_ROLE),
       },
     };
 
@@ -153,6 +311,8 @@ export async function getConfig(env: Env): Promise<Config> {
 
     return finalConfig;
   } catch (error: unknown) {
+    // 解密失败时回退为默认配置会让默认管理员密码生效，必须直接报错
+    if (error instanceof ConfigEncryptionError) throw error;
     console.error('[配置] 获取配置失败:', error);
     const defaultJwtSecret = generateRandomSecret();
 
@@ -163,15 +323,19 @@ export async function getConfig(env: Env): Promise<Config> {
       thirdPartyToken: generateRandomSecret(),
       timezone: 'UTC',
       showLunarGlobal: true,
+      baseCurrency: CONFIG.DEFAULTS.BASE_CURRENCY,
+      exchangeRates: {},
       enabledNotifiers: ['notifyx'],
-      telegram: { botToken: '', chatId: '' },
-      notifyx: { apiKey: '' },
-      wenotify: { url: '', token: '', userid: '', templateId: '', path: '/wxsend' },
-      wechatBot: { webhook: '', msgType: 'text', atMobiles: '', atAll: 'false' },
-      wechatOfficialAccount: { appId: '', appSecret: '', templateId: '', userIds: '' },
-      webhook: { url: '', method: 'POST', headers: '', template: '' },
-      email: { resendApiKey: '', fromEmail: '', toEmail: '' },
-      bark: { server: 'https://api.day.app', deviceKey: '', isArchive: 'false' },
+      ...parseChannelConfigs({}),
+      backup: {
+        enabled: false,
+        target: 'r2',
+        time: CONFIG.BACKUP.DEFAULT_TIME,
+        retention: CONFIG.BACKUP.DEFAULT_RETENTION,
+        prefix: CONFIG.BACKUP.DEFAULT_PREFIX,
+        s3: { endpoint: '', region: CONFIG.BACKUP.DEFAULT_REGION, bucket: '', accessKeyId: '', secretAccessKey: '' },
+      },
+      oidc: { enabled: false, issuer: '', clientId: '', clientSecret: '', allowedDomains: [], defaultRole: CONFIG.OIDC.DEFAULT_ROLE },
     };
   }
 }
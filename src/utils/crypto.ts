@@ -0,0 +1,181 @@
+/**
+ * 加密工具
+ * 口令加密使用 PBKDF2-SHA256 从口令派生密钥，AES-GCM 加密；另提供编码与摘要等通用函数
+ */
+
+/**
+ * 加密结果（各字段均为 Base64）
+ */
+export interface EncryptedPayload {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// Workers 运行时允许的 PBKDF2 最大迭代次数为 100000
+const PBKDF2_ITERATIONS = 100000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bufferToHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 计算文本 SHA-256 摘要的十六进制表示
+ */
+export async function sha256Hex(data: string): Promise<string> {
+  return bufferToHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)));
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 使用口令加密文本
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<EncryptedPayload> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    algorithm: 'AES-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(encrypted)),
+  };
+}
+
+/**
+ * 使用口令解密，口令错误或数据被篡改时抛出异常
+ */
+export async function decryptWithPassphrase(payload: EncryptedPayload, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, base64ToBytes(payload.salt), payload.iterations);
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(payload.iv) },
+      key,
+      base64ToBytes(payload.data)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new Error('口令错误或数据已损坏');
+  }
+}
+
+/**
+ * 信封加密结果：数据用一次性数据密钥加密，数据密钥再由主密钥加密（各字段均为 Base64）
+ */
+export interface EnvelopePayload {
+  algorithm: 'AES-GCM';
+  keyId: string; // 主密钥指纹，用于轮换时选择解密密钥
+  wrappedKey: string;
+  wrapIv: string;
+  iv: string;
+  data: string;
+}
+
+export interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
+
+/**
+ * 导入 Base64 编码的 32 字节主密钥，指纹取 SHA-256 的前 8 位十六进制
+ */
+export async function importMasterKey(secret: string): Promise<MasterKey> {
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = base64ToBytes(secret.trim());
+  } catch {
+    bytes = new Uint8Array(0);
+  }
+  if (bytes.length !== 32) {
+    throw new Error('主密钥必须是 Base64 编码的 32 字节随机数');
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  const id = Array.from(digest.slice(0, 4), (b) => b.toString(16).padStart(2, '0')).join('');
+  const key = await crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['wrapKey', 'unwrapKey']);
+  return { id, key };
+}
+
+/**
+ * 用新的数据密钥加密文本，并以主密钥包装数据密钥
+ */
+export async function sealEnvelope(plaintext: string, master: MasterKey): Promise<EnvelopePayload> {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, new TextEncoder().encode(plaintext));
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, master.key, { name: 'AES-GCM', iv: wrapIv });
+  return {
+    algorithm: 'AES-GCM',
+    keyId: master.id,
+    wrappedKey: bytesToBase64(new Uint8Array(wrapped)),
+    wrapIv: bytesToBase64(wrapIv),
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(encrypted)),
+  };
+}
+
+/**
+ * 解开信封，主密钥不匹配或数据被篡改时抛出异常
+ */
+export async function openEnvelope(payload: EnvelopePayload, master: MasterKey): Promise<string> {
+  try {
+    const dataKey = await crypto.subtle.unwrapKey(
+      'raw',
+      base64ToBytes(payload.wrappedKey),
+      master.key,
+      { name: 'AES-GCM', iv: base64ToBytes(payload.wrapIv) },
+      'AES-GCM',
+      false,
+      ['decrypt']
+    );
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(payload.iv) },
+      dataKey,
+      base64ToBytes(payload.data)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new Error('主密钥错误或数据已损坏');
+  }
+}
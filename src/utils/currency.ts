@@ -0,0 +1,103 @@
+/**
+ * 货币工具函数
+ * 汇率表约定为「1 单位外币 = N 单位基础货币」
+ */
+
+import { Config } from '../types';
+import { CONFIG } from '../config/constants';
+
+/**
+ * 货币代码格式（ISO 4217）
+ */
+export const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+
+/**
+ * 常用货币符号
+ */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  CNY: '¥',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  JPY: 'JP¥',
+  HKD: 'HK$',
+  TWD: 'NT$',
+  KRW: '₩',
+  SGD: 'S$',
+  AUD: 'A$',
+  CAD: 'C$',
+  CHF: 'CHF ',
+  RUB: '₽',
+  INR: '₹',
+};
+
+/**
+ * 获取配置中的基础货币
+ */
+export function getBaseCurrency(config: Config): string {
+  return config.baseCurrency || CONFIG.DEFAULTS.BASE_CURRENCY;
+}
+
+/**
+ * 格式化金额，如 $9.99、€5.00
+ */
+export function formatMoney(amount: number, currency: string): string {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  const value = amount.toFixed(2);
+  return symbol ? `${symbol}${value}` : `${currency} ${value}`;
+}
+
+/**
+ * 将金额换算为基础货币
+ * 缺少对应汇率时返回 null
+ */
+export function convertToBaseCurrency(
+  amount: number,
+  currency: string,
+  baseCurrency: string,
+  rates: Record<string, number>
+): number | null {
+  if (currency === baseCurrency) return amount;
+  const rate = rates[currency];
+  if (typeof rate !== 'number' || !(rate > 0)) return null;
+  return amount * rate;
+}
+
+/**
+ * 生成「原币种金额（≈ 基础货币金额）」的展示文本
+ */
+export function formatPriceWithConversion(
+  amount: number,
+  currency: string | undefined,
+  config: Config
+): string {
+  const baseCurrency = getBaseCurrency(config);
+  const sourceCurrency = currency || baseCurrency;
+  const original = formatMoney(amount, sourceCurrency);
+  if (sourceCurrency === baseCurrency) return original;
+
+  const converted = convertToBaseCurrency(
+    amount,
+    sourceCurrency,
+    baseCurrency,
+    config.exchangeRates || {}
+  );
+  return converted === null
+    ? `${original}（未设置 ${sourceCurrency} 汇率）`
+    : `${original}（≈ ${formatMoney(converted, baseCurrency)}）`;
+}
+
+/**
+ * 清洗汇率表，只保留合法的货币代码和正数汇率
+ */
+export function normalizeExchangeRates(raw: unknown): Record<string, number> {
+  const rates: Record<string, number> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return rates;
+  for (const [code, value] of Object.entries(raw as Record<string, unknown>)) {
+    const rate = typeof value === 'number' ? value : Number(value);
+    if (CURRENCY_CODE_REGEX.test(code) && Number.isFinite(rate) && rate > 0) {
+      rates[code] = rate;
+    }
+  }
+  return rates;
+}
@@ -70,6 +70,21 @@ export function formatTimeInTimezone(time: string | number | Date, timezone = 'U
   }
 }
 
+/**
+ * 指定时区的本地日期（YYYY-MM-DD）与时间（HH:mm）
+ */
+export function getLocalDateTime(time: Date, timezone = 'UTC'): { date: string; time: string } {
+  const dtf = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit'
+  });
+  const parts = dtf.formatToParts(time);
+  const get = (type: string): string => parts.find(x => x.type === type)?.value || '00';
+  return { date: `${get('year')}-${get('month')}-${get('day')}`, time: `${get('hour')}:${get('minute')}` };
+}
+
 export function getTimezoneOffset(timezone = 'UTC'): number {
   try {
     // 使用更准确的时区偏移计算方法
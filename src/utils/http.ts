@@ -5,6 +5,14 @@ export function getCookieValue(cookieString: string | null, key: string): string
   return match ? match[2] : null;
 }
 
+/**
+ * 读取 Authorization: Bearer 中的令牌，未携带时返回 null
+ */
+export function getBearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('Authorization') || '');
+  return match ? match[1] : null;
+}
+
 export async function requestWithRetry(
   url: string,
   options: RequestInit,
@@ -0,0 +1,89 @@
+/**
+ * JWS 签名校验（用于验证 OIDC ID Token）
+ * 支持 RS256 与 ES256，公钥来自身份提供方的 JWKS
+ */
+
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+export interface JwsHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+/**
+ * JWKS 中的单个公钥
+ */
+export interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+export interface Jwks {
+  keys: Jwk[];
+}
+
+const ALGORITHMS: Record<string, { kty: string; importParams: RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | EcdsaParams }> = {
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: 'RSASSA-PKCS1-v1_5',
+  },
+  ES256: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+function decodeJson<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+}
+
+/**
+ * 解析 JWS 的头部与载荷（不校验签名）
+ */
+export function decodeJws<T>(token: string): { header: JwsHeader; payload: T } {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new Error('ID Token 格式错误');
+  return { header: decodeJson<JwsHeader>(parts[0]), payload: decodeJson<T>(parts[1]) };
+}
+
+/**
+ * 按 kid 从 JWKS 中选择公钥，未声明 kid 时只在唯一匹配的公钥上校验
+ */
+function selectKey(jwks: Jwks, header: JwsHeader, kty: string): Jwk {
+  const candidates = jwks.keys.filter((k) => k.kty === kty && (!k.use || k.use === 'sig'));
+  const matched = header.kid ? candidates.filter((k) => k.kid === header.kid) : candidates;
+  if (matched.length !== 1) throw new Error('JWKS 中找不到匹配的签名公钥');
+  return matched[0];
+}
+
+/**
+ * 校验签名并返回载荷，不支持的算法（包括 none 与 HS256）一律拒绝
+ */
+export async function verifyJws<T>(token: string, jwks: Jwks): Promise<T> {
+  const { header, payload } = decodeJws<T>(token);
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`不支持的签名算法: ${header.alg}`);
+
+  const jwk = selectKey(jwks, header, algorithm.kty);
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+  const [headerSegment, payloadSegment, signature] = token.split('.');
+  const valid = await crypto.subtle.verify(
+    algorithm.verifyParams,
+    key,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+  );
+  if (!valid) throw new Error('ID Token 签名无效');
+  return payload;
+}
@@ -0,0 +1,26 @@
+import { CONFIG } from '../config/constants';
+
+/**
+ * 检查密码强度
+ * @returns 不符合策略时返回原因，符合时返回 null
+ */
+export function checkPasswordStrength(password: string, username?: string): string | null {
+  const { MIN_LENGTH, MIN_CHARACTER_CLASSES, COMMON } = CONFIG.PASSWORD;
+  if (password.length < MIN_LENGTH) {
+    return `密码至少需要 ${MIN_LENGTH} 个字符`;
+  }
+
+  const classes = [/[A-Za-z]/, /\d/, /[^A-Za-z\d]/].filter((pattern) => pattern.test(password)).length;
+  if (classes < MIN_CHARACTER_CLASSES) {
+    return '密码需要同时包含字母、数字、符号中的至少两种';
+  }
+
+  const lower = password.toLowerCase();
+  if ((COMMON as readonly string[]).includes(lower)) {
+    return '密码过于常见，请更换';
+  }
+  if (username && lower.includes(username.toLowerCase())) {
+    return '密码不能包含用户名';
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+/**
+ * AWS Signature Version 4 签名
+ * 用于访问 S3 兼容的对象存储（AWS S3、Cloudflare R2 S3 API、MinIO 等）
+ */
+
+import { bufferToHex, sha256Hex } from './crypto';
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service?: string; // 默认 s3
+}
+
+export interface SigV4Request {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+const encoder = new TextEncoder();
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+}
+
+/**
+ * RFC 3986 编码，只保留非保留字符
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+function canonicalUri(pathname: string): string {
+  return pathname
+    .split('/')
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join('/');
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * 计算签名并返回需要附加到请求上的请求头
+ * 返回值不含 Host，由 fetch 根据 URL 自动设置
+ */
+export async function signRequest(
+  request: SigV4Request,
+  credentials: SigV4Credentials,
+  now: Date = new Date()
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const service = credentials.service || 's3';
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = await sha256Hex(request.body || '');
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers || {})) {
+    headers[name.toLowerCase()] = value.trim().replace(/\s+/g, ' ');
+  }
+  headers['x-amz-content-sha256'] = payloadHash;
+  headers['x-amz-date'] = amzDate;
+
+  const signed: Record<string, string> = { ...headers, host: url.host };
+  const signedHeaders = Object.keys(signed).sort();
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri(url.pathname),
+    canonicalQuery(url.searchParams),
+    signedHeaders.map((name) => `${name}:${signed[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let key = await hmac(encoder.encode('AWS4' + credentials.secretAccessKey), dateStamp);
+  key = await hmac(key, credentials.region);
+  key = await hmac(key, service);
+  key = await hmac(key, 'aws4_request');
+  const signature = bufferToHex(await hmac(key, stringToSign));
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+  };
+}
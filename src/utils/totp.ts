@@ -0,0 +1,115 @@
+/**
+ * RFC 6238 TOTP（基于 RFC 4226 HOTP，HMAC-SHA1）
+ * 只依赖 Web Crypto，可在 Workers 中运行
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number; // 默认 6 位
+  period?: number; // 时间步长（秒），默认 30
+}
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * 解码 Base32，忽略大小写、空格和末尾的 = 填充
+ */
+export function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('无效的 Base32 字符: ' + char);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * 生成 160 位随机密钥（Base32）
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * 计算第 counter 个时间步的 HOTP 验证码
+ */
+export async function generateHotp(secret: string, counter: number, digits = 6): Promise<string> {
+  const message = new Uint8Array(8);
+  let rest = counter;
+  for (let i = 7; i >= 0; i--) {
+    message[i] = rest & 0xff;
+    rest = Math.floor(rest / 256);
+  }
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const hash = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = hash[hash.length - 1] & 0x0f;
+  const binary =
+    ((hash[offset] & 0x7f) << 24) |
+    (hash[offset + 1] << 16) |
+    (hash[offset + 2] << 8) |
+    hash[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function totpStep(time: Date, period = 30): number {
+  return Math.floor(time.getTime() / 1000 / period);
+}
+
+export async function generateTotp(secret: string, time: Date = new Date(), options: TotpOptions = {}): Promise<string> {
+  return generateHotp(secret, totpStep(time, options.period), options.digits);
+}
+
+/**
+ * 校验验证码，允许前后 window 个时间步的时钟偏差
+ * @returns 匹配的时间步，不匹配时返回 null（调用方据此拒绝重放）
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  time: Date = new Date(),
+  window = 1,
+  options: TotpOptions = {}
+): Promise<number | null> {
+  const digits = options.digits || 6;
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) return null;
+  const current = totpStep(time, options.period);
+  for (let step = current - window; step <= current + window; step++) {
+    if ((await generateHotp(secret, step, digits)) === code) return step;
+  }
+  return null;
+}
+
+/**
+ * 生成认证器 App 使用的 otpauth:// 地址
+ */
+export function buildOtpauthUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: '6', period: '30' });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -4,12 +4,44 @@
 
 import { z } from 'zod';
 import { CONFIG } from '../config/constants';
+import { CURRENCY_CODE_REGEX } from './currency';
+import { checkPasswordStrength } from './password';
+import { channelConfigShape, getNotificationChannel } from '../services/channels';
 
 /**
  * 时间格式验证（HH:mm）
  */
 const timeFormatRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
+/**
+ * 通知渠道 ID（ENABLED_NOTIFIERS 中使用的标识）
+ */
+const channelIdSchema = z.string().refine((id) => getNotificationChannel(id) !== undefined, '不支持的通知渠道');
+
+/**
+ * 分阶段提醒，同一天只能设置一个阶段
+ */
+const ReminderStagesSchema = z
+  .array(
+    z.object({
+      daysBefore: z.number().int().min(CONFIG.VALIDATION.MIN_REMINDER_DAYS).max(CONFIG.VALIDATION.MAX_REMINDER_DAYS),
+      channels: z.array(channelIdSchema).optional(),
+    })
+  )
+  .max(CONFIG.VALIDATION.MAX_REMINDER_STAGES, `最多设置 ${CONFIG.VALIDATION.MAX_REMINDER_STAGES} 个提醒阶段`)
+  .refine((stages) => new Set(stages.map((s) => s.daysBefore)).size === stages.length, '提醒阶段的天数不能重复');
+
+const overdueDaysSchema = z.number().int().min(0).max(CONFIG.OVERDUE.MAX_DAYS);
+
+/**
+ * 订阅级过期提醒策略，未填写的字段使用全局配置
+ */
+const OverduePolicySchema = z.object({
+  dailyDays: overdueDaysSchema.optional(),
+  weeklyUntilDays: overdueDaysSchema.optional(),
+  deactivateAfterDays: overdueDaysSchema.optional(),
+});
+
 /**
  * 订阅数据 Schema
  */
@@ -34,6 +66,7 @@ export const SubscriptionSchema = z.object({
     .default(CONFIG.DEFAULTS.PERIOD_VALUE),
   periodUnit: z.enum(['year', 'month', 'day']).optional().default(CONFIG.DEFAULTS.PERIOD_UNIT),
   price: z.number().min(CONFIG.VALIDATION.MIN_PRICE).max(CONFIG.VALIDATION.MAX_PRICE).optional(),
+  currency: z.string().regex(CURRENCY_CODE_REGEX, '货币代码必须为 3 位大写字母').optional(),
   reminderDays: z
     .number()
     .int()
@@ -41,6 +74,8 @@ export const SubscriptionSchema = z.object({
     .max(CONFIG.VALIDATION.MAX_REMINDER_DAYS)
     .optional()
     .default(CONFIG.DEFAULTS.REMINDER_DAYS),
+  reminderStages: ReminderStagesSchema.optional(),
+  overduePolicy: OverduePolicySchema.optional(),
   dailyReminderTimes: z.array(z.string().regex(timeFormatRegex, '时间格式必须为 HH:mm')).optional(),
   notes: z
     .string()
@@ -56,6 +91,7 @@ export const SubscriptionSchema = z.object({
   weNotifyUserIds: z.string().optional().default(''),
   wechatBotKeys: z.string().optional().default(''),
   emailAddresses: z.string().optional().default(''),
+  ownerId: z.string().min(1).optional(), // 仅管理员可指定
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
 });
@@ -70,55 +106,311 @@ export const SubscriptionUpdateSchema = SubscriptionSchema.partial().required({
   expiryDate: true,
 });
 
+/**
+ * 手动续期 Schema
+ */
+export const RenewSubscriptionSchema = z.object({
+  periods: z
+    .number()
+    .int()
+    .min(1, '续期周期数至少为 1')
+    .max(CONFIG.VALIDATION.MAX_PERIOD_VALUE)
+    .optional()
+    .default(1),
+  paidAmount: z.number().min(CONFIG.VALIDATION.MIN_PRICE).max(CONFIG.VALIDATION.MAX_PRICE).optional(),
+});
+
+export type RenewSubscriptionInput = z.infer<typeof RenewSubscriptionSchema>;
+
+/**
+ * 启用/停用订阅 Schema（未传 isActive 时切换当前状态）
+ */
+export const ToggleStatusSchema = z.object({
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * 批量操作 Schema
+ */
+const bulkIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, '请至少选择一个订阅')
+  .max(CONFIG.BATCH.BULK_MAX_ITEMS, `单次最多操作 ${CONFIG.BATCH.BULK_MAX_ITEMS} 个订阅`);
+
+export const BulkOperationSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('activate'), ids: bulkIdsSchema }),
+  z.object({ action: z.literal('deactivate'), ids: bulkIdsSchema }),
+  z.object({ action: z.literal('delete'), ids: bulkIdsSchema }),
+  z.object({
+    action: z.literal('setCustomType'),
+    ids: bulkIdsSchema,
+    customType: z.string().max(CONFIG.VALIDATION.MAX_CUSTOM_TYPE_LENGTH),
+  }),
+  z.object({
+    action: z.literal('setReminderDays'),
+    ids: bulkIdsSchema,
+    reminderDays: z
+      .number()
+      .int()
+      .min(CONFIG.VALIDATION.MIN_REMINDER_DAYS)
+      .max(CONFIG.VALIDATION.MAX_REMINDER_DAYS),
+  }),
+  z.object({
+    action: z.literal('renew'),
+    ids: bulkIdsSchema,
+    periods: z.number().int().min(1).max(CONFIG.VALIDATION.MAX_PERIOD_VALUE).optional().default(1),
+  }),
+]);
+
+export type BulkOperationInput = z.infer<typeof BulkOperationSchema>;
+
+/**
+ * 存储迁移 Schema
+ */
+export const StorageMigrationSchema = z
+  .object({
+    from: z.enum(['kv', 'd1']),
+    to: z.enum(['kv', 'd1']),
+    overwrite: z.boolean().optional().default(false),
+  })
+  .refine((data) => data.from !== data.to, { message: '源存储与目标存储不能相同' });
+
+/**
+ * 备份文件 Schema（订阅记录在恢复时逐条校验）
+ */
+export const BACKUP_FORMAT = 'subscription-manager-backup';
+export const BACKUP_VERSION = 2; // 2：加入用户、API Token、两步验证与审计日志
+
+const RenewalRecordSchema = z.object({
+  id: z.string().min(1),
+  subscriptionId: z.string().min(1),
+  type: z.enum(['auto', 'manual']),
+  oldExpiryDate: z.string(),
+  newExpiryDate: z.string(),
+  price: z.number().optional(),
+  currency: z.string().optional(),
+  renewedAt: z.string(),
+});
+
+const EncryptedPayloadSchema = z.object({
+  algorithm: z.literal('AES-GCM'),
+  kdf: z.literal('PBKDF2-SHA256'),
+  iterations: z.number().int().positive(),
+  salt: z.string(),
+  iv: z.string(),
+  data: z.string(),
+});
+
+const BackupUserSchema = z.object({
+  id: z.string().min(1),
+  username: z.string().min(1),
+  passwordHash: z.string(),
+  role: z.string(), // 读取时按 normalizeRole 兼容旧角色
+  disabled: z.boolean(),
+  oidcSubject: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const BackupApiTokenSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  tokenHash: z.string().min(1),
+  prefix: z.string(),
+  userId: z.string().min(1),
+  scopes: z.array(z.enum(['subscriptions:read', 'subscriptions:write', 'notify'])),
+  expiresAt: z.string().nullable(),
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+});
+
+export const BackupTwoFactorSchema = z.object({
+  userId: z.string().min(1),
+  secret: z.string().min(1),
+  enabled: z.boolean(),
+  recoveryCodes: z.array(z.string()),
+  lastUsedStep: z.number().optional(),
+  createdAt: z.string(),
+  enabledAt: z.string().optional(),
+});
+
+const BackupAuditEntrySchema = z.object({
+  id: z.string().min(1),
+  timestamp: z.string(),
+  actorId: z.string().nullable(),
+  actor: z.string(),
+  ip: z.string(),
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.string().optional(),
+  targetName: z.string().optional(),
+  changes: z.array(z.object({ field: z.string(), before: z.unknown().optional(), after: z.unknown().optional() })),
+});
+
+export const BackupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, { errorMap: () => ({ message: '不是有效的备份文件' }) }),
+  version: z.number().int().max(BACKUP_VERSION, '备份文件版本过高，请先升级程序'),
+  createdAt: z.string(),
+  subscriptions: z.array(z.unknown()),
+  history: z.record(z.array(RenewalRecordSchema)).optional().default({}),
+  config: z.record(z.unknown()).optional().default({}),
+  encryptedSecrets: EncryptedPayloadSchema.optional(),
+  failureLogs: z.array(z.unknown()).optional(),
+  // 版本 1 的备份没有以下字段
+  users: z.array(BackupUserSchema).optional().default([]),
+  apiTokens: z.array(BackupApiTokenSchema).optional().default([]),
+  twoFactor: z.array(BackupTwoFactorSchema).optional().default([]),
+  encryptedTwoFactor: EncryptedPayloadSchema.optional(),
+  auditLogs: z.array(BackupAuditEntrySchema).optional().default([]),
+});
+
+export type BackupArchiveInput = z.infer<typeof BackupArchiveSchema>;
+
+/**
+ * 备份中的单条订阅（兼容非 UUID 的旧 ID，保留未知字段）
+ */
+export const BackupSubscriptionSchema = SubscriptionSchema.extend({
+  id: z.string().min(1, '缺少订阅 ID'),
+}).passthrough();
+
 /**
  * 登录数据 Schema
  */
 export const LoginSchema = z.object({
   username: z.string().min(1, '用户名不能为空').max(50),
   password: z.string().min(1, '密码不能为空').max(100),
+  totpCode: z.string().trim().max(20).optional(), // 启用两步验证后需要：验证码或恢复码
+});
+
+/**
+ * 两步验证码 Schema（验证码或恢复码）
+ */
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, '请输入验证码').max(20),
 });
 
 export type LoginInput = z.infer<typeof LoginSchema>;
 
+/**
+ * 新密码 Schema（按密码强度策略校验）
+ */
+export const PasswordSchema = z
+  .string()
+  .max(100, '密码不能超过 100 个字符')
+  .superRefine((value, ctx) => {
+    const issue = checkPasswordStrength(value);
+    if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue });
+  });
+
+/**
+ * 修改密码 Schema
+ */
+export const PasswordChangeSchema = z.object({
+  currentPassword: z.string().min(1, '请输入当前密码').max(100),
+  newPassword: PasswordSchema,
+});
+
+/**
+ * 用户角色
+ */
+export const UserRoleSchema = z.enum(['viewer', 'editor', 'admin']);
+
+/**
+ * 创建用户 Schema
+ */
+export const UserCreateSchema = z.object({
+  username: z
+    .string()
+    .min(3, '用户名至少需要 3 个字符')
+    .max(50)
+    .regex(/^[A-Za-z0-9_.-]+$/, '用户名只能包含字母、数字、下划线、点和短横线'),
+  password: PasswordSchema,
+  role: UserRoleSchema.optional().default('editor'),
+});
+
+export type UserCreateInput = z.infer<typeof UserCreateSchema>;
+
+/**
+ * 修改用户角色 Schema
+ */
+export const UserRoleUpdateSchema = z.object({
+  role: UserRoleSchema,
+});
+
+export const ApiTokenScopeSchema = z.enum(['subscriptions:read', 'subscriptions:write', 'notify']);
+
+/**
+ * 创建 API Token Schema，不填有效期表示永不过期
+ */
+export const ApiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Token 名称不能为空').max(50, 'Token 名称不能超过 50 字符'),
+  scopes: z.array(ApiTokenScopeSchema).min(1, '至少选择一项权限'),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, '有效期至少 1 天')
+    .max(CONFIG.API_TOKEN.MAX_EXPIRY_DAYS, `有效期不能超过 ${CONFIG.API_TOKEN.MAX_EXPIRY_DAYS} 天`)
+    .nullable()
+    .optional(),
+});
+
+export type ApiTokenCreateInput = z.infer<typeof ApiTokenCreateSchema>;
+
 /**
  * 配置数据 Schema
  */
 export const ConfigSchema = z.object({
   ADMIN_USERNAME: z.string().min(1).max(50).optional(),
-  ADMIN_PASSWORD: z.string().min(6, '密码至少需要 6 个字符').max(100).optional(),
+  ADMIN_PASSWORD: PasswordSchema.optional(),
   THIRD_PARTY_TOKEN: z.string().min(32, '第三方Token至少需要32个字符').optional(),
-  TG_BOT_TOKEN: z.string().optional().default(''),
-  TG_CHAT_ID: z.string().optional().default(''),
-  NOTIFYX_API_KEY: z.string().optional().default(''),
-  WENOTIFY_URL: z.string().url().optional().or(z.literal('')).default(''),
-  WENOTIFY_TOKEN: z.string().optional().default(''),
-  WENOTIFY_USERID: z.string().optional().default(''),
-  WENOTIFY_TEMPLATE_ID: z.string().optional().default(''),
-  WENOTIFY_PATH: z.string().optional().default('/wxsend'),
-  WEBHOOK_URL: z.string().url().optional().or(z.literal('')).default(''),
-  WEBHOOK_METHOD: z.enum(['GET', 'POST', 'PUT', 'PATCH']).optional().default('POST'),
-  WEBHOOK_HEADERS: z.string().optional().default(''),
-  WEBHOOK_TEMPLATE: z.string().optional().default(''),
   SHOW_LUNAR: z.boolean().optional().default(false),
-  WECHATBOT_WEBHOOK: z.string().url().optional().or(z.literal('')).default(''),
-  WECHATBOT_MSG_TYPE: z.string().optional().default('text'),
-  WECHATBOT_AT_MOBILES: z.string().optional().default(''),
-  WECHATBOT_AT_ALL: z.string().optional().default('false'),
-  WECHAT_OA_APPID: z.string().optional().default(''),
-  WECHAT_OA_APPSECRET: z.string().optional().default(''),
-  WECHAT_OA_TEMPLATE_ID: z.string().optional().default(''),
-  WECHAT_OA_USERIDS: z.string().optional().default(''),
-  RESEND_API_KEY: z.string().optional().default(''),
-  EMAIL_FROM: z.string().email().optional().or(z.literal('')).default(''),
-  EMAIL_FROM_NAME: z.string().optional().default(''),
-  EMAIL_TO: z.string().optional().default(''),
-  BARK_DEVICE_KEY: z.string().optional().default(''),
-  BARK_SERVER: z.string().url().optional().default(CONFIG.DEFAULTS.BARK_SERVER),
-  BARK_IS_ARCHIVE: z.string().optional().default('false'),
   ENABLED_NOTIFIERS: z.array(z.string()).optional().default(['notifyx']),
   TIMEZONE: z.string().optional().default(CONFIG.DEFAULTS.TIMEZONE),
   REMINDER_TIMES: z.string().optional().default(''),
-});
+  OVERDUE_DAILY_DAYS: overdueDaysSchema.optional().default(CONFIG.OVERDUE.DAILY_DAYS),
+  OVERDUE_WEEKLY_UNTIL_DAYS: overdueDaysSchema.optional().default(CONFIG.OVERDUE.WEEKLY_UNTIL_DAYS),
+  OVERDUE_DEACTIVATE_DAYS: overdueDaysSchema.optional().default(CONFIG.OVERDUE.DEACTIVATE_AFTER_DAYS),
+  PUBLIC_BASE_URL: z.string().url('站点地址必须是有效的 URL').optional().or(z.literal('')).default(''),
+  BASE_CURRENCY: z
+    .string()
+    .regex(CURRENCY_CODE_REGEX, '基础货币代码必须为 3 位大写字母')
+    .optional()
+    .default(CONFIG.DEFAULTS.BASE_CURRENCY),
+  EXCHANGE_RATES: z
+    .record(
+      z.string().regex(CURRENCY_CODE_REGEX, '货币代码必须为 3 位大写字母'),
+      z.number().positive('汇率必须大于 0')
+    )
+    .optional()
+    .default({}),
+  BACKUP_ENABLED: z.boolean().optional().default(false),
+  BACKUP_TARGET: z.enum(['r2', 's3']).optional().default('r2'),
+  BACKUP_TIME: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, '备份时间格式应为 HH:mm')
+    .optional()
+    .default(CONFIG.BACKUP.DEFAULT_TIME),
+  BACKUP_RETENTION: z
+    .number()
+    .int()
+    .min(1, '至少保留 1 份快照')
+    .max(CONFIG.BACKUP.MAX_RETENTION, `最多保留 ${CONFIG.BACKUP.MAX_RETENTION} 份快照`)
+    .optional()
+    .default(CONFIG.BACKUP.DEFAULT_RETENTION),
+  BACKUP_PREFIX: z.string().max(200).optional().default(CONFIG.BACKUP.DEFAULT_PREFIX),
+  BACKUP_S3_ENDPOINT: z.string().url().optional().or(z.literal('')).default(''),
+  BACKUP_S3_REGION: z.string().optional().default(CONFIG.BACKUP.DEFAULT_REGION),
+  BACKUP_S3_BUCKET: z.string().optional().default(''),
+  BACKUP_S3_ACCESS_KEY_ID: z.string().optional().default(''),
+  BACKUP_S3_SECRET_ACCESS_KEY: z.string().optional().default(''),
+  BACKUP_PASSPHRASE: z.string().optional().default(''),
+  OIDC_ENABLED: z.boolean().optional().default(false),
+  OIDC_ISSUER: z.string().url('OIDC Issuer 必须是有效的 URL').optional().or(z.literal('')).default(''),
+  OIDC_CLIENT_ID: z.string().optional().default(''),
+  OIDC_CLIENT_SECRET: z.string().optional().default(''),
+  OIDC_ALLOWED_DOMAINS: z.string().optional().default(''),
+  OIDC_DEFAULT_ROLE: UserRoleSchema.optional().default(CONFIG.OIDC.DEFAULT_ROLE),
+}).extend(channelConfigShape);
 
 export type ConfigInput = z.infer<typeof ConfigSchema>;
 
@@ -127,16 +419,7 @@ export type ConfigInput = z.infer<typeof ConfigSchema>;
  */
 export const TestNotificationSchema = z
   .object({
-    type: z.enum([
-      'telegram',
-      'notifyx',
-      'wenotify',
-      'webhook',
-      'wechatbot',
-      'wechatOfficialAccount',
-      'email',
-      'bark',
-    ]),
+    type: channelIdSchema,
   })
   .merge(ConfigSchema);
 
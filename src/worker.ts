@@ -3,11 +3,12 @@
  * 负责请求分发和定时任务
  */
 
-import { Env } from './types';
+import { Config, Env } from './types';
 import { loginPage } from './templates/login';
 import { handleDebugRequest } from './templates/debug';
-import { SubscriptionService } from './services/subscription';
-import { sendNotificationToAllChannels, formatNotificationContent } from './services/notification';
+import { runDueBackup } from './services/snapshot';
+import { DeliveryQueueService } from './services/deliveryQueue';
+import { runScheduledReminders } from './services/reminder';
 import { getConfig } from './utils/config';
 import { handleApiRequest, handleAdminRequest } from './routes';
 import { addSecurityHeaders, textResponse, htmlResponse } from './middleware/security';
@@ -54,50 +55,26 @@ Canonical: https://${url.hostname}/.well-known/security.txt`;
    */
   async scheduled(_event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
     const config = await getConfig(env);
-    const timezone = config.timezone || 'UTC';
     const now = new Date();
 
-    // 获取当前时间 HH:mm
-    const dtf = new Intl.DateTimeFormat('zh-CN', {
-      timeZone: timezone,
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-    const parts = dtf.formatToParts(now);
-    const get = (type: string): string => parts.find((x) => x.type === type)?.value || '00';
-    const hhmm = `${get('hour')}:${get('minute')}`;
-
-    // 全局提醒时段
-    const globalTimes =
-      config.reminderTimes && config.reminderTimes.length > 0 ? config.reminderTimes : ['08:00'];
-
-    // 获取需要提醒的订阅
-    const subscriptionService = new SubscriptionService(env);
-    const { notifications } = await subscriptionService.checkExpiringSubscriptions();
-
-    // 根据时段过滤
-    const filtered = notifications.filter((n) => {
-      const t = n.subscription.dailyReminderTimes || [];
-      if (t.length > 0) return t.includes(hhmm);
-      return globalTimes.includes(hhmm);
-    });
-
-    if (filtered.length > 0) {
-      // 按到期时间排序
-      filtered.sort((a, b) => a.daysUntil - b.daysUntil);
-
-      const subscriptions = filtered.map((n) => ({
-        ...n.subscription,
-        daysRemaining: n.daysUntil,
-      }));
-
-      const commonContent = formatNotificationContent(subscriptions, config);
-      const title = '订阅到期提醒';
-
-      ctx.waitUntil(
-        sendNotificationToAllChannels(title, commonContent, config, env, '[定时任务]', subscriptions)
-      );
+    // 每日自动备份（补做当天错过的备份）
+    if (config.backup?.enabled) {
+      ctx.waitUntil(runDueBackup(env, config, now));
     }
+
+    // 先重试已到时间的失败通知，再发送到期提醒（包括补发当天错过的时段）
+    ctx.waitUntil(runRetriesThenReminders(env, config, now));
   },
 };
+
+/**
+ * 重试与提醒都会改写重试队列的索引，必须依次执行：并发时重试写回的旧索引会覆盖提醒发送失败新入队的消息
+ */
+async function runRetriesThenReminders(env: Env, config: Config, now: Date): Promise<void> {
+  try {
+    await new DeliveryQueueService(env).processDue(config, now);
+  } catch (error: unknown) {
+    console.error('[重试队列] 重试失败:', error);
+  }
+  await runScheduledReminders(env, config, now);
+}
@@ -0,0 +1,126 @@
+/**
+ * 个人 API Token 测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ApiTokenService } from '../../src/services/apiToken';
+import { UserService, LEGACY_ADMIN_ID } from '../../src/services/user';
+import { handleApiRequest } from '../../src/routes/api';
+import { clearConfigCache } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { ApiTokenScope, Env } from '../../src/types';
+
+function bearer(token: string, path: string, init: RequestInit = {}): Request {
+    return new Request(`https://example.com${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json', ...init.headers },
+    });
+}
+
+describe('API Token Service', () => {
+    let env: Env;
+    let service: ApiTokenService;
+
+    const create = async (scopes: ApiTokenScope[], userId = LEGACY_ADMIN_ID, expiresInDays?: number): Promise<string> =>
+        (await service.createToken(userId, { name: 'script', scopes, expiresInDays })).token;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'rootpass', JWT_SECRET: 'x'.repeat(64) });
+        service = new ApiTokenService(env);
+    });
+
+    it('只保存哈希，明文只在创建时返回', async () => {
+        const { token, apiToken } = await service.createToken(LEGACY_ADMIN_ID, { name: 'script', scopes: ['subscriptions:read'] });
+
+        expect(token).toMatch(/^smt_[0-9a-f]{64}$/);
+        expect(apiToken).not.toHaveProperty('tokenHash');
+        expect(token.startsWith(apiToken.prefix)).toBe(true);
+        expect(JSON.stringify(await getRepositories(env).apiTokens.list())).not.toContain(token);
+        expect((await service.authenticate(token))?.id).toBe(apiToken.id);
+    });
+
+    it('过期或吊销的 Token 无法使用', async () => {
+        const { token, apiToken } = await service.createToken(LEGACY_ADMIN_ID, {
+            name: 'short', scopes: ['subscriptions:read'], expiresInDays: 1,
+        }, new Date('2030-01-01T00:00:00Z'));
+
+        expect(await service.authenticate(token, new Date('2030-01-01T12:00:00Z'))).not.toBeNull();
+        expect(await service.authenticate(token, new Date('2030-01-02T00:00:00Z'))).toBeNull();
+
+        expect(await service.revokeToken(apiToken.id)).toBe(true);
+        expect(await service.authenticate(token, new Date('2030-01-01T12:00:00Z'))).toBeNull();
+        expect(await service.revokeToken(apiToken.id)).toBe(false);
+    });
+
+    it('Bearer Token 按权限范围访问订阅接口', async () => {
+        const readOnly = await create(['subscriptions:read']);
+        const readWrite = await create(['subscriptions:read', 'subscriptions:write']);
+        const body = JSON.stringify({ name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z' });
+
+        expect((await handleApiRequest(bearer(readOnly, '/api/subscriptions'), env)).status).toBe(200);
+        expect((await handleApiRequest(bearer(readOnly, '/api/subscriptions', { method: 'POST', body }), env)).status).toBe(403);
+        expect((await handleApiRequest(bearer(readWrite, '/api/subscriptions', { method: 'POST', body }), env)).status).toBe(201);
+        expect((await handleApiRequest(bearer('smt_invalid', '/api/subscriptions'), env)).status).toBe(401);
+    });
+
+    it('API Token 不能访问管理接口', async () => {
+        const token = await create(['subscriptions:read', 'subscriptions:write', 'notify']);
+
+        for (const path of ['/api/config', '/api/tokens', '/api/backup', '/api/users']) {
+            expect((await handleApiRequest(bearer(token, path), env)).status).toBe(403);
+        }
+    });
+
+    it('Token 权限不超过创建者的角色，创建者停用后失效', async () => {
+        const { user } = await new UserService(env).createUser({ username: 'viewer', password: 'viewer-pass', role: 'viewer' });
+        const token = await create(['subscriptions:read', 'subscriptions:write'], user!.id);
+        const body = JSON.stringify({ name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z' });
+
+        expect((await handleApiRequest(bearer(token, '/api/subscriptions'), env)).status).toBe(200);
+        expect((await handleApiRequest(bearer(token, '/api/subscriptions', { method: 'POST', body }), env)).status).toBe(403);
+
+        await new UserService(env).setDisabled(user!.id, true);
+        expect((await handleApiRequest(bearer(token, '/api/subscriptions'), env)).status).toBe(401);
+    });
+
+    it('所有角色都可以管理自己的 Token，权限不超过自己的角色', async () => {
+        await new UserService(env).createUser({ username: 'viewer', password: 'Str0ng-pass', role: 'viewer' });
+        const login = await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            body: JSON.stringify({ username: 'viewer', password: 'Str0ng-pass' }),
+        }), env);
+        const cookie = `token=${/token=([^;]+)/.exec(login.headers.get('Set-Cookie') || '')![1]}`;
+        const request = (path: string, init: RequestInit = {}) => handleApiRequest(new Request(`https://example.com${path}`, {
+            ...init,
+            headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+        }), env);
+        const adminToken = (await service.createToken(LEGACY_ADMIN_ID, { name: 'admin', scopes: ['notify'] })).apiToken;
+
+        const denied = await request('/api/tokens', { method: 'POST', body: JSON.stringify({ name: 'w', scopes: ['subscriptions:write'] }) });
+        expect(denied.status).toBe(403);
+        const created = await request('/api/tokens', { method: 'POST', body: JSON.stringify({ name: 'r', scopes: ['subscriptions:read'] }) });
+        const { token, apiToken } = await created.json() as { token: string; apiToken: { id: string } };
+        expect(created.status).toBe(201);
+        expect((await handleApiRequest(bearer(token, '/api/subscriptions'), env)).status).toBe(200);
+
+        expect((await (await request('/api/tokens')).json() as Array<{ id: string }>).map((t) => t.id)).toEqual([apiToken.id]);
+        expect((await request(`/api/tokens/${adminToken.id}`, { method: 'DELETE' })).status).toBe(404);
+        expect((await request(`/api/tokens/${apiToken.id}`, { method: 'DELETE' })).status).toBe(200);
+        expect(await service.listTokens()).toHaveLength(1);
+    });
+
+    it('第三方通知接口接受带 notify 权限的 Token', async () => {
+        const notify = await create(['notify']);
+        const readOnly = await create(['subscriptions:read']);
+        const init = { method: 'POST', body: JSON.stringify({ title: 'hi', content: 'hello' }) };
+
+        expect((await handleApiRequest(bearer(notify, '/api/notify/x', init), env)).status).toBe(200);
+        expect((await handleApiRequest(bearer(readOnly, '/api/notify/x', init), env)).status).toBe(403);
+
+        // 只读用户的 Token 即使带有 notify 权限也不能发送通知
+        const { user } = await new UserService(env).createUser({ username: 'viewer', password: 'Str0ng-pass', role: 'viewer' });
+        expect((await handleApiRequest(bearer(await create(['notify'], user!.id), '/api/notify/x', init), env)).status).toBe(403);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * 审计日志测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuditService, diffAuditFields } from '../../src/services/audit';
+import { SubscriptionService } from '../../src/services/subscription';
+import { handleApiRequest } from '../../src/routes/api';
+import { clearConfigCache } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { AuditEntry, Env } from '../../src/types';
+
+function api(path: string, token: string, init: RequestInit = {}): Request {
+    return new Request(`https://example.com/api${path}`, {
+        ...init,
+        headers: { Cookie: `token=${token}`, 'Content-Type': 'application/json', 'CF-Connecting-IP': '203.0.113.7' },
+    });
+}
+
+describe('Audit Log', () => {
+    let env: Env;
+    let token: string;
+
+    const listAudit = async (query = ''): Promise<AuditEntry[]> =>
+        (await handleApiRequest(api(`/audit${query}`, token), env)).json() as Promise<AuditEntry[]>;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'Str0ng-pass', JWT_SECRET: 'x'.repeat(64) });
+        const response = await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username: 'root', password: 'Str0ng-pass' }),
+        }), env);
+        token = /token=([^;]+)/.exec(response.headers.get('Set-Cookie') || '')![1];
+    });
+
+    it('只记录变化的字段，敏感字段不记录值', () => {
+        const changes = diffAuditFields(
+            { name: 'A', price: 10, TG_BOT_TOKEN: 'old', updatedAt: '1' },
+            { name: 'A', price: 12, TG_BOT_TOKEN: 'new', updatedAt: '2', notes: 'x' }
+        );
+        expect(changes).toEqual([
+            { field: 'price', before: 10, after: 12 },
+            { field: 'TG_BOT_TOKEN', before: '******', after: '******' },
+            { field: 'notes', after: 'x' },
+        ]);
+    });
+
+    it('记录订阅的创建与修改，包含操作者、IP 与字段差异', async () => {
+        const created = await handleApiRequest(api('/subscriptions', token, {
+            method: 'POST',
+            body: JSON.stringify({ name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z', price: 10 }),
+        }), env);
+        const { subscription } = await created.json() as { subscription: { id: string } };
+        await handleApiRequest(api(`/subscriptions/${subscription.id}`, token, {
+            method: 'PUT',
+            body: JSON.stringify({ name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z', price: 15 }),
+        }), env);
+
+        const [update, create] = await listAudit('?action=subscription');
+        expect(create).toMatchObject({ action: 'subscription.create', actor: 'root', ip: '203.0.113.7', targetId: subscription.id });
+        expect(update).toMatchObject({ action: 'subscription.update', targetName: 'Netflix' });
+        expect(update.changes).toContainEqual({ field: 'price', before: 10, after: 15 });
+    });
+
+    it('批量操作为每个订阅记录一条日志', async () => {
+        const service = new SubscriptionService(env);
+        const ids: string[] = [];
+        for (const name of ['A', 'B']) {
+            ids.push((await service.createSubscription({ name, expiryDate: '2030-01-01T00:00:00.000Z' })).subscription!.id);
+        }
+        await handleApiRequest(api('/subscriptions/bulk', token, {
+            method: 'POST',
+            body: JSON.stringify({ action: 'deactivate', ids: [...ids, 'missing'] }),
+        }), env);
+
+        const entries = await listAudit('?action=subscription.toggle');
+        expect(entries.map((e) => e.targetName).sort()).toEqual(['A', 'B']);
+        expect(entries[0].changes).toEqual([{ field: 'isActive', before: true, after: false }]);
+    });
+
+    it('记录配置修改与登录失败，并按条件筛选', async () => {
+        await handleApiRequest(api('/config', token, {
+            method: 'POST',
+            body: JSON.stringify({ TIMEZONE: 'Asia/Tokyo', TG_BOT_TOKEN: 'secret-bot-token' }),
+        }), env);
+        await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            body: JSON.stringify({ username: 'mallory', password: 'wrong-password' }),
+        }), env);
+
+        const [config] = await listAudit('?action=config.update');
+        expect(config.changes).toContainEqual({ field: 'TIMEZONE', after: 'Asia/Tokyo' });
+        expect(JSON.stringify(config)).not.toContain('secret-bot-token');
+
+        const [failed] = await listAudit('?actor=mallory');
+        expect(failed).toMatchObject({ action: 'auth.login_failed', actorId: null });
+        expect(await listAudit('?since=2099-01-01')).toEqual([]);
+        expect((await handleApiRequest(api('/audit?until=bad', token), env)).status).toBe(400);
+    });
+
+    it('丢弃超过保留天数的记录', async () => {
+        const audit = new AuditService(env);
+        const actor = { id: null, name: 'cron', ip: 'unknown' };
+        await audit.recordMany(actor, [{ action: 'backup.snapshot', target: { type: 'backup' } }], new Date(Date.now() - 91 * 86400 * 1000));
+        await audit.record(actor, 'backup.snapshot', { type: 'backup' });
+
+        expect(await audit.list({ actor: 'cron' })).toHaveLength(1);
+    });
+});
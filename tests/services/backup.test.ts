@@ -0,0 +1,171 @@
+/**
+ * 备份与恢复服务测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BackupService } from '../../src/services/backup';
+import { UserService } from '../../src/services/user';
+import { ApiTokenService } from '../../src/services/apiToken';
+import { AuditService } from '../../src/services/audit';
+import { SubscriptionService } from '../../src/services/subscription';
+import { getRepositories } from '../../src/storage';
+import { BackupArchiveSchema } from '../../src/utils/validation';
+import { clearConfigCache } from '../../src/utils/config';
+import { Env, Subscription } from '../../src/types';
+
+function makeSubscription(id: string, name: string): Subscription {
+    return {
+        id,
+        name,
+        expiryDate: '2099-01-15T00:00:00.000Z',
+        periodValue: 1,
+        periodUnit: 'month',
+        isActive: true,
+        autoRenew: true,
+    };
+}
+
+describe('Backup Service', () => {
+    let sourceEnv: Env;
+    let targetEnv: Env;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        sourceEnv = { STORAGE_BACKEND: 'memory' };
+        targetEnv = { STORAGE_BACKEND: 'memory' };
+
+        const source = getRepositories(sourceEnv);
+        await source.subscriptions.create(makeSubscription('a', 'Netflix'));
+        await source.subscriptions.create(makeSubscription('b', 'Spotify'));
+        await source.subscriptions.appendHistory({
+            id: 'r1',
+            subscriptionId: 'a',
+            type: 'manual',
+            oldExpiryDate: '2098-12-15T00:00:00.000Z',
+            newExpiryDate: '2099-01-15T00:00:00.000Z',
+            renewedAt: '2098-12-15T00:00:00.000Z',
+        });
+        await source.config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'secret-pass', TG_BOT_TOKEN: 'tg-token' });
+    });
+
+    async function roundTrip(passphrase?: string) {
+        const archive = await new BackupService(sourceEnv).createBackup({ passphrase });
+        return BackupArchiveSchema.parse(JSON.parse(JSON.stringify(archive)));
+    }
+
+    it('应该导出订阅、续期记录和配置', async () => {
+        const archive = await new BackupService(sourceEnv).createBackup();
+
+        expect(archive).toMatchObject({ format: 'subscription-manager-backup', version: 2 });
+        expect(archive.subscriptions.map((s) => s.id)).toEqual(['a', 'b']);
+        expect(archive.history.a).toHaveLength(1);
+        expect(archive.config.ADMIN_PASSWORD).toBe('secret-pass');
+        expect(archive.encryptedSecrets).toBeUndefined();
+    });
+
+    it('提供口令时应该加密敏感配置，恢复时需要同一口令', async () => {
+        const archive = await roundTrip('correct horse');
+
+        expect(archive.config).toEqual({ ADMIN_USERNAME: 'root' });
+        expect(JSON.stringify(archive)).not.toContain('tg-token');
+
+        const service = new BackupService(targetEnv);
+        expect((await service.restore(archive)).errors[0].message).toContain('请提供口令');
+        expect((await service.restore(archive, { passphrase: 'wrong' })).errors[0].message).toBe('口令错误或数据已损坏');
+
+        const result = await service.restore(archive, { passphrase: 'correct horse' });
+        expect(result.success).toBe(true);
+        expect(await getRepositories(targetEnv).config.get()).toMatchObject({
+            ADMIN_USERNAME: 'root',
+            ADMIN_PASSWORD: 'secret-pass',
+            TG_BOT_TOKEN: 'tg-token',
+        });
+    });
+
+    it('dryRun 只返回变更统计，不写入数据', async () => {
+        const archive = await roundTrip();
+
+        const result = await new BackupService(targetEnv).restore(archive, { dryRun: true });
+
+        expect(result).toMatchObject({
+            success: true,
+            dryRun: true,
+            subscriptions: { created: 2, updated: 0, deleted: 0 },
+            historyRecords: 1,
+        });
+        expect(await getRepositories(targetEnv).subscriptions.list()).toEqual([]);
+    });
+
+    it('merge 保留现有订阅，replace 删除备份中没有的订阅', async () => {
+        const archive = await roundTrip();
+        const target = getRepositories(targetEnv).subscriptions;
+        await target.create(makeSubscription('local', 'Local only'));
+        const service = new BackupService(targetEnv);
+
+        await service.restore(archive, { mode: 'merge' });
+        expect((await target.list()).map((s) => s.id)).toEqual(['local', 'a', 'b']);
+
+        const replaced = await service.restore(archive, { mode: 'replace' });
+        expect(replaced.subscriptions).toEqual({ created: 0, updated: 2, deleted: 1 });
+        expect(replaced.historyRecords).toBe(0);
+        expect((await target.list()).map((s) => s.id)).toEqual(['a', 'b']);
+        expect(await target.getHistory('a')).toHaveLength(1);
+    });
+
+    it('任意一条订阅校验失败时不应写入任何数据', async () => {
+        const archive = await roundTrip();
+        archive.subscriptions.push({ id: 'bad', name: '', expiryDate: 'not-a-date' });
+        archive.subscriptions.push({ ...makeSubscription('a', 'Duplicate') });
+
+        const result = await new BackupService(targetEnv).restore(archive);
+
+        expect(result.success).toBe(false);
+        expect(result.errors).toHaveLength(2);
+        expect(result.errors[0]).toMatchObject({ index: 2, id: 'bad' });
+        expect(result.errors[1].message).toBe('订阅 ID 重复');
+        expect(await getRepositories(targetEnv).subscriptions.list()).toEqual([]);
+    });
+
+    it('备份并恢复用户、API Token、两步验证和审计日志，恢复后订阅仍归属原用户', async () => {
+        const source = getRepositories(sourceEnv);
+        const { user } = await new UserService(sourceEnv).createUser({ username: 'bob', password: 'Str0ng-pass', role: 'editor' });
+        await source.subscriptions.update({ ...makeSubscription('b', 'Spotify'), ownerId: user!.id });
+        await new ApiTokenService(sourceEnv).createToken(user!.id, { name: 'cli', scopes: ['subscriptions:read'] });
+        await source.twoFactor.save({ userId: user!.id, secret: 'TOTPSECRETBASE32', enabled: true, recoveryCodes: [], createdAt: '2030-01-01T00:00:00.000Z' });
+        await new AuditService(sourceEnv).record({ id: user!.id, name: 'bob', ip: '' }, 'subscription.update', { type: 'subscription', id: 'b' });
+
+        const archive = await roundTrip('correct horse');
+        expect(JSON.stringify(archive)).not.toContain('TOTPSECRETBASE32');
+
+        const result = await new BackupService(targetEnv).restore(archive, { passphrase: 'correct horse' });
+        expect(result).toMatchObject({ success: true, users: 1, apiTokens: 1, twoFactor: 1, auditEntries: 1, warnings: [] });
+
+        const target = getRepositories(targetEnv);
+        expect((await target.users.getByUsername('bob'))!.id).toBe(user!.id);
+        expect(await target.apiTokens.list()).toHaveLength(1);
+        expect((await target.twoFactor.get(user!.id))!.secret).toBe('TOTPSECRETBASE32');
+        expect((await new AuditService(targetEnv).list()).map((e) => e.action)).toEqual(['subscription.update']);
+        const bob = { userId: user!.id, username: 'bob', role: 'editor' as const };
+        expect((await new SubscriptionService(targetEnv, bob).getAllSubscriptions()).map((s) => s.id)).toEqual(['b']);
+    });
+
+    it('旧版备份缺少订阅所有者时给出提示，同名的其他账户阻止恢复', async () => {
+        await getRepositories(sourceEnv).subscriptions.update({ ...makeSubscription('b', 'Spotify'), ownerId: 'missing-user' });
+        const archive = await roundTrip();
+
+        const result = await new BackupService(targetEnv).restore({ ...archive, version: 1, users: [] }, { dryRun: true });
+        expect(result.success).toBe(true);
+        expect(result.warnings).toEqual([{ id: 'b', message: '订阅「Spotify」的所有者 missing-user 不存在，恢复后仅管理员可见' }]);
+
+        await new UserService(targetEnv).createUser({ username: 'bob', password: 'Str0ng-pass', role: 'viewer' });
+        const conflicting = { ...archive, users: [{ id: 'other', username: 'bob', passwordHash: 'x', role: 'admin', disabled: false, createdAt: '', updatedAt: '' }] };
+        const rejected = await new BackupService(targetEnv).restore(conflicting);
+        expect(rejected.success).toBe(false);
+        expect(rejected.errors[0].message).toContain('已被其他账户使用');
+        expect((await getRepositories(targetEnv).users.getByUsername('bob'))!.role).toBe('viewer');
+    });
+
+    it('应该拒绝非备份格式的文件', () => {
+        expect(BackupArchiveSchema.safeParse({ subscriptions: [] }).success).toBe(false);
+    });
+});
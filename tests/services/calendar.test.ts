@@ -0,0 +1,144 @@
+/**
+ * iCalendar 订阅源测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateCalendar, subscriptionEvents } from '../../src/services/calendar';
+import { handleApiRequest } from '../../src/routes/api';
+import { getRepositories } from '../../src/storage';
+import { clearConfigCache } from '../../src/utils/config';
+import { UserService } from '../../src/services/user';
+import { Env, Subscription } from '../../src/types';
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+function makeSubscription(overrides: Partial<Subscription> = {}): Subscription {
+    return {
+        id: 'netflix',
+        name: 'Netflix',
+        expiryDate: '2026-03-15T00:00:00.000Z',
+        periodValue: 1,
+        periodUnit: 'month',
+        reminderDays: 3,
+        isActive: true,
+        autoRenew: true,
+        ...overrides,
+    };
+}
+
+describe('Calendar Service', () => {
+    it('公历自动续订应该生成 RRULE 和提前提醒', () => {
+        const lines = subscriptionEvents(makeSubscription({ periodValue: 3 }), now);
+
+        expect(lines).toContain('DTSTART;VALUE=DATE:20260315');
+        expect(lines).toContain('DTEND;VALUE=DATE:20260316');
+        expect(lines).toContain('RRULE:FREQ=MONTHLY;INTERVAL=3');
+        expect(lines).toContain('TRIGGER:-P3D');
+        expect(lines).toContain('UID:netflix@subscription-manager');
+    });
+
+    it('不自动续订的订阅只生成单次事件', () => {
+        const lines = subscriptionEvents(makeSubscription({ autoRenew: false, reminderDays: 0 }), now);
+
+        expect(lines.some((l) => l.startsWith('RRULE'))).toBe(false);
+        expect(lines).toContain('TRIGGER:PT0S');
+        expect(lines).toContain('SUMMARY:Netflix 到期');
+    });
+
+    it('农历订阅应该按农历展开为多条事件', () => {
+        // 2026-02-17 为农历正月初一
+        const sub = makeSubscription({ id: 'lunar', expiryDate: '2026-02-17T00:00:00.000Z', periodUnit: 'year', useLunar: true });
+        const starts = subscriptionEvents(sub, now).filter((l) => l.startsWith('DTSTART'));
+
+        expect(starts).toEqual([
+            'DTSTART;VALUE=DATE:20260217',
+            'DTSTART;VALUE=DATE:20270206',
+            'DTSTART;VALUE=DATE:20280126',
+        ]);
+        expect(subscriptionEvents(sub, now)).toContain('UID:lunar-20270206@subscription-manager');
+    });
+
+    it('停用的订阅不出现在日历中', () => {
+        expect(subscriptionEvents(makeSubscription({ isActive: false }), now)).toEqual([]);
+    });
+
+    it('应该转义特殊字符并按 75 字节折行', () => {
+        const ics = generateCalendar([makeSubscription({ name: 'A,B;C', notes: '很长的备注'.repeat(20) })], { now, timezone: 'Asia/Shanghai' });
+        const lines = ics.split('\r\n');
+
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(lines).toContain('X-WR-TIMEZONE:Asia/Shanghai');
+        expect(lines).toContain('SUMMARY:A\\,B\\;C 续费');
+        expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(true);
+        expect(lines.some((l) => l.startsWith(' '))).toBe(true);
+    });
+});
+
+describe('Calendar Feed API', () => {
+    let env: Env;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).subscriptions.create(makeSubscription());
+    });
+
+    it('未配置或 Token 错误时应该拒绝访问', async () => {
+        const missing = await handleApiRequest(new Request('https://example.com/api/calendar.ics?token='), env);
+        expect(missing.status).toBe(403);
+
+        await getRepositories(env).config.save({ CALENDAR_TOKEN: 'feed-secret' });
+        clearConfigCache();
+        const wrong = await handleApiRequest(new Request('https://example.com/api/calendar.ics?token=wrong'), env);
+        expect(wrong.status).toBe(403);
+    });
+
+    it('Token 正确时返回日历文件', async () => {
+        await getRepositories(env).config.save({ CALENDAR_TOKEN: 'feed-secret' });
+        clearConfigCache();
+
+        const response = await handleApiRequest(new Request('https://example.com/api/calendar.ics?token=feed-secret'), env);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+        expect(await response.text()).toContain('SUMMARY:Netflix 续费');
+    });
+
+    it('订阅源仅限管理员：生成者被降级或停用后拒绝访问', async () => {
+        const users = new UserService(env);
+        const { user } = await users.createUser({ username: 'ops', password: 'Str0ng-pass', role: 'admin' });
+        await getRepositories(env).subscriptions.create(makeSubscription({ id: 'other', name: 'Spotify', ownerId: 'someone-else' }));
+        await getRepositories(env).config.save({ CALENDAR_TOKEN: 'feed-secret', CALENDAR_TOKEN_OWNER: user!.id });
+        clearConfigCache();
+        const feed = () => handleApiRequest(new Request('https://example.com/api/calendar.ics?token=feed-secret'), env);
+
+        const ics = await (await feed()).text();
+        expect(ics).toContain('SUMMARY:Netflix 续费');
+        expect(ics).toContain('SUMMARY:Spotify 续费');
+
+        await users.setRole(user!.id, 'editor');
+        expect((await feed()).status).toBe(403);
+
+        await users.setRole(user!.id, 'admin');
+        await users.setDisabled(user!.id, true);
+        expect((await feed()).status).toBe(403);
+    });
+
+    it('重置地址时记录生成的管理员', async () => {
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'Str0ng-pass', JWT_SECRET: 'x'.repeat(64) });
+        clearConfigCache();
+        const login = await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            body: JSON.stringify({ username: 'root', password: 'Str0ng-pass' }),
+        }), env);
+        const cookie = `token=${/token=([^;]+)/.exec(login.headers.get('Set-Cookie') || '')![1]}`;
+
+        const response = await handleApiRequest(new Request('https://example.com/api/calendar/token', { method: 'POST', headers: { Cookie: cookie } }), env);
+        const { url } = (await response.json()) as { url: string };
+        expect((await getRepositories(env).config.get()).CALENDAR_TOKEN_OWNER).toBe('admin');
+
+        clearConfigCache();
+        expect((await handleApiRequest(new Request(url), env)).status).toBe(200);
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * 通知渠道注册表测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NOTIFICATION_CHANNELS, getNotificationChannel, formatNotificationContent } from '../../src/services/channels';
+import { sendNotificationToAllChannels } from '../../src/services/notification';
+import { handleApiRequest } from '../../src/routes/api';
+import { clearConfigCache, getConfig } from '../../src/utils/config';
+import { ConfigSchema } from '../../src/utils/validation';
+import { getRepositories } from '../../src/storage';
+import { Config, Env, Subscription } from '../../src/types';
+
+function subscription(name: string, emailAddresses?: string): Subscription {
+    return {
+        id: name,
+        name,
+        expiryDate: '2030-01-01T00:00:00.000Z',
+        isActive: true,
+        autoRenew: false,
+        reminderDays: 7,
+        daysRemaining: 3,
+        emailAddresses,
+        createdAt: '2024-01-01T00:00:00.000Z',
+    } as Subscription;
+}
+
+describe('Notification Channel Registry', () => {
+    let env: Env;
+    let fetchMock: ReturnType<typeof vi.fn>;
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'Str0ng-pass', JWT_SECRET: 'x'.repeat(64) });
+        fetchMock = vi.fn(async (url: string) => {
+            if (url.includes('resend.com')) return Response.json({ id: 'email-1' });
+            if (url.includes('/push')) return Response.json({ code: 200, message: 'ok' });
+            if (url.includes('webhook.example.com')) return new Response('down', { status: 500 });
+            return Response.json({ ok: true });
+        });
+        global.fetch = fetchMock as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('按注册表解析与校验各渠道的配置', async () => {
+        expect(new Set(NOTIFICATION_CHANNELS.map((c) => c.id)).size).toBe(NOTIFICATION_CHANNELS.length);
+
+        const parsed = ConfigSchema.parse({}) as Record<string, unknown>;
+        expect(parsed.BARK_SERVER).toBe('https://api.day.app');
+        expect(ConfigSchema.safeParse({ WEBHOOK_URL: 'not a url' }).success).toBe(false);
+
+        await getRepositories(env).config.save({ JWT_SECRET: 'x'.repeat(64), TG_BOT_TOKEN: 'bot', WENOTIFY_URL: 'https://w.example.com' });
+        const config = await getConfig(env);
+        expect(config.telegram).toEqual({ botToken: 'bot', chatId: '' });
+        expect(config.wenotify?.path).toBe('/wxsend');
+        expect(config.bark?.server).toBe('https://api.day.app');
+    });
+
+    it('支持按订阅分发的渠道为每个接收方单独发送', async () => {
+        const config = await getConfig(env);
+        const email = { resendApiKey: 're_1', fromEmail: 'bot@example.com', toEmail: 'ops@example.com' };
+        await sendNotificationToAllChannels('提醒', '通用内容', { ...config, enabledNotifiers: ['email'], email }, env, '[测试]', [
+            subscription('A', 'alice@example.com'),
+            subscription('B'),
+        ]);
+
+        const recipients = fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).to as string);
+        expect(recipients).toEqual(['alice@example.com', 'ops@example.com']);
+    });
+
+    it('发送失败时用第一个可告警的已启用渠道通知管理员', async () => {
+        const config: Config = {
+            ...(await getConfig(env)),
+            enabledNotifiers: ['bark', 'webhook'],
+            webhook: { url: 'https://webhook.example.com/hook', method: 'POST' },
+            bark: { server: 'https://bark.example.com', deviceKey: 'device' },
+        };
+        expect(getNotificationChannel('webhook')?.adminAlert).toBe(false);
+
+        await sendNotificationToAllChannels('提醒', '内容', config, env, '[测试]');
+
+        const barkBodies = fetchMock.mock.calls
+            .filter(([url]) => (url as string).startsWith('https://bark.example.com'))
+            .map(([, init]) => JSON.parse((init as RequestInit).body as string).title as string);
+        expect(barkBodies).toEqual(['提醒', '提醒发送失败']);
+        expect((await getRepositories(env).failureLogs.list(10))[0].failures).toEqual([{ channel: 'webhook', success: false }]);
+    });
+
+    it('测试通知使用表单中填写的渠道配置', async () => {
+        const login = await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            body: JSON.stringify({ username: 'root', password: 'Str0ng-pass' }),
+        }), env);
+        const token = /token=([^;]+)/.exec(login.headers.get('Set-Cookie') || '')![1];
+        const request = (body: unknown) => new Request('https://example.com/api/test-notification', {
+            method: 'POST',
+            headers: { Cookie: `token=${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+        const response = await handleApiRequest(request({ type: 'telegram', TG_BOT_TOKEN: 'form-token', TG_CHAT_ID: '42' }), env);
+        expect(await response.json()).toEqual({ success: true, message: '发送成功' });
+        expect(fetchMock).toHaveBeenCalledWith('https://api.telegram.org/botform-token/sendMessage', expect.anything());
+
+        expect((await handleApiRequest(request({ type: 'pigeon' }), env)).status).toBe(400);
+    });
+
+    it('企业微信 Markdown 与 WeNotify 结构化内容也包含提醒操作链接', async () => {
+        const config = await getConfig(env);
+        const actionLinks = [
+            { label: '推迟 1 天提醒', url: 'https://subs.example.com/api/reminder-action?token=a' },
+            { label: '标记为已续订', url: 'https://subs.example.com/api/reminder-action?token=b' },
+        ];
+        const subs = [{ ...subscription('A'), actionLinks }, subscription('B')];
+
+        const markdown = getNotificationChannel('wechatbot')!.formatSubscriptions!(subs, {
+            ...config,
+            wechatBot: { webhook: '', msgType: 'markdown', atMobiles: '', atAll: 'false' },
+        });
+        expect(markdown).toContain('快捷操作:');
+        expect(markdown).toContain('- [推迟 1 天提醒](https://subs.example.com/api/reminder-action?token=a)');
+        expect(markdown.match(/快捷操作/g)).toHaveLength(1);
+
+        const items = JSON.parse(getNotificationChannel('wenotify')!.formatSubscriptions!(subs, config)) as Array<{ actions: unknown[] }>;
+        expect(items[0].actions).toEqual(actionLinks);
+        expect(items[1].actions).toEqual([]);
+    });
+
+    it('Telegram 把操作链接发送为 Markdown 链接，token 中的 _ 不会被当作标记', async () => {
+        const config: Config = {
+            ...(await getConfig(env)),
+            enabledNotifiers: ['telegram'],
+            telegram: { botToken: 'bot', chatId: '42' },
+        };
+        const url = 'https://subs.example.com/api/reminder-action?token=eyJz_dWIi.ab_cd';
+        const sub = { ...subscription('A'), actionLinks: [{ label: '推迟 1 天提醒', url }] };
+
+        await sendNotificationToAllChannels('提醒', formatNotificationContent([sub], config), config, env, '[测试]', [sub]);
+
+        const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string) as { text: string; parse_mode: string };
+        expect(body.parse_mode).toBe('Markdown');
+        expect(body.text).toContain(`- [推迟 1 天提醒](${url})`);
+        expect(body.text).not.toContain(`: ${url}`);
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * 发送重试队列测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeliveryQueueService, retryDelayMs } from '../../src/services/deliveryQueue';
+import { sendNotificationToAllChannels } from '../../src/services/notification';
+import { handleApiRequest } from '../../src/routes/api';
+import worker from '../../src/worker';
+import { clearConfigCache, getConfig } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { Config, Env, Subscription } from '../../src/types';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * 模拟 KV，读取有延迟，使并发的读改写可能交错；reads 记录读取过的键
+ */
+function createMockKV() {
+    const store = new Map<string, string>();
+    const reads: string[] = [];
+    return {
+        store,
+        reads,
+        async get(key: string): Promise<string | null> {
+            reads.push(key);
+            const value = store.get(key) ?? null;
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return value;
+        },
+        async put(key: string, value: string): Promise<void> {
+            store.set(key, value);
+        },
+        async delete(key: string): Promise<void> {
+            store.delete(key);
+        },
+    };
+}
+
+describe('Delivery Retry Queue', () => {
+    let env: Env;
+    let config: Config;
+    let barkUp: boolean;
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'Str0ng-pass', JWT_SECRET: 'x'.repeat(64) });
+        config = {
+            ...(await getConfig(env)),
+            enabledNotifiers: ['bark'],
+            bark: { server: 'https://bark.example.com', deviceKey: 'device' },
+        };
+        barkUp = false;
+        global.fetch = vi.fn(async () => (barkUp ? Response.json({ code: 200 }) : Response.json({ code: 503, message: 'down' }, { status: 503 }))) as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('重试间隔按指数增长并设有上限', () => {
+        expect(retryDelayMs(1)).toBe(5 * MINUTE);
+        expect(retryDelayMs(2)).toBe(10 * MINUTE);
+        expect(retryDelayMs(4)).toBe(40 * MINUTE);
+        expect(retryDelayMs(20)).toBe(360 * MINUTE);
+    });
+
+    it('发送失败的消息入队，到期后重试成功即移出队列', async () => {
+        await sendNotificationToAllChannels('订阅到期提醒', '内容', config, env, '[测试]');
+        const queue = new DeliveryQueueService(env);
+        const [queued] = await queue.list();
+        expect(queued).toMatchObject({ channel: 'bark', title: '订阅到期提醒', content: '内容', status: 'pending', attempts: 1 });
+
+        // 未到重试时间不发送
+        const sentAt = new Date(queued.lastAttemptAt);
+        expect(await queue.processDue(config, new Date(sentAt.getTime() + MINUTE))).toEqual({ retried: 0, delivered: 0, dead: 0 });
+
+        barkUp = true;
+        expect(await queue.processDue(config, new Date(sentAt.getTime() + 5 * MINUTE))).toEqual({ retried: 1, delivered: 1, dead: 0 });
+        expect(await queue.list()).toEqual([]);
+    });
+
+    it('重试次数用尽后转为死信，可手动重新发送', async () => {
+        const queue = new DeliveryQueueService(env);
+        let now = new Date('2030-01-01T00:00:00Z');
+        const delivery = await queue.enqueue('bark', { title: '提醒', content: '内容' }, undefined, now);
+
+        for (let attempt = 1; attempt < 5; attempt++) {
+            now = new Date(now.getTime() + retryDelayMs(attempt));
+            await queue.processDue(config, now);
+        }
+        const [dead] = await queue.list('dead');
+        expect(dead).toMatchObject({ id: delivery.id, attempts: 5, lastError: '发送失败' });
+        expect((await queue.processDue(config, new Date('2031-01-01T00:00:00Z'))).retried).toBe(0);
+
+        expect((await queue.resend(dead.id, config))!.success).toBe(false);
+        barkUp = true;
+        expect(await queue.resend(dead.id, config)).toEqual({ success: true, delivery: null });
+        expect(await queue.list()).toEqual([]);
+    });
+
+    it('渠道停用后待重试的消息直接转为死信', async () => {
+        const queue = new DeliveryQueueService(env);
+        const now = new Date('2030-01-01T00:00:00Z');
+        await queue.enqueue('bark', { title: '提醒', content: '内容' }, undefined, now);
+
+        const result = await queue.processDue({ ...config, enabledNotifiers: [] }, new Date(now.getTime() + 5 * MINUTE));
+        expect(result).toEqual({ retried: 0, delivered: 0, dead: 1 });
+        expect((await queue.list('dead'))[0].lastError).toBe('渠道不存在或已停用');
+    });
+
+    it('管理员可以通过 API 查看、重发与删除队列中的消息', async () => {
+        const queue = new DeliveryQueueService(env);
+        const first = await queue.enqueue('bark', { title: '第一条', content: '内容' });
+        const second = await queue.enqueue('bark', { title: '第二条', content: '内容' });
+
+        const login = await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            body: JSON.stringify({ username: 'root', password: 'Str0ng-pass' }),
+        }), env);
+        const cookie = `token=${/token=([^;]+)/.exec(login.headers.get('Set-Cookie') || '')![1]}`;
+        const call = (path: string, method = 'GET') => handleApiRequest(new Request(`https://example.com/api${path}`, { method, headers: { Cookie: cookie } }), env);
+
+        expect(((await (await call('/deliveries?status=pending')).json()) as unknown[]).length).toBe(2);
+        expect((await call('/deliveries?status=other')).status).toBe(400);
+
+        await getRepositories(env).config.save({ ...(await getRepositories(env).config.get()), ENABLED_NOTIFIERS: ['bark'], BARK_SERVER: 'https://bark.example.com', BARK_DEVICE_KEY: 'device' });
+        clearConfigCache();
+        barkUp = true;
+        expect(await (await call(`/deliveries/${first.id}/resend`, 'POST')).json()).toEqual({ success: true, message: '发送成功' });
+        expect((await call(`/deliveries/${second.id}`, 'DELETE')).status).toBe(200);
+        expect((await call(`/deliveries/${second.id}`, 'DELETE')).status).toBe(404);
+        expect(await queue.list()).toEqual([]);
+
+        const actions = (await getRepositories(env).auditLogs.list({ action: 'notification' }, 10)).map((e) => e.action);
+        expect(actions).toEqual(['notification.discard', 'notification.resend']);
+    });
+
+    it('定时任务中重试与到期提醒依次执行，提醒发送失败新入队的消息不会从索引中丢失', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2030-01-01T08:00:00Z'));
+        try {
+            const kv = createMockKV();
+            const kvEnv: Env = { SUBSCRIPTIONS_KV: kv as unknown as KVNamespace };
+            const repositories = getRepositories(kvEnv);
+            await repositories.config.save({
+                JWT_SECRET: 'x'.repeat(64),
+                TIMEZONE: 'UTC',
+                REMINDER_TIMES: '08:00',
+                ENABLED_NOTIFIERS: ['bark'],
+                BARK_SERVER: 'https://bark.example.com',
+                BARK_DEVICE_KEY: 'device',
+            });
+            await repositories.subscriptions.create({
+                id: 'sub-1',
+                name: 'Netflix',
+                expiryDate: '2030-01-03T00:00:00.000Z',
+                isActive: true,
+                autoRenew: false,
+                reminderDays: 7,
+            } as Subscription);
+            const queue = new DeliveryQueueService(kvEnv);
+            const old = await queue.enqueue('bark', { title: '旧消息', content: '内容' }, undefined, new Date(Date.now() - 10 * MINUTE));
+
+            // 重试的旧消息发送成功，到期提醒发送失败；两者并发时重试要等到提醒发出后才完成
+            let reminderSent: () => void = () => undefined;
+            const reminderStarted = new Promise<void>((resolve) => { reminderSent = resolve; });
+            global.fetch = vi.fn(async (_url: string, init: RequestInit) => {
+                if ((init.body as string).includes('旧消息')) {
+                    await Promise.race([reminderStarted, new Promise((resolve) => setTimeout(resolve, 100))]);
+                    return Response.json({ code: 200 });
+                }
+                reminderSent();
+                return Response.json({ code: 503 }, { status: 503 });
+            }) as unknown as typeof fetch;
+            clearConfigCache();
+            const tasks: Promise<unknown>[] = [];
+            const ctx = { waitUntil: (task: Promise<unknown>) => tasks.push(task), passThroughOnException: () => undefined };
+            await worker.scheduled({} as ScheduledEvent, kvEnv, ctx as unknown as ExecutionContext);
+            await Promise.all(tasks);
+
+            const queued = await queue.list();
+            expect(queued.map((d) => d.title)).toEqual(['订阅到期提醒']);
+            expect((JSON.parse(kv.store.get('deliveries:index')!) as { id: string }[]).map((item) => item.id)).toEqual([queued[0].id]);
+            expect(queued[0].id).not.toBe(old.id);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('定时重试只读取索引和到期的记录，旧版只含 ID 的索引读取一次后补全', async () => {
+        const kv = createMockKV();
+        const kvEnv: Env = { SUBSCRIPTIONS_KV: kv as unknown as KVNamespace };
+        const queue = new DeliveryQueueService(kvEnv);
+        const now = new Date('2030-01-01T08:00:00Z');
+        const pending = await queue.enqueue('bark', { title: '待重试', content: '内容' }, undefined, now);
+        const dead = { ...pending, id: 'dead-1', title: '死信', status: 'dead' as const };
+        await getRepositories(kvEnv).deliveryQueue.save(dead);
+
+        kv.reads.length = 0;
+        expect(await queue.processDue(config, new Date(now.getTime() + MINUTE))).toEqual({ retried: 0, delivered: 0, dead: 0 });
+        expect(kv.reads).toEqual(['deliveries:index']);
+
+        kv.store.set('deliveries:index', JSON.stringify([pending.id, dead.id]));
+        await queue.processDue(config, new Date(now.getTime() + MINUTE));
+        kv.reads.length = 0;
+        await queue.processDue(config, new Date(now.getTime() + 2 * MINUTE));
+        expect(kv.reads).toEqual(['deliveries:index']);
+
+        barkUp = true;
+        expect(await queue.processDue(config, new Date(now.getTime() + 5 * MINUTE))).toEqual({ retried: 1, delivered: 1, dead: 0 });
+        expect((await queue.list()).map((d) => d.title)).toEqual(['死信']);
+    });
+});
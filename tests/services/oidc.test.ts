@@ -0,0 +1,236 @@
+/**
+ * OIDC 单点登录测试
+ * 用 fetch 模拟本地身份提供方：发现文档、JWKS、令牌端点（校验 PKCE 与客户端凭据）
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createCodeChallenge, validateIdTokenClaims, isEmailAllowed, readLoginState, signLoginState, IdTokenClaims, OidcLoginState } from '../../src/services/oidc';
+import { CryptoJS } from '../../src/utils/auth';
+import { UserService } from '../../src/services/user';
+import { handleApiRequest } from '../../src/routes/api';
+import { base64UrlEncode } from '../../src/utils/jws';
+import { clearConfigCache } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { Env } from '../../src/types';
+
+const ISSUER = 'https://idp.example.com';
+
+interface PendingCode {
+    challenge: string;
+    redirectUri: string;
+    claims: Partial<IdTokenClaims>;
+}
+
+/**
+ * 模拟身份提供方，authorize() 相当于用户在身份提供方完成登录
+ */
+async function createMockIdp() {
+    const keyPair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+    ) as CryptoKeyPair;
+    const jwk = { ...(await crypto.subtle.exportKey('jwk', keyPair.publicKey)), kid: 'key-1', use: 'sig' };
+    const codes = new Map<string, PendingCode>();
+    const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+    const signIdToken = async (claims: Record<string, unknown>): Promise<string> => {
+        const input = `${encode({ alg: 'RS256', kid: 'key-1', typ: 'JWT' })}.${encode(claims)}`;
+        const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, new TextEncoder().encode(input));
+        return `${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+    };
+
+    const fetchMock = vi.fn(async (input: string, init: RequestInit = {}) => {
+        const url = new URL(input);
+        if (url.pathname === '/.well-known/openid-configuration') {
+            return Response.json({
+                issuer: ISSUER,
+                authorization_endpoint: `${ISSUER}/authorize`,
+                token_endpoint: `${ISSUER}/token`,
+                jwks_uri: `${ISSUER}/jwks`,
+            });
+        }
+        if (url.pathname === '/jwks') {
+            return Response.json({ keys: [jwk] });
+        }
+        if (url.pathname === '/token' && init.method === 'POST') {
+            const headers = init.headers as Record<string, string>;
+            if (headers.Authorization !== `Basic ${btoa('client-1:client-secret')}`) {
+                return Response.json({ error: 'invalid_client' }, { status: 401 });
+            }
+            const body = new URLSearchParams(init.body as string);
+            const pending = codes.get(body.get('code') || '');
+            codes.delete(body.get('code') || '');
+            if (
+                !pending ||
+                body.get('redirect_uri') !== pending.redirectUri ||
+                (await createCodeChallenge(body.get('code_verifier') || '')) !== pending.challenge
+            ) {
+                return Response.json({ error: 'invalid_grant' }, { status: 400 });
+            }
+            const now = Math.floor(Date.now() / 1000);
+            return Response.json({
+                id_token: await signIdToken({ iss: ISSUER, aud: 'client-1', iat: now, exp: now + 300, ...pending.claims }),
+            });
+        }
+        return new Response('not found', { status: 404 });
+    });
+
+    const authorize = (location: string, claims: Partial<IdTokenClaims>): string => {
+        const params = new URL(location).searchParams;
+        expect(params.get('code_challenge_method')).toBe('S256');
+        const code = crypto.randomUUID();
+        codes.set(code, {
+            challenge: params.get('code_challenge')!,
+            redirectUri: params.get('redirect_uri')!,
+            claims: { nonce: params.get('nonce')!, ...claims },
+        });
+        return `${params.get('redirect_uri')}?code=${code}&state=${params.get('state')}`;
+    };
+
+    return { fetchMock, authorize };
+}
+
+describe('OIDC Single Sign-On', () => {
+    let env: Env;
+    let idp: Awaited<ReturnType<typeof createMockIdp>>;
+    const originalFetch = global.fetch;
+
+    /**
+     * 走完整的登录流程，返回回调的响应
+     */
+    const signIn = async (claims: Partial<IdTokenClaims>): Promise<Response> => {
+        const start = await handleApiRequest(new Request('https://app.example.com/api/oidc/login'), env);
+        expect(start.status).toBe(302);
+        const stateCookie = /oidc_state=([^;]+)/.exec(start.headers.get('Set-Cookie') || '')![1];
+        const callback = idp.authorize(start.headers.get('Location')!, claims);
+        return handleApiRequest(new Request(callback, { headers: { Cookie: `oidc_state=${stateCookie}` } }), env);
+    };
+
+    const tokenCookie = (response: Response): string => {
+        return /(?:^|, )token=([^;]+)/.exec(response.headers.get('Set-Cookie') || '')?.[1] || '';
+    };
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({
+            ADMIN_USERNAME: 'root',
+            ADMIN_PASSWORD: 'Str0ng-pass',
+            JWT_SECRET: 'x'.repeat(64),
+            OIDC_ENABLED: true,
+            OIDC_ISSUER: ISSUER,
+            OIDC_CLIENT_ID: 'client-1',
+            OIDC_CLIENT_SECRET: 'client-secret',
+            OIDC_ALLOWED_DOMAINS: 'example.com',
+            OIDC_DEFAULT_ROLE: 'viewer',
+        });
+        idp = await createMockIdp();
+        global.fetch = idp.fetchMock as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('登录成功后自动创建账户并签发登录 Cookie', async () => {
+        const response = await signIn({ sub: 'u-1', email: 'Alice@Example.com', email_verified: true });
+
+        expect(response.status).toBe(302);
+        expect(response.headers.get('Location')).toBe('/admin');
+        const me = await handleApiRequest(new Request('https://app.example.com/api/me', {
+            headers: { Cookie: `token=${tokenCookie(response)}` },
+        }), env);
+        expect(await me.json()).toMatchObject({ username: 'alice@example.com', role: 'viewer' });
+    });
+
+    it('已有同名账户时不自动绑定，用户登录后手动绑定，之后以 sub 识别', async () => {
+        const service = new UserService(env);
+        const { user } = await service.createUser({ username: 'bob@example.com', password: 'Str0ng-pass', role: 'editor' });
+
+        const rejected = await signIn({ sub: 'u-2', email: 'bob@example.com', email_verified: true });
+        expect(decodeURIComponent(rejected.headers.get('Location')!)).toContain('已有本地账户');
+        expect(tokenCookie(rejected)).toBe('');
+        expect((await service.getUser(user!.id))!.oidcSubject).toBeUndefined();
+
+        const login = await handleApiRequest(new Request('https://app.example.com/api/login', {
+            method: 'POST',
+            body: JSON.stringify({ username: 'bob@example.com', password: 'Str0ng-pass' }),
+        }), env);
+        const start = await handleApiRequest(new Request('https://app.example.com/api/oidc/link', {
+            headers: { Cookie: `token=${tokenCookie(login)}` },
+        }), env);
+        expect(start.status).toBe(302);
+        const stateCookie = /oidc_state=([^;]+)/.exec(start.headers.get('Set-Cookie') || '')![1];
+        const callback = idp.authorize(start.headers.get('Location')!, { sub: 'u-2', email: 'bob@example.com', email_verified: true });
+        const linked = await handleApiRequest(new Request(callback, { headers: { Cookie: `oidc_state=${stateCookie}` } }), env);
+        expect(linked.headers.get('Location')).toBe('/admin/password?sso_linked=1');
+        expect((await service.getUser(user!.id))!.oidcSubject).toBe(`${ISSUER}|u-2`);
+
+        // 身份提供方中的邮箱变更后仍然登录同一账户
+        const response = await signIn({ sub: 'u-2', email: 'robert@example.com', email_verified: true });
+        expect(tokenCookie(response)).not.toBe('');
+        expect((await service.listUsers()).map((u) => u.username)).toEqual(['bob@example.com']);
+    });
+
+    it('拒绝不允许的邮箱域名和未验证的邮箱', async () => {
+        const denied = await signIn({ sub: 'u-3', email: 'eve@evil.com', email_verified: true });
+        expect(denied.headers.get('Location')).toBe(`/?sso_error=${encodeURIComponent('该邮箱域名不允许登录')}`);
+        expect(tokenCookie(denied)).toBe('');
+
+        const unverified = await signIn({ sub: 'u-4', email: 'mallory@example.com', email_verified: false });
+        expect(decodeURIComponent(unverified.headers.get('Location')!)).toContain('已验证的邮箱');
+
+        // 未提供 email_verified 时同样拒绝
+        const missing = await signIn({ sub: 'u-4', email: 'mallory@example.com' });
+        expect(decodeURIComponent(missing.headers.get('Location')!)).toContain('已验证的邮箱');
+        expect(await new UserService(env).listUsers()).toEqual([]);
+    });
+
+    it('拒绝伪造的 state 与不匹配的 nonce', async () => {
+        const start = await handleApiRequest(new Request('https://app.example.com/api/oidc/login'), env);
+        const callback = idp.authorize(start.headers.get('Location')!, { sub: 'u-5', email: 'a@example.com' });
+        const forged = await handleApiRequest(new Request(callback, { headers: { Cookie: 'oidc_state=forged.value' } }), env);
+        expect(decodeURIComponent(forged.headers.get('Location')!)).toContain('登录状态无效');
+
+        const replayed = await signIn({ sub: 'u-5', email: 'a@example.com', nonce: 'other-nonce' });
+        expect(decodeURIComponent(replayed.headers.get('Location')!)).toContain('nonce');
+    });
+
+    it('登录状态的签名带有用途前缀，不能与其他签名数据互换', async () => {
+        const secret = 'x'.repeat(64);
+        const now = new Date('2030-01-01T00:00:00Z');
+        const state: OidcLoginState = { state: 's', nonce: 'n', codeVerifier: 'v', exp: now.getTime() / 1000 + 60 };
+        const value = await signLoginState(state, secret);
+        const [payload] = value.split('.');
+
+        expect(await readLoginState(value, secret, now)).toEqual(state);
+        expect(await readLoginState(`${payload}.${await CryptoJS.HmacSHA256(payload, secret)}`, secret, now)).toBeNull();
+        expect(await readLoginState(`${payload}.${await CryptoJS.HmacSHA256(`reminder-action.${payload}`, secret)}`, secret, now)).toBeNull();
+        expect(await readLoginState(value.slice(0, -2), secret, now)).toBeNull();
+    });
+
+    it('未启用时登录地址直接返回登录页', async () => {
+        await getRepositories(env).config.save({ JWT_SECRET: 'x'.repeat(64), OIDC_ENABLED: false });
+        clearConfigCache();
+
+        const config = await handleApiRequest(new Request('https://app.example.com/api/oidc/config'), env);
+        expect(await config.json()).toEqual({ enabled: false });
+        const response = await handleApiRequest(new Request('https://app.example.com/api/oidc/login'), env);
+        expect(response.headers.get('Location')).toContain('/?sso_error=');
+    });
+
+    it('校验 ID Token 的受众与有效期', () => {
+        const now = new Date('2030-01-01T00:00:00Z');
+        const seconds = now.getTime() / 1000;
+        const claims: IdTokenClaims = { iss: ISSUER, sub: 's', aud: ['client-1', 'other'], azp: 'client-1', iat: seconds, exp: seconds + 60, nonce: 'n' };
+
+        expect(() => validateIdTokenClaims(claims, `${ISSUER}/`, 'client-1', 'n', now)).not.toThrow();
+        expect(() => validateIdTokenClaims({ ...claims, azp: 'other' }, ISSUER, 'client-1', 'n', now)).toThrow('azp');
+        expect(() => validateIdTokenClaims({ ...claims, aud: 'other' }, ISSUER, 'client-1', 'n', now)).toThrow('受众');
+        expect(() => validateIdTokenClaims({ ...claims, exp: seconds - 120 }, ISSUER, 'client-1', 'n', now)).toThrow('过期');
+        expect(isEmailAllowed('a@Example.com', ['example.com'])).toBe(true);
+        expect(isEmailAllowed('a@example.com.evil.com', ['example.com'])).toBe(false);
+        expect(isEmailAllowed('a@anything.org', [])).toBe(true);
+    });
+});
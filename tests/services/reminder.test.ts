@@ -0,0 +1,151 @@
+/**
+ * 定时提醒测试：错过时段的补发与重复触发的去重、过期提醒与自动停用
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { runScheduledReminders, getReminderSlots } from '../../src/services/reminder';
+import { getOverdueAction } from '../../src/services/subscription';
+import { AuditService } from '../../src/services/audit';
+import { clearConfigCache, getConfig } from '../../src/utils/config';
+import { getLocalDateTime } from '../../src/utils/date';
+import { getRepositories } from '../../src/storage';
+import { Env, Subscription } from '../../src/types';
+
+function subscription(id: string, dailyReminderTimes?: string[]): Subscription {
+    return {
+        id,
+        name: id,
+        expiryDate: '2030-01-04T00:00:00.000Z',
+        isActive: true,
+        autoRenew: false,
+        reminderDays: 7,
+        dailyReminderTimes,
+        createdAt: '2029-01-01T00:00:00.000Z',
+    } as Subscription;
+}
+
+describe('Scheduled Reminders', () => {
+    let env: Env;
+    let sentTitles: string[];
+    let webhookBodies: string[];
+    const originalFetch = global.fetch;
+
+    const run = async (iso: string) => {
+        vi.setSystemTime(new Date(iso));
+        return runScheduledReminders(env, await getConfig(env), new Date());
+    };
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({
+            JWT_SECRET: 'x'.repeat(64),
+            TIMEZONE: 'UTC',
+            REMINDER_TIMES: '08:00',
+            ENABLED_NOTIFIERS: ['bark'],
+            BARK_SERVER: 'https://bark.example.com',
+            BARK_DEVICE_KEY: 'device',
+        });
+        sentTitles = [];
+        webhookBodies = [];
+        global.fetch = vi.fn(async (url: string, init: RequestInit) => {
+            if (url.startsWith('https://hook.example.com')) {
+                webhookBodies.push(init.body as string);
+            } else {
+                sentTitles.push((JSON.parse(init.body as string) as { body: string }).body);
+            }
+            return Response.json({ code: 200 });
+        }) as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        global.fetch = originalFetch;
+    });
+
+    it('按时区计算本地日期与时间', () => {
+        expect(getLocalDateTime(new Date('2030-01-01T23:30:00Z'), 'Asia/Shanghai')).toEqual({ date: '2030-01-02', time: '07:30' });
+        expect(getLocalDateTime(new Date('2030-01-01T00:05:00Z'), 'UTC')).toEqual({ date: '2030-01-01', time: '00:05' });
+    });
+
+    it('订阅自己的时段优先，忽略格式错误的时段', () => {
+        expect(getReminderSlots(subscription('a', ['20:00', '9:00', '20:00']), ['08:00'])).toEqual(['20:00']);
+        expect(getReminderSlots(subscription('b'), [])).toEqual(['08:00']);
+    });
+
+    it('错过的时段在下一次运行时补发，重复触发不会重复发送', async () => {
+        await getRepositories(env).subscriptions.create(subscription('global'));
+        await getRepositories(env).subscriptions.create(subscription('noon', ['12:00']));
+
+        expect(await run('2030-01-01T07:59:00Z')).toMatchObject({ subscriptions: 0 });
+        expect(sentTitles).toEqual([]);
+
+        // 08:00 的 cron 被跳过，09:17 补发
+        expect(await run('2030-01-01T09:17:00Z')).toEqual({ date: '2030-01-01', subscriptions: 1, slots: 1 });
+        expect(sentTitles).toHaveLength(1);
+        expect(sentTitles[0]).toContain('global');
+        expect(sentTitles[0]).not.toContain('noon');
+
+        await run('2030-01-01T09:17:30Z');
+        expect(sentTitles).toHaveLength(1);
+
+        await run('2030-01-01T12:00:00Z');
+        expect(sentTitles).toHaveLength(2);
+        expect(sentTitles[1]).toContain('noon');
+
+        // 第二天重新开始
+        expect(await run('2030-01-02T08:00:00Z')).toEqual({ date: '2030-01-02', subscriptions: 1, slots: 1 });
+        expect(await getRepositories(env).reminderLedger.getSent('2030-01-01')).toEqual(['global@08:00', 'noon@12:00']);
+    });
+
+    it('分阶段提醒只在指定的天提醒，并只发送到阶段指定的渠道', async () => {
+        await getRepositories(env).config.save({
+            ...(await getRepositories(env).config.get()),
+            ENABLED_NOTIFIERS: ['bark', 'webhook'],
+            WEBHOOK_URL: 'https://hook.example.com/send',
+        });
+        const staged = { ...subscription('staged'), reminderStages: [{ daysBefore: 3, channels: ['webhook'] }, { daysBefore: 1 }] };
+        await getRepositories(env).subscriptions.create(staged);
+
+        await run('2030-01-01T08:00:00Z');
+        expect(webhookBodies).toHaveLength(1);
+        expect(sentTitles).toEqual([]);
+
+        expect(await run('2030-01-02T08:00:00Z')).toMatchObject({ subscriptions: 0 });
+
+        await run('2030-01-03T08:00:00Z');
+        expect(webhookBodies).toHaveLength(2);
+        expect(sentTitles).toHaveLength(1);
+    });
+
+    it('过期后先每天提醒，之后每周提醒，超过范围不再提醒', () => {
+        const policy = { dailyDays: 7, weeklyUntilDays: 30, deactivateAfterDays: 0 };
+        expect([1, 7, 8, 14, 21, 28, 29, 35].map((d) => getOverdueAction(d, policy)))
+            .toEqual(['remind', 'remind', null, 'remind', 'remind', 'remind', null, null]);
+        expect(getOverdueAction(45, { ...policy, deactivateAfterDays: 45 })).toBe('deactivate');
+    });
+
+    it('订阅级过期策略覆盖全局设置，达到停用天数时停用并发送最后一次通知', async () => {
+        const overdue = {
+            ...subscription('overdue'),
+            expiryDate: '2030-01-01T00:00:00.000Z',
+            overduePolicy: { dailyDays: 1, weeklyUntilDays: 8, deactivateAfterDays: 10 },
+        };
+        await getRepositories(env).subscriptions.create(overdue);
+
+        await run('2030-01-02T08:00:00Z');
+        expect(sentTitles).toHaveLength(1);
+        expect(await run('2030-01-03T08:00:00Z')).toMatchObject({ subscriptions: 0 });
+        await run('2030-01-09T08:00:00Z');
+        expect(sentTitles).toHaveLength(2);
+
+        await run('2030-01-11T08:00:00Z');
+        expect(sentTitles).toHaveLength(3);
+        expect(sentTitles[2]).toContain('已停用');
+        expect((await getRepositories(env).subscriptions.get('overdue'))!.isActive).toBe(false);
+        expect(await new AuditService(env).list({ action: 'subscription.auto_deactivate' })).toHaveLength(1);
+
+        expect(await run('2030-01-12T08:00:00Z')).toMatchObject({ subscriptions: 0 });
+    });
+});
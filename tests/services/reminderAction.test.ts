@@ -0,0 +1,142 @@
+/**
+ * 提醒操作链接测试：签名校验、确认页、推迟/确认/标记已续订
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { signReminderAction, readReminderAction, ReminderActionPayload } from '../../src/services/reminderAction';
+import { runScheduledReminders } from '../../src/services/reminder';
+import { SubscriptionService } from '../../src/services/subscription';
+import { AuditService } from '../../src/services/audit';
+import { handleApiRequest } from '../../src/routes/api';
+import { clearConfigCache, getConfig } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { Env, Subscription } from '../../src/types';
+
+const SECRET = 'x'.repeat(64);
+
+const subscription: Subscription = {
+    id: 'netflix',
+    name: 'Netflix',
+    expiryDate: '2030-01-10T00:00:00.000Z',
+    periodValue: 1,
+    periodUnit: 'month',
+    isActive: true,
+    autoRenew: false,
+    reminderDays: 30,
+    createdAt: '2029-01-01T00:00:00.000Z',
+};
+
+describe('Reminder Action Links', () => {
+    let env: Env;
+    let bodies: string[];
+    const originalFetch = global.fetch;
+
+    /**
+     * 在指定时间运行一次定时提醒，返回本次发出的通知中的操作链接（按标签）
+     */
+    const remind = async (iso: string): Promise<Record<string, string>> => {
+        vi.setSystemTime(new Date(iso));
+        const before = bodies.length;
+        await runScheduledReminders(env, await getConfig(env), new Date());
+        const links: Record<string, string> = {};
+        for (const match of bodies.slice(before).join('\n').matchAll(/^- (.+): (https:\S+)$/gm)) {
+            links[match[1]] = match[2];
+        }
+        return links;
+    };
+
+    const open = (link: string) => handleApiRequest(new Request(link), env);
+
+    const confirm = (link: string) => handleApiRequest(new Request('https://subs.example.com/api/reminder-action', {
+        method: 'POST',
+        body: new URLSearchParams({ token: new URL(link).searchParams.get('token')! }),
+    }), env);
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({
+            JWT_SECRET: SECRET,
+            TIMEZONE: 'UTC',
+            REMINDER_TIMES: '08:00',
+            PUBLIC_BASE_URL: 'https://subs.example.com/',
+            ENABLED_NOTIFIERS: ['bark'],
+            BARK_SERVER: 'https://bark.example.com',
+            BARK_DEVICE_KEY: 'device',
+        });
+        await getRepositories(env).subscriptions.create({ ...subscription });
+        bodies = [];
+        global.fetch = vi.fn(async (_url: string, init: RequestInit) => {
+            bodies.push((JSON.parse(init.body as string) as { body: string }).body);
+            return Response.json({ code: 200 });
+        }) as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        global.fetch = originalFetch;
+    });
+
+    it('拒绝篡改、过期或用其他密钥签名的链接', async () => {
+        const now = new Date('2030-01-01T00:00:00Z');
+        const payload: ReminderActionPayload = { subscriptionId: 'netflix', action: 'snooze', expiryDate: subscription.expiryDate, exp: now.getTime() / 1000 + 60 };
+        const token = await signReminderAction(payload, SECRET);
+
+        expect(await readReminderAction(token, SECRET, now)).toEqual(payload);
+        expect(await readReminderAction(token, 'y'.repeat(64), now)).toBeNull();
+        expect(await readReminderAction(token, SECRET, new Date(now.getTime() + 120 * 1000))).toBeNull();
+        const forged = await signReminderAction({ ...payload, action: 'renew' }, SECRET);
+        expect(await readReminderAction(`${forged.split('.')[0]}.${token.split('.')[1]}`, SECRET, now)).toBeNull();
+        expect(await readReminderAction(`${token.split('.')[0]}.${'zz'.repeat(32)}`, SECRET, now)).toBeNull();
+        expect(await readReminderAction(token.slice(0, -2), SECRET, now)).toBeNull();
+    });
+
+    it('打开链接只显示确认页，确认后推迟提醒', async () => {
+        const links = await remind('2030-01-01T08:00:00Z');
+        expect(Object.keys(links)).toEqual(['推迟 1 天提醒', '到期前 3 天再提醒', '已知晓，本周期不再提醒', '标记为已续订']);
+        expect(links['推迟 1 天提醒']).toMatch(/^https:\/\/subs\.example\.com\/api\/reminder-action\?token=/);
+
+        const page = await open(links['到期前 3 天再提醒']);
+        expect(page.status).toBe(200);
+        expect(await page.text()).toContain('确认对「Netflix」执行此操作');
+        expect((await getRepositories(env).subscriptions.get('netflix'))!.reminderState).toBeUndefined();
+
+        const result = await confirm(links['到期前 3 天再提醒']);
+        expect(result.status).toBe(200);
+        expect((await getRepositories(env).subscriptions.get('netflix'))!.reminderState).toEqual({ snoozedUntil: '2030-01-07T00:00:00.000Z' });
+
+        expect(await remind('2030-01-06T08:00:00Z')).toEqual({});
+        expect(Object.keys(await remind('2030-01-07T08:00:00Z'))).toContain('标记为已续订');
+        expect(await new AuditService(env).list({ action: 'subscription.snooze_until' })).toHaveLength(1);
+    });
+
+    it('确认后本周期不再提醒，续订后旧链接失效', async () => {
+        const links = await remind('2030-01-01T08:00:00Z');
+        await confirm(links['已知晓，本周期不再提醒']);
+        expect((await new SubscriptionService(env).checkExpiringSubscriptions()).notifications).toEqual([]);
+
+        const renewed = await confirm(links['标记为已续订']);
+        expect(await renewed.text()).toContain('已续订');
+        const current = (await getRepositories(env).subscriptions.get('netflix'))!;
+        expect(current.expiryDate).toBe('2030-02-10T00:00:00.000Z');
+        expect(current.reminderState).toBeUndefined();
+
+        // 同一链接不会再次续订
+        const replayed = await confirm(links['标记为已续订']);
+        expect(replayed.status).toBe(400);
+        expect(await replayed.text()).toContain('链接已失效');
+        expect((await getRepositories(env).subscriptions.get('netflix'))!.expiryDate).toBe('2030-02-10T00:00:00.000Z');
+        const link = links['推迟 1 天提醒'];
+        expect((await open(link.slice(0, -1) + (link.endsWith('0') ? '1' : '0'))).status).toBe(403);
+    });
+
+    it('未配置站点地址时不附带链接', async () => {
+        await getRepositories(env).config.save({ ...(await getRepositories(env).config.get()), PUBLIC_BASE_URL: '' });
+        clearConfigCache();
+
+        expect(await remind('2030-01-01T08:00:00Z')).toEqual({});
+        expect(bodies).toHaveLength(1);
+        expect(bodies[0]).not.toContain('快捷操作');
+    });
+});
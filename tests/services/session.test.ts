@@ -0,0 +1,87 @@
+/**
+ * 登录会话测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SessionService, describeUserAgent } from '../../src/services/session';
+import { handleApiRequest } from '../../src/routes/api';
+import { clearConfigCache } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { Env } from '../../src/types';
+
+const CHROME_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+function api(path: string, token?: string, init: RequestInit = {}): Request {
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Cookie', `token=${token}`);
+    return new Request(`https://example.com/api${path}`, { ...init, headers });
+}
+
+describe('Session Service', () => {
+    let env: Env;
+
+    const login = async (userAgent = CHROME_MAC): Promise<string> => {
+        const response = await handleApiRequest(api('/login', undefined, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'User-Agent': userAgent },
+            body: JSON.stringify({ username: 'root', password: 'Str0ng-pass' }),
+        }), env);
+        const cookie = response.headers.get('Set-Cookie') || '';
+        return /token=([^;]+)/.exec(cookie)![1];
+    };
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'Str0ng-pass', JWT_SECRET: 'x'.repeat(64) });
+    });
+
+    it('应该从 User-Agent 识别浏览器和系统', () => {
+        expect(describeUserAgent(CHROME_MAC)).toBe('Chrome · macOS');
+        expect(describeUserAgent('curl/8.4.0')).toBe('curl');
+        expect(describeUserAgent('')).toBe('未知设备');
+    });
+
+    it('登录后创建会话并标记当前会话', async () => {
+        const token = await login();
+        await login('curl/8.4.0');
+
+        const response = await handleApiRequest(api('/sessions', token), env);
+        const sessions = await response.json() as { device: string; current: boolean }[];
+        expect(sessions).toHaveLength(2);
+        expect(sessions.find((s) => s.current)?.device).toBe('Chrome · macOS');
+    });
+
+    it('吊销会话后对应 Token 立即失效', async () => {
+        const token = await login();
+        const other = await login('curl/8.4.0');
+        const sessions = await new SessionService(env).listSessions('admin');
+        const target = sessions.find((s) => s.device === 'curl')!;
+
+        expect((await handleApiRequest(api(`/sessions/${target.id}`, token, { method: 'DELETE' }), env)).status).toBe(200);
+        expect((await handleApiRequest(api('/me', other), env)).status).toBe(401);
+        expect((await handleApiRequest(api('/me', token), env)).status).toBe(200);
+    });
+
+    it('登出吊销当前会话，退出全部设备吊销所有会话', async () => {
+        const first = await login();
+        await handleApiRequest(api('/logout', first, { method: 'POST' }), env);
+        expect((await handleApiRequest(api('/me', first), env)).status).toBe(401);
+
+        const second = await login();
+        const third = await login();
+        const response = await handleApiRequest(api('/sessions', second, { method: 'DELETE' }), env);
+        expect(await response.json()).toEqual({ success: true, revoked: 2 });
+        expect((await handleApiRequest(api('/me', third), env)).status).toBe(401);
+    });
+
+    it('重置 JWT 密钥使全部 Token 失效', async () => {
+        const token = await login();
+        const other = await login();
+
+        expect((await handleApiRequest(api('/config/jwt-secret', token, { method: 'POST' }), env)).status).toBe(200);
+        clearConfigCache();
+        expect((await handleApiRequest(api('/me', other), env)).status).toBe(401);
+        expect(await new SessionService(env).listSessions('admin')).toEqual([]);
+    });
+});
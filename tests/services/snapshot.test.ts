@@ -0,0 +1,164 @@
+/**
+ * 自动备份快照测试
+ * 用内存中的对象表模拟 S3 兼容服务（MinIO）与 R2 绑定
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createSnapshot, runDueBackup, runScheduledBackup, snapshotKey } from '../../src/services/snapshot';
+import { sendNotificationToAllChannels } from '../../src/services/notification';
+import { getRepositories, S3SnapshotStore, R2SnapshotStore } from '../../src/storage';
+import { clearConfigCache, getConfig } from '../../src/utils/config';
+import { BackupConfig, Env } from '../../src/types';
+
+vi.mock('../../src/services/notification', () => ({
+    sendNotificationToAllChannels: vi.fn(),
+}));
+
+const s3 = {
+    endpoint: 'http://localhost:9000',
+    region: 'us-east-1',
+    bucket: 'backups',
+    accessKeyId: 'minio',
+    secretAccessKey: 'minio123',
+};
+
+function backupConfig(overrides: Partial<BackupConfig> = {}): BackupConfig {
+    return { enabled: true, target: 's3', time: '03:00', retention: 2, prefix: 'nightly/', s3, ...overrides };
+}
+
+/**
+ * 模拟 MinIO：未签名的请求返回 403
+ */
+function fakeS3(objects: Map<string, string>) {
+    return vi.fn(async (input: string, init: RequestInit) => {
+        const url = new URL(input);
+        const headers = init.headers as Record<string, string>;
+        if (!headers.authorization?.startsWith('AWS4-HMAC-SHA256 Credential=minio/')) {
+            return new Response('<Error><Code>AccessDenied</Code></Error>', { status: 403 });
+        }
+        const key = decodeURIComponent(url.pathname.replace(/^\/backups\/?/, ''));
+        if (init.method === 'PUT') {
+            objects.set(key, init.body as string);
+            return new Response('');
+        }
+        if (init.method === 'DELETE') {
+            objects.delete(key);
+            return new Response(null, { status: 204 });
+        }
+        const prefix = url.searchParams.get('prefix') || '';
+        const keys = Array.from(objects.keys()).filter((k) => k.startsWith(prefix)).sort();
+        const xml = `<ListBucketResult><IsTruncated>false</IsTruncated>${keys.map((k) => `<Contents><Key>${k}</Key></Contents>`).join('')}</ListBucketResult>`;
+        return new Response(xml);
+    });
+}
+
+describe('Scheduled Snapshot Backup', () => {
+    let env: Env;
+    let objects: Map<string, string>;
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        vi.mocked(sendNotificationToAllChannels).mockClear();
+        env = { STORAGE_BACKEND: 'memory' };
+        objects = new Map();
+        global.fetch = fakeS3(objects) as unknown as typeof fetch;
+
+        await getRepositories(env).subscriptions.create({
+            id: 'a',
+            name: 'Netflix',
+            expiryDate: '2099-01-15T00:00:00.000Z',
+            isActive: true,
+            autoRenew: true,
+        });
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('快照文件名按时间排序', () => {
+        expect(snapshotKey('nightly/', new Date('2026-10-19T03:00:00.000Z')))
+            .toBe('nightly/subscription-backup-2026-10-19T03-00-00-000Z.json');
+    });
+
+    it('应该写入 S3 并只保留最近的快照', async () => {
+        objects.set('nightly/other.txt', 'keep');
+        const store = new S3SnapshotStore(s3);
+        const days = ['2026-10-17', '2026-10-18', '2026-10-19'];
+
+        let last;
+        for (const day of days) {
+            last = await createSnapshot(env, backupConfig(), store, new Date(`${day}T03:00:00.000Z`));
+        }
+
+        expect(last).toMatchObject({ target: 's3', subscriptions: 1 });
+        expect(last!.pruned).toEqual(['nightly/subscription-backup-2026-10-17T03-00-00-000Z.json']);
+        expect(Array.from(objects.keys()).sort()).toEqual([
+            'nightly/other.txt',
+            'nightly/subscription-backup-2026-10-18T03-00-00-000Z.json',
+            'nightly/subscription-backup-2026-10-19T03-00-00-000Z.json',
+        ]);
+        const archive = JSON.parse(objects.get(last!.key)!) as { format: string };
+        expect(archive.format).toBe('subscription-manager-backup');
+    });
+
+    it('应该支持 R2 绑定', async () => {
+        const bucket = {
+            put: vi.fn(async (key: string, body: string) => { objects.set(key, body); }),
+            list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+                objects: Array.from(objects.keys()).filter((k) => k.startsWith(prefix)).map((key) => ({ key })),
+                truncated: false,
+            })),
+            delete: vi.fn(async (keys: string[]) => { keys.forEach((k) => objects.delete(k)); }),
+        };
+        const store = new R2SnapshotStore(bucket as unknown as R2Bucket);
+
+        await createSnapshot(env, backupConfig({ retention: 1 }), store, new Date('2026-10-18T03:00:00.000Z'));
+        const result = await createSnapshot(env, backupConfig({ retention: 1 }), store, new Date('2026-10-19T03:00:00.000Z'));
+
+        expect(result.target).toBe('r2');
+        expect(Array.from(objects.keys())).toEqual([result.key]);
+    });
+
+    it('应该通过通知渠道报告成功与失败', async () => {
+        await getRepositories(env).config.save({
+            BACKUP_ENABLED: true,
+            BACKUP_TARGET: 's3',
+            BACKUP_S3_ENDPOINT: s3.endpoint,
+            BACKUP_S3_BUCKET: s3.bucket,
+            BACKUP_S3_ACCESS_KEY_ID: s3.accessKeyId,
+            BACKUP_S3_SECRET_ACCESS_KEY: s3.secretAccessKey,
+        });
+        const config = await getConfig(env);
+
+        expect(await runScheduledBackup(env, config)).not.toBeNull();
+        expect(vi.mocked(sendNotificationToAllChannels).mock.calls[0][0]).toBe('自动备份成功');
+
+        const wrongKey = { ...config, backup: { ...config.backup!, s3: { ...s3, accessKeyId: 'wrong' } } };
+        expect(await runScheduledBackup(env, wrongKey)).toBeNull();
+        const [title, content] = vi.mocked(sendNotificationToAllChannels).mock.calls[1];
+        expect(title).toBe('自动备份失败');
+        expect(content).toContain('HTTP 403 AccessDenied');
+    });
+
+    it('未绑定 R2 时应该报告失败', async () => {
+        const config = await getConfig(env);
+        await runScheduledBackup(env, { ...config, backup: backupConfig({ target: 'r2' }) });
+
+        expect(vi.mocked(sendNotificationToAllChannels).mock.calls[0][1]).toContain('BACKUP_BUCKET');
+    });
+
+    it('错过备份时间的那一分钟后补做当天的备份，每天只备份一次', async () => {
+        const config = { ...(await getConfig(env)), timezone: 'UTC', backup: backupConfig() };
+        const run = (iso: string) => runDueBackup(env, config, new Date(iso));
+
+        expect(await run('2026-10-19T02:59:00.000Z')).toBeNull();
+        expect(await run('2026-10-19T03:17:00.000Z')).toMatchObject({ key: 'nightly/subscription-backup-2026-10-19T03-17-00-000Z.json' });
+        expect(await run('2026-10-19T03:18:00.000Z')).toBeNull();
+        expect(await run('2026-10-20T03:00:00.000Z')).not.toBeNull();
+        expect(await getRepositories(env).backupState.getLastRunDate()).toBe('2026-10-20');
+        expect(Array.from(objects.keys())).toHaveLength(2);
+        expect(await runDueBackup(env, { ...config, backup: backupConfig({ enabled: false }) }, new Date('2026-10-21T04:00:00.000Z'))).toBeNull();
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * 支出统计服务测试
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StatsService, expandRenewalDates, toMonthlyAmount } from '../../src/services/stats';
+import { clearConfigCache } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { lunarCalendar } from '../../src/utils/lunar';
+import { Env, Subscription } from '../../src/types';
+
+async function seed(env: Env, subscriptions: Subscription[]): Promise<void> {
+    for (const s of subscriptions) {
+        await getRepositories(env).subscriptions.create(s);
+    }
+}
+
+describe('Stats Service', () => {
+    let mockEnv: Env;
+
+    beforeEach(async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2025, 2, 15, 12, 0, 0));
+        clearConfigCache();
+        mockEnv = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(mockEnv).config.save({
+            JWT_SECRET: 'x'.repeat(64),
+            BASE_CURRENCY: 'CNY',
+            EXCHANGE_RATES: { USD: 7 },
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('toMonthlyAmount', () => {
+        it('应该按周期单位折算月度金额', () => {
+            expect(toMonthlyAmount(120, 1, 'year')).toBe(10);
+            expect(toMonthlyAmount(30, 3, 'month')).toBe(10);
+            expect(toMonthlyAmount(1, 1, 'day')).toBe(30);
+        });
+    });
+
+    describe('expandRenewalDates', () => {
+        it('应该展开公历月周期的续期日期', () => {
+            const sub: Subscription = {
+                id: 'm', name: 'Monthly', expiryDate: new Date(2025, 2, 18).toISOString(),
+                periodValue: 1, periodUnit: 'month', isActive: true, autoRenew: true,
+            };
+            const dates = expandRenewalDates(sub, new Date(2025, 2, 1), new Date(2026, 2, 1));
+            expect(dates).toHaveLength(12);
+            expect(dates[1].getMonth()).toBe(3);
+        });
+
+        it('农历月周期应该按农历日期展开', () => {
+            const expiry = new Date(2025, 2, 20);
+            const sub: Subscription = {
+                id: 'l', name: 'Lunar', expiryDate: expiry.toISOString(),
+                periodValue: 1, periodUnit: 'month', useLunar: true, isActive: true, autoRenew: true,
+            };
+            const lunarDay = lunarCalendar.solar2lunar(2025, 3, 20)!.day;
+            const dates = expandRenewalDates(sub, new Date(2025, 2, 1), new Date(2026, 2, 1));
+            expect(dates.length).toBeGreaterThan(10);
+            for (const date of dates) {
+                const lunar = lunarCalendar.solar2lunar(date.getFullYear(), date.getMonth() + 1, date.getDate());
+                expect(lunar!.day).toBe(lunarDay);
+            }
+            // 农历月长度为 29 或 30 天，与公历月周期不同
+            expect(dates[1].getDate()).not.toBe(20);
+        });
+    });
+
+    describe('getStats', () => {
+        it('应该汇总金额、分类和状态统计', async () => {
+            await seed(mockEnv, [
+                {
+                    id: 'a', name: 'Netflix', customType: '影音', price: 10, currency: 'USD',
+                    expiryDate: new Date(2025, 2, 18).toISOString(), periodValue: 1, periodUnit: 'month',
+                    isActive: true, autoRenew: true,
+                },
+                {
+                    id: 'b', name: 'Domain', customType: '网络', price: 120, currency: 'CNY',
+                    expiryDate: new Date(2025, 5, 1).toISOString(), periodValue: 1, periodUnit: 'year',
+                    isActive: true, autoRenew: true,
+                },
+                {
+                    id: 'c', name: 'Old', price: 50, expiryDate: new Date(2025, 2, 1).toISOString(),
+                    isActive: false, autoRenew: false,
+                },
+                {
+                    id: 'd', name: 'Expired', expiryDate: new Date(2025, 2, 10).toISOString(),
+                    isActive: true, autoRenew: false,
+                },
+                {
+                    id: 'e', name: 'Unknown currency', price: 5, currency: 'EUR',
+                    expiryDate: new Date(2025, 8, 1).toISOString(), isActive: true, autoRenew: true,
+                },
+            ]);
+
+            const stats = await new StatsService(mockEnv).getStats();
+
+            expect(stats.baseCurrency).toBe('CNY');
+            expect(stats.counts).toEqual({ total: 5, active: 4, inactive: 1, expiring: 1, expired: 1 });
+            expect(stats.totals.monthly).toBe(80);
+            expect(stats.totals.annual).toBe(960);
+            expect(stats.byType[0]).toEqual({ type: '影音', count: 1, monthly: 70, annual: 840 });
+            expect(stats.unconverted).toEqual(['e']);
+
+            expect(stats.projection).toHaveLength(12);
+            expect(stats.projection[0]).toEqual({ month: '2025-03', amount: 70, renewals: 1 });
+            expect(stats.projection[3]).toEqual({ month: '2025-06', amount: 190, renewals: 2 });
+        });
+    });
+});
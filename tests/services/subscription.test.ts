@@ -3,34 +3,16 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { SubscriptionService } from '../../src/services/subscription';
+import { SubscriptionService, getReminderStage } from '../../src/services/subscription';
+import { getRepositories } from '../../src/storage';
 import { Env, Subscription } from '../../src/types';
 
-// 创建模拟 KV命名空间
-function createMockKV() {
-    const store = new Map<string, string>();
-
-    return {
-        async get(key: string): Promise<string | null> {
-            return store.get(key) || null;
-        },
-        async put(key: string, value: string): Promise<void> {
-            store.set(key, value);
-        },
-        async delete(key: string): Promise<void> {
-            store.delete(key);
-        },
-    };
-}
-
 describe('Subscription Service', () => {
     let service: SubscriptionService;
     let mockEnv: Env;
 
     beforeEach(() => {
-        mockEnv = {
-            SUBSCRIPTIONS_KV: createMockKV(),
-        };
+        mockEnv = { STORAGE_BACKEND: 'memory' };
         service = new SubscriptionService(mockEnv);
     });
 
@@ -119,4 +101,184 @@ describe('Subscription Service', () => {
             expect(subscriptions).toHaveLength(0);
         });
     });
+
+    describe('renewal history', () => {
+        it('自动续期时应该追加续期记录', async () => {
+            const past = new Date();
+            past.setDate(past.getDate() - 3);
+            const sub: Subscription = {
+                id: 'renew-1',
+                name: 'VPS',
+                expiryDate: past.toISOString(),
+                periodValue: 1,
+                periodUnit: 'month',
+                price: 20,
+                currency: 'USD',
+                isActive: true,
+                autoRenew: true,
+            };
+            await getRepositories(mockEnv).subscriptions.create(sub);
+
+            await service.checkExpiringSubscriptions();
+
+            const history = await service.getRenewalHistory(sub.id);
+            expect(history).toHaveLength(1);
+            expect(history[0]).toMatchObject({
+                subscriptionId: sub.id,
+                type: 'auto',
+                oldExpiryDate: sub.expiryDate,
+                price: 20,
+                currency: 'USD',
+            });
+            expect(new Date(history[0].newExpiryDate).getTime()).toBeGreaterThan(past.getTime());
+        });
+
+        it('没有续期记录时应该返回空数组', async () => {
+            expect(await service.getRenewalHistory('missing')).toEqual([]);
+        });
+    });
+
+    describe('renewSubscription', () => {
+        it('应该按周期顺延到期日并记录实付金额', async () => {
+            const created = await service.createSubscription({
+                name: 'Domain',
+                expiryDate: '2099-01-15T00:00:00.000Z',
+                periodValue: 1,
+                periodUnit: 'year',
+                price: 60,
+                isActive: true,
+                autoRenew: false,
+            });
+            const id = created.subscription!.id;
+
+            const result = await service.renewSubscription(id, { periods: 2, paidAmount: 55 });
+
+            expect(result.success).toBe(true);
+            expect(new Date(result.subscription!.expiryDate).getUTCFullYear()).toBe(2101);
+            const history = await service.getRenewalHistory(id);
+            expect(history).toHaveLength(1);
+            expect(history[0]).toMatchObject({ type: 'manual', price: 55 });
+        });
+
+        it('订阅不存在时应该返回失败', async () => {
+            const result = await service.renewSubscription('missing');
+            expect(result.success).toBe(false);
+        });
+    });
+
+    describe('toggleSubscriptionStatus', () => {
+        it('未指定状态时应该切换当前状态', async () => {
+            const created = await service.createSubscription({
+                name: 'Toggle',
+                expiryDate: '2099-01-01T00:00:00.000Z',
+                isActive: true,
+                autoRenew: false,
+            });
+            const id = created.subscription!.id;
+
+            expect((await service.toggleSubscriptionStatus(id)).subscription!.isActive).toBe(false);
+            expect((await service.toggleSubscriptionStatus(id, false)).subscription!.isActive).toBe(false);
+            expect((await service.toggleSubscriptionStatus(id)).subscription!.isActive).toBe(true);
+        });
+    });
+
+    describe('bulkOperation', () => {
+        async function createMany(count: number): Promise<string[]> {
+            const ids: string[] = [];
+            for (let i = 0; i < count; i++) {
+                const created = await service.createSubscription({
+                    name: 'Bulk ' + i,
+                    expiryDate: '2099-01-15T00:00:00.000Z',
+                    periodValue: 1,
+                    periodUnit: 'month',
+                    isActive: true,
+                    autoRenew: false,
+                });
+                ids.push(created.subscription!.id);
+            }
+            return ids;
+        }
+
+        it('应该批量停用并设置类型', async () => {
+            const ids = await createMany(2);
+
+            const deactivated = await service.bulkOperation({ action: 'deactivate', ids });
+            const typed = await service.bulkOperation({ action: 'setCustomType', ids, customType: '工具' });
+
+            expect(deactivated).toMatchObject({ success: true, succeeded: 2, failed: 0 });
+            expect(typed.succeeded).toBe(2);
+            for (const id of ids) {
+                const sub = await service.getSubscription(id);
+                expect(sub).toMatchObject({ isActive: false, customType: '工具' });
+            }
+        });
+
+        it('批量设置提醒天数时清除分阶段提醒，使新的天数生效', async () => {
+            const [id] = await createMany(1);
+            await service.updateSubscription(id, { ...(await service.getSubscription(id))!, reminderStages: [{ daysBefore: 30 }] });
+            expect(getReminderStage((await service.getSubscription(id))!, 5)).toBeNull();
+
+            const result = await service.bulkOperation({ action: 'setReminderDays', ids: [id], reminderDays: 7 });
+
+            expect(result.succeeded).toBe(1);
+            const sub = (await service.getSubscription(id))!;
+            expect(sub.reminderStages).toBeUndefined();
+            expect(sub.reminderDays).toBe(7);
+            expect(getReminderStage(sub, 5)).toEqual({ daysBefore: 5 });
+        });
+
+        it('批量删除应该更新索引并报告不存在的订阅', async () => {
+            const ids = await createMany(3);
+
+            const result = await service.bulkOperation({ action: 'delete', ids: [ids[0], ids[2], 'missing'] });
+
+            expect(result).toMatchObject({ succeeded: 2, failed: 1 });
+            expect(result.results[2]).toEqual({ id: 'missing', success: false, message: '订阅不存在' });
+            const remaining = await service.getAllSubscriptions();
+            expect(remaining.map((s) => s.id)).toEqual([ids[1]]);
+        });
+
+        it('批量续期应该为每个订阅记录续期历史', async () => {
+            const ids = await createMany(2);
+
+            const result = await service.bulkOperation({ action: 'renew', ids, periods: 1 });
+
+            expect(result.succeeded).toBe(2);
+            for (const id of ids) {
+                const history = await service.getRenewalHistory(id);
+                expect(history).toHaveLength(1);
+                expect(history[0].type).toBe('manual');
+            }
+        });
+    });
+
+    describe('ownership scoping', () => {
+        const alice = { userId: 'alice-id', username: 'alice', role: 'editor' as const };
+        const bob = { userId: 'bob-id', username: 'bob', role: 'editor' as const };
+        const admin = { userId: 'admin', username: 'admin', role: 'admin' as const };
+        const input = { name: 'Netflix', expiryDate: '2099-12-31T00:00:00.000Z', isActive: true, autoRenew: true };
+
+        it('普通用户只能看到和修改自己的订阅', async () => {
+            const aliceService = new SubscriptionService(mockEnv, alice);
+            const bobService = new SubscriptionService(mockEnv, bob);
+            const created = await aliceService.createSubscription(input);
+            const id = created.subscription!.id;
+
+            expect(created.subscription?.ownerId).toBe('alice-id');
+            expect(await bobService.getAllSubscriptions()).toEqual([]);
+            expect(await bobService.getSubscription(id)).toBeUndefined();
+            expect((await bobService.updateSubscription(id, { ...input, name: 'Hacked' })).success).toBe(false);
+            expect((await bobService.deleteSubscription(id)).success).toBe(false);
+            expect((await bobService.bulkOperation({ action: 'delete', ids: [id] })).failed).toBe(1);
+            expect(await aliceService.getAllSubscriptions()).toHaveLength(1);
+        });
+
+        it('管理员和系统调用可以看到全部订阅', async () => {
+            await new SubscriptionService(mockEnv, alice).createSubscription(input);
+            await new SubscriptionService(mockEnv, bob).createSubscription(input);
+
+            expect(await new SubscriptionService(mockEnv, admin).getAllSubscriptions()).toHaveLength(2);
+            expect(await service.getAllSubscriptions()).toHaveLength(2);
+        });
+    });
 });
@@ -0,0 +1,106 @@
+/**
+ * 两步验证服务与登录流程测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TwoFactorService } from '../../src/services/twoFactor';
+import { LEGACY_ADMIN_ID, UserService } from '../../src/services/user';
+import { handleApiRequest } from '../../src/routes/api';
+import { handleAdminRequest } from '../../src/routes/admin';
+import { generateTotp } from '../../src/utils/totp';
+import { clearConfigCache } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { Env } from '../../src/types';
+
+function login(body: Record<string, string>): Request {
+    return new Request('https://example.com/api/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+describe('Two-factor authentication', () => {
+    let env: Env;
+    let service: TwoFactorService;
+
+    const enable = async (now: Date): Promise<{ secret: string; recoveryCodes: string[] }> => {
+        const { secret } = await service.beginSetup(LEGACY_ADMIN_ID, 'root');
+        const { recoveryCodes } = await service.enable(LEGACY_ADMIN_ID, await generateTotp(secret!, now), now);
+        return { secret: secret!, recoveryCodes: recoveryCodes! };
+    };
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'rootpass', JWT_SECRET: 'x'.repeat(64) });
+        service = new TwoFactorService(env);
+    });
+
+    it('确认验证码后才启用并发放恢复码', async () => {
+        const now = new Date('2030-01-01T00:00:00Z');
+        const { secret, otpauthUri } = await service.beginSetup(LEGACY_ADMIN_ID, 'root');
+
+        expect(otpauthUri).toContain(`secret=${secret}`);
+        expect(await service.isEnabled(LEGACY_ADMIN_ID)).toBe(false);
+        expect((await service.enable(LEGACY_ADMIN_ID, '000000', now)).success).toBe(false);
+
+        const result = await service.enable(LEGACY_ADMIN_ID, await generateTotp(secret!, now), now);
+        expect(result.recoveryCodes).toHaveLength(10);
+        expect(await service.getStatus(LEGACY_ADMIN_ID)).toEqual({ enabled: true, recoveryCodesRemaining: 10 });
+        expect((await service.beginSetup(LEGACY_ADMIN_ID, 'root')).success).toBe(false);
+    });
+
+    it('同一验证码不能重复使用，恢复码只能使用一次', async () => {
+        const start = new Date('2030-01-01T00:00:00Z');
+        const { secret, recoveryCodes } = await enable(start);
+        const later = new Date(start.getTime() + 60_000);
+        const code = await generateTotp(secret, later);
+
+        expect(await service.verify(LEGACY_ADMIN_ID, code, later)).toBe(true);
+        expect(await service.verify(LEGACY_ADMIN_ID, code, later)).toBe(false);
+
+        expect(await service.verify(LEGACY_ADMIN_ID, recoveryCodes[0].toUpperCase())).toBe(true);
+        expect(await service.verify(LEGACY_ADMIN_ID, recoveryCodes[0])).toBe(false);
+        expect((await service.getStatus(LEGACY_ADMIN_ID)).recoveryCodesRemaining).toBe(9);
+    });
+
+    it('启用后登录需要验证码', async () => {
+        const { recoveryCodes } = await enable(new Date());
+
+        const withoutCode = await handleApiRequest(login({ username: 'root', password: 'rootpass' }), env);
+        expect(await withoutCode.json()).toMatchObject({ success: false, requiresTotp: true });
+        expect(withoutCode.headers.get('Set-Cookie')).toBeNull();
+
+        const wrongCode = await handleApiRequest(login({ username: 'root', password: 'rootpass', totpCode: '123456' }), env);
+        expect(await wrongCode.json()).toMatchObject({ success: false, message: '验证码错误' });
+
+        const withRecovery = await handleApiRequest(login({ username: 'root', password: 'rootpass', totpCode: recoveryCodes[1] }), env);
+        expect(await withRecovery.json()).toMatchObject({ success: true });
+    });
+
+    it('密码错误时不提示两步验证', async () => {
+        await enable(new Date());
+
+        const response = await handleApiRequest(login({ username: 'root', password: 'wrong' }), env);
+        expect(await response.json()).toEqual({ success: false, message: '用户名或密码错误' });
+    });
+
+    it('只读用户可以在账户页为自己启用两步验证', async () => {
+        await new UserService(env).createUser({ username: 'viewer', password: 'Str0ng-pass', role: 'viewer' });
+        const response = await handleApiRequest(login({ username: 'viewer', password: 'Str0ng-pass' }), env);
+        const cookie = `token=${/token=([^;]+)/.exec(response.headers.get('Set-Cookie') || '')![1]}`;
+
+        const page = await handleAdminRequest(new Request('https://example.com/admin/password', { headers: { Cookie: cookie } }), env);
+        expect(await page.text()).toContain('id="setupTwoFactorBtn"');
+
+        const setup = await handleApiRequest(new Request('https://example.com/api/2fa/setup', { method: 'POST', headers: { Cookie: cookie } }), env);
+        const { secret } = await setup.json() as { secret: string };
+        const enabled = await handleApiRequest(new Request('https://example.com/api/2fa/enable', {
+            method: 'POST',
+            headers: { Cookie: cookie, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ code: await generateTotp(secret, new Date()) }),
+        }), env);
+        expect(await enabled.json()).toMatchObject({ success: true });
+    });
+});
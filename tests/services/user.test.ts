@@ -0,0 +1,185 @@
+/**
+ * 用户服务与请求认证测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UserService, LEGACY_ADMIN_ID } from '../../src/services/user';
+import { authenticateRequest } from '../../src/middleware/auth';
+import { handleApiRequest } from '../../src/routes/api';
+import { generateJWT, JWTPayload } from '../../src/utils/auth';
+import { SessionService } from '../../src/services/session';
+import { clearConfigCache, getConfig } from '../../src/utils/config';
+import { getRepositories } from '../../src/storage';
+import { Config, Env } from '../../src/types';
+
+/**
+ * 签发带会话的登录 Token
+ */
+async function issueToken(env: Env, config: Config, username: string, claims: Pick<JWTPayload, 'sub' | 'role'> = {}): Promise<string> {
+    const session = await new SessionService(env).createSession(claims.sub || LEGACY_ADMIN_ID, username, new Request('https://example.com'));
+    return generateJWT(username, config.jwtSecret!, undefined, { ...claims, jti: session.id });
+}
+
+function requestWithToken(token: string, path = '/api/subscriptions', init: RequestInit = {}): Request {
+    return new Request(`https://example.com${path}`, { ...init, headers: { Cookie: `token=${token}`, ...init.headers } });
+}
+
+describe('User Service', () => {
+    let env: Env;
+    let service: UserService;
+    let config: Config;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'rootpass', JWT_SECRET: 'x'.repeat(64) });
+        config = await getConfig(env);
+        service = new UserService(env);
+    });
+
+    it('应该创建用户且不返回密码哈希', async () => {
+        const result = await service.createUser({ username: 'alice', password: 'alice-pass', role: 'editor' });
+
+        expect(result.success).toBe(true);
+        expect(result.user).not.toHaveProperty('passwordHash');
+        expect((await service.listUsers()).map((u) => u.username)).toEqual(['alice']);
+    });
+
+    it('应该拒绝重复用户名和管理员用户名', async () => {
+        await service.createUser({ username: 'alice', password: 'alice-pass', role: 'editor' });
+
+        expect((await service.createUser({ username: 'ALICE', password: 'another', role: 'editor' })).message).toBe('用户名已存在');
+        expect((await service.createUser({ username: 'root', password: 'another', role: 'admin' })).success).toBe(false);
+    });
+
+    it('停用的用户无法登录，已签发的 Token 立即失效', async () => {
+        const { user } = await service.createUser({ username: 'alice', password: 'alice-pass', role: 'editor' });
+        const token = await issueToken(env, config, 'alice', { sub: user!.id, role: 'editor' });
+
+        expect(await service.authenticate('alice', 'wrong')).toBeNull();
+        expect(await service.authenticate('alice', 'alice-pass')).not.toBeNull();
+        expect(await authenticateRequest(requestWithToken(token), env, config)).toMatchObject({
+            userId: user!.id,
+            username: 'alice',
+            role: 'editor',
+        });
+
+        await service.setDisabled(user!.id, true);
+
+        expect(await service.authenticate('alice', 'alice-pass')).toBeNull();
+        expect(await authenticateRequest(requestWithToken(token), env, config)).toBeNull();
+    });
+
+    it('不含用户 ID 的 Token 视为配置中的管理员', async () => {
+        const token = await issueToken(env, config, 'root');
+        const stale = await issueToken(env, config, 'old-admin-name');
+
+        expect(await authenticateRequest(requestWithToken(token), env, config)).toMatchObject({ userId: LEGACY_ADMIN_ID, role: 'admin' });
+        expect(await authenticateRequest(requestWithToken(stale), env, config)).toBeNull();
+    });
+
+    it('角色变更后已签发的 Token 失效', async () => {
+        const { user } = await service.createUser({ username: 'alice', password: 'alice-pass', role: 'editor' });
+        const token = await issueToken(env, config, 'alice', { sub: user!.id, role: 'editor' });
+
+        await service.setRole(user!.id, 'viewer');
+
+        expect(await authenticateRequest(requestWithToken(token), env, config)).toBeNull();
+    });
+
+    it('旧版本的 member 角色按 editor 处理', async () => {
+        const now = new Date().toISOString();
+        await getRepositories(env).users.create({
+            id: 'legacy', username: 'legacy', passwordHash: 'x', role: 'member' as never, disabled: false, createdAt: now, updatedAt: now,
+        });
+        const token = await issueToken(env, config, 'legacy', { sub: 'legacy', role: 'editor' });
+
+        expect(await authenticateRequest(requestWithToken(token), env, config)).toMatchObject({ role: 'editor' });
+    });
+
+    it('用户可以使用自己的密码登录', async () => {
+        await service.createUser({ username: 'alice', password: 'alice-pass', role: 'editor' });
+
+        const response = await handleApiRequest(new Request('https://example.com/api/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username: 'alice', password: 'alice-pass' }),
+        }), env);
+
+        expect(await response.json()).toMatchObject({ success: true });
+        expect(response.headers.get('Set-Cookie')).toContain('token=');
+    });
+});
+
+describe('Role-based access control', () => {
+    let env: Env;
+    let config: Config;
+    const tokens: Record<string, string> = {};
+
+    const call = async (role: string, path: string, method = 'GET', body?: unknown): Promise<number> => {
+        const init: RequestInit = { method };
+        if (body !== undefined) {
+            init.headers = { 'Content-Type': 'application/json' };
+            init.body = JSON.stringify(body);
+        }
+        return (await handleApiRequest(requestWithToken(tokens[role], path, init), env)).status;
+    };
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'rootpass', JWT_SECRET: 'x'.repeat(64) });
+        config = await getConfig(env);
+
+        const service = new UserService(env);
+        for (const role of ['viewer', 'editor'] as const) {
+            const { user } = await service.createUser({ username: role, password: `${role}-pass`, role });
+            tokens[role] = await issueToken(env, config, role, { sub: user!.id, role });
+        }
+        tokens.admin = await issueToken(env, config, 'root', { role: 'admin' });
+    });
+
+    it('viewer 只能读取订阅', async () => {
+        expect(await call('viewer', '/api/me')).toBe(200);
+        expect(await call('viewer', '/api/subscriptions')).toBe(200);
+        expect(await call('viewer', '/api/stats')).toBe(200);
+        expect(await call('viewer', '/api/subscriptions', 'POST', { name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z' })).toBe(403);
+        expect(await call('viewer', '/api/subscriptions/abc', 'DELETE')).toBe(403);
+        expect(await call('viewer', '/api/subscriptions/bulk', 'POST', { action: 'delete', ids: ['abc'] })).toBe(403);
+        expect(await call('viewer', '/api/test-notification', 'POST', { type: 'telegram' })).toBe(403);
+    });
+
+    it('editor 可以增删改订阅，但不能访问配置、失败日志和备份', async () => {
+        expect(await call('editor', '/api/subscriptions', 'POST', { name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z' })).toBe(201);
+        for (const path of ['/api/config', '/api/failure-logs', '/api/backup', '/api/users']) {
+            expect(await call('editor', path)).toBe(403);
+        }
+        expect(await call('editor', '/api/config', 'POST', {})).toBe(403);
+        expect(await call('editor', '/api/restore', 'POST', {})).toBe(403);
+    });
+
+    it('admin 可以访问全部接口并修改用户角色', async () => {
+        expect(await call('admin', '/api/config')).toBe(200);
+        expect(await call('admin', '/api/failure-logs')).toBe(200);
+        expect(await call('admin', '/api/backup')).toBe(200);
+
+        const users = await new UserService(env).listUsers();
+        const viewer = users.find((u) => u.username === 'viewer')!;
+        expect(await call('admin', `/api/users/${viewer.id}/role`, 'POST', { role: 'editor' })).toBe(200);
+        expect(await call('admin', `/api/users/${viewer.id}/role`, 'POST', { role: 'owner' })).toBe(400);
+        expect((await new UserService(env).getUser(viewer.id))!.role).toBe('editor');
+    });
+
+    it('管理员可以把订阅指派给 viewer', async () => {
+        const viewer = (await new UserService(env).listUsers()).find((u) => u.username === 'viewer')!;
+        const response = await handleApiRequest(requestWithToken(tokens.admin, '/api/subscriptions', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: 'Netflix', expiryDate: '2030-01-01T00:00:00.000Z', ownerId: viewer.id }),
+        }), env);
+        expect(response.status).toBe(201);
+
+        const visible = await handleApiRequest(requestWithToken(tokens.viewer), env);
+        expect((await visible.json() as { name: string }[]).map((s) => s.name)).toEqual(['Netflix']);
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * 存储层测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    KVSubscriptionRepository,
+    createSubscriptionRepository,
+    getStorageBackend,
+    migrateSubscriptions,
+} from '../../src/storage';
+import { Env, Subscription, RenewalRecord } from '../../src/types';
+
+function createMockKV() {
+    const store = new Map<string, string>();
+
+    return {
+        store,
+        async get(key: string): Promise<string | null> {
+            return store.get(key) || null;
+        },
+        async put(key: string, value: string): Promise<void> {
+            store.set(key, value);
+        },
+        async delete(key: string): Promise<void> {
+            store.delete(key);
+        },
+    };
+}
+
+function makeSubscription(id: string): Subscription {
+    return {
+        id,
+        name: 'Sub ' + id,
+        expiryDate: '2099-01-01T00:00:00.000Z',
+        isActive: true,
+        autoRenew: false,
+    };
+}
+
+function makeRecord(id: string, subscriptionId: string): RenewalRecord {
+    return {
+        id,
+        subscriptionId,
+        type: 'manual',
+        oldExpiryDate: '2098-01-01T00:00:00.000Z',
+        newExpiryDate: '2099-01-01T00:00:00.000Z',
+        renewedAt: '2098-01-01T00:00:00.000Z',
+    };
+}
+
+describe('Storage', () => {
+    describe('KVSubscriptionRepository', () => {
+        let kv: ReturnType<typeof createMockKV>;
+        let repository: KVSubscriptionRepository;
+
+        beforeEach(() => {
+            kv = createMockKV();
+            repository = new KVSubscriptionRepository(kv);
+        });
+
+        it('应该保持原有的 KV 键布局', async () => {
+            await repository.create(makeSubscription('a'));
+            await repository.create(makeSubscription('b'));
+            await repository.appendHistory(makeRecord('r1', 'a'));
+
+            expect(JSON.parse(kv.store.get('subscriptions:index')!)).toEqual(['a', 'b']);
+            expect(kv.store.has('subscription:a')).toBe(true);
+            expect(JSON.parse(kv.store.get('subscription:a:history')!)).toHaveLength(1);
+        });
+
+        it('删除时应该只返回实际存在的 ID', async () => {
+            await repository.create(makeSubscription('a'));
+            await repository.create(makeSubscription('b'));
+
+            expect(await repository.delete(['a', 'missing'])).toEqual(['a']);
+            expect((await repository.list()).map((s) => s.id)).toEqual(['b']);
+            expect(await repository.get('a')).toBeNull();
+        });
+
+        it('应该迁移旧的单键数据格式', async () => {
+            await kv.put('subscriptions', JSON.stringify([makeSubscription('old')]));
+
+            expect((await repository.get('old'))?.name).toBe('Sub old');
+            expect(JSON.parse(kv.store.get('subscriptions:index')!)).toEqual(['old']);
+        });
+    });
+
+    describe('createSubscriptionRepository', () => {
+        it('默认使用 KV，未绑定 D1 时应该报错', () => {
+            const env: Env = { SUBSCRIPTIONS_KV: createMockKV(), STORAGE_BACKEND: 'd1' };
+
+            expect(getStorageBackend({ SUBSCRIPTIONS_KV: createMockKV() })).toBe('kv');
+            expect(getStorageBackend(env)).toBe('d1');
+            expect(() => createSubscriptionRepository(env, 'd1')).toThrow('SUBSCRIPTIONS_DB');
+        });
+    });
+
+    describe('migrateSubscriptions', () => {
+        let source: KVSubscriptionRepository;
+        let target: KVSubscriptionRepository;
+
+        beforeEach(async () => {
+            source = new KVSubscriptionRepository(createMockKV());
+            target = new KVSubscriptionRepository(createMockKV());
+            await source.create(makeSubscription('a'));
+            await source.create(makeSubscription('b'));
+            await source.appendHistory(makeRecord('r1', 'a'));
+            await source.appendHistory(makeRecord('r2', 'a'));
+        });
+
+        it('应该复制订阅和续期记录并保持顺序', async () => {
+            const result = await migrateSubscriptions(source, target);
+
+            expect(result).toMatchObject({ total: 2, migrated: 2, skipped: 0, historyRecords: 2 });
+            expect((await target.list()).map((s) => s.id)).toEqual(['a', 'b']);
+            expect((await target.getHistory('a')).map((r) => r.id)).toEqual(['r1', 'r2']);
+        });
+
+        it('重复迁移时应该跳过已存在的订阅，覆盖时不重复写入续期记录', async () => {
+            await migrateSubscriptions(source, target);
+
+            expect(await migrateSubscriptions(source, target)).toMatchObject({ migrated: 0, skipped: 2 });
+
+            const overwritten = await migrateSubscriptions(source, target, { overwrite: true });
+            expect(overwritten).toMatchObject({ migrated: 2, historyRecords: 0 });
+            expect(await target.getHistory('a')).toHaveLength(2);
+            expect(await target.list()).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * 内存存储测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryRepositories, getRepositories, Repositories } from '../../src/storage';
+import { checkRateLimit } from '../../src/middleware/rateLimit';
+import { getRawConfig, saveRawConfig } from '../../src/utils/config';
+import { Env } from '../../src/types';
+
+describe('Memory Storage', () => {
+    let repositories: Repositories;
+
+    beforeEach(() => {
+        repositories = createMemoryRepositories();
+    });
+
+    it('返回值应该是副本，修改不影响已存储的数据', async () => {
+        await repositories.subscriptions.create({
+            id: 'a', name: 'Original', expiryDate: '2099-01-01T00:00:00.000Z', isActive: true, autoRenew: false,
+        });
+
+        const loaded = await repositories.subscriptions.get('a');
+        loaded!.name = 'Changed';
+
+        expect((await repositories.subscriptions.get('a'))!.name).toBe('Original');
+    });
+
+    it('失败日志应该按时间倒序返回并限制数量', async () => {
+        for (const title of ['first', 'second', 'third']) {
+            await repositories.failureLogs.append({ timestamp: '', title, failures: [], successes: [] });
+        }
+
+        const logs = await repositories.failureLogs.list(2);
+
+        expect(logs.map((l) => l.title)).toEqual(['third', 'second']);
+        expect(logs[0].id).toBeGreaterThan(logs[1].id);
+    });
+
+    it('速率限制计数应该在同一时间窗口内累加', async () => {
+        const config = { maxRequests: 2, windowMs: 60000 };
+
+        await checkRateLimit(repositories.rateLimits, '1.2.3.4', 'login', config);
+        await checkRateLimit(repositories.rateLimits, '1.2.3.4', 'login', config);
+        const third = await checkRateLimit(repositories.rateLimits, '1.2.3.4', 'login', config);
+        const other = await checkRateLimit(repositories.rateLimits, '5.6.7.8', 'login', config);
+
+        expect(third).toMatchObject({ limited: true, current: 3, remaining: 0 });
+        expect(other.limited).toBe(false);
+    });
+
+    it('STORAGE_BACKEND 为 memory 时不需要绑定 KV，且每个 env 互相隔离', async () => {
+        const env: Env = { STORAGE_BACKEND: 'memory' };
+        const otherEnv: Env = { STORAGE_BACKEND: 'memory' };
+
+        await saveRawConfig(env, { TIMEZONE: 'Asia/Shanghai' });
+
+        expect(getRepositories(env)).toBe(getRepositories(env));
+        expect(await getRawConfig(env)).toEqual({ TIMEZONE: 'Asia/Shanghai' });
+        expect(await getRawConfig(otherEnv)).toEqual({});
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * 敏感配置加密测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    clearConfigCache,
+    getConfig,
+    getRawConfig,
+    saveRawConfig,
+    getConfigEncryptionStatus,
+    rotateConfigEncryption,
+    ConfigEncryptionError,
+} from '../../src/utils/config';
+import { bytesToBase64 } from '../../src/utils/crypto';
+import { getRepositories } from '../../src/storage';
+import { Env } from '../../src/types';
+
+const randomKey = (): string => bytesToBase64(crypto.getRandomValues(new Uint8Array(32)));
+
+describe('Config Encryption', () => {
+    let env: Env;
+
+    beforeEach(() => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory', CONFIG_ENCRYPTION_KEY: randomKey() };
+    });
+
+    it('敏感字段加密保存，读取时透明解密', async () => {
+        await saveRawConfig(env, { TIMEZONE: 'Asia/Shanghai', TG_BOT_TOKEN: 'bot-token', JWT_SECRET: 'x'.repeat(64) });
+
+        const stored = await getRepositories(env).config.get();
+        expect(stored.TIMEZONE).toBe('Asia/Shanghai');
+        expect(stored).not.toHaveProperty('TG_BOT_TOKEN');
+        expect(JSON.stringify(stored)).not.toContain('bot-token');
+
+        expect((await getRawConfig(env)).TG_BOT_TOKEN).toBe('bot-token');
+        expect((await getConfig(env)).telegram?.botToken).toBe('bot-token');
+    });
+
+    it('轮换主密钥后用新密钥重新加密', async () => {
+        await saveRawConfig(env, { RESEND_API_KEY: 're_123', JWT_SECRET: 'x'.repeat(64) });
+        const previous = await getConfigEncryptionStatus(env);
+
+        // 内存存储按 env 对象隔离，这里直接修改绑定
+        env.CONFIG_ENCRYPTION_KEY_PREVIOUS = env.CONFIG_ENCRYPTION_KEY;
+        env.CONFIG_ENCRYPTION_KEY = randomKey();
+        const rotated = await rotateConfigEncryption(env);
+
+        expect(rotated.storedKeyId).toBe(rotated.keyId);
+        expect(rotated.storedKeyId).not.toBe(previous.keyId);
+        delete env.CONFIG_ENCRYPTION_KEY_PREVIOUS;
+        expect((await getRawConfig(env)).RESEND_API_KEY).toBe('re_123');
+    });
+
+    it('重新加密会加密旧版本的明文配置', async () => {
+        await getRepositories(env).config.save({ WECHAT_OA_APPSECRET: 'plain-secret' });
+        expect((await getConfigEncryptionStatus(env)).plaintextKeys).toEqual(['WECHAT_OA_APPSECRET']);
+
+        const status = await rotateConfigEncryption(env);
+        expect(status.plaintextKeys).toEqual([]);
+        expect((await getRawConfig(env)).WECHAT_OA_APPSECRET).toBe('plain-secret');
+    });
+
+    it('缺少主密钥时拒绝回退为默认配置', async () => {
+        await saveRawConfig(env, { ADMIN_PASSWORD: 'HASHED:x', JWT_SECRET: 'x'.repeat(64) });
+        clearConfigCache();
+
+        const key = env.CONFIG_ENCRYPTION_KEY;
+        delete env.CONFIG_ENCRYPTION_KEY;
+        await expect(getConfig(env)).rejects.toBeInstanceOf(ConfigEncryptionError);
+        env.CONFIG_ENCRYPTION_KEY = randomKey();
+        await expect(getRawConfig(env)).rejects.toThrow('CONFIG_ENCRYPTION_KEY');
+        env.CONFIG_ENCRYPTION_KEY = key;
+        expect((await getRawConfig(env)).ADMIN_PASSWORD).toBe('HASHED:x');
+    });
+
+    it('拒绝长度错误的主密钥', async () => {
+        env.CONFIG_ENCRYPTION_KEY = 'too-short';
+        await expect(saveRawConfig(env, {})).rejects.toThrow('32 字节');
+    });
+});
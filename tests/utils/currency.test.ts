@@ -0,0 +1,71 @@
+/**
+ * 货币工具测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convertToBaseCurrency,
+    formatMoney,
+    formatPriceWithConversion,
+    normalizeExchangeRates,
+} from '../../src/utils/currency';
+import { Config } from '../../src/types';
+
+describe('Currency Utils', () => {
+    const config: Config = {
+        enabledNotifiers: [],
+        baseCurrency: 'CNY',
+        exchangeRates: { USD: 7.2, EUR: 7.8 },
+    };
+
+    describe('convertToBaseCurrency', () => {
+        it('相同货币应该原样返回', () => {
+            expect(convertToBaseCurrency(10, 'CNY', 'CNY', {})).toBe(10);
+        });
+
+        it('应该按汇率换算为基础货币', () => {
+            expect(convertToBaseCurrency(10, 'USD', 'CNY', { USD: 7.2 })).toBeCloseTo(72);
+        });
+
+        it('缺少汇率时应该返回 null', () => {
+            expect(convertToBaseCurrency(10, 'JPY', 'CNY', { USD: 7.2 })).toBeNull();
+        });
+    });
+
+    describe('formatMoney', () => {
+        it('应该使用已知货币符号', () => {
+            expect(formatMoney(9.9, 'USD')).toBe('$9.90');
+        });
+
+        it('未知货币应该使用货币代码', () => {
+            expect(formatMoney(5, 'MYR')).toBe('MYR 5.00');
+        });
+    });
+
+    describe('formatPriceWithConversion', () => {
+        it('基础货币金额不附带换算', () => {
+            expect(formatPriceWithConversion(30, undefined, config)).toBe('¥30.00');
+        });
+
+        it('外币金额应该附带换算后的基础货币金额', () => {
+            expect(formatPriceWithConversion(10, 'USD', config)).toBe('$10.00（≈ ¥72.00）');
+        });
+
+        it('缺少汇率时应该给出提示', () => {
+            expect(formatPriceWithConversion(10, 'GBP', config)).toContain('未设置 GBP 汇率');
+        });
+    });
+
+    describe('normalizeExchangeRates', () => {
+        it('应该过滤非法的货币代码和汇率', () => {
+            expect(
+                normalizeExchangeRates({ USD: 7.2, usd: 7, EUR: '7.8', JPY: 0, GBP: 'abc' })
+            ).toEqual({ USD: 7.2, EUR: 7.8 });
+        });
+
+        it('非对象输入应该返回空表', () => {
+            expect(normalizeExchangeRates(null)).toEqual({});
+            expect(normalizeExchangeRates(['USD'])).toEqual({});
+        });
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * JWS 签名校验测试
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { verifyJws, base64UrlEncode, Jwks } from '../../src/utils/jws';
+
+const encode = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+describe('JWS', () => {
+    let keyPair: CryptoKeyPair;
+    let jwks: Jwks;
+
+    const sign = async (header: Record<string, unknown>, payload: unknown): Promise<string> => {
+        const input = `${encode(header)}.${encode(payload)}`;
+        const signature = await crypto.subtle.sign(
+            { name: 'ECDSA', hash: 'SHA-256' },
+            keyPair.privateKey,
+            new TextEncoder().encode(input)
+        );
+        return `${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+    };
+
+    beforeAll(async () => {
+        keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+        jwks = { keys: [{ ...(await crypto.subtle.exportKey('jwk', keyPair.publicKey)), kid: 'ec-1' }] };
+    });
+
+    it('应该校验 ES256 签名并返回载荷', async () => {
+        const token = await sign({ alg: 'ES256', kid: 'ec-1' }, { sub: 'alice' });
+        expect(await verifyJws(token, jwks)).toEqual({ sub: 'alice' });
+    });
+
+    it('应该拒绝被篡改的载荷', async () => {
+        const [header, , signature] = (await sign({ alg: 'ES256', kid: 'ec-1' }, { sub: 'alice' })).split('.');
+        await expect(verifyJws(`${header}.${encode({ sub: 'admin' })}.${signature}`, jwks)).rejects.toThrow('签名无效');
+    });
+
+    it('应该拒绝 none、HS256 与未知的 kid', async () => {
+        await expect(verifyJws(`${encode({ alg: 'none' })}.${encode({ sub: 'x' })}.`, jwks)).rejects.toThrow('不支持');
+        await expect(verifyJws(await sign({ alg: 'HS256' }, { sub: 'x' }), jwks)).rejects.toThrow('不支持');
+        await expect(verifyJws(await sign({ alg: 'ES256', kid: 'other' }, { sub: 'x' }), jwks)).rejects.toThrow('找不到');
+    });
+});
@@ -0,0 +1,90 @@
+/**
+ * 密码强度策略与管理员密码哈希迁移测试
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { checkPasswordStrength } from '../../src/utils/password';
+import { clearConfigCache, getRawConfig, verifyAdminPassword } from '../../src/utils/config';
+import { handleApiRequest } from '../../src/routes/api';
+import { getRepositories } from '../../src/storage';
+import { Env } from '../../src/types';
+
+function post(path: string, body: unknown, cookie?: string): Request {
+    return new Request(`https://example.com${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+        body: JSON.stringify(body),
+    });
+}
+
+function cookieOf(response: Response): string {
+    return (response.headers.get('Set-Cookie') || '').split(';')[0];
+}
+
+describe('Password policy', () => {
+    it('应该拒绝过短、单一字符种类、常见和包含用户名的密码', () => {
+        expect(checkPasswordStrength('Ab1!')).toContain('至少需要 8 个字符');
+        expect(checkPasswordStrength('abcdefghij')).toContain('至少两种');
+        expect(checkPasswordStrength('Password123')).toBe('密码过于常见，请更换');
+        expect(checkPasswordStrength('alice-2024', 'Alice')).toBe('密码不能包含用户名');
+        expect(checkPasswordStrength('correct-horse-42', 'alice')).toBeNull();
+    });
+});
+
+describe('Admin password migration', () => {
+    let env: Env;
+
+    beforeEach(async () => {
+        clearConfigCache();
+        env = { STORAGE_BACKEND: 'memory' };
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'root', ADMIN_PASSWORD: 'Plain-text-42', JWT_SECRET: 'x'.repeat(64) });
+    });
+
+    it('明文密码在登录成功后升级为哈希', async () => {
+        const response = await handleApiRequest(post('/api/login', { username: 'root', password: 'Plain-text-42' }), env);
+        expect(await response.json()).toEqual({ success: true, mustChangePassword: false });
+
+        const stored = (await getRawConfig(env)).ADMIN_PASSWORD as string;
+        expect(stored.startsWith('HASHED:')).toBe(true);
+        expect(await verifyAdminPassword('Plain-text-42', stored)).toBe(true);
+
+        clearConfigCache();
+        const again = await handleApiRequest(post('/api/login', { username: 'root', password: 'Plain-text-42' }), env);
+        expect(await again.json()).toMatchObject({ success: true });
+    });
+
+    it('保存配置时对新密码做哈希', async () => {
+        const login = await handleApiRequest(post('/api/login', { username: 'root', password: 'Plain-text-42' }), env);
+        const response = await handleApiRequest(post('/api/config', { ADMIN_PASSWORD: 'Another-pass-7' }, cookieOf(login)), env);
+        expect(response.status).toBe(200);
+
+        const stored = (await getRawConfig(env)).ADMIN_PASSWORD as string;
+        expect(stored).not.toContain('Another-pass-7');
+        expect(await verifyAdminPassword('Another-pass-7', stored)).toBe(true);
+    });
+
+    it('默认密码登录后必须先修改密码', async () => {
+        await getRepositories(env).config.save({ ADMIN_USERNAME: 'admin', JWT_SECRET: 'x'.repeat(64) });
+        clearConfigCache();
+
+        const login = await handleApiRequest(post('/api/login', { username: 'admin', password: 'password' }), env);
+        expect(await login.json()).toMatchObject({ success: true, mustChangePassword: true });
+        const cookie = cookieOf(login);
+        const get = (path: string): Promise<Response> =>
+            handleApiRequest(new Request(`https://example.com${path}`, { headers: { Cookie: cookie } }), env);
+
+        expect((await get('/api/subscriptions')).status).toBe(403);
+        expect((await get('/api/me')).status).toBe(200);
+
+        const weak = await handleApiRequest(post('/api/password', { currentPassword: 'password', newPassword: 'admin-123' }, cookie), env);
+        expect(weak.status).toBe(400);
+        const wrong = await handleApiRequest(post('/api/password', { currentPassword: 'nope', newPassword: 'Brand-new-99' }, cookie), env);
+        expect(await wrong.json()).toMatchObject({ message: '当前密码错误' });
+
+        const changed = await handleApiRequest(post('/api/password', { currentPassword: 'password', newPassword: 'Brand-new-99' }, cookie), env);
+        expect(changed.status).toBe(200);
+        const fresh = cookieOf(changed);
+        const list = await handleApiRequest(new Request('https://example.com/api/subscriptions', { headers: { Cookie: fresh } }), env);
+        expect(list.status).toBe(200);
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * TOTP 测试（RFC 4226 / RFC 6238 附录中的测试向量）
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    base32Decode,
+    base32Encode,
+    buildOtpauthUri,
+    generateHotp,
+    generateTotp,
+    generateTotpSecret,
+    verifyTotp,
+} from '../../src/utils/totp';
+
+// ASCII "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+    it('Base32 编解码可以往返', () => {
+        const bytes = new TextEncoder().encode('12345678901234567890');
+        expect(base32Encode(bytes)).toBe(RFC_SECRET);
+        expect(new TextDecoder().decode(base32Decode(RFC_SECRET.toLowerCase() + '===='))).toBe('12345678901234567890');
+        expect(() => base32Decode('A1')).toThrow();
+    });
+
+    it('HOTP 符合 RFC 4226 测试向量', async () => {
+        const expected = ['755224', '287082', '359152', '969429', '338314'];
+        for (let counter = 0; counter < expected.length; counter++) {
+            expect(await generateHotp(RFC_SECRET, counter)).toBe(expected[counter]);
+        }
+    });
+
+    it('TOTP 符合 RFC 6238 测试向量', async () => {
+        const vectors: [number, string][] = [
+            [59, '94287082'],
+            [1111111109, '07081804'],
+            [1111111111, '14050471'],
+            [1234567890, '89005924'],
+            [2000000000, '69279037'],
+            [20000000000, '65353130'],
+        ];
+        for (const [seconds, code] of vectors) {
+            expect(await generateTotp(RFC_SECRET, new Date(seconds * 1000), { digits: 8 })).toBe(code);
+        }
+    });
+
+    it('校验允许前后一个时间步的偏差', async () => {
+        const secret = generateTotpSecret();
+        const now = new Date('2030-01-01T00:00:00Z');
+        const previous = await generateTotp(secret, new Date(now.getTime() - 30_000));
+        const old = await generateTotp(secret, new Date(now.getTime() - 90_000));
+
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(await verifyTotp(secret, await generateTotp(secret, now), now)).toBe(Math.floor(now.getTime() / 30_000));
+        expect(await verifyTotp(secret, previous, now)).not.toBeNull();
+        expect(await verifyTotp(secret, old, now)).toBeNull();
+        expect(await verifyTotp(secret, 'abcdef', now)).toBeNull();
+    });
+
+    it('生成 otpauth 地址', () => {
+        expect(buildOtpauthUri('ABC', 'alice', 'Subs')).toBe(
+            'otpauth://totp/Subs%3Aalice?secret=ABC&issuer=Subs&algorithm=SHA1&digits=6&period=30'
+        );
+    });
+});
@@ -7,6 +7,7 @@ import {
     SubscriptionSchema,
     LoginSchema,
     ConfigSchema,
+    BulkOperationSchema,
 } from '../../src/utils/validation';
 
 describe('Validation Schemas', () => {
@@ -53,6 +54,16 @@ describe('Validation Schemas', () => {
             const result = SubscriptionSchema.safeParse(invalidData);
             expect(result.success).toBe(false);
         });
+
+        it('应该校验分阶段提醒的天数与渠道', () => {
+            const base = { name: 'Netflix', expiryDate: '2024-12-31T00:00:00.000Z' };
+            const stages = [{ daysBefore: 30, channels: ['email'] }, { daysBefore: 0 }];
+
+            expect(SubscriptionSchema.safeParse({ ...base, reminderStages: stages }).success).toBe(true);
+            expect(SubscriptionSchema.safeParse({ ...base, reminderStages: [{ daysBefore: 7 }, { daysBefore: 7 }] }).success).toBe(false);
+            expect(SubscriptionSchema.safeParse({ ...base, reminderStages: [{ daysBefore: 7, channels: ['pigeon'] }] }).success).toBe(false);
+            expect(SubscriptionSchema.safeParse({ ...base, reminderStages: [{ daysBefore: -1 }] }).success).toBe(false);
+        });
     });
 
     describe('LoginSchema', () => {
@@ -81,7 +92,7 @@ describe('Validation Schemas', () => {
         it('应该验证有效的配置数据', () => {
             const validData = {
                 ADMIN_USERNAME: 'admin',
-                ADMIN_PASSWORD: 'password123',
+                ADMIN_PASSWORD: 'Str0ng-pass',
                 TIMEZONE: 'Asia/Shanghai',
             };
 
@@ -97,5 +108,23 @@ describe('Validation Schemas', () => {
             const result = ConfigSchema.safeParse(invalidData);
             expect(result.success).toBe(false);
         });
+
+        it('应该拒绝不符合强度策略的密码', () => {
+            for (const password of ['abcdefgh', '12345678', 'password123']) {
+                expect(ConfigSchema.safeParse({ ADMIN_PASSWORD: password }).success).toBe(false);
+            }
+        });
+    });
+
+    describe('BulkOperationSchema', () => {
+        it('应该要求对应操作的参数', () => {
+            expect(BulkOperationSchema.safeParse({ action: 'setReminderDays', ids: ['a'] }).success).toBe(false);
+            expect(BulkOperationSchema.safeParse({ action: 'setReminderDays', ids: ['a'], reminderDays: 3 }).success).toBe(true);
+        });
+
+        it('应该拒绝空的 ID 列表和未知操作', () => {
+            expect(BulkOperationSchema.safeParse({ action: 'delete', ids: [] }).success).toBe(false);
+            expect(BulkOperationSchema.safeParse({ action: 'archive', ids: ['a'] }).success).toBe(false);
+        });
     });
 });